@@ -1,16 +1,20 @@
 import { readFileSync, writeFileSync } from 'node:fs';
 import { dirname, join } from 'node:path';
 import { fileURLToPath } from 'node:url';
+import { SIMD_PROBE } from './src/simd.js';
 
 const NAME = 'hashbuf_blake3';
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
-// 1. Read WASM binary and encode as base64
-const wasmPath = join(__dirname, 'src', 'wasm-bundler', `${NAME}_bg.wasm`);
-const wasmBase64 = readFileSync(wasmPath).toString('base64');
+// 1. Read both WASM binaries and write each to a module that instantiates it
+// from inlined base64. The entries import only the one the runtime can run,
+// so bundlers split them into separate chunks and load a single binary
+function writeInlineModule(build: string): void {
+    const wasmPath = join(__dirname, 'src', 'wasm-bundler', `${build}.wasm`);
+    const wasmBase64 = readFileSync(wasmPath).toString('base64');
 
-const wasmJsCode = `
+    const wasmJsCode = `
 import * as ${NAME}_bg from './${NAME}_bg.js';
 const wasmBase64 = "${wasmBase64}";
 const wasmBinary = Uint8Array.from(atob(wasmBase64), c => c.charCodeAt(0));
@@ -20,20 +24,26 @@ const wasm = new WebAssembly.Instance(wasmModule, importObject).exports;
 export { wasm };
 `;
 
-const wasmJsOutputPath = join(__dirname, 'src', 'wasm-inline', `${NAME}_bg.wasm.js`);
-writeFileSync(wasmJsOutputPath, wasmJsCode);
-console.log(`Written: ${wasmJsOutputPath}`);
+    const wasmJsOutputPath = join(__dirname, 'src', 'wasm-inline', `${build}.wasm.js`);
+    writeFileSync(wasmJsOutputPath, wasmJsCode);
+    console.log(`Written: ${wasmJsOutputPath}`);
 
-// 2. Write .d.ts for the WASM JS file
-const wasmDTsCode = `declare const wasm: string;
+    // 2. Write .d.ts for the WASM JS file
+    const wasmDTsCode = `declare const wasm: Record<string, unknown>;
 export { wasm };
 `;
 
-const wasmDTsOutputPath = join(__dirname, 'src', 'wasm-inline', `${NAME}_bg.wasm.d.ts`);
-writeFileSync(wasmDTsOutputPath, wasmDTsCode);
-console.log(`Written: ${wasmDTsOutputPath}`);
+    const wasmDTsOutputPath = join(__dirname, 'src', 'wasm-inline', `${build}.wasm.d.ts`);
+    writeFileSync(wasmDTsOutputPath, wasmDTsCode);
+    console.log(`Written: ${wasmDTsOutputPath}`);
+}
+
+writeInlineModule(`${NAME}_bg`);
+writeInlineModule(`${NAME}_simd_bg`);
 
-// 3. Rewrite the entry JS to use the inline WASM module
+// 3. Rewrite the self-initializing glue entry to use the inline WASM module,
+// SIMD where the probe validates, for the parallel hashing workers (the main
+// entry uses src/instance.ts)
 const originalFilePath = join(__dirname, 'src', 'wasm-bundler', `${NAME}.js`);
 const originalCode = readFileSync(originalFilePath, 'utf-8');
 
@@ -52,8 +62,24 @@ if (matches?.some((line) => line !== expectedImport)) {
     );
 }
 
-const modifiedCode = originalCode.replace(expectedImport, `import { wasm } from "./${NAME}_bg.wasm.js";`);
+const modifiedCode = originalCode.replace(
+    expectedImport,
+    `const { wasm } = WebAssembly.validate(new Uint8Array([${SIMD_PROBE.join(', ')}]))
+    ? await import("./${NAME}_simd_bg.wasm.js")
+    : await import("./${NAME}_bg.wasm.js");`
+);
 
 const outputFilePath = join(__dirname, 'src', 'wasm-inline', `${NAME}.js`);
 writeFileSync(outputFilePath, modifiedCode);
 console.log(`Written: ${outputFilePath}`);
+
+// 4. Declare the glue module on its own, for the API shared with the async
+// entry, which instantiates the separate .wasm asset and hands it over
+const entryDTsPath = join(__dirname, 'src', 'wasm-bundler', `${NAME}.d.ts`);
+const glueDTsCode = `${readFileSync(entryDTsPath, 'utf-8')}
+export function __wbg_set_wasm(exports: object): void;
+`;
+
+const glueDTsOutputPath = join(__dirname, 'src', 'wasm-inline', `${NAME}_bg.d.ts`);
+writeFileSync(glueDTsOutputPath, glueDTsCode);
+console.log(`Written: ${glueDTsOutputPath}`);
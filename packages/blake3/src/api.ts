@@ -0,0 +1,811 @@
+import type {
+    BufferedHasher,
+    DigestEncoding,
+    HashAlgorithm,
+    HashInput,
+    HashStreamSource,
+    WasmBackend
+} from '@hashbuf/types';
+import {
+    assertDigestEncoding,
+    assertNonNegativeInteger,
+    chunksOf,
+    hashChunks,
+    packInputs,
+    registerAlgorithm,
+    toBinary,
+    toBytes
+} from '@hashbuf/types';
+import { setInnerOf } from './internal.js';
+import {
+    blake3_bao_decode,
+    blake3_bao_decode_outboard,
+    blake3_bao_decode_slice,
+    blake3_bao_encode,
+    blake3_bao_extract_slice,
+    blake3_bao_extract_slice_outboard,
+    blake3_bao_outboard,
+    blake3_base64,
+    blake3_base64_str,
+    blake3_base64url,
+    blake3_base64url_str,
+    blake3_derive_key,
+    blake3_derive_key_str,
+    blake3_derive_key_xof,
+    blake3_derive_key_xof_str,
+    blake3_hash,
+    blake3_hash_many,
+    blake3_hash_str,
+    blake3_hex,
+    blake3_hex_str,
+    blake3_mac,
+    blake3_mac_str,
+    blake3_xof,
+    blake3_xof_str,
+    double_blake3_hash,
+    double_blake3_hash_str,
+    timing_safe_equal,
+    timing_safe_equal_hex,
+    Blake3BaoDecoder as WasmBlake3BaoDecoder,
+    Blake3Hasher as WasmBlake3Hasher,
+    type Blake3OutputReader as WasmBlake3OutputReader,
+    wasm_backend,
+    wasm_memory
+} from './wasm-inline/hashbuf_blake3_bg.js';
+
+/**
+ * Options for the one-shot `blake3()` function.
+ */
+export interface Blake3Options {
+    /**
+     * Number of output bytes to produce using BLAKE3's extendable output.
+     * Defaults to 32. The first 32 bytes of any longer output equal the
+     * default digest.
+     */
+    outputLength?: number;
+}
+
+// ---------------------------------------------------------------------------
+// One-shot helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Compute BLAKE3 hash of `data` in one shot. Strings are hashed as UTF-8.
+ * Returns a 32-byte `Uint8Array`, or `options.outputLength` bytes of
+ * extendable output when given.
+ */
+export function blake3(data: HashInput, options?: Blake3Options): Uint8Array {
+    if (options?.outputLength !== undefined) {
+        assertNonNegativeInteger(options.outputLength, 'Output length');
+        return typeof data === 'string'
+            ? blake3_xof_str(data, options.outputLength)
+            : blake3_xof(toBytes(data), options.outputLength);
+    }
+    return typeof data === 'string' ? blake3_hash_str(data) : blake3_hash(toBytes(data));
+}
+
+/**
+ * Compute BLAKE3 hash of `data` in one shot, returning a hex string.
+ * More efficient than `blake3()` + manual hex conversion — hex encoding
+ * is performed in WASM, avoiding intermediate Uint8Array allocation.
+ */
+export function blake3Hex(data: HashInput): string {
+    return typeof data === 'string' ? blake3_hex_str(data) : blake3_hex(toBytes(data));
+}
+
+/**
+ * Compute BLAKE3 hash of `data` in one shot, returning standard (padded)
+ * base64 — e.g. for HTTP headers. Encoding is performed in WASM.
+ */
+export function blake3Base64(data: HashInput): string {
+    return typeof data === 'string' ? blake3_base64_str(data) : blake3_base64(toBytes(data));
+}
+
+/**
+ * Compute BLAKE3 hash of `data` in one shot, returning unpadded base64url
+ * — e.g. for URLs and JWT-like tokens. Encoding is performed in WASM.
+ */
+export function blake3Base64Url(data: HashInput): string {
+    return typeof data === 'string' ? blake3_base64url_str(data) : blake3_base64url(toBytes(data));
+}
+
+/**
+ * Compute double BLAKE3 hash: `blake3(blake3(data))`.
+ * Returns a 32-byte `Uint8Array`.
+ */
+export function doubleBlake3(data: HashInput): Uint8Array {
+    return typeof data === 'string' ? double_blake3_hash_str(data) : double_blake3_hash(toBytes(data));
+}
+
+/**
+ * Compute a BLAKE3 keyed MAC.
+ * `key` must be exactly 32 bytes.
+ * Returns a 32-byte `Uint8Array`.
+ */
+export function blake3Mac(key: Uint8Array, data: HashInput): Uint8Array {
+    return typeof data === 'string' ? blake3_mac_str(key, data) : blake3_mac(key, toBytes(data));
+}
+
+/**
+ * Derive a subkey from `material` using BLAKE3's key derivation mode.
+ *
+ * `context` should be a hardcoded, globally unique, application-specific
+ * string such as `"example.com 2026-10-19 session tokens v1"` — never
+ * derived from user input or secret data.
+ *
+ * Returns a 32-byte `Uint8Array`, or `outputLength` bytes when given.
+ */
+export function blake3DeriveKey(context: string, material: HashInput, outputLength?: number): Uint8Array {
+    if (outputLength !== undefined) {
+        assertNonNegativeInteger(outputLength, 'Output length');
+        return typeof material === 'string'
+            ? blake3_derive_key_xof_str(context, material, outputLength)
+            : blake3_derive_key_xof(context, toBytes(material), outputLength);
+    }
+    return typeof material === 'string'
+        ? blake3_derive_key_str(context, material)
+        : blake3_derive_key(context, toBytes(material));
+}
+
+// ---------------------------------------------------------------------------
+// Constant-time comparison
+// ---------------------------------------------------------------------------
+
+/**
+ * Compare a computed digest with an expected one in constant time (in
+ * WASM), instead of `===` on hex strings, which leaks timing.
+ * `expected` may be raw bytes or a hex string (either case). Values of
+ * different lengths and malformed hex compare unequal.
+ *
+ * ```ts
+ * const ok = timingSafeEqual(blake3Mac(key, body), signatureHex);
+ * ```
+ */
+export function timingSafeEqual(actual: Uint8Array, expected: Uint8Array | string): boolean {
+    return typeof expected === 'string' ? timing_safe_equal_hex(actual, expected) : timing_safe_equal(actual, expected);
+}
+
+/**
+ * Compute the keyed BLAKE3 MAC of `data` with a 32-byte `key` and compare it
+ * with `tag` (raw bytes or hex) in constant time.
+ */
+export function verifyBlake3Mac(key: Uint8Array, data: HashInput, tag: Uint8Array | string): boolean {
+    return timingSafeEqual(blake3Mac(key, data), tag);
+}
+
+// ---------------------------------------------------------------------------
+// Batch hashing
+// ---------------------------------------------------------------------------
+
+/**
+ * Hash every input with BLAKE3 in a single WASM call. Strings are hashed as
+ * UTF-8. Returns the 32-byte digests concatenated in input order.
+ */
+export function blake3Many(inputs: readonly HashInput[]): Uint8Array {
+    const [data, offsets] = packInputs(inputs);
+    return blake3_hash_many(data, offsets);
+}
+
+/**
+ * Hash inputs packed into one buffer with BLAKE3 in a single WASM call:
+ * input `i` is `data.subarray(offsets[i], offsets[i + 1])`. Returns the
+ * 32-byte digests concatenated in input order.
+ */
+export function blake3ManyPacked(data: Uint8Array, offsets: Uint32Array): Uint8Array {
+    return blake3_hash_many(data, offsets);
+}
+
+// ---------------------------------------------------------------------------
+// Input buffers
+//
+// Each hasher owns a fixed buffer in WASM linear memory that callers can fill
+// in place and `commit()`, skipping the allocation and copy of `update()`.
+// Growing the memory detaches every view of it, so views are recreated on
+// access when the memory's `ArrayBuffer` has changed.
+// ---------------------------------------------------------------------------
+
+let memory: { readonly buffer: ArrayBuffer } | undefined;
+
+/** The module's linear memory, looked up on first use so the async entry can load it later. */
+function wasmMemory(): { readonly buffer: ArrayBuffer } {
+    if (memory === undefined) {
+        memory = wasm_memory() as { readonly buffer: ArrayBuffer };
+    }
+    return memory;
+}
+
+// ---------------------------------------------------------------------------
+// Streaming hasher
+// ---------------------------------------------------------------------------
+
+/**
+ * Streaming BLAKE3 hasher backed by WASM.
+ *
+ * Usage:
+ * ```ts
+ * const hasher = new Blake3Hasher();
+ * hasher.update(chunk1);
+ * hasher.update(chunk2);
+ * const hash = hasher.finalize(); // 32 bytes
+ * hasher.free(); // release WASM memory
+ * ```
+ *
+ * For keyed hashing, pass a 32-byte key to the constructor:
+ * ```ts
+ * const hasher = new Blake3Hasher(key);
+ * ```
+ *
+ * For key derivation, use the `deriveKey` factory:
+ * ```ts
+ * const hasher = Blake3Hasher.deriveKey('example.com 2026-10-19 session tokens v1');
+ * ```
+ */
+export class Blake3Hasher implements BufferedHasher {
+    private inner: WasmBlake3Hasher;
+    private freed = false;
+    private input: Uint8Array | undefined;
+
+    static {
+        // For `@hashbuf/blake3/parallel`, which drives the WASM hasher directly
+        setInnerOf((hasher) => {
+            if (hasher.freed) {
+                throw new Error('Hasher has been freed');
+            }
+            return hasher.inner;
+        });
+    }
+
+    /**
+     * Create a new BLAKE3 hasher.
+     * @param key Optional 32-byte key for keyed hashing (MAC).
+     */
+    constructor(key?: Uint8Array) {
+        if (key !== undefined) {
+            this.inner = WasmBlake3Hasher.new_keyed(key);
+        } else {
+            this.inner = new WasmBlake3Hasher();
+        }
+    }
+
+    /**
+     * Create a hasher in key derivation mode. The key material is fed
+     * through `update()`; `reset()` preserves the context.
+     * @param context Hardcoded, globally unique, application-specific string.
+     */
+    static deriveKey(context: string): Blake3Hasher {
+        return Blake3Hasher.fromInner(WasmBlake3Hasher.new_derive_key(context));
+    }
+
+    /** Wrap an existing WASM hasher without allocating a fresh one. */
+    private static fromInner(inner: WasmBlake3Hasher): Blake3Hasher {
+        const hasher: Blake3Hasher = Object.create(Blake3Hasher.prototype);
+        hasher.inner = inner;
+        hasher.freed = false;
+        hasher.input = undefined;
+        return hasher;
+    }
+
+    /**
+     * The hasher's 1 MiB input buffer in WASM memory. Write input into it
+     * and call `commit(length)` to hash it without the copy `update()` makes:
+     *
+     * ```ts
+     * const { bytesRead } = await file.read(hasher.inputBuffer);
+     * hasher.commit(bytesRead);
+     * ```
+     *
+     * WASM memory growth (any allocation may cause it) detaches the view,
+     * leaving it empty, so read this property again rather than keeping it
+     * across other calls into the module.
+     */
+    get inputBuffer(): Uint8Array {
+        if (this.freed) {
+            throw new Error('Hasher has been freed');
+        }
+        const memory = wasmMemory();
+        if (this.input === undefined || this.input.buffer !== memory.buffer) {
+            // inputPtr() may allocate, and so grow the memory, before the view is taken
+            const ptr = this.inner.inputPtr();
+            this.input = new Uint8Array(memory.buffer, ptr, this.inner.inputCapacity());
+        }
+        return this.input;
+    }
+
+    /**
+     * Hash the first `length` bytes written into `inputBuffer`, as if they
+     * had been passed to `update()`.
+     * @returns `this` for chaining.
+     */
+    commit(length: number): this {
+        if (this.freed) {
+            throw new Error('Hasher has been freed');
+        }
+        assertNonNegativeInteger(length, 'Commit length');
+        this.inner.commit(length);
+        return this;
+    }
+
+    /**
+     * Feed data into the hasher. Can be called multiple times.
+     * Strings are hashed as UTF-8.
+     * @returns `this` for chaining.
+     */
+    update(data: HashInput): this {
+        if (this.freed) {
+            throw new Error('Hasher has been freed');
+        }
+        if (typeof data === 'string') {
+            this.inner.updateStr(data);
+        } else {
+            this.inner.update(toBytes(data));
+        }
+        return this;
+    }
+
+    /**
+     * Finalize and return the 32-byte hash.
+     * The hasher is NOT consumed — you can continue calling `update()`
+     * after `finalize()` and call `finalize()` again for an updated hash.
+     */
+    finalize(): Uint8Array {
+        if (this.freed) {
+            throw new Error('Hasher has been freed');
+        }
+        return this.inner.finalize();
+    }
+
+    /**
+     * Finalize and return `length` bytes of extendable output.
+     * Like `finalize()`, the hasher is NOT consumed.
+     */
+    finalizeXof(length: number): Uint8Array {
+        if (this.freed) {
+            throw new Error('Hasher has been freed');
+        }
+        assertNonNegativeInteger(length, 'Output length');
+        return this.inner.finalizeXof(length);
+    }
+
+    /**
+     * Finalize into a seekable reader over the extendable output stream.
+     * The hasher is NOT consumed, and the reader owns its own WASM memory
+     * which must be released with `reader.free()`.
+     */
+    finalizeReader(): Blake3OutputReader {
+        if (this.freed) {
+            throw new Error('Hasher has been freed');
+        }
+        return new Blake3OutputReader(this.inner.finalizeReader());
+    }
+
+    /**
+     * Duplicate the hasher, including its key or context and any data
+     * absorbed so far. The clone owns its own WASM memory and must be
+     * freed separately.
+     */
+    clone(): this {
+        if (this.freed) {
+            throw new Error('Hasher has been freed');
+        }
+        return Blake3Hasher.fromInner(this.inner.fork()) as this;
+    }
+
+    /**
+     * Reset the hasher to its initial state.
+     * If the hasher was created with a key, the key is preserved.
+     * @returns `this` for chaining.
+     */
+    reset(): this {
+        if (this.freed) {
+            throw new Error('Hasher has been freed');
+        }
+        this.inner.reset();
+        return this;
+    }
+
+    /**
+     * Release the underlying WASM memory.
+     * The hasher must not be used after calling `free()`.
+     */
+    free(): void {
+        if (!this.freed) {
+            this.inner.free();
+            this.freed = true;
+        }
+    }
+
+    /**
+     * Consumptive finalize — returns the hash and releases WASM memory.
+     * The hasher must not be used after calling `digest()`.
+     *
+     * - `digest()` → `Uint8Array` (raw 32 bytes)
+     * - `digest('hex')` → `string` (64-char hex, fast path via WASM)
+     * - `digest('base64')` / `digest('base64url')` → `string` (encoded in WASM)
+     */
+    digest(): Uint8Array;
+    digest(encoding: DigestEncoding): string;
+    digest(encoding?: DigestEncoding): Uint8Array | string {
+        if (this.freed) {
+            throw new Error('Hasher has been freed');
+        }
+        assertDigestEncoding(encoding);
+        this.freed = true;
+        switch (encoding) {
+            case 'hex':
+                return this.inner.digestHex();
+            case 'base64':
+                return this.inner.digestBase64();
+            case 'base64url':
+                return this.inner.digestBase64Url();
+            default:
+                return this.inner.digest();
+        }
+    }
+
+    /**
+     * Consumptive verify — finalizes like `digest()` and compares the hash
+     * with `expected` (raw bytes or a hex string) in constant time.
+     * The hasher must not be used after calling `verify()`.
+     */
+    verify(expected: Uint8Array | string): boolean {
+        return timingSafeEqual(this.digest(), expected);
+    }
+
+    /**
+     * Support for TC39 Explicit Resource Management.
+     * Allows `using hasher = new Blake3Hasher()`.
+     */
+    [Symbol.dispose](): void {
+        this.free();
+    }
+}
+
+// ---------------------------------------------------------------------------
+// Extendable output reader
+// ---------------------------------------------------------------------------
+
+/**
+ * Seekable reader over BLAKE3's extendable output (XOF) stream.
+ * Obtained from `Blake3Hasher.finalizeReader()`.
+ *
+ * Usage:
+ * ```ts
+ * using reader = hasher.finalizeReader();
+ * const block = reader.fill(new Uint8Array(64)); // bytes 0..64
+ * reader.seek(1024);
+ * reader.fill(block);                            // bytes 1024..1088
+ * ```
+ */
+export class Blake3OutputReader {
+    private inner: WasmBlake3OutputReader;
+    private freed = false;
+
+    /** @internal Use `Blake3Hasher.finalizeReader()` instead. */
+    constructor(inner: WasmBlake3OutputReader) {
+        this.inner = inner;
+    }
+
+    /** Current byte offset into the output stream. */
+    get position(): number {
+        if (this.freed) {
+            throw new Error('Output reader has been freed');
+        }
+        return Number(this.inner.position());
+    }
+
+    /**
+     * Fill `buf` with the next `buf.length` bytes of output and advance
+     * the position accordingly.
+     * @returns `buf` for convenience.
+     */
+    fill(buf: Uint8Array): Uint8Array {
+        if (this.freed) {
+            throw new Error('Output reader has been freed');
+        }
+        this.inner.fill(buf);
+        return buf;
+    }
+
+    /**
+     * Seek to an absolute byte offset in the output stream.
+     * @returns `this` for chaining.
+     */
+    seek(position: number): this {
+        if (this.freed) {
+            throw new Error('Output reader has been freed');
+        }
+        assertNonNegativeInteger(position, 'Position');
+        this.inner.seek(BigInt(position));
+        return this;
+    }
+
+    /**
+     * Release the underlying WASM memory.
+     * The reader must not be used after calling `free()`.
+     */
+    free(): void {
+        if (!this.freed) {
+            this.inner.free();
+            this.freed = true;
+        }
+    }
+
+    /**
+     * Support for TC39 Explicit Resource Management.
+     * Allows `using reader = hasher.finalizeReader()`.
+     */
+    [Symbol.dispose](): void {
+        this.free();
+    }
+}
+
+// ---------------------------------------------------------------------------
+// Streaming helper for async iterables (ReadableStream, fs streams, etc.)
+// ---------------------------------------------------------------------------
+
+/**
+ * Hash an async iterable of chunks, a `ReadableStream` or a `Blob` / `File`
+ * using BLAKE3 streaming.
+ * Ideal for hashing large files or network streams without loading
+ * the entire content into memory.
+ *
+ * ```ts
+ * const hash = await blake3Stream(readableStream);
+ * const fileHash = await blake3Stream(file);
+ * ```
+ */
+export async function blake3Stream(source: HashStreamSource): Promise<Uint8Array> {
+    return hashChunks(new Blake3Hasher(), source);
+}
+
+// ---------------------------------------------------------------------------
+// Bao verified streaming
+// ---------------------------------------------------------------------------
+
+/** Result of `blake3BaoEncode()`. */
+export interface Blake3BaoEncoding {
+    /** Root hash: the plain BLAKE3 digest of the content (32 bytes). */
+    hash: Uint8Array;
+    /** Combined encoding: the content interleaved with its hash tree. */
+    encoded: Uint8Array;
+}
+
+/** Result of `blake3BaoOutboard()`. */
+export interface Blake3BaoOutboard {
+    /** Root hash: the plain BLAKE3 digest of the content (32 bytes). */
+    hash: Uint8Array;
+    /** Outboard encoding: the hash tree alone, to be stored next to the content. */
+    outboard: Uint8Array;
+}
+
+/**
+ * Options for `Blake3BaoDecoder` and `blake3BaoDecodeStream()`.
+ */
+export interface Blake3BaoDecoderOptions {
+    /**
+     * Outboard encoding of the content. When given, the decoder is fed the
+     * plain content instead of the combined encoding.
+     */
+    outboard?: Uint8Array;
+}
+
+/**
+ * Bao combined encoding of `data`: an 8-byte length header followed by the
+ * content interleaved with the BLAKE3 hash tree, so that it can be verified
+ * 1 KiB at a time against `hash`. Strings are encoded as UTF-8.
+ *
+ * ```ts
+ * const { hash, encoded } = blake3BaoEncode(file);
+ * // hash equals blake3(file)
+ * ```
+ */
+export function blake3BaoEncode(data: HashInput): Blake3BaoEncoding {
+    const out = blake3_bao_encode(toBinary(data));
+    return { hash: out.slice(0, 32), encoded: out.subarray(32) };
+}
+
+/**
+ * Bao outboard encoding of `data`: the same hash tree as
+ * `blake3BaoEncode()` without the content. Strings are encoded as UTF-8.
+ */
+export function blake3BaoOutboard(data: HashInput): Blake3BaoOutboard {
+    const out = blake3_bao_outboard(toBinary(data));
+    return { hash: out.slice(0, 32), outboard: out.subarray(32) };
+}
+
+/**
+ * Verify a combined encoding against its root hash and return the content.
+ * Throws if any part of the encoding does not match `hash`.
+ */
+export function blake3BaoDecode(encoded: Uint8Array, hash: Uint8Array): Uint8Array {
+    return blake3_bao_decode(encoded, hash);
+}
+
+/**
+ * Verify `data` against its outboard encoding and root hash.
+ * Returns the content, or throws if it does not match `hash`.
+ */
+export function blake3BaoDecodeOutboard(data: HashInput, outboard: Uint8Array, hash: Uint8Array): Uint8Array {
+    return blake3_bao_decode_outboard(toBinary(data), outboard, hash);
+}
+
+/**
+ * Extract from a combined encoding the part needed to verify `length`
+ * content bytes from `start`: the chunks overlapping the range and the
+ * tree nodes above them. Decode it with `blake3BaoDecodeSlice()`.
+ *
+ * A range that extends past the end of the content includes the final
+ * chunk, which proves the content length.
+ */
+export function blake3BaoExtractSlice(encoded: Uint8Array, start: number, length: number): Uint8Array {
+    assertNonNegativeInteger(start, 'Start');
+    assertNonNegativeInteger(length, 'Length');
+    return blake3_bao_extract_slice(encoded, BigInt(start), BigInt(length));
+}
+
+/**
+ * Like `blake3BaoExtractSlice()`, from the content and its outboard
+ * encoding. Produces the same slice.
+ */
+export function blake3BaoExtractSliceOutboard(
+    data: HashInput,
+    outboard: Uint8Array,
+    start: number,
+    length: number
+): Uint8Array {
+    assertNonNegativeInteger(start, 'Start');
+    assertNonNegativeInteger(length, 'Length');
+    return blake3_bao_extract_slice_outboard(toBinary(data), outboard, BigInt(start), BigInt(length));
+}
+
+/**
+ * Verify a slice from `blake3BaoExtractSlice()` against the root hash and
+ * return the `length` content bytes from `start`, or fewer where the range
+ * passes the end of the content. `start` and `length` must be the values
+ * the slice was extracted with.
+ */
+export function blake3BaoDecodeSlice(slice: Uint8Array, hash: Uint8Array, start: number, length: number): Uint8Array {
+    assertNonNegativeInteger(start, 'Start');
+    assertNonNegativeInteger(length, 'Length');
+    return blake3_bao_decode_slice(slice, hash, BigInt(start), BigInt(length));
+}
+
+/**
+ * Incremental Bao decoder backed by WASM. Feed it an encoding in pieces of
+ * any size; each `update()` returns the content verified so far, and
+ * throws as soon as a chunk does not match the root hash, so no
+ * unverified byte is ever returned.
+ *
+ * Usage:
+ * ```ts
+ * using decoder = new Blake3BaoDecoder(hash);
+ * for await (const piece of response.body) {
+ *     write(decoder.update(piece));
+ * }
+ * decoder.finish(); // throws if the encoding was truncated
+ * ```
+ */
+export class Blake3BaoDecoder {
+    private inner: WasmBlake3BaoDecoder;
+    private freed = false;
+
+    /**
+     * Create a decoder for a combined encoding, or for plain content when
+     * `options.outboard` is given. `hash` must be exactly 32 bytes.
+     */
+    constructor(hash: Uint8Array, options?: Blake3BaoDecoderOptions) {
+        if (options?.outboard !== undefined) {
+            this.inner = WasmBlake3BaoDecoder.new_outboard(hash, options.outboard);
+        } else {
+            this.inner = new WasmBlake3BaoDecoder(hash);
+        }
+    }
+
+    /**
+     * Create a decoder for a slice from `blake3BaoExtractSlice()`. It
+     * returns exactly the `length` bytes from `start`, or fewer where the
+     * range passes the end of the content.
+     */
+    static forSlice(hash: Uint8Array, start: number, length: number): Blake3BaoDecoder {
+        assertNonNegativeInteger(start, 'Start');
+        assertNonNegativeInteger(length, 'Length');
+        const decoder: Blake3BaoDecoder = Object.create(Blake3BaoDecoder.prototype);
+        decoder.inner = WasmBlake3BaoDecoder.new_slice(hash, BigInt(start), BigInt(length));
+        decoder.freed = false;
+        return decoder;
+    }
+
+    /**
+     * Feed the next bytes of the encoding (or of the content, with an
+     * outboard encoding). Returns the content verified by them, which may
+     * be empty. Strings are encoded as UTF-8.
+     */
+    update(data: HashInput): Uint8Array {
+        if (this.freed) {
+            throw new Error('Decoder has been freed');
+        }
+        return this.inner.update(toBinary(data));
+    }
+
+    /** Throw unless the whole encoding has been received and verified. */
+    finish(): void {
+        if (this.freed) {
+            throw new Error('Decoder has been freed');
+        }
+        this.inner.finish();
+    }
+
+    /**
+     * Release the underlying WASM memory.
+     * The decoder must not be used after calling `free()`.
+     */
+    free(): void {
+        if (!this.freed) {
+            this.inner.free();
+            this.freed = true;
+        }
+    }
+
+    /**
+     * Support for TC39 Explicit Resource Management.
+     * Allows `using decoder = new Blake3BaoDecoder(hash)`.
+     */
+    [Symbol.dispose](): void {
+        this.free();
+    }
+}
+
+/**
+ * Decode a Bao encoding from an async iterable, a `ReadableStream` or a
+ * `Blob` / `File`, yielding the content as it is verified. Throws as soon
+ * as a chunk does not match `hash`, or at the end if the encoding was
+ * truncated.
+ *
+ * ```ts
+ * for await (const content of blake3BaoDecodeStream(response.body, hash)) {
+ *     write(content);
+ * }
+ * ```
+ */
+export async function* blake3BaoDecodeStream(
+    source: HashStreamSource,
+    hash: Uint8Array,
+    options?: Blake3BaoDecoderOptions
+): AsyncGenerator<Uint8Array, void, undefined> {
+    const decoder = new Blake3BaoDecoder(hash, options);
+    try {
+        for await (const chunk of chunksOf(source)) {
+            const content = decoder.update(chunk);
+            if (content.byteLength > 0) {
+                yield content;
+            }
+        }
+        decoder.finish();
+    } finally {
+        decoder.free();
+    }
+}
+
+// ---------------------------------------------------------------------------
+// HashAlgorithm implementation
+// ---------------------------------------------------------------------------
+
+/**
+ * BLAKE3 as a `HashAlgorithm` — unified interface for all hashbuf algorithms.
+ */
+export const BLAKE3: HashAlgorithm = {
+    name: 'blake3',
+    digestLength: 32,
+    hash: blake3,
+    doubleHash: doubleBlake3,
+    hashMany: blake3Many,
+    hashManyPacked: blake3ManyPacked,
+    createHasher: () => new Blake3Hasher(),
+    stream: blake3Stream,
+    get backend(): WasmBackend {
+        return wasm_backend() as WasmBackend;
+    }
+} as const;
+
+// Make the algorithms available by name through `getAlgorithm()`
+registerAlgorithm(BLAKE3);
@@ -0,0 +1,14 @@
+import type { Blake3Hasher } from './api.js';
+import type { Blake3Hasher as WasmBlake3Hasher } from './wasm-inline/hashbuf_blake3_bg.js';
+
+// ---------------------------------------------------------------------------
+// Hooks between the entry points. Not re-exported, so not part of the API.
+// ---------------------------------------------------------------------------
+
+/** The WASM hasher behind a `Blake3Hasher`. Throws once it has been freed. */
+export let innerOf: (hasher: Blake3Hasher) => WasmBlake3Hasher;
+
+/** Called by `Blake3Hasher` when its module loads. */
+export function setInnerOf(accessor: (hasher: Blake3Hasher) => WasmBlake3Hasher): void {
+    innerOf = accessor;
+}
@@ -0,0 +1,102 @@
+import type { HashInput } from '@hashbuf/types';
+import { toBinary } from '@hashbuf/types';
+import { Blake3Hasher } from './index.js';
+import { innerOf } from './internal.js';
+import { hashSubtrees } from './worker-pool.js';
+
+// ---------------------------------------------------------------------------
+// Parallel hashing
+//
+// `@hashbuf/blake3/parallel`, exported under the `node` condition only: the
+// worker pool needs `node:worker_threads` (Node.js, Deno, Bun), so browser
+// bundles of the main entry never include it. Loads the WASM module inlined,
+// like the main entry.
+// ---------------------------------------------------------------------------
+
+/**
+ * Options for `blake3Parallel()` and `updateParallel()`.
+ */
+export interface Blake3ParallelOptions {
+    /**
+     * Maximum number of worker threads. Defaults to the number of CPU cores;
+     * `1` hashes on the calling thread.
+     */
+    threads?: number;
+}
+
+/** Inputs shorter than this are hashed on the calling thread. */
+const PARALLEL_MIN_LENGTH = 4 * 1024 * 1024;
+/** Largest subtree sent to a worker at once. */
+const PARALLEL_SUBTREE_LENGTH = 1024 * 1024;
+
+/**
+ * Like `hasher.update(data)`, but hashes large inputs on a pool of worker
+ * threads, each computing whole subtrees of BLAKE3's hash tree. The result
+ * is identical to `update()`.
+ *
+ * Inputs under 4 MiB, `threads: 1`, and runtimes without `SharedArrayBuffer`
+ * use the single-threaded `update()`. Input backed by a `SharedArrayBuffer`
+ * is read by the workers in place; other input is copied into one first.
+ *
+ * Do not use the hasher or modify `data` until the promise settles.
+ * @returns `hasher`, for chaining.
+ */
+export async function updateParallel<H extends Blake3Hasher>(
+    hasher: H,
+    data: HashInput,
+    options: Blake3ParallelOptions = {}
+): Promise<H> {
+    const inner = innerOf(hasher);
+    const { threads } = options;
+    if (threads !== undefined && (!Number.isSafeInteger(threads) || threads < 1)) {
+        throw new RangeError('Threads must be a positive integer');
+    }
+    const bytes = toBinary(data);
+    const splittable = bytes.byteLength >= PARALLEL_MIN_LENGTH && threads !== 1;
+    const bounds: number[] = splittable
+        ? Array.from(inner.splitSubtrees(BigInt(bytes.byteLength), BigInt(PARALLEL_SUBTREE_LENGTH)), Number)
+        : [];
+    const head = bounds[0];
+    const last = bounds[bounds.length - 1];
+    if (head === undefined || last === undefined) {
+        inner.update(bytes);
+        return hasher;
+    }
+
+    const position: bigint = inner.count();
+    const subtrees = bounds.slice(1).map((end, i) => {
+        const start = bounds[i] as number;
+        return { start, end, offset: position + BigInt(start) };
+    });
+    const cvs = await hashSubtrees(bytes, subtrees, inner.treeMode(), threads);
+    // Throws if the hasher was freed meanwhile
+    innerOf(hasher);
+    if (cvs === undefined) {
+        inner.update(bytes);
+    } else {
+        const lengths = BigUint64Array.from(subtrees, ({ start, end }) => BigInt(end - start));
+        inner.updateSubtrees(bytes.subarray(0, head), lengths, cvs, bytes.subarray(last));
+    }
+    return hasher;
+}
+
+/**
+ * Compute the BLAKE3 hash of a large input on a pool of worker threads.
+ * Strings are hashed as UTF-8. Returns the same 32 bytes as `blake3()`.
+ *
+ * Falls back to hashing on the calling thread as described for
+ * `updateParallel()`.
+ *
+ * ```ts
+ * const hash = await blake3Parallel(await readFile('disk.img'));
+ * ```
+ */
+export async function blake3Parallel(data: HashInput, options?: Blake3ParallelOptions): Promise<Uint8Array> {
+    const hasher = new Blake3Hasher();
+    try {
+        await updateParallel(hasher, data, options);
+        return hasher.finalize();
+    } finally {
+        hasher.free();
+    }
+}
@@ -0,0 +1,167 @@
+import type { Worker } from 'node:worker_threads';
+
+// ---------------------------------------------------------------------------
+// Worker pool for hashing BLAKE3 subtrees in parallel
+//
+// Each worker (`node:worker_threads`, also provided by Deno and Bun) runs its
+// own instance of the WASM module and reads its subtrees straight from a
+// `SharedArrayBuffer`. The workers are created on first use, kept for later
+// calls and unref'd while idle, so they never keep the process alive.
+// ---------------------------------------------------------------------------
+
+/** A subtree to hash: `data[start..end]`, at input offset `offset`. */
+export interface Subtree {
+    start: number;
+    end: number;
+    offset: bigint;
+}
+
+interface WorkerReply {
+    cv?: Uint8Array;
+    error?: string;
+}
+
+// Evaluated as CommonJS in each worker. It imports the same inlined WASM
+// module as the main thread and replies once it is ready, then once per subtree.
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require('node:worker_threads');
+const ready = import(workerData.wasmUrl);
+ready.then(
+    () => parentPort.postMessage({}),
+    (error) => parentPort.postMessage({ error: String(error) })
+);
+parentPort.on('message', async ({ data, offset, mode }) => {
+    try {
+        const { blake3_subtree_cv } = await ready;
+        parentPort.postMessage({ cv: blake3_subtree_cv(data, offset, mode) });
+    } catch (error) {
+        parentPort.postMessage({ error: String(error) });
+    }
+});
+`;
+
+const WASM_URL = new URL('./wasm-inline/hashbuf_blake3.js', import.meta.url).href;
+
+const workers: Worker[] = [];
+let unavailable = false;
+/** Jobs run one at a time, each with the whole pool. */
+let queue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Post `message` (if any) and wait for the worker's next reply, keeping the
+ * process alive meanwhile. A worker that crashes is dropped from the pool.
+ */
+function request(worker: Worker, message?: unknown): Promise<WorkerReply> {
+    return new Promise((resolve, reject) => {
+        const onMessage = (reply: WorkerReply) => {
+            worker.off('error', onError);
+            worker.unref();
+            resolve(reply);
+        };
+        const onError = (error: Error) => {
+            worker.off('message', onMessage);
+            const index = workers.indexOf(worker);
+            if (index !== -1) {
+                workers.splice(index, 1);
+            }
+            reject(error);
+        };
+        worker.once('message', onMessage);
+        worker.once('error', onError);
+        worker.ref();
+        if (message !== undefined) {
+            worker.postMessage(message);
+        }
+    });
+}
+
+/**
+ * Up to `threads` ready workers (default: one per CPU core), or `undefined`
+ * where workers or shared memory are unavailable.
+ */
+async function getWorkers(threads: number | undefined): Promise<Worker[] | undefined> {
+    if (unavailable || typeof SharedArrayBuffer === 'undefined') {
+        return undefined;
+    }
+    let WorkerThread: typeof Worker;
+    try {
+        const [threadsModule, os] = await Promise.all([import('node:worker_threads'), import('node:os')]);
+        WorkerThread = threadsModule.Worker;
+        threads ??= os.availableParallelism?.() ?? os.cpus().length;
+    } catch {
+        unavailable = true;
+        return undefined;
+    }
+    while (workers.length < threads) {
+        const worker = new WorkerThread(WORKER_SOURCE, { eval: true, workerData: { wasmUrl: WASM_URL } });
+        worker.unref();
+        const reply = await request(worker).catch((error: unknown) => ({ error: String(error) }));
+        if (reply.error !== undefined) {
+            // The WASM module cannot be loaded from its URL, e.g. after bundling.
+            await worker.terminate();
+            unavailable = workers.length === 0;
+            break;
+        }
+        workers.push(worker);
+    }
+    return workers.length > 0 ? workers.slice(0, threads) : undefined;
+}
+
+/** View `data` in a `SharedArrayBuffer`, copying it there if needed. */
+function toShared(data: Uint8Array): Uint8Array {
+    if (data.buffer instanceof SharedArrayBuffer) {
+        return data;
+    }
+    const shared = new Uint8Array(new SharedArrayBuffer(data.byteLength));
+    shared.set(data);
+    return shared;
+}
+
+async function runJob(
+    data: Uint8Array,
+    subtrees: readonly Subtree[],
+    mode: Uint8Array,
+    threads: number | undefined
+): Promise<Uint8Array | undefined> {
+    const pool = await getWorkers(threads);
+    if (pool === undefined) {
+        return undefined;
+    }
+    const shared = toShared(data);
+    const cvs = new Uint8Array(subtrees.length * 32);
+    let next = 0;
+    const results = await Promise.allSettled(
+        pool.map(async (worker) => {
+            for (let i = next++; i < subtrees.length; i = next++) {
+                const { start, end, offset } = subtrees[i] as Subtree;
+                const reply = await request(worker, { data: shared.subarray(start, end), offset, mode });
+                if (reply.cv === undefined) {
+                    throw new Error(reply.error);
+                }
+                cvs.set(reply.cv, i * 32);
+            }
+        })
+    );
+    for (const result of results) {
+        if (result.status === 'rejected') {
+            throw result.reason;
+        }
+    }
+    return cvs;
+}
+
+/**
+ * Hash `subtrees` of `data` on the worker pool with the given tree `mode`,
+ * returning their 32-byte chaining values concatenated in order, or
+ * `undefined` if no workers are available.
+ */
+export function hashSubtrees(
+    data: Uint8Array,
+    subtrees: readonly Subtree[],
+    mode: Uint8Array,
+    threads: number | undefined
+): Promise<Uint8Array | undefined> {
+    const job = queue.then(() => runJob(data, subtrees, mode, threads));
+    queue = job.catch(() => undefined);
+    return job;
+}
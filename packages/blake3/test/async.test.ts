@@ -0,0 +1,56 @@
+import { readFile } from 'node:fs/promises';
+import { getAlgorithm } from '@hashbuf/types';
+import { describe, expect, it, vi } from 'vitest';
+import { BLAKE3, Blake3Hasher, blake3Hex, init } from '../src/async';
+
+/** Hex digest of `'abc'`. */
+const ABC = '6437b3ac38465133ffb63b75273a8db548c558465d79db03fd359c6cd5bd9d85';
+const WASM_URL = new URL('../src/wasm-inline/hashbuf_blake3_bg.wasm', import.meta.url);
+
+// ---------------------------------------------------------------------------
+// Asynchronous entry point
+// ---------------------------------------------------------------------------
+
+describe('async entry', () => {
+    it('rejects an invalid binary and allows retrying', async () => {
+        await expect(init(new Uint8Array([0, 1, 2, 3]))).rejects.toThrow();
+        await expect(init(await readFile(WASM_URL))).resolves.toBeUndefined();
+        expect(BLAKE3.backend).toBe('baseline');
+    });
+
+    it('returns the same promise once loaded', () => {
+        expect(init()).toBe(init(WASM_URL));
+    });
+
+    it('exposes the same API after init()', async () => {
+        await init();
+        expect(blake3Hex('abc')).toBe(ABC);
+        expect(new Blake3Hasher().update('a').update('bc').digest('hex')).toBe(ABC);
+        expect(getAlgorithm('blake3').createHasher().update('abc').digest('hex')).toBe(ABC);
+    });
+
+    it('reads file URLs without process.getBuiltinModule (Node.js < 20.16)', async () => {
+        vi.resetModules();
+        const async = await import('../src/async');
+        const getBuiltinModule = Object.getOwnPropertyDescriptor(process, 'getBuiltinModule');
+        Object.defineProperty(process, 'getBuiltinModule', { value: undefined, configurable: true });
+        try {
+            await async.init(WASM_URL);
+        } finally {
+            if (getBuiltinModule !== undefined) {
+                Object.defineProperty(process, 'getBuiltinModule', getBuiltinModule);
+            }
+        }
+        expect(async.blake3Hex('abc')).toBe(ABC);
+    });
+
+    it('refuses to load next to the main entry', async () => {
+        vi.resetModules();
+        const main = await import('../src/index');
+        const async = await import('../src/async');
+        await expect(async.init(WASM_URL)).rejects.toThrow(
+            'Cannot load @hashbuf/blake3/async: @hashbuf/blake3 has already loaded the WASM module'
+        );
+        expect(main.blake3Hex('abc')).toBe(ABC);
+    });
+});
@@ -0,0 +1,76 @@
+import { describe, expect, it, vi } from 'vitest';
+
+type Entry = typeof import('../src/index');
+
+const { WebAssembly } = globalThis as unknown as { WebAssembly: { validate(binary: Uint8Array): boolean } };
+
+/**
+ * Import a fresh copy of `entry` with the SIMD feature probe answering `simd`,
+ * to force the SIMD or the baseline build.
+ */
+async function load(simd: boolean, entry: 'index' | 'async' = 'index'): Promise<Entry> {
+    vi.resetModules();
+    const validate = vi.spyOn(WebAssembly, 'validate').mockReturnValue(simd);
+    try {
+        if (entry === 'index') {
+            return await import('../src/index');
+        }
+        const async = await import('../src/async');
+        const ready = async.init();
+        validate.mockRestore();
+        await ready;
+        return async;
+    } finally {
+        validate.mockRestore();
+    }
+}
+
+/**
+ * Inputs around BLAKE3's 1 KiB chunk boundaries and large enough for the SIMD
+ * build to hash several chunks, and parents, at once.
+ */
+const LENGTHS = [0, 1, 64, 1023, 1024, 1025, 2048, 3 * 1024 + 1, 16 * 1024 - 1, 16 * 1024, 1024 * 1024 + 1];
+
+function inputOf(length: number): Uint8Array {
+    return Uint8Array.from({ length }, (_, i) => (i * 251) % 256);
+}
+
+const KEY = inputOf(32).reverse();
+
+/** The result of every BLAKE3 mode on `data`. */
+function resultsOf({ blake3, blake3Mac, blake3DeriveKey, Blake3Hasher }: Entry, data: Uint8Array) {
+    return {
+        hash: blake3(data),
+        xof: blake3(data, { outputLength: 1000 }),
+        keyed: blake3Mac(KEY, data),
+        derived: blake3DeriveKey('hashbuf backend test', data, 64),
+        streamed: new Blake3Hasher(KEY).update(data.subarray(0, 1000)).update(data.subarray(1000)).finalize()
+    };
+}
+
+// ---------------------------------------------------------------------------
+// WASM backends
+// ---------------------------------------------------------------------------
+
+describe('WASM backends', () => {
+    it.each(['index', 'async'] as const)('loads the SIMD build where the probe validates (%s)', async (entry) => {
+        const { BLAKE3 } = await load(true, entry);
+        expect(BLAKE3.backend).toBe('simd128');
+    });
+
+    it.each(['index', 'async'] as const)('falls back to the baseline build (%s)', async (entry) => {
+        const { BLAKE3 } = await load(false, entry);
+        expect(BLAKE3.backend).toBe('baseline');
+    });
+
+    it('gives identical results in every mode on both backends', async () => {
+        const simd = await load(true);
+        const baseline = await load(false);
+        for (const length of LENGTHS) {
+            const data = inputOf(length);
+            expect(resultsOf(simd, data)).toEqual(resultsOf(baseline, data));
+        }
+        const inputs = LENGTHS.map(inputOf);
+        expect(simd.BLAKE3.hashMany(inputs)).toEqual(baseline.BLAKE3.hashMany(inputs));
+    });
+});
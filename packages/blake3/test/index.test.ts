@@ -1,5 +1,30 @@
+import { getAlgorithm } from '@hashbuf/types';
 import { describe, expect, it } from 'vitest';
-import { Blake3Hasher, blake3, blake3Hex, blake3Mac, blake3Stream, doubleBlake3 } from '../src/index';
+import {
+    BLAKE3,
+    Blake3BaoDecoder,
+    Blake3Hasher,
+    blake3,
+    blake3BaoDecode,
+    blake3BaoDecodeOutboard,
+    blake3BaoDecodeSlice,
+    blake3BaoDecodeStream,
+    blake3BaoEncode,
+    blake3BaoExtractSlice,
+    blake3BaoExtractSliceOutboard,
+    blake3BaoOutboard,
+    blake3Base64,
+    blake3Base64Url,
+    blake3DeriveKey,
+    blake3Hex,
+    blake3Mac,
+    blake3Many,
+    blake3ManyPacked,
+    blake3Stream,
+    doubleBlake3,
+    timingSafeEqual,
+    verifyBlake3Mac
+} from '../src/index';
 
 // Helper: convert Uint8Array to hex string
 function toHex(buf: Uint8Array): string {
@@ -34,6 +59,32 @@ describe('blake3 one-shot', () => {
     });
 });
 
+describe('blake3 extendable output', () => {
+    const XOF_64 =
+        'aa4909e14f1389afc428e481ea20ffd9673604711f5afb60a747fec57e4c267c' +
+        '6f392fac968795c02f053f49543231fde1e2e2e942824c92d52aa61a8dd4b55b';
+
+    it('returns outputLength bytes', () => {
+        const out = blake3(fromUtf8('test input'), { outputLength: 64 });
+        expect(toHex(out)).toBe(XOF_64);
+    });
+
+    it('prefix equals the default digest', () => {
+        const data = fromUtf8('prefix check');
+        const out = blake3(data, { outputLength: 100 });
+        expect(toHex(out.subarray(0, 32))).toBe(toHex(blake3(data)));
+    });
+
+    it('supports zero-length output', () => {
+        expect(blake3(fromUtf8('test input'), { outputLength: 0 }).length).toBe(0);
+    });
+
+    it('rejects invalid output lengths', () => {
+        expect(() => blake3(fromUtf8('x'), { outputLength: -1 })).toThrow(RangeError);
+        expect(() => blake3(fromUtf8('x'), { outputLength: 1.5 })).toThrow(RangeError);
+    });
+});
+
 describe('blake3Hex one-shot', () => {
     it('returns hex for empty input', () => {
         expect(blake3Hex(fromUtf8(''))).toBe(
@@ -53,6 +104,24 @@ describe('blake3Hex one-shot', () => {
     });
 });
 
+describe('blake3Base64 / blake3Base64Url one-shot', () => {
+    it('returns padded base64', () => {
+        expect(blake3Base64(fromUtf8('test input'))).toBe('qkkJ4U8Tia/EKOSB6iD/2Wc2BHEfWvtgp0f+xX5MJnw=');
+        expect(blake3Base64('test input')).toBe('qkkJ4U8Tia/EKOSB6iD/2Wc2BHEfWvtgp0f+xX5MJnw=');
+    });
+
+    it('returns unpadded base64url', () => {
+        expect(blake3Base64Url(fromUtf8('test input'))).toBe('qkkJ4U8Tia_EKOSB6iD_2Wc2BHEfWvtgp0f-xX5MJnw');
+        expect(blake3Base64Url('test input')).toBe('qkkJ4U8Tia_EKOSB6iD_2Wc2BHEfWvtgp0f-xX5MJnw');
+    });
+
+    it('matches Buffer encodings of blake3(data)', () => {
+        const data = fromUtf8('consistency check');
+        expect(blake3Base64(data)).toBe(Buffer.from(blake3(data)).toString('base64'));
+        expect(blake3Base64Url(data)).toBe(Buffer.from(blake3(data)).toString('base64url'));
+    });
+});
+
 describe('doubleBlake3', () => {
     it("double hashes 'test input'", () => {
         const hash = doubleBlake3(fromUtf8('test input'));
@@ -79,6 +148,150 @@ describe('blake3Mac', () => {
     });
 });
 
+// ---------------------------------------------------------------------------
+// Constant-time comparison
+// ---------------------------------------------------------------------------
+
+describe('constant-time verification', () => {
+    const key = blake3(fromUtf8('key'));
+    const tag = '55603656ac7bd780db8fece23aad002ee008a605540fe3527a260c4b6e3b2b7e';
+
+    it('timingSafeEqual compares bytes and hex', () => {
+        const mac = blake3Mac(key, 'message');
+        expect(timingSafeEqual(mac, blake3Mac(key, 'message'))).toBe(true);
+        expect(timingSafeEqual(mac, tag)).toBe(true);
+        expect(timingSafeEqual(mac, tag.toUpperCase())).toBe(true);
+        expect(timingSafeEqual(mac, `${tag.slice(0, -1)}f`)).toBe(false);
+        expect(timingSafeEqual(mac, tag.slice(0, -2))).toBe(false);
+        expect(timingSafeEqual(mac, mac.subarray(1))).toBe(false);
+        expect(timingSafeEqual(mac, `${tag.slice(0, -2)}zz`)).toBe(false);
+        expect(timingSafeEqual(new Uint8Array(0), '')).toBe(true);
+    });
+
+    it('verifyBlake3Mac accepts tags as bytes or hex', () => {
+        expect(verifyBlake3Mac(key, 'message', tag)).toBe(true);
+        expect(verifyBlake3Mac(key, fromUtf8('message'), blake3Mac(key, 'message'))).toBe(true);
+        expect(verifyBlake3Mac(key, 'message!', tag)).toBe(false);
+        expect(verifyBlake3Mac(blake3('other key'), 'message', tag)).toBe(false);
+        expect(() => verifyBlake3Mac(fromUtf8('short'), 'message', tag)).toThrow('Key must be exactly 32 bytes');
+    });
+
+    it('Blake3Hasher.verify() finalizes and frees the hasher', () => {
+        const hasher = new Blake3Hasher(key).update('message');
+        expect(hasher.verify(tag)).toBe(true);
+        expect(() => hasher.update('more')).toThrow('Hasher has been freed');
+        expect(() => hasher.verify(tag)).toThrow('Hasher has been freed');
+        expect(new Blake3Hasher().update('abc').verify(blake3('abc'))).toBe(true);
+        expect(new Blake3Hasher().update('abc').verify(blake3Hex('abd'))).toBe(false);
+    });
+});
+
+describe('blake3DeriveKey', () => {
+    const CONTEXT = 'hashbuf 2026-10-19 test context';
+
+    it('derives a 32-byte key', () => {
+        const key = blake3DeriveKey(CONTEXT, fromUtf8('key material'));
+        expect(toHex(key)).toBe('9777e9966c26c0c63e3e5f32604e72eeaa2242b4526309eaaf2736afadc13178');
+    });
+
+    it('derives outputLength bytes', () => {
+        const key = blake3DeriveKey(CONTEXT, fromUtf8('key material'), 64);
+        expect(toHex(key)).toBe(
+            '9777e9966c26c0c63e3e5f32604e72eeaa2242b4526309eaaf2736afadc13178' +
+                '49e9758701a7b8af9c2771eb8f99c6a6fe338b52ac6dee0c605bd24a8c3813b9'
+        );
+    });
+
+    it('separates contexts', () => {
+        const material = fromUtf8('key material');
+        expect(toHex(blake3DeriveKey('context A', material))).not.toBe(toHex(blake3DeriveKey('context B', material)));
+        expect(toHex(blake3DeriveKey('context A', material))).not.toBe(toHex(blake3(material)));
+    });
+});
+
+describe('input types', () => {
+    const TEST_INPUT_HEX = 'aa4909e14f1389afc428e481ea20ffd9673604711f5afb60a747fec57e4c267c';
+
+    it('hashes strings as UTF-8', () => {
+        expect(toHex(blake3('test input'))).toBe(TEST_INPUT_HEX);
+        expect(blake3Hex('test input')).toBe(TEST_INPUT_HEX);
+        const text = 'héllo wörld 🌍';
+        expect(toHex(blake3(text))).toBe(toHex(blake3(fromUtf8(text))));
+        expect(toHex(doubleBlake3(text))).toBe(toHex(doubleBlake3(fromUtf8(text))));
+        expect(toHex(blake3(text, { outputLength: 64 }))).toBe(toHex(blake3(fromUtf8(text), { outputLength: 64 })));
+    });
+
+    it('hashes ArrayBuffer and ArrayBufferView inputs', () => {
+        const bytes = fromUtf8('xxtest inputyy');
+        const view = bytes.subarray(2, 12);
+        expect(toHex(blake3(view.slice().buffer))).toBe(TEST_INPUT_HEX);
+        expect(toHex(blake3(new DataView(bytes.buffer, 2, 10)))).toBe(TEST_INPUT_HEX);
+        expect(blake3Hex(view)).toBe(TEST_INPUT_HEX);
+
+        const words = new Uint32Array([1, 2, 3]);
+        expect(toHex(blake3(words))).toBe(toHex(blake3(new Uint8Array(words.buffer))));
+    });
+
+    it('accepts strings in blake3Mac and blake3DeriveKey', () => {
+        const key = blake3('key');
+        expect(toHex(blake3Mac(key, 'message'))).toBe(toHex(blake3Mac(key, fromUtf8('message'))));
+        expect(toHex(blake3DeriveKey('ctx', 'material', 40))).toBe(
+            toHex(blake3DeriveKey('ctx', fromUtf8('material'), 40))
+        );
+    });
+
+    it('Blake3Hasher.update accepts mixed inputs', () => {
+        const hasher = new Blake3Hasher();
+        hasher
+            .update('te')
+            .update(fromUtf8('st').buffer)
+            .update(new DataView(fromUtf8(' input').buffer));
+        expect(hasher.digest('hex')).toBe(TEST_INPUT_HEX);
+    });
+});
+
+// ---------------------------------------------------------------------------
+// Batch hashing
+// ---------------------------------------------------------------------------
+
+describe('blake3Many', () => {
+    const inputs = ['', 'abc', fromUtf8('hello world')];
+
+    it('matches blake3() for every input', () => {
+        const out = blake3Many(inputs);
+        expect(out).toHaveLength(96);
+        inputs.forEach((input, i) => {
+            expect(toHex(out.subarray(i * 32, (i + 1) * 32))).toBe(toHex(blake3(input)));
+        });
+    });
+
+    it('blake3ManyPacked hashes pre-packed inputs', () => {
+        const offsets = new Uint32Array([0, 0, 3, 14]);
+        expect(toHex(blake3ManyPacked(fromUtf8('abchello world'), offsets))).toBe(toHex(blake3Many(inputs)));
+    });
+
+    it('handles an empty batch', () => {
+        expect(blake3Many([])).toHaveLength(0);
+    });
+
+    it('rejects out-of-range offsets', () => {
+        expect(() => blake3ManyPacked(new Uint8Array(4), new Uint32Array([0, 5]))).toThrow('Invalid offsets');
+        expect(() => blake3ManyPacked(new Uint8Array(4), new Uint32Array([3, 1]))).toThrow('Invalid offsets');
+    });
+
+    it('BLAKE3.hashMany and hashManyPacked match', () => {
+        expect(toHex(BLAKE3.hashMany(inputs))).toBe(toHex(blake3Many(inputs)));
+        expect(toHex(BLAKE3.hashManyPacked(fromUtf8('abc'), new Uint32Array([0, 3])))).toBe(toHex(blake3('abc')));
+    });
+});
+
+describe('BLAKE3 HashAlgorithm', () => {
+    it('is registered by name', () => {
+        expect(getAlgorithm('blake3')).toBe(BLAKE3);
+        expect(getAlgorithm('BLAKE3')).toBe(BLAKE3);
+    });
+});
+
 // ---------------------------------------------------------------------------
 // Streaming hasher tests
 // ---------------------------------------------------------------------------
@@ -168,6 +381,52 @@ describe('Blake3Hasher streaming', () => {
         expect(toHex(macStreamed)).toBe(toHex(macOneshot));
     });
 
+    it('deriveKey hasher matches blake3DeriveKey', () => {
+        const context = 'hashbuf 2026-10-19 test context';
+        const oneshot = blake3DeriveKey(context, fromUtf8('key material'));
+
+        const hasher = Blake3Hasher.deriveKey(context);
+        hasher.update(fromUtf8('key ')).update(fromUtf8('material'));
+        expect(toHex(hasher.finalize())).toBe(toHex(oneshot));
+
+        // reset preserves the context
+        hasher.reset().update(fromUtf8('key material'));
+        expect(toHex(hasher.digest())).toBe(toHex(oneshot));
+    });
+
+    it('clone() forks independent hashers from a shared prefix', () => {
+        const parent = new Blake3Hasher();
+        parent.update(fromUtf8('test '));
+        const a = parent.clone();
+        const b = parent.clone();
+        a.update(fromUtf8('input'));
+        b.update(fromUtf8('vector'));
+        parent.update(fromUtf8('garbage'));
+
+        expect(a.digest('hex')).toBe('aa4909e14f1389afc428e481ea20ffd9673604711f5afb60a747fec57e4c267c');
+        expect(toHex(b.digest())).toBe(toHex(blake3(fromUtf8('test vector'))));
+        expect(toHex(parent.digest())).toBe(toHex(blake3(fromUtf8('test garbage'))));
+    });
+
+    it('clone() preserves the key', () => {
+        const key = blake3(fromUtf8('key'));
+        const parent = new Blake3Hasher(key);
+        parent.update(fromUtf8('mes'));
+        const child = parent.clone();
+        parent.free();
+
+        child.update(fromUtf8('sage'));
+        expect(toHex(child.finalize())).toBe(toHex(blake3Mac(key, fromUtf8('message'))));
+        child.reset().update(fromUtf8('message'));
+        expect(toHex(child.digest())).toBe(toHex(blake3Mac(key, fromUtf8('message'))));
+    });
+
+    it('clone() throws after free', () => {
+        const hasher = new Blake3Hasher();
+        hasher.free();
+        expect(() => hasher.clone()).toThrow('Hasher has been freed');
+    });
+
     it('throws after free', () => {
         const hasher = new Blake3Hasher();
         hasher.free();
@@ -201,6 +460,20 @@ describe('Blake3Hasher streaming', () => {
         expect(() => hasher.finalize()).toThrow('Hasher has been freed');
     });
 
+    it("digest('base64') and digest('base64url') encode in WASM", () => {
+        const b64 = new Blake3Hasher().update(fromUtf8('test input')).digest('base64');
+        const b64url = new Blake3Hasher().update(fromUtf8('test input')).digest('base64url');
+        expect(b64).toBe('qkkJ4U8Tia/EKOSB6iD/2Wc2BHEfWvtgp0f+xX5MJnw=');
+        expect(b64url).toBe('qkkJ4U8Tia_EKOSB6iD_2Wc2BHEfWvtgp0f-xX5MJnw');
+    });
+
+    it('digest() rejects unknown encodings without consuming the hasher', () => {
+        const hasher = new Blake3Hasher();
+        // @ts-expect-error -- runtime validation for JS callers
+        expect(() => hasher.digest('latin1')).toThrow('Unsupported digest encoding: latin1');
+        expect(hasher.digest('hex')).toBe('af1349b9f5f9a1a6a0404dea36dcc9499bcb25c9adc112b7cc9a93cae41f3262');
+    });
+
     it('digest() matches finalize() output', () => {
         const data = fromUtf8('consistency');
         const hasher1 = new Blake3Hasher();
@@ -220,6 +493,164 @@ describe('Blake3Hasher streaming', () => {
         hasher.free();
         expect(() => hasher.digest()).toThrow('Hasher has been freed');
     });
+
+    it('finalizeXof() matches one-shot extendable output', () => {
+        const data = fromUtf8('test input');
+        const hasher = new Blake3Hasher();
+        hasher.update(data.subarray(0, 4)).update(data.subarray(4));
+        const out = hasher.finalizeXof(100);
+        expect(toHex(out)).toBe(toHex(blake3(data, { outputLength: 100 })));
+        // not consumed
+        expect(toHex(hasher.finalize())).toBe(toHex(out.subarray(0, 32)));
+        hasher.free();
+    });
+
+    it('keyed finalizeXof() extends blake3Mac', () => {
+        const key = blake3(fromUtf8('key'));
+        const hasher = new Blake3Hasher(key);
+        hasher.update(fromUtf8('message'));
+        const out = hasher.finalizeXof(48);
+        hasher.free();
+
+        expect(toHex(out.subarray(0, 32))).toBe(toHex(blake3Mac(key, fromUtf8('message'))));
+    });
+});
+
+// ---------------------------------------------------------------------------
+// Zero-copy input buffer
+// ---------------------------------------------------------------------------
+
+describe('Blake3Hasher input buffer', () => {
+    const data = Uint8Array.from({ length: 200 * 1024 + 17 }, (_, i) => (i * 13) % 256);
+
+    it('commit() matches update()', () => {
+        const hasher = new Blake3Hasher();
+        const input = hasher.inputBuffer;
+        expect(input.byteLength).toBe(1024 * 1024);
+        for (let offset = 0; offset < data.byteLength; offset += input.byteLength) {
+            const piece = data.subarray(offset, offset + input.byteLength);
+            hasher.inputBuffer.set(piece);
+            hasher.commit(piece.byteLength);
+        }
+        expect(toHex(hasher.digest())).toBe(toHex(blake3(data)));
+    });
+
+    it('reuses one buffer across commits', () => {
+        const hasher = new Blake3Hasher();
+        const input = hasher.inputBuffer;
+        for (let i = 0; i < 4096; i++) {
+            hasher.inputBuffer.set(data.subarray(0, 1024));
+            hasher.commit(1024);
+        }
+        // A new view would mean the commit path allocated and grew WASM memory
+        expect(hasher.inputBuffer).toBe(input);
+        expect(input.byteLength).toBe(1024 * 1024);
+        hasher.free();
+    });
+
+    it('mixes with update() and commits nothing for length 0', () => {
+        const hasher = new Blake3Hasher();
+        hasher.update(data.subarray(0, 10));
+        hasher.inputBuffer.set(data.subarray(10, 100));
+        hasher.commit(90).commit(0).update(data.subarray(100, 1000));
+        expect(toHex(hasher.digest())).toBe(toHex(blake3(data.subarray(0, 1000))));
+    });
+
+    it('gives clones their own buffer', () => {
+        const hasher = new Blake3Hasher();
+        hasher.inputBuffer.set(fromUtf8('abc'));
+        const clone = hasher.clone();
+        clone.inputBuffer.set(fromUtf8('xyz'));
+        hasher.commit(3);
+        clone.commit(3);
+        expect(toHex(hasher.digest())).toBe(toHex(blake3('abc')));
+        expect(toHex(clone.digest())).toBe(toHex(blake3('xyz')));
+    });
+
+    it('recreates the view after WASM memory grows', () => {
+        const hasher = new Blake3Hasher();
+        const stale = hasher.inputBuffer;
+        stale.set(fromUtf8('kept'));
+        for (let size = 1024 * 1024; stale.byteLength !== 0; size *= 2) {
+            blake3(new Uint8Array(size));
+        }
+        const fresh = hasher.inputBuffer;
+        expect(fresh.byteLength).toBe(1024 * 1024);
+        expect(toHex(fresh.subarray(0, 4))).toBe(toHex(fromUtf8('kept')));
+        hasher.commit(4);
+        expect(toHex(hasher.digest())).toBe(toHex(blake3('kept')));
+    });
+
+    it('rejects invalid commit lengths', () => {
+        const hasher = new Blake3Hasher();
+        expect(() => hasher.commit(-1)).toThrow('Commit length must be a non-negative integer');
+        expect(() => hasher.commit(1.5)).toThrow(RangeError);
+        expect(() => hasher.commit(1024 * 1024 + 1)).toThrow(
+            'Cannot commit 1048577 bytes from an input buffer of 1048576 bytes'
+        );
+        hasher.free();
+        expect(() => hasher.inputBuffer).toThrow('Hasher has been freed');
+        expect(() => hasher.commit(0)).toThrow('Hasher has been freed');
+    });
+
+    it('carries blake3Stream() chunks larger than the buffer', async () => {
+        async function* gen() {
+            yield data.subarray(0, 5);
+            yield data.subarray(5);
+        }
+        expect(toHex(await blake3Stream(gen()))).toBe(toHex(blake3(data)));
+    });
+});
+
+// ---------------------------------------------------------------------------
+// Extendable output reader
+// ---------------------------------------------------------------------------
+
+describe('Blake3OutputReader', () => {
+    const data = fromUtf8('test input');
+    const expected = blake3(data, { outputLength: 100 });
+
+    function reader() {
+        const hasher = new Blake3Hasher();
+        hasher.update(data);
+        const r = hasher.finalizeReader();
+        hasher.free();
+        return r;
+    }
+
+    it('fills sequentially across calls', () => {
+        const r = reader();
+        const first = r.fill(new Uint8Array(40));
+        const rest = r.fill(new Uint8Array(60));
+        expect(toHex(first)).toBe(toHex(expected.subarray(0, 40)));
+        expect(toHex(rest)).toBe(toHex(expected.subarray(40)));
+        expect(r.position).toBe(100);
+        r.free();
+    });
+
+    it('seeks to an absolute position', () => {
+        const r = reader();
+        r.seek(64);
+        expect(r.position).toBe(64);
+        expect(toHex(r.fill(new Uint8Array(36)))).toBe(toHex(expected.subarray(64)));
+        r.seek(0);
+        expect(toHex(r.fill(new Uint8Array(32)))).toBe(toHex(blake3(data)));
+        r.free();
+    });
+
+    it('outlives the hasher it was created from', () => {
+        const r = reader();
+        expect(toHex(r.fill(new Uint8Array(100)))).toBe(toHex(expected));
+        r.free();
+    });
+
+    it('throws after free', () => {
+        const r = reader();
+        r.free();
+        r.free(); // idempotent
+        expect(() => r.fill(new Uint8Array(1))).toThrow('Output reader has been freed');
+        expect(() => r.seek(0)).toThrow('Output reader has been freed');
+    });
 });
 
 // ---------------------------------------------------------------------------
@@ -260,4 +691,235 @@ describe('blake3Stream', () => {
         const hash = await blake3Stream(gen());
         expect(toHex(hash)).toBe('af1349b9f5f9a1a6a0404dea36dcc9499bcb25c9adc112b7cc9a93cae41f3262');
     });
+
+    it('hashes a ReadableStream', async () => {
+        const data = fromUtf8('readable stream input');
+        const stream = new ReadableStream<Uint8Array>({
+            start(controller) {
+                controller.enqueue(data.subarray(0, 8));
+                controller.enqueue(data.subarray(8));
+                controller.close();
+            }
+        });
+
+        const hash = await blake3Stream(stream);
+        expect(toHex(hash)).toBe(toHex(blake3(data)));
+    });
+
+    it('hashes a Blob', async () => {
+        const blob = new Blob(['blob ', 'input']);
+        const hash = await blake3Stream(blob);
+        expect(toHex(hash)).toBe(toHex(blake3('blob input')));
+    });
+
+    it('hashes string chunks from an async iterable', async () => {
+        async function* gen() {
+            yield 'test ';
+            yield fromUtf8('input');
+        }
+
+        const hash = await blake3Stream(gen());
+        expect(toHex(hash)).toBe('aa4909e14f1389afc428e481ea20ffd9673604711f5afb60a747fec57e4c267c');
+    });
+});
+
+// ---------------------------------------------------------------------------
+// Bao verified streaming
+// ---------------------------------------------------------------------------
+
+function pattern(length: number): Uint8Array<ArrayBuffer> {
+    return Uint8Array.from({ length }, (_, i) => i % 251);
+}
+
+// Helper: copy of `buf` with one bit flipped at `index`
+function flipBit(buf: Uint8Array, index: number): Uint8Array {
+    const copy = buf.slice();
+    copy[index] = (copy[index] ?? 0) ^ 1;
+    return copy;
+}
+
+describe('blake3 Bao', () => {
+    it('has the BLAKE3 digest as its root hash', () => {
+        for (const length of [0, 1, 1024, 1025, 5000]) {
+            const data = pattern(length);
+            expect(toHex(blake3BaoEncode(data).hash)).toBe(toHex(blake3(data)));
+            expect(toHex(blake3BaoOutboard(data).hash)).toBe(toHex(blake3(data)));
+        }
+        expect(toHex(blake3BaoEncode('').hash)).toBe(
+            'af1349b9f5f9a1a6a0404dea36dcc9499bcb25c9adc112b7cc9a93cae41f3262'
+        );
+    });
+
+    it('encodes the length header, parent nodes and content', () => {
+        const data = pattern(2049);
+        const { encoded } = blake3BaoEncode(data);
+        const { outboard } = blake3BaoOutboard(data);
+        expect(encoded).toHaveLength(8 + 2 * 64 + 2049);
+        expect(outboard).toHaveLength(8 + 2 * 64);
+        expect(Array.from(encoded.subarray(0, 8))).toEqual([1, 8, 0, 0, 0, 0, 0, 0]);
+    });
+
+    it('round-trips combined and outboard encodings', () => {
+        for (const length of [0, 1, 1024, 1025, 5000]) {
+            const data = pattern(length);
+            const { hash, encoded } = blake3BaoEncode(data);
+            const { outboard } = blake3BaoOutboard(data);
+            expect(blake3BaoDecode(encoded, hash)).toEqual(data);
+            expect(blake3BaoDecodeOutboard(data, outboard, hash)).toEqual(data);
+        }
+    });
+
+    it('rejects tampered encodings and wrong hashes', () => {
+        const data = pattern(5000);
+        const { hash, encoded } = blake3BaoEncode(data);
+        const tampered = flipBit(encoded, encoded.length - 1);
+        expect(() => blake3BaoDecode(tampered, hash)).toThrow('Bao verification failed at byte offset 4096');
+        expect(() => blake3BaoDecode(encoded, blake3('other'))).toThrow('Bao verification failed');
+        expect(() => blake3BaoDecode(encoded.subarray(0, 100), hash)).toThrow('Bao encoding is truncated');
+        expect(() => blake3BaoDecode(encoded, hash.subarray(0, 16))).toThrow('Hash must be exactly 32 bytes');
+    });
+
+    it('rejects modified content against an outboard encoding', () => {
+        const data = pattern(5000);
+        const { hash, outboard } = blake3BaoOutboard(data);
+        const modified = flipBit(data, 10);
+        expect(() => blake3BaoDecodeOutboard(modified, outboard, hash)).toThrow(
+            'Bao verification failed at byte offset 0'
+        );
+    });
+
+    it('extracts and verifies slices', () => {
+        const data = pattern(9000);
+        const { hash, encoded } = blake3BaoEncode(data);
+        const { outboard } = blake3BaoOutboard(data);
+
+        const slice = blake3BaoExtractSlice(encoded, 4096, 10);
+        expect(slice).toHaveLength(8 + 4 * 64 + 1024);
+        expect(blake3BaoExtractSliceOutboard(data, outboard, 4096, 10)).toEqual(slice);
+        expect(blake3BaoDecodeSlice(slice, hash, 4096, 10)).toEqual(data.subarray(4096, 4106));
+
+        const tail = blake3BaoExtractSlice(encoded, 8000, 5000);
+        expect(blake3BaoDecodeSlice(tail, hash, 8000, 5000)).toEqual(data.subarray(8000));
+
+        const tampered = flipBit(slice, slice.length - 1);
+        expect(() => blake3BaoDecodeSlice(tampered, hash, 4096, 10)).toThrow('Bao verification failed');
+    });
+
+    it('validates slice ranges', () => {
+        const { encoded } = blake3BaoEncode('x');
+        expect(() => blake3BaoExtractSlice(encoded, -1, 1)).toThrow('Start must be a non-negative integer');
+        expect(() => blake3BaoExtractSlice(encoded, 0, 1.5)).toThrow('Length must be a non-negative integer');
+    });
+});
+
+describe('Blake3BaoDecoder', () => {
+    it('returns content only once it is verified', () => {
+        const data = pattern(5000);
+        const { hash, encoded } = blake3BaoEncode(data);
+        using decoder = new Blake3BaoDecoder(hash);
+        const pieces: Uint8Array[] = [];
+        for (let i = 0; i < encoded.length; i += 100) {
+            const content = decoder.update(encoded.subarray(i, i + 100));
+            if (content.length > 0) {
+                pieces.push(content);
+            }
+        }
+        decoder.finish();
+        expect(pieces.map((piece) => piece.length)).toEqual([1024, 1024, 1024, 1024, 904]);
+        expect(new Uint8Array(pieces.flatMap((piece) => Array.from(piece)))).toEqual(data);
+    });
+
+    it('throws at the first corrupted chunk', () => {
+        const data = pattern(5000);
+        const { hash, encoded } = blake3BaoEncode(data);
+        const tampered = flipBit(encoded, encoded.length - 1000);
+        using decoder = new Blake3BaoDecoder(hash);
+        expect(decoder.update(tampered.subarray(0, 2000))).toHaveLength(1024);
+        expect(() => decoder.update(tampered.subarray(2000))).toThrow('Bao verification failed at byte offset 3072');
+    });
+
+    it('decodes plain content with an outboard encoding', () => {
+        const data = pattern(3000);
+        const { hash, outboard } = blake3BaoOutboard(data);
+        using decoder = new Blake3BaoDecoder(hash, { outboard });
+        expect(decoder.update(data.subarray(0, 1500))).toEqual(data.subarray(0, 1024));
+        expect(decoder.update(data.subarray(1500))).toEqual(data.subarray(1024));
+        decoder.finish();
+    });
+
+    it('decodes slices', () => {
+        const data = pattern(9000);
+        const { hash, encoded } = blake3BaoEncode(data);
+        const slice = blake3BaoExtractSlice(encoded, 1000, 2000);
+        using decoder = Blake3BaoDecoder.forSlice(hash, 1000, 2000);
+        expect(decoder.update(slice)).toEqual(data.subarray(1000, 3000));
+        decoder.finish();
+    });
+
+    it('detects truncation and trailing data', () => {
+        const { hash, encoded } = blake3BaoEncode(pattern(3000));
+        const decoder = new Blake3BaoDecoder(hash);
+        decoder.update(encoded.subarray(0, encoded.length - 1));
+        expect(() => decoder.finish()).toThrow('Bao encoding is truncated');
+        decoder.free();
+
+        const extra = new Uint8Array(encoded.length + 1);
+        extra.set(encoded);
+        expect(() => new Blake3BaoDecoder(hash).update(extra)).toThrow(
+            'Unexpected data after the end of the Bao encoding'
+        );
+    });
+
+    it('throws after free()', () => {
+        const decoder = new Blake3BaoDecoder(blake3(''));
+        decoder.free();
+        decoder.free();
+        expect(() => decoder.update(new Uint8Array(8))).toThrow('Decoder has been freed');
+        expect(() => decoder.finish()).toThrow('Decoder has been freed');
+    });
+});
+
+describe('blake3BaoDecodeStream', () => {
+    it('yields verified content from a ReadableStream', async () => {
+        const data = pattern(5000);
+        const { hash, encoded } = blake3BaoEncode(data);
+        const stream = new ReadableStream<Uint8Array>({
+            start(controller) {
+                controller.enqueue(encoded.subarray(0, 3000));
+                controller.enqueue(encoded.subarray(3000));
+                controller.close();
+            }
+        });
+
+        const pieces: number[] = [];
+        for await (const content of blake3BaoDecodeStream(stream, hash)) {
+            pieces.push(...content);
+        }
+        expect(new Uint8Array(pieces)).toEqual(data);
+    });
+
+    it('decodes a Blob with an outboard encoding', async () => {
+        const data = pattern(3000);
+        const { hash, outboard } = blake3BaoOutboard(data);
+        const pieces: number[] = [];
+        for await (const content of blake3BaoDecodeStream(new Blob([data]), hash, { outboard })) {
+            pieces.push(...content);
+        }
+        expect(new Uint8Array(pieces)).toEqual(data);
+    });
+
+    it('throws on a corrupted stream', async () => {
+        const { hash, encoded } = blake3BaoEncode(pattern(3000));
+        const tampered = flipBit(encoded, 200);
+        async function* gen() {
+            yield tampered;
+        }
+
+        const consume = async () => {
+            for await (const _ of blake3BaoDecodeStream(gen(), hash)) {
+                // drain
+            }
+        };
+        await expect(consume()).rejects.toThrow('Bao verification failed');
+    });
 });
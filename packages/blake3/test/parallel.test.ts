@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { Blake3Hasher, blake3, blake3DeriveKey, blake3Mac } from '../src/index';
+import { blake3Parallel, updateParallel } from '../src/parallel';
+
+function toHex(buf: Uint8Array): string {
+    return Array.from(buf)
+        .map((b) => b.toString(16).padStart(2, '0'))
+        .join('');
+}
+
+// ---------------------------------------------------------------------------
+// Parallel hashing
+// ---------------------------------------------------------------------------
+
+describe('blake3Parallel', () => {
+    // Large enough to be split across workers
+    const large = Uint8Array.from({ length: 5 * 1024 * 1024 + 123 }, (_, i) => (i * 31) % 256);
+
+    it('matches blake3()', async () => {
+        expect(toHex(await blake3Parallel(large))).toBe(toHex(blake3(large)));
+        expect(toHex(await blake3Parallel(large, { threads: 2 }))).toBe(toHex(blake3(large)));
+    });
+
+    it('reads SharedArrayBuffer-backed input in place', async () => {
+        const shared = new Uint8Array(new SharedArrayBuffer(large.byteLength));
+        shared.set(large);
+        expect(toHex(await blake3Parallel(shared))).toBe(toHex(blake3(large)));
+    });
+
+    it('hashes small inputs and strings on the calling thread', async () => {
+        expect(toHex(await blake3Parallel('test input'))).toBe(
+            'aa4909e14f1389afc428e481ea20ffd9673604711f5afb60a747fec57e4c267c'
+        );
+        expect(toHex(await blake3Parallel(large, { threads: 1 }))).toBe(toHex(blake3(large)));
+    });
+
+    it('rejects invalid thread counts', async () => {
+        await expect(blake3Parallel(large, { threads: 0 })).rejects.toThrow(RangeError);
+        await expect(blake3Parallel(large, { threads: 1.5 })).rejects.toThrow('Threads must be a positive integer');
+    });
+});
+
+describe('updateParallel', () => {
+    const large = Uint8Array.from({ length: 6 * 1024 * 1024 + 5 }, (_, i) => (i * 7) % 256);
+
+    it('continues a hasher between plain updates', async () => {
+        const serial = new Blake3Hasher().update('prefix').update(large).update('suffix');
+        const parallel = new Blake3Hasher().update('prefix');
+        await updateParallel(parallel, large);
+        parallel.update('suffix');
+        expect(toHex(parallel.finalize())).toBe(toHex(serial.finalize()));
+        expect(toHex(parallel.finalizeXof(100))).toBe(toHex(serial.finalizeXof(100)));
+        serial.free();
+        parallel.free();
+    });
+
+    it('supports repeated calls', async () => {
+        const hasher = new Blake3Hasher();
+        await updateParallel(hasher, large);
+        await updateParallel(hasher, large);
+        const twice = new Uint8Array(large.byteLength * 2);
+        twice.set(large);
+        twice.set(large, large.byteLength);
+        expect(toHex(hasher.digest())).toBe(toHex(blake3(twice)));
+    });
+
+    it('keeps the key and derivation context', async () => {
+        const key = new Uint8Array(32).fill(9);
+        const keyed = await updateParallel(new Blake3Hasher(key), large);
+        expect(toHex(keyed.digest())).toBe(toHex(blake3Mac(key, large)));
+
+        const context = 'hashbuf 2026-10-19 parallel test';
+        const derived = await updateParallel(Blake3Hasher.deriveKey(context), large);
+        expect(toHex(derived.digest())).toBe(toHex(blake3DeriveKey(context, large)));
+    });
+
+    it('throws after free()', async () => {
+        const hasher = new Blake3Hasher();
+        hasher.free();
+        await expect(updateParallel(hasher, large)).rejects.toThrow('Hasher has been freed');
+    });
+});
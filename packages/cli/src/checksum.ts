@@ -0,0 +1,118 @@
+// ---------------------------------------------------------------------------
+// Checksum lines
+//
+// GNU coreutils (`sha256sum`, `b3sum`) write `<digest>  <name>`, or
+// `<digest> *<name>` for files read in binary mode. BSD tags read
+// `<TAG> (<name>) = <digest>`. In both formats, a name containing a
+// backslash, newline or carriage return is escaped and the whole line is
+// prefixed with a backslash.
+// ---------------------------------------------------------------------------
+
+/** A parsed checksum line. */
+export interface ChecksumLine {
+    /** Algorithm tag of a BSD-style line (e.g. `'SHA256'`), absent for GNU lines. */
+    tag?: string;
+    /** Lowercase hex digest. */
+    digest: string;
+    /** The unescaped file name. */
+    filename: string;
+    /** Whether a GNU line marks the file as read in binary mode (`*`). */
+    binary: boolean;
+}
+
+/** Options for `formatChecksumLine()`. */
+export interface FormatChecksumOptions {
+    /** Write a BSD-style line with this algorithm tag instead of a GNU line. */
+    tag?: string;
+    /** Mark the file as read in binary mode (GNU lines only). */
+    binary?: boolean;
+}
+
+const BSD_LINE = /^([A-Za-z0-9][A-Za-z0-9/-]*) ?\((.*)\) ?= ?([0-9A-Fa-f]+)$/s;
+const GNU_LINE = /^([0-9A-Fa-f]+) ([ *])(.*)$/s;
+
+function needsEscape(filename: string): boolean {
+    return /[\\\n\r]/.test(filename);
+}
+
+function escapeFilename(filename: string): string {
+    return filename.replace(/[\\\n\r]/g, (c) => (c === '\\' ? '\\\\' : c === '\n' ? '\\n' : '\\r'));
+}
+
+function unescapeFilename(filename: string): string | undefined {
+    let out = '';
+    for (let i = 0; i < filename.length; i++) {
+        const c = filename[i];
+        if (c !== '\\') {
+            out += c;
+            continue;
+        }
+        const next = filename[++i];
+        if (next === '\\') {
+            out += '\\';
+        } else if (next === 'n') {
+            out += '\n';
+        } else if (next === 'r') {
+            out += '\r';
+        } else {
+            return undefined;
+        }
+    }
+    return out;
+}
+
+/**
+ * Format a file name for `--check` output, escaped the same way as in
+ * checksum lines.
+ */
+export function formatFilename(filename: string): string {
+    return needsEscape(filename) ? `\\${escapeFilename(filename)}` : filename;
+}
+
+/**
+ * Format one checksum line (without the trailing newline).
+ *
+ * ```ts
+ * formatChecksumLine(hex, 'a.txt');                    // '<hex>  a.txt'
+ * formatChecksumLine(hex, 'a.txt', { tag: 'SHA256' }); // 'SHA256 (a.txt) = <hex>'
+ * ```
+ */
+export function formatChecksumLine(digest: string, filename: string, options: FormatChecksumOptions = {}): string {
+    const prefix = needsEscape(filename) ? '\\' : '';
+    const name = escapeFilename(filename);
+    if (options.tag !== undefined) {
+        return `${prefix}${options.tag} (${name}) = ${digest}`;
+    }
+    return `${prefix}${digest} ${options.binary ? '*' : ' '}${name}`;
+}
+
+/**
+ * Parse one checksum line in GNU or BSD format (without the trailing
+ * newline). Returns `undefined` if the line is improperly formatted.
+ */
+export function parseChecksumLine(line: string): ChecksumLine | undefined {
+    const escaped = line.startsWith('\\');
+    // Carriage returns in names are escaped, so a trailing one comes from a CRLF line ending
+    const text = (escaped ? line.slice(1) : line).replace(/\r$/, '');
+
+    let tag: string | undefined;
+    let digest: string;
+    let name: string;
+    let binary = false;
+    const bsd = BSD_LINE.exec(text);
+    const gnu = bsd === null ? GNU_LINE.exec(text) : null;
+    if (bsd !== null) {
+        [, tag, name, digest] = bsd as unknown as [string, string, string, string];
+    } else if (gnu !== null) {
+        [, digest, , name] = gnu as unknown as [string, string, string, string];
+        binary = gnu[2] === '*';
+    } else {
+        return undefined;
+    }
+
+    const filename = escaped ? unescapeFilename(name) : name;
+    if (filename === undefined || filename === '') {
+        return undefined;
+    }
+    return { ...(tag !== undefined && { tag }), digest: digest.toLowerCase(), filename, binary };
+}
@@ -0,0 +1,2 @@
+export { type ChecksumLine, type FormatChecksumOptions, formatChecksumLine, parseChecksumLine } from './checksum.js';
+export { type CliIO, run } from './run.js';
@@ -0,0 +1,302 @@
+import { createReadStream } from 'node:fs';
+import { parseArgs } from 'node:util';
+import { BLAKE3 } from '@hashbuf/blake3';
+import { SHA256 } from '@hashbuf/sha256';
+import type { HashAlgorithm, HashInput } from '@hashbuf/types';
+import { updateBuffered } from '@hashbuf/types';
+import { formatChecksumLine, formatFilename, parseChecksumLine } from './checksum.js';
+
+/** Where `run()` reads standard input from and writes its output to. */
+export interface CliIO {
+    stdin: AsyncIterable<HashInput>;
+    stdout: { write(text: string): unknown };
+    stderr: { write(text: string): unknown };
+}
+
+interface AlgorithmEntry {
+    algorithm: HashAlgorithm;
+    /** Name used in BSD-style lines. */
+    tag: string;
+}
+
+const ALGORITHMS: Record<string, AlgorithmEntry> = {
+    blake3: { algorithm: BLAKE3, tag: 'BLAKE3' },
+    sha256: { algorithm: SHA256, tag: 'SHA256' }
+};
+
+const USAGE = `Usage: hashbuf [OPTION]... [FILE]...
+Print or check BLAKE3 or SHA-256 checksums.
+With no FILE, or when FILE is -, read standard input.
+
+  -a, --algo ALGO       blake3 (default) or sha256
+  -b, --binary          mark files as read in binary mode ('*' before the name)
+  -t, --text            mark files as read in text mode (default)
+      --tag             print BSD-style checksum lines
+  -c, --check           read checksums from the FILEs and check them
+  -h, --help            print this help and exit
+
+The following options are only useful when checking checksums:
+      --ignore-missing  don't fail or report status for missing files
+      --quiet           don't print OK for each successfully verified file
+      --status          don't output anything, the exit code shows success
+      --strict          exit non-zero for improperly formatted checksum lines
+  -w, --warn            warn about improperly formatted checksum lines
+`;
+
+const OPTIONS = {
+    algo: { type: 'string', short: 'a', default: 'blake3' },
+    binary: { type: 'boolean', short: 'b' },
+    text: { type: 'boolean', short: 't' },
+    tag: { type: 'boolean' },
+    check: { type: 'boolean', short: 'c' },
+    'ignore-missing': { type: 'boolean' },
+    quiet: { type: 'boolean' },
+    status: { type: 'boolean' },
+    strict: { type: 'boolean' },
+    warn: { type: 'boolean', short: 'w' },
+    help: { type: 'boolean', short: 'h' }
+} as const;
+
+const CHECK_ONLY_OPTIONS = ['ignore-missing', 'quiet', 'status', 'strict', 'warn'] as const;
+
+type ParsedArgs = ReturnType<typeof parseArgs<{ options: typeof OPTIONS; allowPositionals: true }>>;
+type Options = ParsedArgs['values'];
+
+const ERRNO_MESSAGES: Record<string, string> = {
+    EACCES: 'Permission denied',
+    EISDIR: 'Is a directory',
+    ENOENT: 'No such file or directory'
+};
+
+class UsageError extends Error {}
+
+function describeError(err: unknown): string {
+    const code = (err as NodeJS.ErrnoException | undefined)?.code;
+    return (code !== undefined && ERRNO_MESSAGES[code]) || (err instanceof Error ? err.message : String(err));
+}
+
+function plural(count: number, singular: string, many: string): string {
+    return `${count} ${count === 1 ? singular : many}`;
+}
+
+/** The chunks of the file `name`, or of standard input for `-`. */
+function open(name: string, io: CliIO): AsyncIterable<HashInput> {
+    return name === '-' ? io.stdin : createReadStream(name, { highWaterMark: 1024 * 1024 });
+}
+
+/**
+ * Hash `source` into a hex digest. Like `HashAlgorithm.stream()`, feeding
+ * chunks through the hasher's zero-copy input buffer where it has one, but
+ * finalizes with `digest('hex')` so the digest is encoded inside WASM.
+ */
+async function hashHex(algorithm: HashAlgorithm, source: AsyncIterable<HashInput>): Promise<string> {
+    const hasher = algorithm.createHasher();
+    try {
+        for await (const chunk of source) {
+            updateBuffered(hasher, chunk);
+        }
+    } catch (err) {
+        hasher.free();
+        throw err;
+    }
+    return hasher.digest('hex');
+}
+
+async function readText(source: AsyncIterable<HashInput>): Promise<string> {
+    const chunks: Uint8Array[] = [];
+    for await (const chunk of source) {
+        chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : Buffer.from(chunk as Uint8Array));
+    }
+    return Buffer.concat(chunks).toString('utf8');
+}
+
+// ---------------------------------------------------------------------------
+// Printing checksums
+// ---------------------------------------------------------------------------
+
+async function printChecksums(files: readonly string[], entry: AlgorithmEntry, options: Options, io: CliIO) {
+    let ok = true;
+    for (const name of files) {
+        try {
+            const digest = await hashHex(entry.algorithm, open(name, io));
+            const line = formatChecksumLine(digest, name, {
+                tag: options.tag ? entry.tag : undefined,
+                binary: options.binary
+            });
+            io.stdout.write(`${line}\n`);
+        } catch (err) {
+            io.stderr.write(`hashbuf: ${name}: ${describeError(err)}\n`);
+            ok = false;
+        }
+    }
+    return ok;
+}
+
+// ---------------------------------------------------------------------------
+// Checking checksums
+// ---------------------------------------------------------------------------
+
+async function checkManifest(manifest: string, entry: AlgorithmEntry, options: Options, io: CliIO) {
+    const manifestName = manifest === '-' ? 'standard input' : manifest;
+    let text: string;
+    try {
+        text = await readText(open(manifest, io));
+    } catch (err) {
+        io.stderr.write(`hashbuf: ${manifestName}: ${describeError(err)}\n`);
+        return false;
+    }
+
+    let wellFormed = 0;
+    let misformatted = 0;
+    let unreadable = 0;
+    let mismatched = 0;
+    let verified = 0;
+    const lines = text.split('\n');
+    if (lines[lines.length - 1] === '') {
+        lines.pop();
+    }
+
+    for (const [index, line] of lines.entries()) {
+        if (line.startsWith('#')) {
+            continue;
+        }
+        const parsed = parseChecksumLine(line);
+        // BSD-style lines name their algorithm; GNU lines use --algo
+        const lineEntry =
+            parsed?.tag === undefined ? entry : Object.values(ALGORITHMS).find(({ tag }) => tag === parsed.tag);
+        if (
+            parsed === undefined ||
+            lineEntry === undefined ||
+            parsed.digest.length !== lineEntry.algorithm.digestLength * 2
+        ) {
+            misformatted++;
+            if (options.warn) {
+                io.stderr.write(`hashbuf: ${manifestName}: ${index + 1}: improperly formatted checksum line\n`);
+            }
+            continue;
+        }
+        wellFormed++;
+
+        const name = formatFilename(parsed.filename);
+        let digest: string;
+        try {
+            digest = await hashHex(lineEntry.algorithm, open(parsed.filename, io));
+        } catch (err) {
+            if (options['ignore-missing'] && (err as NodeJS.ErrnoException).code === 'ENOENT') {
+                continue;
+            }
+            unreadable++;
+            io.stderr.write(`hashbuf: ${name}: ${describeError(err)}\n`);
+            if (!options.status) {
+                io.stdout.write(`${name}: FAILED open or read\n`);
+            }
+            continue;
+        }
+        verified++;
+        if (digest !== parsed.digest) {
+            mismatched++;
+            if (!options.status) {
+                io.stdout.write(`${name}: FAILED\n`);
+            }
+        } else if (!options.status && !options.quiet) {
+            io.stdout.write(`${name}: OK\n`);
+        }
+    }
+
+    if (wellFormed === 0) {
+        io.stderr.write(`hashbuf: ${manifestName}: no properly formatted checksum lines found\n`);
+        return false;
+    }
+    if (!options.status) {
+        if (misformatted > 0) {
+            const lines = plural(misformatted, 'line is', 'lines are');
+            io.stderr.write(`hashbuf: WARNING: ${lines} improperly formatted\n`);
+        }
+        if (unreadable > 0) {
+            const files = plural(unreadable, 'listed file', 'listed files');
+            io.stderr.write(`hashbuf: WARNING: ${files} could not be read\n`);
+        }
+        if (mismatched > 0) {
+            const checksums = plural(mismatched, 'computed checksum', 'computed checksums');
+            io.stderr.write(`hashbuf: WARNING: ${checksums} did NOT match\n`);
+        }
+    }
+    if (options['ignore-missing'] && verified === 0) {
+        io.stderr.write(`hashbuf: ${manifestName}: no file was verified\n`);
+        return false;
+    }
+    return mismatched === 0 && unreadable === 0 && !(options.strict && misformatted > 0);
+}
+
+// ---------------------------------------------------------------------------
+// Entry point
+// ---------------------------------------------------------------------------
+
+function parse(args: readonly string[]): { options: Options; files: string[] } {
+    let parsed: ParsedArgs;
+    try {
+        parsed = parseArgs({ args: [...args], options: OPTIONS, allowPositionals: true });
+    } catch (err) {
+        throw new UsageError((err as Error).message);
+    }
+    const options = parsed.values;
+    if (options.check) {
+        if (options.tag) {
+            throw new UsageError('the --tag option is meaningless when verifying checksums');
+        }
+        if (options.binary || options.text) {
+            throw new UsageError('the --binary and --text options are meaningless when verifying checksums');
+        }
+    } else {
+        const checkOnly = CHECK_ONLY_OPTIONS.find((name) => options[name]);
+        if (checkOnly !== undefined) {
+            throw new UsageError(`the --${checkOnly} option is meaningful only when verifying checksums`);
+        }
+        if (options.tag && options.text) {
+            throw new UsageError('--tag does not support --text mode');
+        }
+    }
+    return { options, files: parsed.positionals.length > 0 ? parsed.positionals : ['-'] };
+}
+
+/**
+ * Run the `hashbuf` command with `args` (without the node and script
+ * paths). Resolves with the process exit code: `0` on success, `1` if a
+ * file could not be read, a checksum did not match or the usage is invalid.
+ *
+ * ```ts
+ * process.exitCode = await run(process.argv.slice(2), process);
+ * ```
+ */
+export async function run(args: readonly string[], io: CliIO): Promise<number> {
+    let options: Options;
+    let files: string[];
+    try {
+        ({ options, files } = parse(args));
+    } catch (err) {
+        if (!(err instanceof UsageError)) {
+            throw err;
+        }
+        io.stderr.write(`hashbuf: ${err.message}\nTry 'hashbuf --help' for more information.\n`);
+        return 1;
+    }
+    if (options.help) {
+        io.stdout.write(USAGE);
+        return 0;
+    }
+    const entry = ALGORITHMS[options.algo.toLowerCase()];
+    if (entry === undefined) {
+        const supported = Object.keys(ALGORITHMS).join(', ');
+        io.stderr.write(`hashbuf: unsupported algorithm '${options.algo}' (supported: ${supported})\n`);
+        return 1;
+    }
+
+    if (!options.check) {
+        return (await printChecksums(files, entry, options, io)) ? 0 : 1;
+    }
+    let ok = true;
+    for (const manifest of files) {
+        ok = (await checkManifest(manifest, entry, options, io)) && ok;
+    }
+    return ok ? 0 : 1;
+}
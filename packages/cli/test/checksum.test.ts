@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { formatChecksumLine, parseChecksumLine } from '../src/index';
+
+const HEX = 'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad';
+
+describe('formatChecksumLine', () => {
+    it('writes GNU lines', () => {
+        expect(formatChecksumLine(HEX, 'a.txt')).toBe(`${HEX}  a.txt`);
+        expect(formatChecksumLine(HEX, 'a.txt', { binary: true })).toBe(`${HEX} *a.txt`);
+    });
+
+    it('writes BSD lines', () => {
+        expect(formatChecksumLine(HEX, 'a.txt', { tag: 'SHA256' })).toBe(`SHA256 (a.txt) = ${HEX}`);
+    });
+
+    it('escapes backslashes, newlines and carriage returns', () => {
+        expect(formatChecksumLine(HEX, 'a\\b\nc\rd')).toBe(`\\${HEX}  a\\\\b\\nc\\rd`);
+        expect(formatChecksumLine(HEX, 'a\nb', { tag: 'BLAKE3' })).toBe(`\\BLAKE3 (a\\nb) = ${HEX}`);
+    });
+});
+
+describe('parseChecksumLine', () => {
+    it('reads GNU lines', () => {
+        expect(parseChecksumLine(`${HEX}  a.txt`)).toEqual({ digest: HEX, filename: 'a.txt', binary: false });
+        expect(parseChecksumLine(`${HEX} *dir/b c.bin`)).toEqual({
+            digest: HEX,
+            filename: 'dir/b c.bin',
+            binary: true
+        });
+    });
+
+    it('reads BSD lines', () => {
+        expect(parseChecksumLine(`SHA256 (a (1).txt) = ${HEX}`)).toEqual({
+            tag: 'SHA256',
+            digest: HEX,
+            filename: 'a (1).txt',
+            binary: false
+        });
+    });
+
+    it('lowercases digests and ignores CRLF line endings', () => {
+        expect(parseChecksumLine(`${HEX.toUpperCase()}  a.txt\r`)?.digest).toBe(HEX);
+        expect(parseChecksumLine(`${HEX}  a.txt\r`)?.filename).toBe('a.txt');
+    });
+
+    it('round-trips escaped names', () => {
+        for (const filename of ['a\\b', 'line\nbreak', 'cr\rname', 'plain']) {
+            for (const tag of [undefined, 'BLAKE3']) {
+                expect(parseChecksumLine(formatChecksumLine(HEX, filename, { tag }))?.filename).toBe(filename);
+            }
+        }
+    });
+
+    it('rejects malformed lines', () => {
+        expect(parseChecksumLine('')).toBeUndefined();
+        expect(parseChecksumLine(`${HEX}`)).toBeUndefined();
+        expect(parseChecksumLine(`${HEX}  `)).toBeUndefined();
+        expect(parseChecksumLine(`xyz  a.txt`)).toBeUndefined();
+        expect(parseChecksumLine(`\\${HEX}  bad\\escape`)).toBeUndefined();
+        expect(parseChecksumLine(`SHA256 (a.txt) = not-hex`)).toBeUndefined();
+    });
+});
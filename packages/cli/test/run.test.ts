@@ -0,0 +1,209 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { blake3Hex } from '@hashbuf/blake3';
+import { sha256Hex } from '@hashbuf/sha256';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { run } from '../src/index';
+
+interface Result {
+    code: number;
+    stdout: string;
+    stderr: string;
+}
+
+async function cli(args: string[], stdin: string[] = []): Promise<Result> {
+    const result = { code: 0, stdout: '', stderr: '' };
+    result.code = await run(args, {
+        stdin: (async function* () {
+            yield* stdin;
+        })(),
+        stdout: { write: (text: string) => (result.stdout += text) },
+        stderr: { write: (text: string) => (result.stderr += text) }
+    });
+    return result;
+}
+
+let root: string;
+let a: string;
+let b: string;
+
+beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'hashbuf-cli-'));
+    a = join(root, 'a.txt');
+    b = join(root, 'b.txt');
+    await writeFile(a, 'hello\n');
+    await writeFile(b, 'world\n');
+});
+
+afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+});
+
+// ---------------------------------------------------------------------------
+// Printing checksums
+// ---------------------------------------------------------------------------
+
+describe('printing checksums', () => {
+    it('hashes files with BLAKE3 by default', async () => {
+        const { code, stdout, stderr } = await cli([a, b]);
+        expect(code).toBe(0);
+        expect(stderr).toBe('');
+        expect(stdout).toBe(`${blake3Hex('hello\n')}  ${a}\n${blake3Hex('world\n')}  ${b}\n`);
+    });
+
+    it('hashes with SHA-256', async () => {
+        const { stdout } = await cli(['--algo', 'sha256', a]);
+        expect(stdout).toBe(`${sha256Hex('hello\n')}  ${a}\n`);
+        expect((await cli(['-a', 'SHA256', a])).stdout).toBe(stdout);
+    });
+
+    it('hashes standard input', async () => {
+        const expected = 'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad';
+        expect((await cli(['-a', 'sha256'], ['a', 'bc'])).stdout).toBe(`${expected}  -\n`);
+        expect((await cli(['-a', 'sha256', '-'], ['abc'])).stdout).toBe(`${expected}  -\n`);
+    });
+
+    it('prints BSD tags and binary markers', async () => {
+        expect((await cli(['--tag', a])).stdout).toBe(`BLAKE3 (${a}) = ${blake3Hex('hello\n')}\n`);
+        expect((await cli(['--tag', '-a', 'sha256', a])).stdout).toBe(`SHA256 (${a}) = ${sha256Hex('hello\n')}\n`);
+        expect((await cli(['-b', a])).stdout).toBe(`${blake3Hex('hello\n')} *${a}\n`);
+    });
+
+    it('reports unreadable files and keeps going', async () => {
+        const missing = join(root, 'missing');
+        const { code, stdout, stderr } = await cli([missing, a]);
+        expect(code).toBe(1);
+        expect(stdout).toBe(`${blake3Hex('hello\n')}  ${a}\n`);
+        expect(stderr).toBe(`hashbuf: ${missing}: No such file or directory\n`);
+        expect((await cli([root])).stderr).toBe(`hashbuf: ${root}: Is a directory\n`);
+    });
+});
+
+// ---------------------------------------------------------------------------
+// Checking checksums
+// ---------------------------------------------------------------------------
+
+describe('--check', () => {
+    it('verifies its own output', async () => {
+        for (const args of [[], ['-a', 'sha256'], ['--tag'], ['--tag', '-a', 'sha256'], ['-b']]) {
+            const manifest = join(root, 'SUMS');
+            await writeFile(manifest, (await cli([...args, a, b])).stdout);
+            const algo = args.includes('sha256') ? ['-a', 'sha256'] : [];
+            const { code, stdout, stderr } = await cli(['--check', ...algo, manifest]);
+            expect(code).toBe(0);
+            expect(stdout).toBe(`${a}: OK\n${b}: OK\n`);
+            expect(stderr).toBe('');
+        }
+    });
+
+    it('reads the manifest from standard input', async () => {
+        const { code, stdout } = await cli(['-c'], [`${blake3Hex('hello\n')}  ${a}\n`]);
+        expect(code).toBe(0);
+        expect(stdout).toBe(`${a}: OK\n`);
+    });
+
+    it('takes the algorithm of BSD lines from their tag', async () => {
+        const manifest = `SHA256 (${a}) = ${sha256Hex('hello\n')}\nBLAKE3 (${b}) = ${blake3Hex('world\n')}\n`;
+        expect((await cli(['-c'], [manifest])).stdout).toBe(`${a}: OK\n${b}: OK\n`);
+    });
+
+    it('reports mismatches', async () => {
+        const manifest = `${blake3Hex('hello\n')}  ${a}\n${blake3Hex('other\n')}  ${b}\n`;
+        const { code, stdout, stderr } = await cli(['-c'], [manifest]);
+        expect(code).toBe(1);
+        expect(stdout).toBe(`${a}: OK\n${b}: FAILED\n`);
+        expect(stderr).toBe('hashbuf: WARNING: 1 computed checksum did NOT match\n');
+    });
+
+    it('reports unreadable files', async () => {
+        const missing = join(root, 'missing');
+        const manifest = `${blake3Hex('hello\n')}  ${missing}\n${blake3Hex('hello\n')}  ${a}\n`;
+        const { code, stdout, stderr } = await cli(['-c'], [manifest]);
+        expect(code).toBe(1);
+        expect(stdout).toBe(`${missing}: FAILED open or read\n${a}: OK\n`);
+        expect(stderr).toBe(
+            `hashbuf: ${missing}: No such file or directory\nhashbuf: WARNING: 1 listed file could not be read\n`
+        );
+
+        const ignored = await cli(['-c', '--ignore-missing'], [manifest]);
+        expect(ignored.code).toBe(0);
+        expect(ignored.stdout).toBe(`${a}: OK\n`);
+        expect(ignored.stderr).toBe('');
+
+        const none = await cli(['-c', '--ignore-missing'], [`${blake3Hex('hello\n')}  ${missing}\n`]);
+        expect(none.code).toBe(1);
+        expect(none.stderr).toBe('hashbuf: standard input: no file was verified\n');
+    });
+
+    it('counts improperly formatted lines', async () => {
+        const manifest = `# comment\nnot a checksum\n${sha256Hex('hello\n').slice(2)}  ${a}\nMD5 (${a}) = ${'0'.repeat(32)}\n${blake3Hex('hello\n')}  ${a}\n`;
+        const result = await cli(['-c'], [manifest]);
+        expect(result.code).toBe(0);
+        expect(result.stdout).toBe(`${a}: OK\n`);
+        expect(result.stderr).toBe('hashbuf: WARNING: 3 lines are improperly formatted\n');
+
+        const strict = await cli(['-c', '--strict', '-w'], [manifest]);
+        expect(strict.code).toBe(1);
+        expect(strict.stderr).toBe(
+            [2, 3, 4].map((line) => `hashbuf: standard input: ${line}: improperly formatted checksum line\n`).join('') +
+                'hashbuf: WARNING: 3 lines are improperly formatted\n'
+        );
+
+        const empty = await cli(['-c'], ['nothing to see\n']);
+        expect(empty.code).toBe(1);
+        expect(empty.stderr).toBe('hashbuf: standard input: no properly formatted checksum lines found\n');
+    });
+
+    it('quiets output with --quiet and --status', async () => {
+        const manifest = `${blake3Hex('hello\n')}  ${a}\n${blake3Hex('other\n')}  ${b}\n`;
+        const quiet = await cli(['-c', '--quiet'], [manifest]);
+        expect(quiet.code).toBe(1);
+        expect(quiet.stdout).toBe(`${b}: FAILED\n`);
+
+        const status = await cli(['-c', '--status'], [manifest]);
+        expect(status).toEqual({ code: 1, stdout: '', stderr: '' });
+    });
+
+    it('handles escaped file names', async () => {
+        const odd = join(root, 'line\nbreak');
+        await writeFile(odd, 'hello\n');
+        const { stdout } = await cli([odd]);
+        expect(stdout.startsWith('\\')).toBe(true);
+        const checked = await cli(['-c'], [stdout]);
+        expect(checked.code).toBe(0);
+        expect(checked.stdout).toBe(`\\${root}/line\\nbreak: OK\n`);
+    });
+});
+
+// ---------------------------------------------------------------------------
+// Usage
+// ---------------------------------------------------------------------------
+
+describe('usage', () => {
+    it('prints help', async () => {
+        const { code, stdout } = await cli(['--help']);
+        expect(code).toBe(0);
+        expect(stdout).toContain('Usage: hashbuf');
+    });
+
+    it('rejects unknown options and algorithms', async () => {
+        const unknown = await cli(['--frobnicate']);
+        expect(unknown.code).toBe(1);
+        expect(unknown.stderr).toContain("Try 'hashbuf --help'");
+
+        const algo = await cli(['-a', 'md5', a]);
+        expect(algo.code).toBe(1);
+        expect(algo.stderr).toBe("hashbuf: unsupported algorithm 'md5' (supported: blake3, sha256)\n");
+    });
+
+    it('rejects options that do not apply to the mode', async () => {
+        expect((await cli(['--quiet', a])).stderr).toContain(
+            'the --quiet option is meaningful only when verifying checksums'
+        );
+        expect((await cli(['-c', '--tag', a])).stderr).toContain(
+            'the --tag option is meaningless when verifying checksums'
+        );
+        expect((await cli(['--tag', '-t', a])).stderr).toContain('--tag does not support --text mode');
+    });
+});
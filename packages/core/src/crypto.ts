@@ -0,0 +1,291 @@
+import type { Hasher, HashInput } from '@hashbuf/types';
+import { getAlgorithm, toBinary } from '@hashbuf/types';
+
+// ---------------------------------------------------------------------------
+// node:crypto-compatible facade
+//
+// `createHash()` / `createHmac()` return objects with the semantics of
+// `node:crypto`'s `Hash` / `Hmac`, backed by the registered hashbuf
+// algorithms, so existing call sites can switch by changing the import.
+// ---------------------------------------------------------------------------
+
+/** Encodings for string data passed to `update()`, as in `node:crypto`. */
+export type InputEncoding =
+    | 'utf8'
+    | 'utf-8'
+    | 'hex'
+    | 'base64'
+    | 'base64url'
+    | 'latin1'
+    | 'binary'
+    | 'ascii'
+    | 'utf16le'
+    | 'utf-16le'
+    | 'ucs2'
+    | 'ucs-2';
+
+/** Encodings for `digest()` output, as in `node:crypto`. */
+export type BinaryToTextEncoding = 'hex' | 'base64' | 'base64url' | 'latin1' | 'binary';
+
+interface BufferConstructorLike {
+    from(buffer: ArrayBufferLike, byteOffset: number, length: number): Uint8Array;
+}
+
+function finalizedError(): Error {
+    return Object.assign(new Error('Digest already called'), { code: 'ERR_CRYPTO_HASH_FINALIZED' });
+}
+
+/** What Node.js throws for odd-length hex input to `update()`. */
+function oddHexError(length: number): Error {
+    const message = `The argument 'encoding' is invalid for data of length ${length}. Received 'hex'`;
+    return Object.assign(new TypeError(message), { code: 'ERR_INVALID_ARG_VALUE' });
+}
+
+function fromCharCodes(text: string, bytesPerChar: 1 | 2): Uint8Array {
+    const bytes = new Uint8Array(text.length * bytesPerChar);
+    for (let i = 0; i < text.length; i++) {
+        const code = text.charCodeAt(i);
+        if (bytesPerChar === 1) {
+            bytes[i] = code & 0xff;
+        } else {
+            bytes[i * 2] = code & 0xff;
+            bytes[i * 2 + 1] = code >> 8;
+        }
+    }
+    return bytes;
+}
+
+const HEX_PAIR_RE = /^[0-9a-fA-F]{2}$/;
+
+/** Decode hex like `Buffer.from()`: stop at the first invalid pair. */
+function fromHex(text: string): Uint8Array {
+    const bytes = new Uint8Array(text.length >>> 1);
+    for (let i = 0; i < bytes.length; i++) {
+        const pair = text.substring(i * 2, i * 2 + 2);
+        if (!HEX_PAIR_RE.test(pair)) {
+            return bytes.subarray(0, i);
+        }
+        bytes[i] = Number.parseInt(pair, 16);
+    }
+    return bytes;
+}
+
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+/**
+ * Decode base64 or base64url like `Buffer.from()`: either alphabet, other
+ * characters skipped, stopping at the first `=`, and a partial last group
+ * decoded as far as it goes.
+ */
+function fromBase64(text: string): Uint8Array {
+    const bytes = new Uint8Array(Math.ceil((text.length * 3) / 4));
+    let length = 0;
+    let bits = 0;
+    let buffer = 0;
+    for (const char of text) {
+        if (char === '=') {
+            break;
+        }
+        const value = char === '-' ? 62 : char === '_' ? 63 : BASE64_ALPHABET.indexOf(char);
+        if (value === -1) {
+            continue;
+        }
+        buffer = ((buffer << 6) | value) & 0xffffff;
+        bits += 6;
+        if (bits >= 8) {
+            bits -= 8;
+            bytes[length++] = buffer >> bits;
+        }
+    }
+    return bytes.subarray(0, length);
+}
+
+/** Convert string data in `encoding` to what `Hasher.update()` accepts. */
+function decodeInput(data: HashInput, encoding: InputEncoding | undefined): HashInput {
+    if (typeof data !== 'string' || encoding === undefined) {
+        return data;
+    }
+    switch (encoding) {
+        case 'utf8':
+        case 'utf-8':
+            return data;
+        case 'hex':
+            if (data.length % 2 === 1) {
+                throw oddHexError(data.length);
+            }
+            return fromHex(data);
+        case 'base64':
+        case 'base64url':
+            return fromBase64(data);
+        case 'latin1':
+        case 'binary':
+        case 'ascii':
+            return fromCharCodes(data, 1);
+        case 'utf16le':
+        case 'utf-16le':
+        case 'ucs2':
+        case 'ucs-2':
+            return fromCharCodes(data, 2);
+        default:
+            throw new TypeError(`Unsupported input encoding: ${encoding as string}`);
+    }
+}
+
+/**
+ * View `bytes` as a `Buffer` where one exists (Node.js, Bun, Deno), so
+ * callers can keep using `digest().toString('hex')` and friends.
+ */
+function toBuffer(bytes: Uint8Array): Uint8Array {
+    const NodeBuffer = (globalThis as { Buffer?: BufferConstructorLike }).Buffer;
+    return NodeBuffer === undefined ? bytes : NodeBuffer.from(bytes.buffer, bytes.byteOffset, bytes.length);
+}
+
+/** Finalize `hasher` (consuming it) as raw bytes (see `toBuffer()`) or in `encoding`. */
+function finish(hasher: Hasher, encoding: BinaryToTextEncoding | undefined): Uint8Array | string {
+    switch (encoding) {
+        case undefined:
+            return toBuffer(hasher.digest());
+        case 'hex':
+        case 'base64':
+        case 'base64url':
+            return hasher.digest(encoding);
+        case 'latin1':
+        case 'binary':
+            return String.fromCharCode(...hasher.digest());
+        default:
+            hasher.free();
+            throw new TypeError(`Unsupported digest encoding: ${encoding as string}`);
+    }
+}
+
+/**
+ * A `node:crypto`-compatible `Hash`. Create one with `createHash()`.
+ *
+ * Unlike Node's `Hash`, this is not a stream; pipe through
+ * `createHashStream()` or `createHashTransform()` instead.
+ */
+export class Hash {
+    private hasher: Hasher | undefined;
+
+    /** Wrap a fresh or partially fed hashbuf `Hasher`, taking ownership of it. */
+    constructor(hasher: Hasher) {
+        this.hasher = hasher;
+    }
+
+    /**
+     * Feed data into the hash. `inputEncoding` applies to strings only and
+     * defaults to `'utf8'`; `'hex'`, `'base64'` and `'base64url'` input is
+     * decoded leniently, as by `Buffer.from()`.
+     * @throws `ERR_INVALID_ARG_VALUE` for odd-length hex input.
+     * @throws `ERR_CRYPTO_HASH_FINALIZED` after `digest()`.
+     */
+    update(data: HashInput, inputEncoding?: InputEncoding): this {
+        if (this.hasher === undefined) {
+            throw finalizedError();
+        }
+        this.hasher.update(decodeInput(data, inputEncoding));
+        return this;
+    }
+
+    /**
+     * Finalize and return the digest, as raw bytes (a `Buffer` where
+     * available) or encoded. The hash cannot be used afterwards.
+     * @throws `ERR_CRYPTO_HASH_FINALIZED` if called twice.
+     */
+    digest(): Uint8Array;
+    digest(encoding: BinaryToTextEncoding): string;
+    digest(encoding?: BinaryToTextEncoding): Uint8Array | string {
+        const hasher = this.hasher;
+        if (hasher === undefined) {
+            throw finalizedError();
+        }
+        this.hasher = undefined;
+        return finish(hasher, encoding);
+    }
+
+    /**
+     * Copy the hash state, including any data absorbed so far, so one
+     * prefix can be finalized several ways.
+     * @throws `ERR_CRYPTO_HASH_FINALIZED` after `digest()`.
+     */
+    copy(): Hash {
+        if (this.hasher === undefined) {
+            throw finalizedError();
+        }
+        return new Hash(this.hasher.clone());
+    }
+}
+
+/**
+ * A `node:crypto`-compatible `Hmac`. Create one with `createHmac()`.
+ *
+ * As in Node.js, calling `digest()` again returns an empty result instead
+ * of throwing, and there is no `copy()`.
+ */
+export class Hmac {
+    private hasher: Hasher | undefined;
+
+    /** Wrap a keyed hashbuf `Hasher`, taking ownership of it. */
+    constructor(hasher: Hasher) {
+        this.hasher = hasher;
+    }
+
+    /**
+     * Feed data into the MAC. `inputEncoding` works as in `Hash.update()`.
+     * @throws `ERR_CRYPTO_HASH_FINALIZED` after `digest()`.
+     */
+    update(data: HashInput, inputEncoding?: InputEncoding): this {
+        if (this.hasher === undefined) {
+            throw finalizedError();
+        }
+        this.hasher.update(decodeInput(data, inputEncoding));
+        return this;
+    }
+
+    /**
+     * Finalize and return the tag, as raw bytes (a `Buffer` where
+     * available) or encoded. Later calls return an empty result.
+     */
+    digest(): Uint8Array;
+    digest(encoding: BinaryToTextEncoding): string;
+    digest(encoding?: BinaryToTextEncoding): Uint8Array | string {
+        const hasher = this.hasher;
+        if (hasher === undefined) {
+            return encoding === undefined ? toBuffer(new Uint8Array(0)) : '';
+        }
+        this.hasher = undefined;
+        return finish(hasher, encoding);
+    }
+}
+
+/**
+ * Create a `Hash` for a registered algorithm, like `crypto.createHash()`.
+ * Import the algorithm's package first so it is registered.
+ *
+ * ```ts
+ * import '@hashbuf/sha256';
+ * import { createHash } from '@hashbuf/core';
+ *
+ * createHash('sha256').update(text, 'utf8').digest('base64');
+ * ```
+ *
+ * @throws If no algorithm is registered under `algorithm` (see `getAlgorithm()`).
+ */
+export function createHash(algorithm: string): Hash {
+    return new Hash(getAlgorithm(algorithm).createHasher());
+}
+
+/**
+ * Create an `Hmac` for a registered algorithm, like `crypto.createHmac()`.
+ * String keys are used as their UTF-8 encoding.
+ *
+ * @throws If no algorithm is registered under `algorithm`, or it does not
+ *   provide HMAC (e.g. BLAKE3, whose keyed mode is `blake3Mac()`).
+ */
+export function createHmac(algorithm: string, key: string | ArrayBufferLike | ArrayBufferView): Hmac {
+    const resolved = getAlgorithm(algorithm);
+    if (resolved.createHmac === undefined) {
+        throw new Error(`HMAC is not supported for hash algorithm '${resolved.name}'`);
+    }
+    return new Hmac(resolved.createHmac(toBinary(key)));
+}
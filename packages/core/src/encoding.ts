@@ -0,0 +1,106 @@
+import type { DigestEncoding } from '@hashbuf/types';
+
+// ---------------------------------------------------------------------------
+// Digest encoding
+// ---------------------------------------------------------------------------
+
+const HEX_RE = /^(?:[0-9a-fA-F]{2})*$/;
+const BASE64_RE = /^(?:[A-Za-z0-9+/]{4})*(?:[A-Za-z0-9+/]{2}==|[A-Za-z0-9+/]{3}=)?$/;
+const BASE64URL_RE = /^[A-Za-z0-9_-]*$/;
+
+/**
+ * Encode digest bytes as `'hex'`, `'base64'` (padded) or `'base64url'`
+ * (unpadded), matching `node:crypto`'s output.
+ *
+ * Hashers and one-shot helpers already encode inside WASM; use this for
+ * digests you hold as bytes (e.g. loaded from storage).
+ */
+export function encodeDigest(digest: Uint8Array, encoding: DigestEncoding): string {
+    switch (encoding) {
+        case 'hex': {
+            let out = '';
+            for (const byte of digest) {
+                out += byte.toString(16).padStart(2, '0');
+            }
+            return out;
+        }
+        case 'base64':
+            return toBase64(digest);
+        case 'base64url':
+            return toBase64(digest).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+        default:
+            throw new TypeError(`Unsupported digest encoding: ${encoding as string}`);
+    }
+}
+
+/**
+ * Decode a `'hex'`, `'base64'` or `'base64url'` digest string back into bytes.
+ *
+ * Decoding is strict: characters outside the encoding's alphabet, bad
+ * padding, non-zero unused bits in the last base64 character or odd-length
+ * hex throw. `base64url` accepts optional padding, which must then be
+ * complete.
+ *
+ * @param expectedLength If given, throw unless the decoded digest has
+ *   exactly this many bytes (e.g. `SHA256.digestLength`).
+ */
+export function decodeDigest(text: string, encoding: DigestEncoding, expectedLength?: number): Uint8Array {
+    let bytes: Uint8Array;
+    switch (encoding) {
+        case 'hex':
+            if (!HEX_RE.test(text)) {
+                throw new Error('Invalid hex digest');
+            }
+            bytes = new Uint8Array(text.length / 2);
+            for (let i = 0; i < bytes.length; i++) {
+                bytes[i] = Number.parseInt(text.substring(i * 2, i * 2 + 2), 16);
+            }
+            break;
+        case 'base64':
+            if (!BASE64_RE.test(text)) {
+                throw new Error('Invalid base64 digest');
+            }
+            bytes = fromBase64(text);
+            // Unused bits of the last character must be zero
+            if (toBase64(bytes) !== text) {
+                throw new Error('Invalid base64 digest');
+            }
+            break;
+        case 'base64url': {
+            const unpadded = text.replace(/={1,2}$/, '');
+            const padded = unpadded.length !== text.length;
+            if (!BASE64URL_RE.test(unpadded) || unpadded.length % 4 === 1 || (padded && text.length % 4 !== 0)) {
+                throw new Error('Invalid base64url digest');
+            }
+            const standard = unpadded.replace(/-/g, '+').replace(/_/g, '/');
+            bytes = fromBase64(standard);
+            if (toBase64(bytes).replace(/=+$/, '') !== standard) {
+                throw new Error('Invalid base64url digest');
+            }
+            break;
+        }
+        default:
+            throw new TypeError(`Unsupported digest encoding: ${encoding as string}`);
+    }
+    if (expectedLength !== undefined && bytes.length !== expectedLength) {
+        throw new Error(`Invalid digest length: expected ${expectedLength} bytes, got ${bytes.length}`);
+    }
+    return bytes;
+}
+
+function toBase64(bytes: Uint8Array): string {
+    let binary = '';
+    for (const byte of bytes) {
+        binary += String.fromCharCode(byte);
+    }
+    return btoa(binary);
+}
+
+function fromBase64(text: string): Uint8Array {
+    const binary = atob(text);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+}
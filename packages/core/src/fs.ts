@@ -0,0 +1,300 @@
+import { lstat, open, readdir, readlink, realpath, stat } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { HashAlgorithm } from '@hashbuf/types';
+import { isBufferedHasher } from '@hashbuf/types';
+
+// ---------------------------------------------------------------------------
+// File hashing
+// ---------------------------------------------------------------------------
+
+/** Options for `hashFile()`. */
+export interface HashFileOptions {
+    /**
+     * Size in bytes of the read buffer, reused for every read. By default,
+     * files are read 1 MiB at a time, straight into the hasher's `inputBuffer`
+     * where it has one (1 MiB for BLAKE3 and SHA-256).
+     */
+    bufferSize?: number;
+    /** Stop reading and reject with the signal's reason when aborted. */
+    signal?: AbortSignal;
+}
+
+const DEFAULT_BUFFER_SIZE = 1024 * 1024;
+
+/** The read buffer shared by the files of one call, allocated on first use. */
+interface ReadBuffer {
+    size: number | undefined;
+    buffer?: Uint8Array;
+}
+
+function readBuffer(size: number | undefined): ReadBuffer {
+    if (size !== undefined && (!Number.isSafeInteger(size) || size < 1)) {
+        throw new RangeError('Buffer size must be a positive integer');
+    }
+    return { size };
+}
+
+function allocated(reads: ReadBuffer): Uint8Array {
+    if (reads.buffer === undefined) {
+        reads.buffer = new Uint8Array(reads.size ?? DEFAULT_BUFFER_SIZE);
+    }
+    return reads.buffer;
+}
+
+/**
+ * Hash the file at `path`, reading it into the hasher's `inputBuffer` unless
+ * a buffer size was requested. Returns the digest and the bytes read.
+ */
+async function hashFileInto(
+    algorithm: HashAlgorithm,
+    path: string | URL,
+    reads: ReadBuffer,
+    signal: AbortSignal | undefined
+): Promise<[Uint8Array, number]> {
+    signal?.throwIfAborted();
+    const file = await open(path, 'r');
+    try {
+        const hasher = algorithm.createHasher();
+        const buffered = reads.size === undefined && isBufferedHasher(hasher) ? hasher : undefined;
+        let size = 0;
+        try {
+            for (;;) {
+                signal?.throwIfAborted();
+                const target = buffered?.inputBuffer ?? allocated(reads);
+                const { bytesRead } = await file.read(target, 0, target.byteLength, size);
+                if (bytesRead === 0) {
+                    return [hasher.digest(), size];
+                }
+                if (buffered === undefined) {
+                    hasher.update(target.subarray(0, bytesRead));
+                } else if (target.byteLength === 0) {
+                    // WASM memory grew during the read and detached the view: read again
+                    continue;
+                } else {
+                    buffered.commit(bytesRead);
+                }
+                size += bytesRead;
+            }
+        } catch (err) {
+            hasher.free();
+            throw err;
+        }
+    } finally {
+        await file.close();
+    }
+}
+
+/**
+ * Hash the contents of the file at `path` with `algorithm`, reading it
+ * through a single reusable buffer: the hasher's zero-copy `inputBuffer`
+ * where it has one.
+ *
+ * ```ts
+ * const hash = await hashFile(BLAKE3, 'disk.img');
+ * ```
+ */
+export async function hashFile(
+    algorithm: HashAlgorithm,
+    path: string | URL,
+    options: HashFileOptions = {}
+): Promise<Uint8Array> {
+    const [digest] = await hashFileInto(algorithm, path, readBuffer(options.bufferSize), options.signal);
+    return digest;
+}
+
+// ---------------------------------------------------------------------------
+// Directory hashing
+// ---------------------------------------------------------------------------
+
+/**
+ * How `hashDirectory()` treats symbolic links:
+ * - `'link'` hashes the link's target path without following it (default)
+ * - `'follow'` hashes the file or directory it points to
+ * - `'skip'` leaves it out
+ */
+export type SymlinkPolicy = 'link' | 'follow' | 'skip';
+
+/** Options for `hashDirectory()`. */
+export interface HashDirectoryOptions extends HashFileOptions {
+    /** Include permission bits (`mode & 0o7777`) in the manifest and digest. Defaults to `false`. */
+    includeMode?: boolean;
+    /** Symbolic link policy. Defaults to `'link'`. */
+    symlinks?: SymlinkPolicy;
+    /**
+     * Glob patterns of entries to leave out. `*` and `?` match within a path
+     * segment and `**` across segments. A pattern containing `/` is matched
+     * against the path relative to the directory; any other pattern against
+     * entry names at every depth. Ignored directories are not read.
+     */
+    ignore?: readonly string[];
+}
+
+/** One file (or symbolic link) in a `DirectoryDigest` manifest. */
+export interface DirectoryManifestEntry {
+    /** Path relative to the hashed directory, with `/` separators. */
+    path: string;
+    /** `'symlink'` for links hashed with the `'link'` policy. */
+    type: 'file' | 'symlink';
+    /** Size in bytes of the file, or of the link's target path. */
+    size: number;
+    /** Permission bits, with `includeMode`. */
+    mode?: number;
+    /** Digest of the file contents, or of the link's target path. */
+    digest: Uint8Array;
+}
+
+/** Result of `hashDirectory()`. */
+export interface DirectoryDigest {
+    /** Digest of the whole manifest. */
+    digest: Uint8Array;
+    /** Every file and link hashed, sorted by the UTF-8 bytes of their paths. */
+    files: DirectoryManifestEntry[];
+}
+
+const SYMLINK_POLICIES: readonly string[] = ['link', 'follow', 'skip'];
+
+function globToRegExp(pattern: string): RegExp {
+    let source = '';
+    for (let i = 0; i < pattern.length; i++) {
+        const c = pattern[i] as string;
+        if (c === '*' && pattern[i + 1] === '*') {
+            // `**/` also matches no directories at all
+            if (pattern[i + 2] === '/') {
+                source += '(?:.*/)?';
+                i += 2;
+            } else {
+                source += '.*';
+                i += 1;
+            }
+        } else if (c === '*') {
+            source += '[^/]*';
+        } else if (c === '?') {
+            source += '[^/]';
+        } else {
+            source += c.replace(/[\\^$.|+()[\]{}]/g, '\\$&');
+        }
+    }
+    return new RegExp(`^${source}$`);
+}
+
+function ignoreMatcher(patterns: readonly string[]): (path: string, name: string) => boolean {
+    const matchers = patterns.map((pattern) => {
+        const regexp = globToRegExp(pattern.replace(/^\//, ''));
+        return pattern.includes('/')
+            ? (path: string) => regexp.test(path)
+            : (_: string, name: string) => regexp.test(name);
+    });
+    return (path, name) => matchers.some((matches) => matches(path, name));
+}
+
+const encoder = new TextEncoder();
+
+/**
+ * Serialize the manifest for hashing (format version 1): the header
+ * `"hashbuf directory v1\0"` and a flags byte (`1` if modes are included),
+ * then for each entry a type byte (`f` or `l`), the UTF-8 path prefixed
+ * with its byte length (`u32` big-endian), the mode (`u32` big-endian, only
+ * with `includeMode`) and the digest.
+ */
+function serializeManifest(files: readonly DirectoryManifestEntry[], includeMode: boolean): Uint8Array {
+    const header = encoder.encode('hashbuf directory v1\0');
+    const parts: Uint8Array[] = [header, new Uint8Array([includeMode ? 1 : 0])];
+    for (const entry of files) {
+        const path = encoder.encode(entry.path);
+        const fields = new Uint8Array(includeMode ? 9 : 5);
+        const view = new DataView(fields.buffer);
+        fields[0] = entry.type === 'file' ? 0x66 : 0x6c;
+        view.setUint32(1, path.byteLength);
+        parts.push(fields.subarray(0, 5), path);
+        if (includeMode) {
+            view.setUint32(5, entry.mode ?? 0);
+            parts.push(fields.subarray(5));
+        }
+        parts.push(entry.digest);
+    }
+    const out = new Uint8Array(parts.reduce((total, part) => total + part.byteLength, 0));
+    let position = 0;
+    for (const part of parts) {
+        out.set(part, position);
+        position += part.byteLength;
+    }
+    return out;
+}
+
+/**
+ * Hash every file under the directory at `path` with `algorithm`,
+ * returning a per-file manifest and a digest of the whole manifest.
+ *
+ * The digest is deterministic: it depends only on the relative paths,
+ * contents (and, with `includeMode`, permission bits) of the files, never
+ * on the order the file system lists them, timestamps or ownership. Empty
+ * directories and special files (sockets, FIFOs, devices) are not included.
+ *
+ * ```ts
+ * const { digest, files } = await hashDirectory(SHA256, 'dist', { ignore: ['*.map'] });
+ * ```
+ */
+export async function hashDirectory(
+    algorithm: HashAlgorithm,
+    path: string,
+    options: HashDirectoryOptions = {}
+): Promise<DirectoryDigest> {
+    const { includeMode = false, symlinks = 'link', signal } = options;
+    if (!SYMLINK_POLICIES.includes(symlinks)) {
+        throw new TypeError(`Unsupported symlink policy: ${symlinks}`);
+    }
+    const reads = readBuffer(options.bufferSize);
+    const ignored = ignoreMatcher(options.ignore ?? []);
+    const files: DirectoryManifestEntry[] = [];
+
+    // `ancestors` holds the real paths of the directories being read, to
+    // detect cycles through followed links.
+    const walk = async (dir: string, prefix: string, ancestors: readonly string[]): Promise<void> => {
+        for (const name of await readdir(dir)) {
+            const relative = prefix + name;
+            if (ignored(relative, name)) {
+                continue;
+            }
+            const full = join(dir, name);
+            let info = await lstat(full);
+            if (info.isSymbolicLink()) {
+                if (symlinks === 'skip') {
+                    continue;
+                }
+                if (symlinks === 'link') {
+                    const target = await readlink(full);
+                    files.push({
+                        path: relative,
+                        type: 'symlink',
+                        size: encoder.encode(target).byteLength,
+                        ...(includeMode && { mode: info.mode & 0o7777 }),
+                        digest: algorithm.hash(target)
+                    });
+                    continue;
+                }
+                info = await stat(full);
+            }
+            if (info.isDirectory()) {
+                const real = symlinks === 'follow' ? await realpath(full) : full;
+                if (ancestors.includes(real)) {
+                    throw new Error(`Symlink cycle at ${relative}`);
+                }
+                await walk(full, `${relative}/`, symlinks === 'follow' ? [...ancestors, real] : ancestors);
+            } else if (info.isFile()) {
+                const [digest, size] = await hashFileInto(algorithm, full, reads, signal);
+                files.push({
+                    path: relative,
+                    type: 'file',
+                    size,
+                    ...(includeMode && { mode: info.mode & 0o7777 }),
+                    digest
+                });
+            }
+        }
+    };
+    await walk(path, '', symlinks === 'follow' ? [await realpath(path)] : []);
+
+    const keys = new Map(files.map((entry) => [entry, Buffer.from(entry.path)]));
+    files.sort((a, b) => Buffer.compare(keys.get(a) as Buffer, keys.get(b) as Buffer));
+    return { digest: algorithm.hash(serializeManifest(files, includeMode)), files };
+}
@@ -0,0 +1,4 @@
+export { type BinaryToTextEncoding, createHash, createHmac, Hash, Hmac, type InputEncoding } from './crypto.js';
+export { decodeDigest, encodeDigest } from './encoding.js';
+export { type IntegrityMetadata, integrity, parseIntegrity, type SriAlgorithm, verifyIntegrity } from './sri.js';
+export { createHashStream, type HashTransformStream } from './stream.js';
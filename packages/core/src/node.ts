@@ -0,0 +1,92 @@
+import { Transform, type TransformCallback } from 'node:stream';
+import type { HashAlgorithm, Hasher } from '@hashbuf/types';
+
+export {
+    type DirectoryDigest,
+    type DirectoryManifestEntry,
+    type HashDirectoryOptions,
+    type HashFileOptions,
+    hashDirectory,
+    hashFile,
+    type SymlinkPolicy
+} from './fs.js';
+
+// ---------------------------------------------------------------------------
+// Node.js stream adapter
+// ---------------------------------------------------------------------------
+
+/**
+ * A pass-through Node.js `Transform` that hashes every chunk flowing
+ * through it.
+ *
+ * ```ts
+ * const hashing = new HashTransform(SHA256);
+ * await pipeline(createReadStream(path), hashing, createWriteStream(dest));
+ * const hash = await hashing.digest;
+ * ```
+ */
+export class HashTransform extends Transform {
+    /**
+     * Resolves with the digest once all data has been written.
+     * Rejects if the stream is destroyed before finishing.
+     */
+    readonly digest: Promise<Uint8Array>;
+
+    private hasher: Hasher;
+    private done = false;
+    private resolveDigest!: (digest: Uint8Array) => void;
+    private rejectDigest!: (reason: unknown) => void;
+
+    constructor(algorithm: HashAlgorithm) {
+        super();
+        this.hasher = algorithm.createHasher();
+        this.digest = new Promise<Uint8Array>((resolve, reject) => {
+            this.resolveDigest = resolve;
+            this.rejectDigest = reject;
+        });
+        // Callers that only consume the data should not see unhandled rejections.
+        this.digest.catch(() => {});
+    }
+
+    override _transform(chunk: Uint8Array, _encoding: BufferEncoding, callback: TransformCallback): void {
+        try {
+            this.hasher.update(chunk);
+        } catch (err) {
+            callback(err as Error);
+            return;
+        }
+        callback(null, chunk);
+    }
+
+    override _flush(callback: TransformCallback): void {
+        this.done = true;
+        let digest: Uint8Array;
+        try {
+            digest = this.hasher.digest();
+        } catch (err) {
+            this.hasher.free();
+            this.rejectDigest(err);
+            callback(err as Error);
+            return;
+        }
+        this.resolveDigest(digest);
+        callback();
+    }
+
+    override _destroy(error: Error | null, callback: (error?: Error | null) => void): void {
+        if (!this.done) {
+            this.done = true;
+            this.hasher.free();
+            this.rejectDigest(error ?? new Error('Stream was destroyed before the digest was computed'));
+        }
+        callback(error);
+    }
+}
+
+/**
+ * Create a pass-through Node.js `Transform` that hashes data with
+ * `algorithm`. Equivalent to `new HashTransform(algorithm)`.
+ */
+export function createHashTransform(algorithm: HashAlgorithm): HashTransform {
+    return new HashTransform(algorithm);
+}
@@ -0,0 +1,129 @@
+import type { HashInput, HashStreamSource } from '@hashbuf/types';
+import { getAlgorithm } from '@hashbuf/types';
+import { encodeDigest } from './encoding.js';
+
+// ---------------------------------------------------------------------------
+// Subresource Integrity
+//
+// https://www.w3.org/TR/SRI/ — integrity metadata is a whitespace-separated
+// list of `<algorithm>-<base64 digest>[?<options>]` tokens. The algorithms
+// are looked up in the registry, so import `@hashbuf/sha256` (and
+// `@hashbuf/sha512` for SHA-384 / SHA-512) first.
+// ---------------------------------------------------------------------------
+
+/** Hash algorithms defined by SRI, weakest first. */
+const SRI_ALGORITHMS = ['sha256', 'sha384', 'sha512'] as const;
+
+/** `<algorithm>-<base64 or base64url digest>[?<options>]` */
+const TOKEN = /^([A-Za-z0-9]+)-([A-Za-z0-9+/_-]+={0,2})(?:\?(.*))?$/;
+
+/** A hash algorithm defined by Subresource Integrity. */
+export type SriAlgorithm = (typeof SRI_ALGORITHMS)[number];
+
+/** One token of parsed integrity metadata. */
+export interface IntegrityMetadata {
+    algorithm: SriAlgorithm;
+    /** The base64 (or base64url) digest as written. */
+    digest: string;
+    /** Option expressions after `?`, which no current option uses. */
+    options?: string;
+}
+
+function isSriAlgorithm(name: string): name is SriAlgorithm {
+    return (SRI_ALGORITHMS as readonly string[]).includes(name);
+}
+
+function isHashInput(data: HashInput | HashStreamSource): data is HashInput {
+    return (
+        typeof data === 'string' ||
+        ArrayBuffer.isView(data) ||
+        data instanceof ArrayBuffer ||
+        (typeof SharedArrayBuffer !== 'undefined' && data instanceof SharedArrayBuffer)
+    );
+}
+
+/** Normalize base64url to padded base64 so either spelling matches. */
+function toBase64(digest: string): string {
+    const base64 = digest.replace(/-/g, '+').replace(/_/g, '/');
+    return base64.padEnd(Math.ceil(base64.length / 4) * 4, '=');
+}
+
+/**
+ * Parse integrity metadata, keeping the tokens with an SRI algorithm
+ * (`sha256`, `sha384` or `sha512`). Unknown algorithms and malformed tokens
+ * are skipped, as browsers do.
+ */
+export function parseIntegrity(metadata: string): IntegrityMetadata[] {
+    const parsed: IntegrityMetadata[] = [];
+    for (const token of metadata.split(/[\t\n\f\r ]+/)) {
+        const match = TOKEN.exec(token);
+        if (match === null) {
+            continue;
+        }
+        const [, name, digest, options] = match as unknown as [string, string, string, string | undefined];
+        const algorithm = name.toLowerCase();
+        if (isSriAlgorithm(algorithm)) {
+            parsed.push({ algorithm, digest, ...(options !== undefined && { options }) });
+        }
+    }
+    return parsed;
+}
+
+/**
+ * Compute integrity metadata for `data`, one token per algorithm, for an
+ * `integrity` attribute or the `integrity` option of `fetch()`.
+ *
+ * ```ts
+ * import '@hashbuf/sha256';
+ * import '@hashbuf/sha512';
+ *
+ * integrity(bundle);                       // 'sha256-…'
+ * integrity(bundle, ['sha256', 'sha384']); // 'sha256-… sha384-…'
+ * ```
+ */
+export function integrity(data: HashInput, algorithms: SriAlgorithm | readonly SriAlgorithm[] = 'sha256'): string {
+    const names = typeof algorithms === 'string' ? [algorithms] : algorithms;
+    return names
+        .map((name) => {
+            if (!isSriAlgorithm(name)) {
+                throw new TypeError(`Unsupported SRI algorithm: ${name as string}`);
+            }
+            return `${name}-${encodeDigest(getAlgorithm(name).hash(data), 'base64')}`;
+        })
+        .join(' ');
+}
+
+/**
+ * Check `data` against integrity metadata following the SRI matching
+ * algorithm: only the tokens of the strongest algorithm present count, and
+ * any one of them matching is enough. Metadata without a token for an SRI
+ * algorithm matches anything.
+ *
+ * Streams, async iterables and `Blob`s are hashed with
+ * `HashAlgorithm.stream()` without buffering, and resolve asynchronously:
+ *
+ * ```ts
+ * const response = await fetch(url);
+ * const ok = await verifyIntegrity(response.clone().body, expected);
+ * ```
+ *
+ * @throws If the strongest algorithm's package has not been imported.
+ */
+export function verifyIntegrity(data: HashInput, metadata: string): boolean;
+export function verifyIntegrity(source: HashStreamSource, metadata: string): Promise<boolean>;
+export function verifyIntegrity(data: HashInput | HashStreamSource, metadata: string): boolean | Promise<boolean> {
+    const parsed = parseIntegrity(metadata);
+    if (parsed.length === 0) {
+        return isHashInput(data) ? true : Promise.resolve(true);
+    }
+    const strongest = parsed.reduce((a, b) =>
+        SRI_ALGORITHMS.indexOf(b.algorithm) > SRI_ALGORITHMS.indexOf(a.algorithm) ? b : a
+    ).algorithm;
+    const expected = parsed.filter((entry) => entry.algorithm === strongest).map((entry) => toBase64(entry.digest));
+    const algorithm = getAlgorithm(strongest);
+
+    if (isHashInput(data)) {
+        return expected.includes(encodeDigest(algorithm.hash(data), 'base64'));
+    }
+    return algorithm.stream(data).then((digest) => expected.includes(encodeDigest(digest, 'base64')));
+}
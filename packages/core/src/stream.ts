@@ -0,0 +1,62 @@
+import type { HashAlgorithm } from '@hashbuf/types';
+
+// ---------------------------------------------------------------------------
+// Web Streams adapter
+// ---------------------------------------------------------------------------
+
+/**
+ * A pass-through `TransformStream` that hashes every chunk flowing through it.
+ */
+export interface HashTransformStream extends TransformStream<Uint8Array, Uint8Array> {
+    /**
+     * Resolves with the digest once the stream closes.
+     * Rejects if the stream is aborted, cancelled or errors.
+     */
+    readonly digest: Promise<Uint8Array>;
+}
+
+/**
+ * Create a WHATWG `TransformStream` that passes chunks through unchanged
+ * while hashing them with `algorithm`.
+ *
+ * ```ts
+ * const hashing = createHashStream(BLAKE3);
+ * await response.body.pipeThrough(hashing).pipeTo(storage);
+ * const hash = await hashing.digest;
+ * ```
+ */
+export function createHashStream(algorithm: HashAlgorithm): HashTransformStream {
+    const hasher = algorithm.createHasher();
+    let resolveDigest!: (digest: Uint8Array) => void;
+    let rejectDigest!: (reason: unknown) => void;
+    const digest = new Promise<Uint8Array>((resolve, reject) => {
+        resolveDigest = resolve;
+        rejectDigest = reject;
+    });
+    // Callers that only consume the data should not see unhandled rejections.
+    digest.catch(() => {});
+
+    // Not annotated as `Transformer`: `cancel` is part of the Streams spec
+    // but missing from some typings, and a variable skips excess property checks.
+    const transformer = {
+        transform(chunk: Uint8Array, controller: TransformStreamDefaultController<Uint8Array>) {
+            try {
+                hasher.update(chunk);
+            } catch (err) {
+                hasher.free();
+                rejectDigest(err);
+                throw err;
+            }
+            controller.enqueue(chunk);
+        },
+        flush() {
+            resolveDigest(hasher.digest());
+        },
+        cancel(reason: unknown) {
+            hasher.free();
+            rejectDigest(reason);
+        }
+    };
+
+    return Object.assign(new TransformStream<Uint8Array, Uint8Array>(transformer), { digest });
+}
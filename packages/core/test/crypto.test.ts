@@ -0,0 +1,132 @@
+import * as nodeCrypto from 'node:crypto';
+import { blake3Hex } from '@hashbuf/blake3';
+import '@hashbuf/sha256';
+import { describe, expect, it } from 'vitest';
+import { createHash, createHmac } from '../src/index';
+
+function finalizedError() {
+    return expect.objectContaining({ code: 'ERR_CRYPTO_HASH_FINALIZED', message: 'Digest already called' });
+}
+
+// ---------------------------------------------------------------------------
+// createHash
+// ---------------------------------------------------------------------------
+
+describe('createHash', () => {
+    it('matches node:crypto for each digest encoding', () => {
+        for (const encoding of ['hex', 'base64', 'base64url', 'binary'] as const) {
+            expect(createHash('sha256').update('hello', 'utf8').digest(encoding)).toBe(
+                nodeCrypto.createHash('sha256').update('hello', 'utf8').digest(encoding)
+            );
+        }
+        expect(createHash('sha256').update('hello').digest('latin1')).toBe(
+            nodeCrypto.createHash('sha256').update('hello').digest('binary')
+        );
+    });
+
+    it('returns a Buffer without an encoding', () => {
+        const digest = createHash('sha256').update('hello').digest();
+        expect(Buffer.isBuffer(digest)).toBe(true);
+        expect((digest as Buffer).toString('hex')).toBe(nodeCrypto.createHash('sha256').update('hello').digest('hex'));
+    });
+
+    it('decodes string input like node:crypto', () => {
+        const inputs = [
+            ['68656c6c6f', 'hex'],
+            ['aGVsbG8=', 'base64'],
+            ['aGVsbG8', 'base64url'],
+            ['héllo', 'latin1'],
+            ['héllo', 'binary'],
+            ['hello', 'ascii'],
+            ['héllo', 'utf16le'],
+            ['héllo', 'ucs2']
+        ] as const;
+        for (const [data, encoding] of inputs) {
+            expect(createHash('sha256').update(data, encoding).digest('hex')).toBe(
+                nodeCrypto.createHash('sha256').update(data, encoding).digest('hex')
+            );
+        }
+    });
+
+    it('decodes malformed hex and base64 leniently like node:crypto', () => {
+        const inputs = [
+            ['6865zz6c6f', 'hex'],
+            ['aGVs bG8', 'base64'],
+            ['aGVsbG8-_w', 'base64'],
+            ['aGVsbG8+/w==', 'base64url'],
+            ['aGV=sbG8', 'base64'],
+            ['a!GVsbG8', 'base64url']
+        ] as const;
+        for (const [data, encoding] of inputs) {
+            expect(createHash('sha256').update(data, encoding).digest('hex')).toBe(
+                nodeCrypto.createHash('sha256').update(data, encoding).digest('hex')
+            );
+        }
+        expect(() => createHash('sha256').update('68656c6c6', 'hex')).toThrow(
+            expect.objectContaining({ code: 'ERR_INVALID_ARG_VALUE' })
+        );
+    });
+
+    it('accepts binary input and ignores the encoding for it', () => {
+        const data = new TextEncoder().encode('hello');
+        expect(createHash('sha256').update(data, 'hex').digest('hex')).toBe(
+            nodeCrypto.createHash('sha256').update(data).digest('hex')
+        );
+    });
+
+    it('looks algorithms up in the registry', () => {
+        expect(createHash('SHA-256').update('abc').digest('hex')).toBe(
+            nodeCrypto.createHash('sha256').update('abc').digest('hex')
+        );
+        expect(createHash('blake3').update('abc').digest('hex')).toBe(blake3Hex('abc'));
+        expect(() => createHash('md5')).toThrow("Unknown hash algorithm 'md5'");
+    });
+
+    it('copies the state', () => {
+        const hash = createHash('sha256').update('hello ');
+        const copy = hash.copy();
+        expect(hash.update('world').digest('hex')).toBe(
+            nodeCrypto.createHash('sha256').update('hello world').digest('hex')
+        );
+        expect(copy.update('there').digest('hex')).toBe(
+            nodeCrypto.createHash('sha256').update('hello there').digest('hex')
+        );
+    });
+
+    it('throws ERR_CRYPTO_HASH_FINALIZED after digest()', () => {
+        const hash = createHash('sha256');
+        hash.digest();
+        expect(() => hash.update('more')).toThrow(finalizedError());
+        expect(() => hash.digest('hex')).toThrow(finalizedError());
+        expect(() => hash.copy()).toThrow(finalizedError());
+    });
+});
+
+// ---------------------------------------------------------------------------
+// createHmac
+// ---------------------------------------------------------------------------
+
+describe('createHmac', () => {
+    it('matches node:crypto for string and binary keys', () => {
+        for (const key of ['secret', new TextEncoder().encode('secret'), new Uint8Array(100).fill(7)]) {
+            expect(createHmac('sha256', key).update('payload', 'utf8').digest('base64')).toBe(
+                nodeCrypto.createHmac('sha256', key).update('payload', 'utf8').digest('base64')
+            );
+        }
+    });
+
+    it('returns an empty result from a second digest()', () => {
+        const hmac = createHmac('sha256', 'secret').update('payload');
+        expect(hmac.digest('hex')).toBe(nodeCrypto.createHmac('sha256', 'secret').update('payload').digest('hex'));
+        expect(hmac.digest('hex')).toBe('');
+        const empty = hmac.digest();
+        expect(Buffer.isBuffer(empty)).toBe(true);
+        expect(empty).toHaveLength(0);
+        expect(() => hmac.update('more')).toThrow(finalizedError());
+    });
+
+    it('rejects algorithms without HMAC', () => {
+        expect(() => createHmac('blake3', 'secret')).toThrow("HMAC is not supported for hash algorithm 'blake3'");
+        expect(() => createHmac('md5', 'secret')).toThrow("Unknown hash algorithm 'md5'");
+    });
+});
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { decodeDigest, encodeDigest } from '../src/index';
+
+// SHA-256("abc")
+const ABC_HEX = 'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad';
+const ABC_BASE64 = 'ungWv48Bz+pBQUDeXa4iI7ADYaOWF3qctBD/YfIAFa0=';
+const ABC_BASE64URL = 'ungWv48Bz-pBQUDeXa4iI7ADYaOWF3qctBD_YfIAFa0';
+
+function fromHex(hex: string): Uint8Array {
+    return Uint8Array.from(hex.match(/../g) ?? [], (byte) => Number.parseInt(byte, 16));
+}
+
+describe('encodeDigest', () => {
+    const digest = fromHex(ABC_HEX);
+
+    it('encodes hex', () => {
+        expect(encodeDigest(digest, 'hex')).toBe(ABC_HEX);
+    });
+
+    it('encodes padded base64', () => {
+        expect(encodeDigest(digest, 'base64')).toBe(ABC_BASE64);
+    });
+
+    it('encodes unpadded base64url', () => {
+        expect(encodeDigest(digest, 'base64url')).toBe(ABC_BASE64URL);
+    });
+
+    it('matches Buffer encodings for every padding length', () => {
+        for (const length of [0, 1, 2, 3, 4, 5, 16, 32, 64]) {
+            const bytes = Uint8Array.from({ length }, (_, i) => (i * 37 + 250) & 0xff);
+            const buffer = Buffer.from(bytes);
+            expect(encodeDigest(bytes, 'hex')).toBe(buffer.toString('hex'));
+            expect(encodeDigest(bytes, 'base64')).toBe(buffer.toString('base64'));
+            expect(encodeDigest(bytes, 'base64url')).toBe(buffer.toString('base64url'));
+        }
+    });
+
+    it('rejects unknown encodings', () => {
+        // @ts-expect-error -- runtime validation for JS callers
+        expect(() => encodeDigest(digest, 'latin1')).toThrow('Unsupported digest encoding: latin1');
+    });
+});
+
+describe('decodeDigest', () => {
+    it('round-trips every encoding', () => {
+        const digest = fromHex(ABC_HEX);
+        for (const encoding of ['hex', 'base64', 'base64url'] as const) {
+            expect(decodeDigest(encodeDigest(digest, encoding), encoding)).toEqual(digest);
+        }
+    });
+
+    it('accepts upper-case hex and padded base64url', () => {
+        expect(decodeDigest(ABC_HEX.toUpperCase(), 'hex')).toEqual(fromHex(ABC_HEX));
+        expect(decodeDigest(`${ABC_BASE64URL}=`, 'base64url')).toEqual(fromHex(ABC_HEX));
+    });
+
+    it('validates the decoded length', () => {
+        expect(decodeDigest(ABC_BASE64, 'base64', 32).length).toBe(32);
+        expect(() => decodeDigest(ABC_HEX, 'hex', 64)).toThrow('Invalid digest length: expected 64 bytes, got 32');
+    });
+
+    it('rejects malformed hex', () => {
+        expect(() => decodeDigest('abc', 'hex')).toThrow('Invalid hex digest');
+        expect(() => decodeDigest('zz', 'hex')).toThrow('Invalid hex digest');
+    });
+
+    it('rejects malformed base64', () => {
+        expect(() => decodeDigest(ABC_BASE64URL, 'base64')).toThrow('Invalid base64 digest');
+        expect(() => decodeDigest('abc', 'base64')).toThrow('Invalid base64 digest');
+        expect(() => decodeDigest('ab=c', 'base64')).toThrow('Invalid base64 digest');
+        expect(() => decodeDigest('AB==', 'base64')).toThrow('Invalid base64 digest');
+    });
+
+    it('rejects malformed base64url', () => {
+        expect(() => decodeDigest(ABC_BASE64, 'base64url')).toThrow('Invalid base64url digest');
+        expect(() => decodeDigest('a', 'base64url')).toThrow('Invalid base64url digest');
+        expect(() => decodeDigest('AA=', 'base64url')).toThrow('Invalid base64url digest');
+        expect(() => decodeDigest('AAA==', 'base64url')).toThrow('Invalid base64url digest');
+        expect(() => decodeDigest('AB', 'base64url')).toThrow('Invalid base64url digest');
+        expect(decodeDigest('AA==', 'base64url')).toEqual(new Uint8Array([0]));
+    });
+});
@@ -0,0 +1,211 @@
+import { chmod, mkdir, mkdtemp, rm, symlink, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { BLAKE3, blake3 } from '@hashbuf/blake3';
+import { SHA256, sha256 } from '@hashbuf/sha256';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { hashDirectory, hashFile } from '../src/node';
+
+function toHex(buf: Uint8Array): string {
+    return Array.from(buf)
+        .map((b) => b.toString(16).padStart(2, '0'))
+        .join('');
+}
+
+let root: string;
+
+beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'hashbuf-'));
+});
+
+afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+});
+
+async function writeTree(dir: string, files: Record<string, string>): Promise<void> {
+    for (const [path, contents] of Object.entries(files)) {
+        await mkdir(join(dir, path, '..'), { recursive: true });
+        await writeFile(join(dir, path), contents);
+    }
+}
+
+function paths(result: { files: { path: string }[] }): string[] {
+    return result.files.map((entry) => entry.path);
+}
+
+// ---------------------------------------------------------------------------
+// hashFile
+// ---------------------------------------------------------------------------
+
+describe('hashFile', () => {
+    it('matches the one-shot hash', async () => {
+        const data = new Uint8Array(300_000).map((_, i) => (i * 7) & 0xff);
+        const path = join(root, 'data.bin');
+        await writeFile(path, data);
+        expect(toHex(await hashFile(SHA256, path))).toBe(toHex(sha256(data)));
+        expect(toHex(await hashFile(BLAKE3, path))).toBe(toHex(blake3(data)));
+    });
+
+    it('reads through a small buffer', async () => {
+        const data = new Uint8Array(10_000).map((_, i) => i & 0xff);
+        const path = join(root, 'data.bin');
+        await writeFile(path, data);
+        expect(toHex(await hashFile(SHA256, path, { bufferSize: 333 }))).toBe(toHex(sha256(data)));
+    });
+
+    it('updates hashers that have an inputBuffer but no commit()', async () => {
+        const data = new Uint8Array(10_000).map((_, i) => i & 0xff);
+        const path = join(root, 'data.bin');
+        await writeFile(path, data);
+        const algorithm = {
+            ...SHA256,
+            createHasher: () =>
+                Object.create(SHA256.createHasher(), {
+                    inputBuffer: { value: new Uint8Array(64) },
+                    commit: { value: undefined }
+                })
+        };
+        expect(toHex(await hashFile(algorithm, path))).toBe(toHex(sha256(data)));
+    });
+
+    it('hashes empty files', async () => {
+        const path = join(root, 'empty');
+        await writeFile(path, '');
+        expect(toHex(await hashFile(SHA256, path))).toBe(toHex(sha256(new Uint8Array(0))));
+    });
+
+    it('rejects invalid buffer sizes', async () => {
+        const path = join(root, 'data.bin');
+        await writeFile(path, 'abc');
+        await expect(hashFile(SHA256, path, { bufferSize: 0 })).rejects.toThrow(RangeError);
+        await expect(hashFile(SHA256, path, { bufferSize: 1.5 })).rejects.toThrow(RangeError);
+    });
+
+    it('rejects missing files', async () => {
+        await expect(hashFile(SHA256, join(root, 'missing'))).rejects.toThrow();
+    });
+
+    it('stops when aborted', async () => {
+        const path = join(root, 'data.bin');
+        await writeFile(path, 'abc');
+        const controller = new AbortController();
+        controller.abort(new Error('stop'));
+        await expect(hashFile(SHA256, path, { signal: controller.signal })).rejects.toThrow('stop');
+    });
+});
+
+// ---------------------------------------------------------------------------
+// hashDirectory
+// ---------------------------------------------------------------------------
+
+describe('hashDirectory', () => {
+    it('lists every file with its digest, sorted by path', async () => {
+        await writeTree(root, { 'b.txt': 'b', 'a/z.txt': 'z', 'a/b/c.txt': 'c', 'A.txt': 'A' });
+        const result = await hashDirectory(SHA256, root);
+        expect(paths(result)).toEqual(['A.txt', 'a/b/c.txt', 'a/z.txt', 'b.txt']);
+        const entry = result.files[2];
+        expect(entry?.type).toBe('file');
+        expect(entry?.size).toBe(1);
+        expect(entry?.mode).toBeUndefined();
+        expect(toHex(entry?.digest ?? new Uint8Array())).toBe(toHex(sha256('z')));
+        expect(result.digest.byteLength).toBe(SHA256.digestLength);
+    });
+
+    it('is deterministic across directories with the same contents', async () => {
+        const files = { 'x/1.txt': 'one', 'x/2.txt': 'two', 'y.txt': 'why' };
+        await writeTree(join(root, 'first'), files);
+        await writeTree(join(root, 'second'), Object.fromEntries(Object.entries(files).reverse()));
+        const first = await hashDirectory(BLAKE3, join(root, 'first'));
+        const second = await hashDirectory(BLAKE3, join(root, 'second'));
+        expect(toHex(first.digest)).toBe(toHex(second.digest));
+    });
+
+    it('changes with file contents and names', async () => {
+        await writeTree(root, { 'a.txt': 'a' });
+        const before = toHex((await hashDirectory(SHA256, root)).digest);
+        await writeFile(join(root, 'a.txt'), 'A');
+        const edited = toHex((await hashDirectory(SHA256, root)).digest);
+        await rm(join(root, 'a.txt'));
+        await writeTree(root, { 'b.txt': 'A' });
+        const renamed = toHex((await hashDirectory(SHA256, root)).digest);
+        expect(new Set([before, edited, renamed]).size).toBe(3);
+    });
+
+    it('ignores empty directories', async () => {
+        await writeTree(root, { 'a.txt': 'a' });
+        const before = toHex((await hashDirectory(SHA256, root)).digest);
+        await mkdir(join(root, 'empty'));
+        expect(toHex((await hashDirectory(SHA256, root)).digest)).toBe(before);
+    });
+
+    it('includes file modes on request', async () => {
+        if (process.platform === 'win32') {
+            return;
+        }
+        await writeTree(root, { 'run.sh': 'echo' });
+        await chmod(join(root, 'run.sh'), 0o644);
+        const plain = await hashDirectory(SHA256, root);
+        const before = await hashDirectory(SHA256, root, { includeMode: true });
+        expect(before.files[0]?.mode).toBe(0o644);
+        expect(toHex(before.digest)).not.toBe(toHex(plain.digest));
+
+        await chmod(join(root, 'run.sh'), 0o755);
+        const after = await hashDirectory(SHA256, root, { includeMode: true });
+        expect(after.files[0]?.mode).toBe(0o755);
+        expect(toHex(after.digest)).not.toBe(toHex(before.digest));
+        expect(toHex((await hashDirectory(SHA256, root)).digest)).toBe(toHex(plain.digest));
+    });
+
+    it('skips ignored entries', async () => {
+        await writeTree(root, {
+            'src/index.ts': 'code',
+            'src/index.js.map': 'map',
+            'node_modules/dep/index.js': 'dep',
+            'docs/a.md': 'a',
+            'docs/deep/b.md': 'b',
+            'keep.md': 'keep'
+        });
+        const result = await hashDirectory(SHA256, root, { ignore: ['node_modules', '*.map', 'docs/**/*.md'] });
+        expect(paths(result)).toEqual(['keep.md', 'src/index.ts']);
+
+        const anchored = await hashDirectory(SHA256, root, { ignore: ['node_modules', '/*.md', 'docs/deep'] });
+        expect(paths(anchored)).toEqual(['docs/a.md', 'src/index.js.map', 'src/index.ts']);
+    });
+
+    it('hashes symbolic links by target', async () => {
+        if (process.platform === 'win32') {
+            return;
+        }
+        await writeTree(root, { 'real/file.txt': 'data' });
+        await symlink('real/file.txt', join(root, 'link'));
+        await symlink('real', join(root, 'dir-link'));
+
+        const linked = await hashDirectory(SHA256, root);
+        expect(paths(linked)).toEqual(['dir-link', 'link', 'real/file.txt']);
+        expect(linked.files[1]?.type).toBe('symlink');
+        expect(linked.files[1]?.size).toBe('real/file.txt'.length);
+        expect(toHex(linked.files[1]?.digest ?? new Uint8Array())).toBe(toHex(sha256('real/file.txt')));
+
+        const followed = await hashDirectory(SHA256, root, { symlinks: 'follow' });
+        expect(paths(followed)).toEqual(['dir-link/file.txt', 'link', 'real/file.txt']);
+        expect(followed.files.every((entry) => entry.type === 'file')).toBe(true);
+        expect(toHex(followed.files[1]?.digest ?? new Uint8Array())).toBe(toHex(sha256('data')));
+
+        const skipped = await hashDirectory(SHA256, root, { symlinks: 'skip' });
+        expect(paths(skipped)).toEqual(['real/file.txt']);
+    });
+
+    it('rejects symbolic link cycles when following links', async () => {
+        if (process.platform === 'win32') {
+            return;
+        }
+        await writeTree(root, { 'a/file.txt': 'data' });
+        await symlink('..', join(root, 'a', 'up'));
+        await expect(hashDirectory(SHA256, root, { symlinks: 'follow' })).rejects.toThrow('Symlink cycle at a/up');
+        await expect(hashDirectory(SHA256, root)).resolves.toBeDefined();
+    });
+
+    it('rejects unknown symlink policies', async () => {
+        await expect(hashDirectory(SHA256, root, { symlinks: 'copy' as never })).rejects.toThrow(TypeError);
+    });
+});
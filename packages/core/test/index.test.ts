@@ -0,0 +1,70 @@
+import { BLAKE3, blake3 } from '@hashbuf/blake3';
+import { SHA256, sha256 } from '@hashbuf/sha256';
+import { describe, expect, it } from 'vitest';
+import { createHashStream } from '../src/index';
+
+function toHex(buf: Uint8Array): string {
+    return Array.from(buf)
+        .map((b) => b.toString(16).padStart(2, '0'))
+        .join('');
+}
+
+function fromUtf8(str: string): Uint8Array {
+    return new TextEncoder().encode(str);
+}
+
+function readableOf(chunks: Uint8Array[]): ReadableStream<Uint8Array> {
+    return new ReadableStream({
+        start(controller) {
+            for (const chunk of chunks) {
+                controller.enqueue(chunk);
+            }
+            controller.close();
+        }
+    });
+}
+
+async function collect(stream: ReadableStream<Uint8Array>): Promise<Uint8Array> {
+    const chunks: Uint8Array[] = [];
+    for await (const chunk of stream) {
+        chunks.push(chunk);
+    }
+    const out = new Uint8Array(chunks.reduce((n, c) => n + c.length, 0));
+    let offset = 0;
+    for (const chunk of chunks) {
+        out.set(chunk, offset);
+        offset += chunk.length;
+    }
+    return out;
+}
+
+describe('createHashStream', () => {
+    it('passes data through and resolves the digest on close', async () => {
+        const data = fromUtf8('hello world, hashed while streaming');
+        const hashing = createHashStream(SHA256);
+        const output = await collect(readableOf([data.subarray(0, 7), data.subarray(7)]).pipeThrough(hashing));
+
+        expect(toHex(output)).toBe(toHex(data));
+        expect(toHex(await hashing.digest)).toBe(toHex(sha256(data)));
+    });
+
+    it('works with any HashAlgorithm', async () => {
+        const data = fromUtf8('test input');
+        const hashing = createHashStream(BLAKE3);
+        await collect(readableOf([data]).pipeThrough(hashing));
+        expect(toHex(await hashing.digest)).toBe(toHex(blake3(data)));
+    });
+
+    it('hashes an empty stream', async () => {
+        const hashing = createHashStream(SHA256);
+        await collect(readableOf([]).pipeThrough(hashing));
+        expect(toHex(await hashing.digest)).toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+    });
+
+    it('rejects the digest when the stream is aborted', async () => {
+        const hashing = createHashStream(SHA256);
+        const writer = hashing.writable.getWriter();
+        await writer.abort(new Error('boom'));
+        await expect(hashing.digest).rejects.toThrow('boom');
+    });
+});
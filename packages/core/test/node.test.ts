@@ -0,0 +1,75 @@
+import { PassThrough, Readable, Writable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import { BLAKE3, blake3 } from '@hashbuf/blake3';
+import { SHA256, sha256 } from '@hashbuf/sha256';
+import { describe, expect, it } from 'vitest';
+import { createHashTransform, HashTransform } from '../src/node';
+
+function toHex(buf: Uint8Array): string {
+    return Array.from(buf)
+        .map((b) => b.toString(16).padStart(2, '0'))
+        .join('');
+}
+
+function sink(chunks: Uint8Array[]): Writable {
+    return new Writable({
+        write(chunk, _encoding, callback) {
+            chunks.push(chunk);
+            callback();
+        }
+    });
+}
+
+describe('HashTransform', () => {
+    it('passes data through and resolves the digest on finish', async () => {
+        const data = Buffer.from('hello world, hashed while piping');
+        const chunks: Uint8Array[] = [];
+        const hashing = new HashTransform(SHA256);
+
+        await pipeline(Readable.from([data.subarray(0, 5), data.subarray(5)]), hashing, sink(chunks));
+
+        expect(Buffer.concat(chunks).equals(data)).toBe(true);
+        expect(toHex(await hashing.digest)).toBe(toHex(sha256(data)));
+    });
+
+    it('createHashTransform works with any HashAlgorithm', async () => {
+        const data = Buffer.from('test input');
+        const hashing = createHashTransform(BLAKE3);
+        await pipeline(Readable.from([data]), hashing, sink([]));
+        expect(toHex(await hashing.digest)).toBe(toHex(blake3(data)));
+    });
+
+    it('accepts string writes', async () => {
+        const hashing = createHashTransform(SHA256);
+        hashing.end('abc');
+        hashing.resume();
+        expect(toHex(await hashing.digest)).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+    });
+
+    it('rejects the digest when destroyed early', async () => {
+        const hashing = createHashTransform(SHA256);
+        const source = new PassThrough();
+        const done = pipeline(source, hashing, sink([]));
+        source.write(Buffer.from('partial'));
+        source.destroy(new Error('boom'));
+
+        await expect(done).rejects.toThrow('boom');
+        await expect(hashing.digest).rejects.toThrow();
+    });
+
+    it('rejects the digest when finalizing throws', async () => {
+        const failing = {
+            ...SHA256,
+            createHasher: () =>
+                Object.assign(SHA256.createHasher(), {
+                    digest: (): never => {
+                        throw new Error('digest failed');
+                    }
+                })
+        };
+        const hashing = createHashTransform(failing);
+
+        await expect(pipeline(Readable.from([Buffer.from('abc')]), hashing, sink([]))).rejects.toThrow('digest failed');
+        await expect(hashing.digest).rejects.toThrow('digest failed');
+    });
+});
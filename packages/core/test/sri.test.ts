@@ -0,0 +1,102 @@
+import * as nodeCrypto from 'node:crypto';
+import '@hashbuf/sha256';
+import '@hashbuf/sha512';
+import { describe, expect, it } from 'vitest';
+import { integrity, parseIntegrity, verifyIntegrity } from '../src/index';
+
+const DATA = "alert('Hello, world.');";
+
+function sri(algorithm: string, data: string = DATA): string {
+    return `${algorithm}-${nodeCrypto.createHash(algorithm).update(data).digest('base64')}`;
+}
+
+function readableOf(text: string): ReadableStream<Uint8Array> {
+    return new ReadableStream({
+        start(controller) {
+            const bytes = new TextEncoder().encode(text);
+            controller.enqueue(bytes.subarray(0, 5));
+            controller.enqueue(bytes.subarray(5));
+            controller.close();
+        }
+    });
+}
+
+// ---------------------------------------------------------------------------
+// Generating integrity metadata
+// ---------------------------------------------------------------------------
+
+describe('integrity', () => {
+    it('defaults to sha256', () => {
+        expect(integrity(DATA)).toBe(sri('sha256'));
+    });
+
+    it('emits one token per algorithm', () => {
+        expect(integrity(DATA, 'sha384')).toBe(sri('sha384'));
+        expect(integrity(DATA, ['sha256', 'sha512'])).toBe(`${sri('sha256')} ${sri('sha512')}`);
+    });
+
+    it('matches the example from the SRI specification', () => {
+        expect(integrity(DATA, 'sha384')).toBe(
+            'sha384-H8BRh8j48O9oYatfu5AZzq6A9RINhZO5H16dQZngK7T62em8MUt1FLm52t+eX6xO'
+        );
+    });
+
+    it('rejects algorithms SRI does not define', () => {
+        expect(() => integrity(DATA, 'md5' as never)).toThrow('Unsupported SRI algorithm: md5');
+    });
+});
+
+// ---------------------------------------------------------------------------
+// Parsing integrity metadata
+// ---------------------------------------------------------------------------
+
+describe('parseIntegrity', () => {
+    it('splits tokens and options, skipping unknown algorithms', () => {
+        expect(parseIntegrity(` sha256-abc=\tmd5-xyz SHA512-def?opt=1?x\nnonsense sha384-`)).toEqual([
+            { algorithm: 'sha256', digest: 'abc=' },
+            { algorithm: 'sha512', digest: 'def', options: 'opt=1?x' }
+        ]);
+    });
+});
+
+// ---------------------------------------------------------------------------
+// Verifying integrity metadata
+// ---------------------------------------------------------------------------
+
+describe('verifyIntegrity', () => {
+    it('verifies matching and mismatching data', () => {
+        expect(verifyIntegrity(DATA, sri('sha256'))).toBe(true);
+        expect(verifyIntegrity('tampered', sri('sha256'))).toBe(false);
+        expect(verifyIntegrity(new TextEncoder().encode(DATA), sri('sha384'))).toBe(true);
+    });
+
+    it('only considers the strongest algorithm', () => {
+        expect(verifyIntegrity(DATA, `${sri('sha256')} ${sri('sha512', 'other')}`)).toBe(false);
+        expect(verifyIntegrity(DATA, `${sri('sha256', 'other')} ${sri('sha384')}`)).toBe(true);
+    });
+
+    it('accepts any matching token of that algorithm', () => {
+        expect(verifyIntegrity(DATA, `${sri('sha512', 'other')} ${sri('sha512')}`)).toBe(true);
+    });
+
+    it('ignores options and unknown algorithms', () => {
+        expect(verifyIntegrity(DATA, `md5-abc ${sri('sha256')}?foo=bar`)).toBe(true);
+    });
+
+    it('accepts base64url digests', () => {
+        const digest = nodeCrypto.createHash('sha256').update(DATA).digest('base64url');
+        expect(verifyIntegrity(DATA, `sha256-${digest}`)).toBe(true);
+    });
+
+    it('matches anything when no token has a known algorithm', () => {
+        expect(verifyIntegrity(DATA, '')).toBe(true);
+        expect(verifyIntegrity(DATA, 'md5-abc sha1-def')).toBe(true);
+    });
+
+    it('verifies streams without buffering them', async () => {
+        await expect(verifyIntegrity(readableOf(DATA), sri('sha384'))).resolves.toBe(true);
+        await expect(verifyIntegrity(readableOf('tampered'), sri('sha384'))).resolves.toBe(false);
+        await expect(verifyIntegrity(new Blob([DATA]), `${sri('sha256')} ${sri('sha512')}`)).resolves.toBe(true);
+        await expect(verifyIntegrity(readableOf(DATA), 'md5-abc')).resolves.toBe(true);
+    });
+});
@@ -0,0 +1,96 @@
+import type { HashAlgorithm, HashInput } from '@hashbuf/types';
+import { toBinary } from '@hashbuf/types';
+
+// ---------------------------------------------------------------------------
+// Tree conventions
+// ---------------------------------------------------------------------------
+
+/**
+ * How leaves and interior nodes are hashed, and how an unbalanced tree is shaped.
+ *
+ * - `'rfc6962'`: Certificate Transparency (RFC 6962 / RFC 9162). Leaves are
+ *   `hash(0x00 || leaf)`, nodes are `hash(0x01 || left || right)`, and a tree
+ *   splits at the largest power of two smaller than its size. The empty tree's
+ *   root is `hash('')`.
+ * - `'bitcoin'`: leaves and nodes use `doubleHash()` without domain prefixes,
+ *   and the last node of an odd-sized level is paired with itself.
+ */
+export type MerkleConvention = 'rfc6962' | 'bitcoin';
+
+/** Options shared by `MerkleTree` and `verifyProof()`. */
+export interface MerkleOptions {
+    /** Tree convention. Defaults to `'rfc6962'`. */
+    convention?: MerkleConvention;
+}
+
+/** Leaf and node hash functions for one algorithm and convention. */
+export interface MerkleScheme {
+    leaf(data: HashInput): Uint8Array;
+    node(left: Uint8Array, right: Uint8Array): Uint8Array;
+}
+
+const LEAF_PREFIX = new Uint8Array([0x00]);
+const NODE_PREFIX = new Uint8Array([0x01]);
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+    let length = 0;
+    for (const part of parts) {
+        length += part.length;
+    }
+    const out = new Uint8Array(length);
+    let offset = 0;
+    for (const part of parts) {
+        out.set(part, offset);
+        offset += part.length;
+    }
+    return out;
+}
+
+/** Resolve the leaf and node hash functions for `convention`. */
+export function merkleScheme(algorithm: HashAlgorithm, convention: MerkleConvention = 'rfc6962'): MerkleScheme {
+    switch (convention) {
+        case 'rfc6962':
+            return {
+                leaf: (data) => algorithm.hash(concat(LEAF_PREFIX, toBinary(data))),
+                node: (left, right) => algorithm.hash(concat(NODE_PREFIX, left, right))
+            };
+        case 'bitcoin':
+            return {
+                leaf: (data) => algorithm.doubleHash(data),
+                node: (left, right) => algorithm.doubleHash(concat(left, right))
+            };
+        default:
+            throw new TypeError(`Unsupported Merkle convention: ${convention as string}`);
+    }
+}
+
+/** Hash a leaf the way a tree with the given convention does. */
+export function hashLeaf(algorithm: HashAlgorithm, data: HashInput, options: MerkleOptions = {}): Uint8Array {
+    return merkleScheme(algorithm, options.convention).leaf(data);
+}
+
+/** `floor(n / 2)`, safe beyond 32-bit sizes where `>>` would wrap. */
+export function half(n: number): number {
+    return Math.floor(n / 2);
+}
+
+/** The largest power of two strictly smaller than `n` (`n >= 2`). */
+export function splitPoint(n: number): number {
+    let k = 1;
+    while (k * 2 < n) {
+        k *= 2;
+    }
+    return k;
+}
+
+export function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+    if (a.length !== b.length) {
+        return false;
+    }
+    for (let i = 0; i < a.length; i++) {
+        if (a[i] !== b[i]) {
+            return false;
+        }
+    }
+    return true;
+}
@@ -0,0 +1,3 @@
+export { hashLeaf, type MerkleConvention, type MerkleOptions } from './convention.js';
+export { type ConsistencyProof, type MerkleProof, MerkleTree } from './tree.js';
+export { type VerifyProofOptions, verifyConsistencyProof, verifyProof } from './verify.js';
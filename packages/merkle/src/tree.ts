@@ -0,0 +1,259 @@
+import type { HashAlgorithm, HashInput } from '@hashbuf/types';
+import {
+    type MerkleConvention,
+    type MerkleOptions,
+    type MerkleScheme,
+    merkleScheme,
+    splitPoint
+} from './convention.js';
+
+// ---------------------------------------------------------------------------
+// Proofs
+// ---------------------------------------------------------------------------
+
+/** Proof that a leaf is included in a tree of `size` leaves. */
+export interface MerkleProof {
+    /** Index of the proven leaf. */
+    index: number;
+    /** Number of leaves in the tree the proof was made for. */
+    size: number;
+    /** Sibling hashes, from the leaf level up to the root. */
+    path: Uint8Array[];
+}
+
+/** Proof that the tree of `oldSize` leaves is a prefix of the tree of `newSize` leaves (RFC 6962). */
+export interface ConsistencyProof {
+    oldSize: number;
+    newSize: number;
+    path: Uint8Array[];
+}
+
+// ---------------------------------------------------------------------------
+// Append-only tree
+// ---------------------------------------------------------------------------
+
+function assertSize(size: number, max: number): void {
+    if (!Number.isSafeInteger(size) || size < 0 || size > max) {
+        throw new RangeError(`Size must be an integer between 0 and ${max}`);
+    }
+}
+
+function assertIndex(index: number, size: number): void {
+    if (!Number.isSafeInteger(index) || index < 0 || index >= size) {
+        throw new RangeError(`Index must be an integer between 0 and ${size - 1}`);
+    }
+}
+
+/** Number of levels above the leaves in a Bitcoin-style tree of `size` leaves. */
+function bitcoinDepth(size: number): number {
+    let depth = 0;
+    while (2 ** depth < size) {
+        depth++;
+    }
+    return depth;
+}
+
+/**
+ * An append-only Merkle tree over any `HashAlgorithm`.
+ *
+ * Hashes of complete power-of-two subtrees are cached as leaves are
+ * appended, so roots and proofs for the current or any earlier size take
+ * O(log n) node hashes.
+ *
+ * ```ts
+ * const tree = new MerkleTree(SHA256, ['a', 'b', 'c']);
+ * const root = tree.root();
+ * const proof = tree.proof(1);
+ * verifyProof(SHA256, root, 'b', proof); // true
+ * ```
+ */
+export class MerkleTree {
+    readonly algorithm: HashAlgorithm;
+    readonly convention: MerkleConvention;
+    private scheme: MerkleScheme;
+    /** `levels[k][i]` is the hash of the complete subtree over leaves `[i * 2^k, (i + 1) * 2^k)`. */
+    private levels: Uint8Array[][] = [[]];
+
+    /**
+     * @param leaves Leaf data, hashed according to `options.convention`.
+     */
+    constructor(algorithm: HashAlgorithm, leaves: Iterable<HashInput> = [], options: MerkleOptions = {}) {
+        this.algorithm = algorithm;
+        this.convention = options.convention ?? 'rfc6962';
+        this.scheme = merkleScheme(algorithm, this.convention);
+        for (const leaf of leaves) {
+            this.append(leaf);
+        }
+    }
+
+    /**
+     * Build a tree from leaves that are already hashed, e.g. Bitcoin
+     * transaction IDs (in internal byte order) or `hashLeaf()` output.
+     */
+    static fromLeafHashes(
+        algorithm: HashAlgorithm,
+        leafHashes: Iterable<Uint8Array>,
+        options: MerkleOptions = {}
+    ): MerkleTree {
+        const tree = new MerkleTree(algorithm, [], options);
+        for (const leafHash of leafHashes) {
+            tree.appendLeafHash(leafHash);
+        }
+        return tree;
+    }
+
+    /** Number of leaves. */
+    get size(): number {
+        return this.level(0).length;
+    }
+
+    /** Hash and append a leaf. Returns its index. */
+    append(leaf: HashInput): number {
+        return this.appendLeafHash(this.scheme.leaf(leaf));
+    }
+
+    /** Append an already hashed leaf. Returns its index. */
+    appendLeafHash(leafHash: Uint8Array): number {
+        if (leafHash.length !== this.algorithm.digestLength) {
+            throw new RangeError(`Leaf hash must be ${this.algorithm.digestLength} bytes`);
+        }
+        const index = this.size;
+        let hash: Uint8Array = leafHash.slice();
+        for (let k = 0; ; k++) {
+            const nodes = this.level(k);
+            nodes.push(hash);
+            if (nodes.length % 2 === 1) {
+                break;
+            }
+            hash = this.scheme.node(nodes[nodes.length - 2] as Uint8Array, hash);
+        }
+        return index;
+    }
+
+    /** The hash of the leaf at `index`. */
+    leafHash(index: number): Uint8Array {
+        assertIndex(index, this.size);
+        return (this.level(0)[index] as Uint8Array).slice();
+    }
+
+    /**
+     * The root of the tree, or of the tree as it was when it had `size` leaves.
+     *
+     * A Bitcoin-style tree has no root while empty and throws a `RangeError`.
+     */
+    root(size: number = this.size): Uint8Array {
+        assertSize(size, this.size);
+        if (this.convention === 'bitcoin') {
+            if (size === 0) {
+                throw new RangeError('A bitcoin-style tree has no root while empty');
+            }
+            return this.bitcoinNode(bitcoinDepth(size), 0, size).slice();
+        }
+        return size === 0 ? this.algorithm.hash(new Uint8Array(0)) : this.subtree(0, size).slice();
+    }
+
+    /** Inclusion proof for the leaf at `index` in the tree of `size` leaves (default: the current size). */
+    proof(index: number, size: number = this.size): MerkleProof {
+        assertSize(size, this.size);
+        assertIndex(index, size);
+        const path: Uint8Array[] = [];
+        if (this.convention === 'bitcoin') {
+            const depth = bitcoinDepth(size);
+            for (let k = 0; k < depth; k++) {
+                const i = Math.floor(index / 2 ** k);
+                const sibling = i % 2 === 0 ? i + 1 : i - 1;
+                // The unpaired last node of a level is hashed with itself and has no path entry.
+                if (sibling < Math.ceil(size / 2 ** k)) {
+                    path.push(this.bitcoinNode(k, sibling, size));
+                }
+            }
+        } else {
+            this.inclusionPath(index, 0, size, path);
+        }
+        return { index, size, path: path.map((hash) => hash.slice()) };
+    }
+
+    /**
+     * Proof that the tree of `oldSize` leaves is a prefix of the tree of
+     * `newSize` leaves (default: the current size), as defined by RFC 6962.
+     *
+     * Only available with the `'rfc6962'` convention.
+     */
+    consistencyProof(oldSize: number, newSize: number = this.size): ConsistencyProof {
+        if (this.convention !== 'rfc6962') {
+            throw new TypeError('Consistency proofs require the rfc6962 convention');
+        }
+        assertSize(newSize, this.size);
+        assertSize(oldSize, newSize);
+        const path: Uint8Array[] = [];
+        if (oldSize > 0 && oldSize < newSize) {
+            this.subproof(oldSize, 0, newSize, true, path);
+        }
+        return { oldSize, newSize, path: path.map((hash) => hash.slice()) };
+    }
+
+    private level(k: number): Uint8Array[] {
+        let nodes = this.levels[k];
+        if (nodes === undefined) {
+            nodes = [];
+            this.levels[k] = nodes;
+        }
+        return nodes;
+    }
+
+    /** RFC 6962 `MTH(D[start:end])`. Left subtrees in the recursion are always complete and cached. */
+    private subtree(start: number, end: number): Uint8Array {
+        const n = end - start;
+        const k = Math.round(Math.log2(n));
+        if (n === 2 ** k && start % n === 0) {
+            return this.levels[k]?.[start / n] as Uint8Array;
+        }
+        const split = splitPoint(n);
+        return this.scheme.node(this.subtree(start, start + split), this.subtree(start + split, end));
+    }
+
+    /** RFC 6962 `PATH(index, D[start:end])`. */
+    private inclusionPath(index: number, start: number, end: number, path: Uint8Array[]): void {
+        if (end - start <= 1) {
+            return;
+        }
+        const k = splitPoint(end - start);
+        if (index < start + k) {
+            this.inclusionPath(index, start, start + k, path);
+            path.push(this.subtree(start + k, end));
+        } else {
+            this.inclusionPath(index, start + k, end, path);
+            path.push(this.subtree(start, start + k));
+        }
+    }
+
+    /** RFC 6962 `SUBPROOF(m, D[start:end], complete)`. */
+    private subproof(m: number, start: number, end: number, complete: boolean, path: Uint8Array[]): void {
+        const n = end - start;
+        if (m === n) {
+            if (!complete) {
+                path.push(this.subtree(start, end));
+            }
+            return;
+        }
+        const k = splitPoint(n);
+        if (m <= k) {
+            this.subproof(m, start, start + k, complete, path);
+            path.push(this.subtree(start + k, end));
+        } else {
+            this.subproof(m - k, start + k, end, false, path);
+            path.push(this.subtree(start, start + k));
+        }
+    }
+
+    /** Node `i` at level `k` of the Bitcoin-style tree of `size` leaves. */
+    private bitcoinNode(k: number, i: number, size: number): Uint8Array {
+        const span = 2 ** k;
+        if ((i + 1) * span <= size) {
+            return this.levels[k]?.[i] as Uint8Array;
+        }
+        const left = this.bitcoinNode(k - 1, 2 * i, size);
+        const right = (2 * i + 1) * (span / 2) < size ? this.bitcoinNode(k - 1, 2 * i + 1, size) : left;
+        return this.scheme.node(left, right);
+    }
+}
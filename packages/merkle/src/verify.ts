@@ -0,0 +1,142 @@
+import type { HashAlgorithm, HashInput } from '@hashbuf/types';
+import { bytesEqual, half, type MerkleOptions, merkleScheme } from './convention.js';
+import type { ConsistencyProof, MerkleProof } from './tree.js';
+
+// ---------------------------------------------------------------------------
+// Proof verification
+// ---------------------------------------------------------------------------
+
+/** Options for `verifyProof()`. */
+export interface VerifyProofOptions extends MerkleOptions {
+    /**
+     * `leaf` is already a leaf hash (e.g. from `MerkleTree.leafHash()`, or a
+     * Bitcoin transaction ID in internal byte order). Defaults to `false`.
+     */
+    prehashed?: boolean;
+}
+
+function isCount(n: number): boolean {
+    return Number.isSafeInteger(n) && n >= 0;
+}
+
+/**
+ * Check that `proof` shows `leaf` at `proof.index` in a tree of
+ * `proof.size` leaves with the given `root`.
+ *
+ * Returns `false` for any mismatch, including a malformed proof. `size`
+ * must come from a trusted source along with `root`: with the
+ * `'bitcoin'` convention, a tree whose leaf count is odd at some level has
+ * the same root as the tree with that leaf duplicated.
+ */
+export function verifyProof(
+    algorithm: HashAlgorithm,
+    root: Uint8Array,
+    leaf: HashInput,
+    proof: MerkleProof,
+    options: VerifyProofOptions = {}
+): boolean {
+    const { index, size, path } = proof;
+    if (!isCount(index) || !isCount(size) || index >= size) {
+        return false;
+    }
+    const scheme = merkleScheme(algorithm, options.convention);
+    let hash = options.prehashed ? (leaf as Uint8Array) : scheme.leaf(leaf);
+    let p = 0;
+
+    if (options.convention === 'bitcoin') {
+        // Walk the levels; the unpaired last node of a level is hashed with itself.
+        for (let i = index, width = size; width > 1; i = half(i), width = Math.ceil(width / 2)) {
+            if (i % 2 === 0 && i + 1 === width) {
+                hash = scheme.node(hash, hash);
+                continue;
+            }
+            const sibling = path[p++];
+            if (sibling === undefined) {
+                return false;
+            }
+            hash = i % 2 === 0 ? scheme.node(hash, sibling) : scheme.node(sibling, hash);
+        }
+        return p === path.length && bytesEqual(hash, root);
+    }
+
+    // RFC 9162, section 2.1.3.2
+    let fn = index;
+    let sn = size - 1;
+    for (const sibling of path) {
+        if (sn === 0) {
+            return false;
+        }
+        if (fn % 2 === 1 || fn === sn) {
+            hash = scheme.node(sibling, hash);
+            while (fn % 2 === 0 && fn !== 0) {
+                fn = half(fn);
+                sn = half(sn);
+            }
+        } else {
+            hash = scheme.node(hash, sibling);
+        }
+        fn = half(fn);
+        sn = half(sn);
+    }
+    return sn === 0 && bytesEqual(hash, root);
+}
+
+/**
+ * Check that `proof` shows the tree with `oldRoot` (of `proof.oldSize`
+ * leaves) is a prefix of the tree with `newRoot` (of `proof.newSize`
+ * leaves). RFC 6962 convention only.
+ *
+ * Returns `false` for any mismatch, including a malformed proof.
+ */
+export function verifyConsistencyProof(
+    algorithm: HashAlgorithm,
+    oldRoot: Uint8Array,
+    newRoot: Uint8Array,
+    proof: ConsistencyProof
+): boolean {
+    const { oldSize, newSize, path } = proof;
+    if (!isCount(oldSize) || !isCount(newSize) || oldSize > newSize) {
+        return false;
+    }
+    if (oldSize === newSize) {
+        return path.length === 0 && bytesEqual(oldRoot, newRoot);
+    }
+    if (oldSize === 0) {
+        // The empty tree is a prefix of every tree.
+        return path.length === 0;
+    }
+
+    // RFC 9162, section 2.1.4.2
+    const scheme = merkleScheme(algorithm, 'rfc6962');
+    const nodes = oldSize === 2 ** Math.round(Math.log2(oldSize)) ? [oldRoot, ...path] : path;
+    let fn = oldSize - 1;
+    let sn = newSize - 1;
+    while (fn % 2 === 1) {
+        fn = half(fn);
+        sn = half(sn);
+    }
+    const [first, ...rest] = nodes;
+    if (first === undefined) {
+        return false;
+    }
+    let fr = first;
+    let sr = first;
+    for (const c of rest) {
+        if (sn === 0) {
+            return false;
+        }
+        if (fn % 2 === 1 || fn === sn) {
+            fr = scheme.node(c, fr);
+            sr = scheme.node(c, sr);
+            while (fn % 2 === 0 && fn !== 0) {
+                fn = half(fn);
+                sn = half(sn);
+            }
+        } else {
+            sr = scheme.node(sr, c);
+        }
+        fn = half(fn);
+        sn = half(sn);
+    }
+    return sn === 0 && bytesEqual(fr, oldRoot) && bytesEqual(sr, newRoot);
+}
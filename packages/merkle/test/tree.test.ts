@@ -0,0 +1,204 @@
+import { BLAKE3 } from '@hashbuf/blake3';
+import { SHA256 } from '@hashbuf/sha256';
+import { describe, expect, it } from 'vitest';
+import { hashLeaf, MerkleTree } from '../src/index';
+
+function toHex(buf: Uint8Array): string {
+    return Array.from(buf)
+        .map((b) => b.toString(16).padStart(2, '0'))
+        .join('');
+}
+
+function fromHex(hex: string): Uint8Array {
+    return new Uint8Array(hex.match(/../g)?.map((b) => Number.parseInt(b, 16)) ?? []);
+}
+
+function range(start: number, end: number): Uint8Array {
+    return Uint8Array.from({ length: end - start }, (_, i) => start + i);
+}
+
+// Test vectors from the Certificate Transparency reference implementation
+const CT_LEAVES = [
+    new Uint8Array(0),
+    new Uint8Array([0x00]),
+    new Uint8Array([0x10]),
+    new Uint8Array([0x20, 0x21]),
+    new Uint8Array([0x30, 0x31]),
+    new Uint8Array([0x40, 0x41, 0x42, 0x43]),
+    range(0x50, 0x58),
+    range(0x60, 0x70)
+];
+
+const CT_ROOTS = [
+    '6e340b9cffb37a989ca544e6bb780a2c78901d3fb33738768511a30617afa01d',
+    'fac54203e7cc696cf0dfcb42c92a1d9dbaf70ad9e621f4bd8d98662f00e3c125',
+    'aeb6bcfe274b70a14fb067a5e5578264db0fa9b51af5e0ba159158f329e06e77',
+    'd37ee418976dd95753c1c73862b9398fa2a2cf9b4ff0fdfe8b30cd95209614b7',
+    '4e3bbb1f7b478dcfe71fb631631519a3bca12c9aefca1612bfce4c13a86264d4',
+    '76e67dadbcdf1e10e1b74ddc608abd2f98dfb16fbce75277b5232a127f2087ef',
+    'ddb89be403809e325750d3d263cd78929c2942b7942a34b77e122c9594a74c8c',
+    '5dc9da79a70659a9ad559cb701ded9a2ab9d823aad2f4960cfe370eff4604328'
+];
+
+// Bitcoin block 100000: transaction IDs and Merkle root in display (reversed) byte order
+const BLOCK_100000_TXIDS = [
+    '8c14f0db3df150123e6f3dbbf30f8b955a8249b62ac1d1ff16284aefa3d06d87',
+    'fff2525b8931402dd09222c50775608f75787bd2b87e56995a7bdd30f79702c4',
+    '6359f0868171b1d194cbee1af2f16ea598ae8fad666d9b012c8ed2b79a236ec4',
+    'e9a66845e05d5abc0ad04ec80f774a7e585c6e8db975962d069a522137b80c1d'
+];
+const BLOCK_100000_ROOT = 'f3e94742aca4b5ef85488dc37c06c3282295ffec960994b2c0d5ac2a25a95766';
+
+function internalOrder(hex: string): Uint8Array {
+    return fromHex(hex).reverse();
+}
+
+// ---------------------------------------------------------------------------
+// RFC 6962
+// ---------------------------------------------------------------------------
+
+describe('MerkleTree (rfc6962)', () => {
+    it('computes the reference roots', () => {
+        for (let size = 1; size <= CT_LEAVES.length; size++) {
+            const tree = new MerkleTree(SHA256, CT_LEAVES.slice(0, size));
+            expect(tree.size).toBe(size);
+            expect(toHex(tree.root())).toBe(CT_ROOTS[size - 1]);
+        }
+    });
+
+    it('hashes the empty tree as hash("")', () => {
+        expect(toHex(new MerkleTree(SHA256).root())).toBe(
+            'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855'
+        );
+    });
+
+    it('returns historical roots', () => {
+        const tree = new MerkleTree(SHA256, CT_LEAVES);
+        for (let size = 1; size <= CT_LEAVES.length; size++) {
+            expect(toHex(tree.root(size))).toBe(CT_ROOTS[size - 1]);
+        }
+    });
+
+    it('produces the reference inclusion proofs', () => {
+        const tree = new MerkleTree(SHA256, CT_LEAVES);
+        expect(tree.proof(0).path.map(toHex)).toEqual([
+            '96a296d224f285c67bee93c30f8a309157f0daa35dc5b87e410b78630a09cfc7',
+            '5f083f0a1a33ca076a95279832580db3e0ef4584bdff1f54c8a360f50de3031e',
+            '6b47aaf29ee3c2af9af889bc1fb9254dabd31177f16232dd6aab035ca39bf6e4'
+        ]);
+        expect(tree.proof(5).path.map(toHex)).toEqual([
+            'bc1a0643b12e4d2d7c77918f44e0f4f79a838b6cf9ec5b5c283e1f4d88599e6b',
+            'ca854ea128ed050b41b35ffc1b87b8eb2bde461e9e3b5596ece6b9d5975a0ae0',
+            'd37ee418976dd95753c1c73862b9398fa2a2cf9b4ff0fdfe8b30cd95209614b7'
+        ]);
+        const proof = tree.proof(2, 3);
+        expect(proof.index).toBe(2);
+        expect(proof.size).toBe(3);
+        expect(proof.path.map(toHex)).toEqual([CT_ROOTS[1]]);
+    });
+
+    it('produces the reference consistency proofs', () => {
+        const tree = new MerkleTree(SHA256, CT_LEAVES);
+        expect(tree.consistencyProof(1).path.map(toHex)).toEqual([
+            '96a296d224f285c67bee93c30f8a309157f0daa35dc5b87e410b78630a09cfc7',
+            '5f083f0a1a33ca076a95279832580db3e0ef4584bdff1f54c8a360f50de3031e',
+            '6b47aaf29ee3c2af9af889bc1fb9254dabd31177f16232dd6aab035ca39bf6e4'
+        ]);
+        expect(tree.consistencyProof(6, 8).path.map(toHex)).toEqual([
+            '0ebc5d3437fbe2db158b9f126a1d118e308181031d0a949f8dededebc558ef6a',
+            'ca854ea128ed050b41b35ffc1b87b8eb2bde461e9e3b5596ece6b9d5975a0ae0',
+            'd37ee418976dd95753c1c73862b9398fa2a2cf9b4ff0fdfe8b30cd95209614b7'
+        ]);
+        expect(tree.consistencyProof(2, 5).path.map(toHex)).toEqual([
+            '5f083f0a1a33ca076a95279832580db3e0ef4584bdff1f54c8a360f50de3031e',
+            'bc1a0643b12e4d2d7c77918f44e0f4f79a838b6cf9ec5b5c283e1f4d88599e6b'
+        ]);
+        expect(tree.consistencyProof(0).path).toEqual([]);
+        expect(tree.consistencyProof(8).path).toEqual([]);
+    });
+
+    it('fromLeafHashes() matches hashing the leaves', () => {
+        const hashes = CT_LEAVES.map((leaf) => hashLeaf(SHA256, leaf));
+        const tree = MerkleTree.fromLeafHashes(SHA256, hashes);
+        expect(toHex(tree.root())).toBe(CT_ROOTS[7]);
+        expect(toHex(tree.leafHash(3))).toBe(toHex(hashes[3] as Uint8Array));
+    });
+
+    it('append() returns the new leaf index', () => {
+        const tree = new MerkleTree(SHA256);
+        expect(tree.append('a')).toBe(0);
+        expect(tree.append(new TextEncoder().encode('b'))).toBe(1);
+        expect(toHex(tree.root())).toBe(toHex(new MerkleTree(SHA256, ['a', 'b']).root()));
+    });
+
+    it('works with any HashAlgorithm', () => {
+        const tree = new MerkleTree(BLAKE3, ['a', 'b', 'c']);
+        expect(tree.root()).toHaveLength(BLAKE3.digestLength);
+        expect(toHex(tree.leafHash(0))).toBe(toHex(BLAKE3.hash(new Uint8Array([0x00, 0x61]))));
+    });
+});
+
+// ---------------------------------------------------------------------------
+// Bitcoin
+// ---------------------------------------------------------------------------
+
+describe('MerkleTree (bitcoin)', () => {
+    it('computes the block 100000 Merkle root from its txids', () => {
+        const tree = MerkleTree.fromLeafHashes(SHA256, BLOCK_100000_TXIDS.map(internalOrder), {
+            convention: 'bitcoin'
+        });
+        expect(toHex(tree.root().reverse())).toBe(BLOCK_100000_ROOT);
+    });
+
+    it('hashes leaves with doubleHash and duplicates the last odd node', () => {
+        const tree = new MerkleTree(SHA256, ['a', 'b', 'c'], { convention: 'bitcoin' });
+        const a = SHA256.doubleHash('a');
+        const b = SHA256.doubleHash('b');
+        const c = SHA256.doubleHash('c');
+        const node = (left: Uint8Array, right: Uint8Array) => SHA256.doubleHash(new Uint8Array([...left, ...right]));
+        expect(toHex(tree.root())).toBe(toHex(node(node(a, b), node(c, c))));
+        expect(toHex(tree.root(1))).toBe(toHex(a));
+    });
+
+    it('omits duplicated siblings from proofs', () => {
+        const tree = new MerkleTree(SHA256, ['a', 'b', 'c'], { convention: 'bitcoin' });
+        expect(tree.proof(2).path).toHaveLength(1);
+        expect(tree.proof(0).path).toHaveLength(2);
+    });
+
+    it('has no root while empty', () => {
+        expect(() => new MerkleTree(SHA256, [], { convention: 'bitcoin' }).root()).toThrow(RangeError);
+    });
+
+    it('does not offer consistency proofs', () => {
+        const tree = new MerkleTree(SHA256, ['a', 'b'], { convention: 'bitcoin' });
+        expect(() => tree.consistencyProof(1)).toThrow('Consistency proofs require the rfc6962 convention');
+    });
+});
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+describe('MerkleTree validation', () => {
+    it('rejects out-of-range indices and sizes', () => {
+        const tree = new MerkleTree(SHA256, ['a', 'b', 'c']);
+        expect(() => tree.proof(3)).toThrow(RangeError);
+        expect(() => tree.proof(2, 2)).toThrow(RangeError);
+        expect(() => tree.proof(-1)).toThrow(RangeError);
+        expect(() => tree.root(4)).toThrow('Size must be an integer between 0 and 3');
+        expect(() => tree.leafHash(1.5)).toThrow(RangeError);
+        expect(() => tree.consistencyProof(3, 2)).toThrow(RangeError);
+    });
+
+    it('rejects leaf hashes of the wrong length', () => {
+        expect(() => MerkleTree.fromLeafHashes(SHA256, [new Uint8Array(31)])).toThrow('Leaf hash must be 32 bytes');
+    });
+
+    it('rejects unknown conventions', () => {
+        // @ts-expect-error -- runtime validation for JS callers
+        expect(() => new MerkleTree(SHA256, [], { convention: 'sparse' })).toThrow(
+            'Unsupported Merkle convention: sparse'
+        );
+    });
+});
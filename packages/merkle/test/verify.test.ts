@@ -0,0 +1,105 @@
+import { SHA256 } from '@hashbuf/sha256';
+import { describe, expect, it } from 'vitest';
+import { type MerkleConvention, MerkleTree, verifyConsistencyProof, verifyProof } from '../src/index';
+
+const LEAVES = Array.from({ length: 13 }, (_, i) => `leaf ${i}`);
+
+// ---------------------------------------------------------------------------
+// Inclusion proofs
+// ---------------------------------------------------------------------------
+
+describe('verifyProof', () => {
+    for (const convention of ['rfc6962', 'bitcoin'] as MerkleConvention[]) {
+        it(`accepts every proof of every tree size (${convention})`, () => {
+            const tree = new MerkleTree(SHA256, LEAVES, { convention });
+            for (let size = 1; size <= LEAVES.length; size++) {
+                const root = tree.root(size);
+                for (let index = 0; index < size; index++) {
+                    const proof = tree.proof(index, size);
+                    expect(verifyProof(SHA256, root, LEAVES[index] as string, proof, { convention })).toBe(true);
+                }
+            }
+        });
+
+        it(`rejects tampered proofs (${convention})`, () => {
+            const tree = new MerkleTree(SHA256, LEAVES, { convention });
+            const root = tree.root();
+            const proof = tree.proof(6);
+
+            expect(verifyProof(SHA256, root, 'leaf 7', proof, { convention })).toBe(false);
+            expect(verifyProof(SHA256, root, 'leaf 6', { ...proof, index: 7 }, { convention })).toBe(false);
+            expect(verifyProof(SHA256, root, 'leaf 6', { ...proof, size: 64 }, { convention })).toBe(false);
+            expect(verifyProof(SHA256, root, 'leaf 6', { ...proof, path: proof.path.slice(1) }, { convention })).toBe(
+                false
+            );
+            expect(verifyProof(SHA256, root, 'leaf 6', { ...proof, path: [...proof.path, root] }, { convention })).toBe(
+                false
+            );
+            expect(verifyProof(SHA256, tree.root(12), 'leaf 6', proof, { convention })).toBe(false);
+        });
+    }
+
+    it('accepts a prehashed leaf', () => {
+        const tree = new MerkleTree(SHA256, LEAVES, { convention: 'bitcoin' });
+        const proof = tree.proof(4);
+        expect(
+            verifyProof(SHA256, tree.root(), tree.leafHash(4), proof, { convention: 'bitcoin', prehashed: true })
+        ).toBe(true);
+    });
+
+    it('rejects the proof under the other convention', () => {
+        const tree = new MerkleTree(SHA256, LEAVES);
+        expect(verifyProof(SHA256, tree.root(), 'leaf 0', tree.proof(0), { convention: 'bitcoin' })).toBe(false);
+    });
+
+    it('rejects malformed indices and sizes', () => {
+        const tree = new MerkleTree(SHA256, LEAVES);
+        const proof = tree.proof(0);
+        expect(verifyProof(SHA256, tree.root(), 'leaf 0', { ...proof, index: -1 })).toBe(false);
+        expect(verifyProof(SHA256, tree.root(), 'leaf 0', { ...proof, size: 0 })).toBe(false);
+        expect(verifyProof(SHA256, tree.root(), 'leaf 0', { ...proof, index: 0.5 })).toBe(false);
+    });
+});
+
+// ---------------------------------------------------------------------------
+// Consistency proofs
+// ---------------------------------------------------------------------------
+
+describe('verifyConsistencyProof', () => {
+    it('accepts every proof between every pair of sizes', () => {
+        const tree = new MerkleTree(SHA256, LEAVES);
+        for (let newSize = 0; newSize <= LEAVES.length; newSize++) {
+            for (let oldSize = 0; oldSize <= newSize; oldSize++) {
+                const proof = tree.consistencyProof(oldSize, newSize);
+                expect(verifyConsistencyProof(SHA256, tree.root(oldSize), tree.root(newSize), proof)).toBe(true);
+            }
+        }
+    });
+
+    it('rejects mismatched roots and tampered proofs', () => {
+        const tree = new MerkleTree(SHA256, LEAVES);
+        const proof = tree.consistencyProof(5, 11);
+        const oldRoot = tree.root(5);
+        const newRoot = tree.root(11);
+
+        expect(verifyConsistencyProof(SHA256, tree.root(4), newRoot, proof)).toBe(false);
+        expect(verifyConsistencyProof(SHA256, oldRoot, tree.root(12), proof)).toBe(false);
+        expect(verifyConsistencyProof(SHA256, oldRoot, newRoot, { ...proof, oldSize: 4 })).toBe(false);
+        expect(verifyConsistencyProof(SHA256, oldRoot, newRoot, { ...proof, path: proof.path.slice(1) })).toBe(false);
+        expect(verifyConsistencyProof(SHA256, oldRoot, newRoot, { ...proof, path: [] })).toBe(false);
+    });
+
+    it('checks equal sizes by comparing roots', () => {
+        const tree = new MerkleTree(SHA256, LEAVES);
+        const proof = tree.consistencyProof(7, 7);
+        expect(verifyConsistencyProof(SHA256, tree.root(7), tree.root(7), proof)).toBe(true);
+        expect(verifyConsistencyProof(SHA256, tree.root(7), tree.root(8), proof)).toBe(false);
+    });
+
+    it('rejects a shrinking tree', () => {
+        const tree = new MerkleTree(SHA256, LEAVES);
+        expect(verifyConsistencyProof(SHA256, tree.root(5), tree.root(3), { oldSize: 5, newSize: 3, path: [] })).toBe(
+            false
+        );
+    });
+});
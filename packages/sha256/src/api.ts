@@ -0,0 +1,638 @@
+import type {
+    BufferedHasher,
+    DigestEncoding,
+    HashAlgorithm,
+    Hasher,
+    HashInput,
+    HashStreamSource,
+    WasmBackend
+} from '@hashbuf/types';
+import {
+    assertDigestEncoding,
+    assertNonNegativeInteger,
+    chunksOf,
+    hashChunks,
+    packInputs,
+    registerAlgorithm,
+    toBinary,
+    toBytes
+} from '@hashbuf/types';
+import {
+    double_sha256_hash,
+    double_sha256_hash_str,
+    sha256_base64,
+    sha256_base64_str,
+    sha256_base64url,
+    sha256_base64url_str,
+    sha256_hash,
+    sha256_hash_many,
+    sha256_hash_str,
+    sha256_hex,
+    sha256_hex_str,
+    sha256_hkdf,
+    sha256_hkdf_expand,
+    sha256_hkdf_extract,
+    sha256_hmac,
+    sha256_hmac_str,
+    sha256_pbkdf2,
+    timing_safe_equal,
+    timing_safe_equal_hex,
+    HmacSha256Hasher as WasmHmacSha256Hasher,
+    Sha256Hasher as WasmSha256Hasher,
+    wasm_backend,
+    wasm_memory
+} from './wasm-inline/hashbuf_sha256_bg.js';
+
+// ---------------------------------------------------------------------------
+// One-shot helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Compute SHA-256 hash of `data` in one shot. Strings are hashed as UTF-8.
+ * Returns a 32-byte `Uint8Array`.
+ */
+export function sha256(data: HashInput): Uint8Array {
+    return typeof data === 'string' ? sha256_hash_str(data) : sha256_hash(toBytes(data));
+}
+
+/**
+ * Compute SHA-256 hash of `data` in one shot, returning a hex string.
+ * More efficient than `sha256()` + manual hex conversion — hex encoding
+ * is performed in WASM, avoiding intermediate Uint8Array allocation.
+ */
+export function sha256Hex(data: HashInput): string {
+    return typeof data === 'string' ? sha256_hex_str(data) : sha256_hex(toBytes(data));
+}
+
+/**
+ * Compute SHA-256 hash of `data` in one shot, returning standard (padded)
+ * base64 — e.g. for HTTP headers. Encoding is performed in WASM.
+ */
+export function sha256Base64(data: HashInput): string {
+    return typeof data === 'string' ? sha256_base64_str(data) : sha256_base64(toBytes(data));
+}
+
+/**
+ * Compute SHA-256 hash of `data` in one shot, returning unpadded base64url
+ * — e.g. for URLs and JWT-like tokens. Encoding is performed in WASM.
+ */
+export function sha256Base64Url(data: HashInput): string {
+    return typeof data === 'string' ? sha256_base64url_str(data) : sha256_base64url(toBytes(data));
+}
+
+/**
+ * Compute double SHA-256 hash: `sha256(sha256(data))`.
+ * Returns a 32-byte `Uint8Array`.
+ */
+export function doubleSha256(data: HashInput): Uint8Array {
+    return typeof data === 'string' ? double_sha256_hash_str(data) : double_sha256_hash(toBytes(data));
+}
+
+/**
+ * Compute HMAC-SHA256.
+ * Returns a 32-byte `Uint8Array`.
+ */
+export function hmacSha256(key: Uint8Array, data: HashInput): Uint8Array {
+    return typeof data === 'string' ? sha256_hmac_str(key, data) : sha256_hmac(key, toBytes(data));
+}
+
+// ---------------------------------------------------------------------------
+// Key derivation
+// ---------------------------------------------------------------------------
+
+/** Largest HKDF-SHA256 output: 255 blocks of 32 bytes (RFC 5869). */
+const HKDF_MAX_LENGTH = 255 * 32;
+
+function assertHkdfLength(length: number): void {
+    assertNonNegativeInteger(length, 'Output length');
+    if (length > HKDF_MAX_LENGTH) {
+        throw new RangeError(`Output length must be at most ${HKDF_MAX_LENGTH} bytes for HKDF-SHA256`);
+    }
+}
+
+/**
+ * Derive `length` bytes with HKDF-SHA256 (RFC 5869), extract-then-expand.
+ * Strings are encoded as UTF-8. An empty `salt` is equivalent to the RFC's
+ * default of 32 zero bytes. `length` is at most 8160.
+ */
+export function hkdfSha256(ikm: HashInput, salt: HashInput, info: HashInput, length: number): Uint8Array {
+    assertHkdfLength(length);
+    return sha256_hkdf(toBinary(ikm), toBinary(salt), toBinary(info), length);
+}
+
+/**
+ * HKDF-SHA256 Extract step: derive a 32-byte pseudorandom key (PRK) from
+ * input keying material and a salt.
+ */
+export function hkdfExtract(salt: HashInput, ikm: HashInput): Uint8Array {
+    return sha256_hkdf_extract(toBinary(salt), toBinary(ikm));
+}
+
+/**
+ * HKDF-SHA256 Expand step: expand a pseudorandom key of at least 32 bytes
+ * (e.g. from `hkdfExtract()`) with `info` into `length` bytes (at most 8160).
+ */
+export function hkdfExpand(prk: Uint8Array, info: HashInput, length: number): Uint8Array {
+    assertHkdfLength(length);
+    if (prk.byteLength < 32) {
+        throw new RangeError('PRK must be at least 32 bytes');
+    }
+    return sha256_hkdf_expand(prk, toBinary(info), length);
+}
+
+/**
+ * Derive `length` bytes with PBKDF2-HMAC-SHA256 (RFC 8018). Strings are
+ * encoded as UTF-8. The whole iteration loop runs inside WASM, so this is
+ * synchronous and blocks for the duration of the derivation.
+ */
+export function pbkdf2Sha256(password: HashInput, salt: HashInput, iterations: number, length: number): Uint8Array {
+    if (!Number.isInteger(iterations) || iterations < 1 || iterations > 0xffff_ffff) {
+        throw new RangeError('Iterations must be a positive 32-bit integer');
+    }
+    assertNonNegativeInteger(length, 'Output length');
+    return sha256_pbkdf2(toBinary(password), toBinary(salt), iterations, length);
+}
+
+// ---------------------------------------------------------------------------
+// Constant-time comparison
+// ---------------------------------------------------------------------------
+
+/**
+ * Compare a computed digest with an expected one in constant time (in
+ * WASM), instead of `===` on hex strings, which leaks timing.
+ * `expected` may be raw bytes or a hex string (either case). Values of
+ * different lengths and malformed hex compare unequal.
+ *
+ * ```ts
+ * const ok = timingSafeEqual(hmacSha256(secret, body), signatureHex);
+ * ```
+ */
+export function timingSafeEqual(actual: Uint8Array, expected: Uint8Array | string): boolean {
+    return typeof expected === 'string' ? timing_safe_equal_hex(actual, expected) : timing_safe_equal(actual, expected);
+}
+
+/**
+ * Compute HMAC-SHA256 over `data` and compare it with `tag` (raw bytes or hex)
+ * in constant time.
+ */
+export function verifyHmacSha256(key: Uint8Array, data: HashInput, tag: Uint8Array | string): boolean {
+    return timingSafeEqual(hmacSha256(key, data), tag);
+}
+
+// ---------------------------------------------------------------------------
+// Batch hashing
+// ---------------------------------------------------------------------------
+
+/**
+ * Hash every input with SHA-256 in a single WASM call. Strings are hashed as
+ * UTF-8. Returns the 32-byte digests concatenated in input order.
+ */
+export function sha256Many(inputs: readonly HashInput[]): Uint8Array {
+    const [data, offsets] = packInputs(inputs);
+    return sha256_hash_many(data, offsets);
+}
+
+/**
+ * Hash inputs packed into one buffer with SHA-256 in a single WASM call:
+ * input `i` is `data.subarray(offsets[i], offsets[i + 1])`. Returns the
+ * 32-byte digests concatenated in input order.
+ */
+export function sha256ManyPacked(data: Uint8Array, offsets: Uint32Array): Uint8Array {
+    return sha256_hash_many(data, offsets);
+}
+
+// ---------------------------------------------------------------------------
+// Input buffers
+//
+// Each hasher owns a fixed buffer in WASM linear memory that callers can fill
+// in place and `commit()`, skipping the allocation and copy of `update()`.
+// Growing the memory detaches every view of it, so views are recreated on
+// access when the memory's `ArrayBuffer` has changed.
+// ---------------------------------------------------------------------------
+
+let memory: { readonly buffer: ArrayBuffer } | undefined;
+
+/** The module's linear memory, looked up on first use so the async entry can load it later. */
+function wasmMemory(): { readonly buffer: ArrayBuffer } {
+    if (memory === undefined) {
+        memory = wasm_memory() as { readonly buffer: ArrayBuffer };
+    }
+    return memory;
+}
+
+// ---------------------------------------------------------------------------
+// Streaming hasher
+// ---------------------------------------------------------------------------
+
+/**
+ * Streaming SHA-256 hasher backed by WASM.
+ *
+ * Usage:
+ * ```ts
+ * const hasher = new Sha256Hasher();
+ * hasher.update(chunk1);
+ * hasher.update(chunk2);
+ * const hash = hasher.finalize(); // 32 bytes
+ * hasher.free(); // release WASM memory
+ * ```
+ */
+export class Sha256Hasher implements BufferedHasher {
+    private inner: WasmSha256Hasher;
+    private freed = false;
+    private input: Uint8Array | undefined;
+
+    /** Create a new SHA-256 hasher. */
+    constructor() {
+        this.inner = new WasmSha256Hasher();
+    }
+
+    /**
+     * Restore a hasher from bytes produced by `exportState()`, e.g. to
+     * resume hashing after a process restart.
+     * Throws if the state is truncated, corrupted or of an unknown version.
+     */
+    static fromState(state: Uint8Array): Sha256Hasher {
+        return Sha256Hasher.fromInner(WasmSha256Hasher.fromState(state));
+    }
+
+    /** Wrap an existing WASM hasher without allocating a fresh one. */
+    private static fromInner(inner: WasmSha256Hasher): Sha256Hasher {
+        const hasher: Sha256Hasher = Object.create(Sha256Hasher.prototype);
+        hasher.inner = inner;
+        hasher.freed = false;
+        hasher.input = undefined;
+        return hasher;
+    }
+
+    /**
+     * The hasher's 1 MiB input buffer in WASM memory. Write input into it
+     * and call `commit(length)` to hash it without the copy `update()` makes:
+     *
+     * ```ts
+     * const { bytesRead } = await file.read(hasher.inputBuffer);
+     * hasher.commit(bytesRead);
+     * ```
+     *
+     * WASM memory growth (any allocation may cause it) detaches the view,
+     * leaving it empty, so read this property again rather than keeping it
+     * across other calls into the module.
+     */
+    get inputBuffer(): Uint8Array {
+        if (this.freed) {
+            throw new Error('Hasher has been freed');
+        }
+        const memory = wasmMemory();
+        if (this.input === undefined || this.input.buffer !== memory.buffer) {
+            // inputPtr() may allocate, and so grow the memory, before the view is taken
+            const ptr = this.inner.inputPtr();
+            this.input = new Uint8Array(memory.buffer, ptr, this.inner.inputCapacity());
+        }
+        return this.input;
+    }
+
+    /**
+     * Hash the first `length` bytes written into `inputBuffer`, as if they
+     * had been passed to `update()`.
+     * @returns `this` for chaining.
+     */
+    commit(length: number): this {
+        if (this.freed) {
+            throw new Error('Hasher has been freed');
+        }
+        assertNonNegativeInteger(length, 'Commit length');
+        this.inner.commit(length);
+        return this;
+    }
+
+    /**
+     * Feed data into the hasher. Can be called multiple times.
+     * Strings are hashed as UTF-8.
+     * @returns `this` for chaining.
+     */
+    update(data: HashInput): this {
+        if (this.freed) {
+            throw new Error('Hasher has been freed');
+        }
+        if (typeof data === 'string') {
+            this.inner.updateStr(data);
+        } else {
+            this.inner.update(toBytes(data));
+        }
+        return this;
+    }
+
+    /**
+     * Finalize and return the 32-byte hash.
+     * The hasher is NOT consumed — you can continue calling `update()`
+     * after `finalize()` and call `finalize()` again for an updated hash.
+     */
+    finalize(): Uint8Array {
+        if (this.freed) {
+            throw new Error('Hasher has been freed');
+        }
+        return this.inner.finalize();
+    }
+
+    /**
+     * Serialize the hasher state (midstate, buffered partial block and total
+     * length) so hashing can be resumed later with `Sha256Hasher.fromState()`.
+     * The hasher is NOT consumed.
+     *
+     * The result is a versioned binary format of at most 113 bytes:
+     *
+     * | Offset | Size | Field                                          |
+     * |--------|------|------------------------------------------------|
+     * | 0      | 4    | Magic `"HBS2"`                                 |
+     * | 4      | 1    | Format version (`1`)                           |
+     * | 5      | 8    | Total bytes absorbed (`u64`, big-endian)       |
+     * | 13     | 32   | Midstate (eight `u32`, big-endian)             |
+     * | 45     | 1    | Buffered byte count `n` (`0..63`)              |
+     * | 46     | n    | Buffered bytes                                 |
+     * | 46 + n | 4    | First 4 bytes of SHA-256 over bytes `0..46+n`  |
+     *
+     * The state contains unhashed input bytes; treat it as sensitive as the
+     * data itself.
+     */
+    exportState(): Uint8Array {
+        if (this.freed) {
+            throw new Error('Hasher has been freed');
+        }
+        return this.inner.exportState();
+    }
+
+    /**
+     * Duplicate the hasher, including any data absorbed so far.
+     * The clone owns its own WASM memory and must be freed separately.
+     */
+    clone(): this {
+        if (this.freed) {
+            throw new Error('Hasher has been freed');
+        }
+        return Sha256Hasher.fromInner(this.inner.fork()) as this;
+    }
+
+    /**
+     * Reset the hasher to its initial state.
+     * @returns `this` for chaining.
+     */
+    reset(): this {
+        if (this.freed) {
+            throw new Error('Hasher has been freed');
+        }
+        this.inner.reset();
+        return this;
+    }
+
+    /**
+     * Release the underlying WASM memory.
+     * The hasher must not be used after calling `free()`.
+     */
+    free(): void {
+        if (!this.freed) {
+            this.inner.free();
+            this.freed = true;
+        }
+    }
+
+    /**
+     * Consumptive finalize — returns the hash and releases WASM memory.
+     * The hasher must not be used after calling `digest()`.
+     *
+     * - `digest()` → `Uint8Array` (raw 32 bytes)
+     * - `digest('hex')` → `string` (64-char hex, fast path via WASM)
+     * - `digest('base64')` / `digest('base64url')` → `string` (encoded in WASM)
+     */
+    digest(): Uint8Array;
+    digest(encoding: DigestEncoding): string;
+    digest(encoding?: DigestEncoding): Uint8Array | string {
+        if (this.freed) {
+            throw new Error('Hasher has been freed');
+        }
+        assertDigestEncoding(encoding);
+        this.freed = true;
+        switch (encoding) {
+            case 'hex':
+                return this.inner.digestHex();
+            case 'base64':
+                return this.inner.digestBase64();
+            case 'base64url':
+                return this.inner.digestBase64Url();
+            default:
+                return this.inner.digest();
+        }
+    }
+
+    /**
+     * Consumptive verify — finalizes like `digest()` and compares the hash
+     * with `expected` (raw bytes or a hex string) in constant time.
+     * The hasher must not be used after calling `verify()`.
+     */
+    verify(expected: Uint8Array | string): boolean {
+        return timingSafeEqual(this.digest(), expected);
+    }
+
+    /**
+     * Support for TC39 Explicit Resource Management.
+     * Allows `using hasher = new Sha256Hasher()`.
+     */
+    [Symbol.dispose](): void {
+        this.free();
+    }
+}
+
+// ---------------------------------------------------------------------------
+// Streaming HMAC
+// ---------------------------------------------------------------------------
+
+/**
+ * Streaming HMAC-SHA256 backed by WASM.
+ *
+ * Usage:
+ * ```ts
+ * const mac = new HmacSha256Hasher(key);
+ * mac.update(chunk1);
+ * mac.update(chunk2);
+ * const tag = mac.digest('hex'); // auto-frees
+ * ```
+ */
+export class HmacSha256Hasher implements Hasher {
+    private inner: WasmHmacSha256Hasher;
+    private freed = false;
+
+    /**
+     * Create a new HMAC-SHA256 hasher.
+     * @param key HMAC key of any length.
+     */
+    constructor(key: Uint8Array) {
+        this.inner = new WasmHmacSha256Hasher(key);
+    }
+
+    /** Wrap an existing WASM hasher without allocating a fresh one. */
+    private static fromInner(inner: WasmHmacSha256Hasher): HmacSha256Hasher {
+        const hasher: HmacSha256Hasher = Object.create(HmacSha256Hasher.prototype);
+        hasher.inner = inner;
+        hasher.freed = false;
+        return hasher;
+    }
+
+    /**
+     * Feed data into the MAC. Can be called multiple times.
+     * Strings are hashed as UTF-8.
+     * @returns `this` for chaining.
+     */
+    update(data: HashInput): this {
+        if (this.freed) {
+            throw new Error('Hasher has been freed');
+        }
+        if (typeof data === 'string') {
+            this.inner.updateStr(data);
+        } else {
+            this.inner.update(toBytes(data));
+        }
+        return this;
+    }
+
+    /**
+     * Finalize and return the 32-byte tag.
+     * The hasher is NOT consumed — you can continue calling `update()`
+     * after `finalize()` and call `finalize()` again for an updated tag.
+     */
+    finalize(): Uint8Array {
+        if (this.freed) {
+            throw new Error('Hasher has been freed');
+        }
+        return this.inner.finalize();
+    }
+
+    /**
+     * Duplicate the hasher, including the key and any data absorbed so far.
+     * The clone owns its own WASM memory and must be freed separately.
+     */
+    clone(): this {
+        if (this.freed) {
+            throw new Error('Hasher has been freed');
+        }
+        return HmacSha256Hasher.fromInner(this.inner.fork()) as this;
+    }
+
+    /**
+     * Reset the hasher to its initial state. The key is preserved.
+     * @returns `this` for chaining.
+     */
+    reset(): this {
+        if (this.freed) {
+            throw new Error('Hasher has been freed');
+        }
+        this.inner.reset();
+        return this;
+    }
+
+    /**
+     * Release the underlying WASM memory.
+     * The hasher must not be used after calling `free()`.
+     */
+    free(): void {
+        if (!this.freed) {
+            this.inner.free();
+            this.freed = true;
+        }
+    }
+
+    /**
+     * Consumptive finalize — returns the tag and releases WASM memory.
+     * The hasher must not be used after calling `digest()`.
+     *
+     * - `digest()` → `Uint8Array` (raw 32 bytes)
+     * - `digest('hex')` → `string` (64-char hex, fast path via WASM)
+     * - `digest('base64')` / `digest('base64url')` → `string` (encoded in WASM)
+     */
+    digest(): Uint8Array;
+    digest(encoding: DigestEncoding): string;
+    digest(encoding?: DigestEncoding): Uint8Array | string {
+        if (this.freed) {
+            throw new Error('Hasher has been freed');
+        }
+        assertDigestEncoding(encoding);
+        this.freed = true;
+        switch (encoding) {
+            case 'hex':
+                return this.inner.digestHex();
+            case 'base64':
+                return this.inner.digestBase64();
+            case 'base64url':
+                return this.inner.digestBase64Url();
+            default:
+                return this.inner.digest();
+        }
+    }
+
+    /**
+     * Consumptive verify — finalizes like `digest()` and compares the tag
+     * with `expected` (raw bytes or a hex string) in constant time.
+     * The hasher must not be used after calling `verify()`.
+     */
+    verify(expected: Uint8Array | string): boolean {
+        return timingSafeEqual(this.digest(), expected);
+    }
+
+    /**
+     * Support for TC39 Explicit Resource Management.
+     * Allows `using mac = new HmacSha256Hasher(key)`.
+     */
+    [Symbol.dispose](): void {
+        this.free();
+    }
+}
+
+// ---------------------------------------------------------------------------
+// Streaming helper for async iterables
+// ---------------------------------------------------------------------------
+
+/**
+ * Hash an async iterable of chunks, a `ReadableStream` or a `Blob` / `File`
+ * using SHA-256 streaming.
+ */
+export async function sha256Stream(source: HashStreamSource): Promise<Uint8Array> {
+    return hashChunks(new Sha256Hasher(), source);
+}
+
+/**
+ * Compute HMAC-SHA256 over an async iterable of chunks, a `ReadableStream`
+ * or a `Blob` / `File`.
+ */
+export async function hmacSha256Stream(key: Uint8Array, source: HashStreamSource): Promise<Uint8Array> {
+    const hasher = new HmacSha256Hasher(key);
+    try {
+        for await (const chunk of chunksOf(source)) {
+            hasher.update(chunk);
+        }
+        return hasher.finalize();
+    } finally {
+        hasher.free();
+    }
+}
+
+// ---------------------------------------------------------------------------
+// HashAlgorithm implementation
+// ---------------------------------------------------------------------------
+
+/**
+ * SHA-256 as a `HashAlgorithm` — unified interface for all hashbuf algorithms.
+ */
+export const SHA256: HashAlgorithm = {
+    name: 'sha256',
+    digestLength: 32,
+    hash: sha256,
+    doubleHash: doubleSha256,
+    hashMany: sha256Many,
+    hashManyPacked: sha256ManyPacked,
+    createHasher: () => new Sha256Hasher(),
+    createHmac: (key) => new HmacSha256Hasher(key),
+    stream: sha256Stream,
+    get backend(): WasmBackend {
+        return wasm_backend() as WasmBackend;
+    }
+} as const;
+
+// Make the algorithms available by name through `getAlgorithm()`
+registerAlgorithm(SHA256, ['sha-256', 'sha2-256']);
@@ -0,0 +1,103 @@
+import { setInstance } from './instance.js';
+import { simdSupported } from './simd.js';
+import * as glue from './wasm-inline/hashbuf_sha256_bg.js';
+
+export * from './api.js';
+
+// ---------------------------------------------------------------------------
+// Asynchronous WASM loading
+//
+// The same API as `@hashbuf/sha256`, but the WASM binary ships as a separate
+// `.wasm` asset instead of inlined base64, and `init()` compiles it with
+// `WebAssembly.instantiateStreaming`. Bundles stay a third smaller, loading
+// does not block the main thread, and no synchronous compilation is needed,
+// which some CSPs and browser size limits forbid. Both entries share the
+// JS glue, so a program can load only one of them: `init()` rejects if the
+// main entry was imported too.
+// ---------------------------------------------------------------------------
+
+/** The WASM binary, or a `Response` or `URL` to load it from. */
+export type WasmSource = URL | Response | ArrayBuffer | ArrayBufferView;
+
+// The parts of the `WebAssembly` global used here, which the ES lib does not declare
+interface WasmInstance {
+    exports: Record<string, unknown>;
+}
+
+interface WasmApi {
+    instantiate(binary: ArrayBuffer | ArrayBufferView, imports: object): Promise<{ instance: WasmInstance }>;
+    instantiateStreaming(response: Response, imports: object): Promise<{ instance: WasmInstance }>;
+}
+
+interface NodeFileSystem {
+    readFile(path: URL): Promise<Uint8Array>;
+}
+
+interface NodeProcess {
+    getBuiltinModule?(id: string): NodeFileSystem;
+}
+
+/** The `.wasm` assets shipped next to this module: the baseline and the WASM SIMD build. */
+const BASELINE_SOURCE = new URL('./wasm-inline/hashbuf_sha256_bg.wasm', import.meta.url);
+const SIMD_SOURCE = new URL('./wasm-inline/hashbuf_sha256_simd_bg.wasm', import.meta.url);
+
+let ready: Promise<void> | undefined;
+
+/** Imported through a variable, so bundlers for browsers leave the import alone. */
+const FS_MODULE = 'node:fs/promises';
+
+/** Fetch `url`, reading `file:` URLs from disk where `fetch()` cannot (Node.js). */
+async function load(url: URL): Promise<Response | Uint8Array> {
+    const { process } = globalThis as { process?: NodeProcess };
+    if (url.protocol !== 'file:' || process === undefined) {
+        return fetch(url);
+    }
+    // `getBuiltinModule()` needs Node.js 20.16 or 22.3; older versions import the module
+    const fs =
+        process.getBuiltinModule?.(FS_MODULE) ?? ((await import(/* @vite-ignore */ FS_MODULE)) as NodeFileSystem);
+    return fs.readFile(url);
+}
+
+async function instantiate(source: WasmSource): Promise<void> {
+    const imports = { './hashbuf_sha256_bg.js': glue };
+    const binary = source instanceof URL ? await load(source) : source;
+    const { WebAssembly } = globalThis as unknown as { WebAssembly: WasmApi };
+    let instance: WasmInstance;
+    if (binary instanceof Response) {
+        if (!binary.ok) {
+            throw new Error(`Failed to load WASM from ${binary.url}: ${binary.status} ${binary.statusText}`);
+        }
+        // Streaming compilation requires the `application/wasm` content type
+        instance = binary.headers.get('Content-Type')?.startsWith('application/wasm')
+            ? (await WebAssembly.instantiateStreaming(binary, imports)).instance
+            : (await WebAssembly.instantiate(await binary.arrayBuffer(), imports)).instance;
+    } else {
+        instance = (await WebAssembly.instantiate(binary, imports)).instance;
+    }
+    setInstance(instance.exports, '@hashbuf/sha256/async');
+}
+
+/**
+ * Load and instantiate the WASM module. Await it once before calling
+ * anything else from this entry; later calls return the same promise and
+ * ignore `source`, while a failed load can be retried.
+ *
+ * ```ts
+ * import { init, sha256Hex } from '@hashbuf/sha256/async';
+ *
+ * await init();
+ * sha256Hex('hello');
+ * ```
+ *
+ * @param source Defaults to the `.wasm` file shipped with the package: the
+ *   SIMD build where the runtime supports WASM SIMD, the baseline build
+ *   otherwise. They are also exported as `@hashbuf/sha256/wasm-simd` and
+ *   `@hashbuf/sha256/wasm` for bundlers and servers that need their URLs.
+ */
+export function init(source: WasmSource = simdSupported() ? SIMD_SOURCE : BASELINE_SOURCE): Promise<void> {
+    ready ??= instantiate(source).catch((error: unknown) => {
+        ready = undefined;
+        throw error;
+    });
+    return ready;
+}
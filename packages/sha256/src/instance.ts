@@ -0,0 +1,25 @@
+import { __wbg_set_wasm } from './wasm-inline/hashbuf_sha256_bg.js';
+
+// ---------------------------------------------------------------------------
+// The WASM instance behind the JS glue
+//
+// `@hashbuf/sha256` and `@hashbuf/sha256/async` share the glue, so there is
+// one instance per program. A second one would replace the first, and every
+// hasher created before would then point into the wrong memory.
+// ---------------------------------------------------------------------------
+
+let owner: string | undefined;
+
+/**
+ * Hand the exports of an instantiated WASM module to the glue, on behalf of
+ * the entry point `entry`.
+ * @throws If an entry point has already set an instance.
+ */
+export function setInstance(exports: Record<string, unknown>, entry: string): void {
+    if (owner !== undefined) {
+        throw new Error(`Cannot load ${entry}: ${owner} has already loaded the WASM module; import only one of them`);
+    }
+    owner = entry;
+    __wbg_set_wasm(exports);
+    (exports.__wbindgen_start as (() => void) | undefined)?.();
+}
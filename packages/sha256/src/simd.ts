@@ -0,0 +1,19 @@
+// ---------------------------------------------------------------------------
+// WASM SIMD detection
+// ---------------------------------------------------------------------------
+
+/**
+ * A module with one function using a SIMD instruction
+ * (`i32.const 0; i8x16.splat; i8x16.popcnt`), which only validates where
+ * the runtime supports WASM SIMD (`simd128`).
+ */
+export const SIMD_PROBE = [
+    0x00, 0x61, 0x73, 0x6d, 0x01, 0x00, 0x00, 0x00, 0x01, 0x05, 0x01, 0x60, 0x00, 0x01, 0x7b, 0x03, 0x02, 0x01, 0x00,
+    0x0a, 0x0a, 0x01, 0x08, 0x00, 0x41, 0x00, 0xfd, 0x0f, 0xfd, 0x62, 0x0b
+] as const;
+
+/** Whether this runtime can run the `simd128` build of the WASM module. */
+export function simdSupported(): boolean {
+    const { WebAssembly } = globalThis as unknown as { WebAssembly: { validate(binary: Uint8Array): boolean } };
+    return WebAssembly.validate(new Uint8Array(SIMD_PROBE));
+}
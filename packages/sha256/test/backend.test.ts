@@ -0,0 +1,78 @@
+import { describe, expect, it, vi } from 'vitest';
+
+type Entry = typeof import('../src/index');
+
+const { WebAssembly } = globalThis as unknown as { WebAssembly: { validate(binary: Uint8Array): boolean } };
+
+/**
+ * Import a fresh copy of `entry` with the SIMD feature probe answering `simd`,
+ * to force the SIMD or the baseline build.
+ */
+async function load(simd: boolean, entry: 'index' | 'async' = 'index'): Promise<Entry> {
+    vi.resetModules();
+    const validate = vi.spyOn(WebAssembly, 'validate').mockReturnValue(simd);
+    try {
+        if (entry === 'index') {
+            return await import('../src/index');
+        }
+        const async = await import('../src/async');
+        const ready = async.init();
+        validate.mockRestore();
+        await ready;
+        return async;
+    } finally {
+        validate.mockRestore();
+    }
+}
+
+/** Inputs around SHA-256's 64-byte blocks and where padding spills into another block. */
+const LENGTHS = [0, 1, 55, 56, 63, 64, 65, 119, 120, 127, 128, 4097, 65536, 65537, 300_000];
+
+function inputOf(length: number): Uint8Array {
+    return Uint8Array.from({ length }, (_, i) => (i * 251) % 256);
+}
+
+/** Longer than a block, so HMAC hashes the key first. */
+const KEY = inputOf(100).reverse();
+
+/** The result of every SHA-256 mode on `data`. */
+function resultsOf(
+    { sha256, doubleSha256, hmacSha256, hkdfSha256, pbkdf2Sha256, Sha256Hasher }: Entry,
+    data: Uint8Array
+) {
+    return {
+        hash: sha256(data),
+        double: doubleSha256(data),
+        hmac: hmacSha256(KEY, data),
+        hkdf: hkdfSha256(data, KEY, 'info', 100),
+        pbkdf2: pbkdf2Sha256(data, KEY, 2, 40),
+        streamed: new Sha256Hasher().update(data.subarray(0, 63)).update(data.subarray(63)).finalize()
+    };
+}
+
+// ---------------------------------------------------------------------------
+// WASM backends
+// ---------------------------------------------------------------------------
+
+describe('WASM backends', () => {
+    it.each(['index', 'async'] as const)('loads the SIMD build where the probe validates (%s)', async (entry) => {
+        const { SHA256 } = await load(true, entry);
+        expect(SHA256.backend).toBe('simd128');
+    });
+
+    it.each(['index', 'async'] as const)('falls back to the baseline build (%s)', async (entry) => {
+        const { SHA256 } = await load(false, entry);
+        expect(SHA256.backend).toBe('baseline');
+    });
+
+    it('gives identical results in every mode on both backends', async () => {
+        const simd = await load(true);
+        const baseline = await load(false);
+        for (const length of LENGTHS) {
+            const data = inputOf(length);
+            expect(resultsOf(simd, data)).toEqual(resultsOf(baseline, data));
+        }
+        const inputs = LENGTHS.map(inputOf);
+        expect(simd.SHA256.hashMany(inputs)).toEqual(baseline.SHA256.hashMany(inputs));
+    });
+});
@@ -1,5 +1,26 @@
+import { getAlgorithm } from '@hashbuf/types';
 import { describe, expect, it } from 'vitest';
-import { doubleSha256, hmacSha256, SHA256, Sha256Hasher, sha256, sha256Hex, sha256Stream } from '../src/index.js';
+import {
+    doubleSha256,
+    HmacSha256Hasher,
+    hkdfExpand,
+    hkdfExtract,
+    hkdfSha256,
+    hmacSha256,
+    hmacSha256Stream,
+    pbkdf2Sha256,
+    SHA256,
+    Sha256Hasher,
+    sha256,
+    sha256Base64,
+    sha256Base64Url,
+    sha256Hex,
+    sha256Many,
+    sha256ManyPacked,
+    sha256Stream,
+    timingSafeEqual,
+    verifyHmacSha256
+} from '../src/index.js';
 
 // Helper to convert Uint8Array to hex string
 function toHex(buf: Uint8Array): string {
@@ -56,6 +77,82 @@ describe('sha256Hex one-shot', () => {
     });
 });
 
+describe('input types', () => {
+    const ABC_HEX = 'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad';
+
+    it('hashes strings as UTF-8', () => {
+        expect(toHex(sha256('abc'))).toBe(ABC_HEX);
+        expect(sha256Hex('abc')).toBe(ABC_HEX);
+        const text = 'héllo wörld 🌍';
+        expect(toHex(sha256(text))).toBe(toHex(sha256(new TextEncoder().encode(text))));
+        expect(toHex(doubleSha256('abc'))).toBe('4f8b42c22dd3729b519ba6f68d2da7cc5b2d606d05daed5ad5128cc03e6c6358');
+    });
+
+    it('hashes ArrayBuffer and ArrayBufferView inputs', () => {
+        const bytes = new TextEncoder().encode('xabcx');
+        expect(toHex(sha256(bytes.slice(1, 4).buffer))).toBe(ABC_HEX);
+        expect(toHex(sha256(new DataView(bytes.buffer, 1, 3)))).toBe(ABC_HEX);
+        expect(sha256Hex(bytes.subarray(1, 4))).toBe(ABC_HEX);
+    });
+
+    it('accepts strings in hmacSha256 and streaming hashers', () => {
+        const key = new TextEncoder().encode('Jefe');
+        expect(toHex(hmacSha256(key, 'what do ya want for nothing?'))).toBe(
+            '5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843'
+        );
+
+        const mac = new HmacSha256Hasher(key);
+        mac.update('what do ya ').update(new TextEncoder().encode('want for nothing?').buffer);
+        expect(mac.digest('hex')).toBe('5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843');
+
+        const hasher = new Sha256Hasher();
+        hasher.update('a').update(new DataView(new TextEncoder().encode('bc').buffer));
+        expect(hasher.digest('hex')).toBe(ABC_HEX);
+    });
+});
+
+describe('sha256Base64 / sha256Base64Url one-shot', () => {
+    it('returns padded base64', () => {
+        expect(sha256Base64(new TextEncoder().encode('abc'))).toBe('ungWv48Bz+pBQUDeXa4iI7ADYaOWF3qctBD/YfIAFa0=');
+        expect(sha256Base64('abc')).toBe('ungWv48Bz+pBQUDeXa4iI7ADYaOWF3qctBD/YfIAFa0=');
+    });
+
+    it('returns unpadded base64url', () => {
+        expect(sha256Base64Url(new TextEncoder().encode('abc'))).toBe('ungWv48Bz-pBQUDeXa4iI7ADYaOWF3qctBD_YfIAFa0');
+        expect(sha256Base64Url('abc')).toBe('ungWv48Bz-pBQUDeXa4iI7ADYaOWF3qctBD_YfIAFa0');
+    });
+});
+
+// ---------------------------------------------------------------------------
+// Batch hashing
+// ---------------------------------------------------------------------------
+
+describe('sha256Many', () => {
+    const inputs = ['', 'abc', new TextEncoder().encode('hello world')];
+
+    it('matches sha256() for every input', () => {
+        const out = sha256Many(inputs);
+        expect(out).toHaveLength(96);
+        inputs.forEach((input, i) => {
+            expect(toHex(out.subarray(i * 32, (i + 1) * 32))).toBe(toHex(sha256(input)));
+        });
+    });
+
+    it('sha256ManyPacked hashes pre-packed inputs', () => {
+        const data = new TextEncoder().encode('abchello world');
+        const offsets = new Uint32Array([0, 0, 3, 14]);
+        expect(toHex(sha256ManyPacked(data, offsets))).toBe(toHex(sha256Many(inputs)));
+    });
+
+    it('handles an empty batch', () => {
+        expect(sha256Many([])).toHaveLength(0);
+    });
+
+    it('rejects out-of-range offsets', () => {
+        expect(() => sha256ManyPacked(new Uint8Array(4), new Uint32Array([0, 5]))).toThrow('Invalid offsets');
+    });
+});
+
 // ---------------------------------------------------------------------------
 // Double SHA-256
 // ---------------------------------------------------------------------------
@@ -94,6 +191,199 @@ describe('hmacSha256', () => {
     });
 });
 
+describe('HmacSha256Hasher streaming', () => {
+    it('matches hmacSha256 across chunks', () => {
+        const key = new TextEncoder().encode('Jefe');
+        const hasher = new HmacSha256Hasher(key);
+        hasher.update(new TextEncoder().encode('what do ya ')).update(new TextEncoder().encode('want for nothing?'));
+        const tag = hasher.finalize();
+        hasher.free();
+        expect(toHex(tag)).toBe('5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843');
+    });
+
+    it('RFC 4231 Test Case 6 (key larger than block size)', () => {
+        const key = new Uint8Array(131).fill(0xaa);
+        const hasher = new HmacSha256Hasher(key);
+        hasher.update(new TextEncoder().encode('Test Using Larger Than Block-Size Key - Hash Key First'));
+        expect(hasher.digest('hex')).toBe('60e431591ee0b67f0d8a26aacbf5b77f8e0bc6213728c5140546040f0ee37f54');
+    });
+
+    it('finalize does not consume state', () => {
+        const hasher = new HmacSha256Hasher(new TextEncoder().encode('key'));
+        hasher.update(new TextEncoder().encode('abc'));
+        const t1 = hasher.finalize();
+        const t2 = hasher.finalize();
+        hasher.free();
+        expect(toHex(t1)).toBe(toHex(t2));
+    });
+
+    it('reset preserves the key', () => {
+        const key = fromHex('0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b');
+        const hasher = new HmacSha256Hasher(key);
+        hasher.update(new TextEncoder().encode('garbage'));
+        hasher.reset().update(new TextEncoder().encode('Hi There'));
+        expect(toHex(hasher.digest())).toBe('b0344c61d8db38535ca8afceaf0bf12b881dc200c9833da726e9376c2e32cff7');
+    });
+
+    it('clone() forks from a shared prefix', () => {
+        const key = new TextEncoder().encode('Jefe');
+        const parent = new HmacSha256Hasher(key);
+        parent.update(new TextEncoder().encode('what do ya '));
+        const child = parent.clone();
+        parent.update(new TextEncoder().encode('garbage'));
+        child.update(new TextEncoder().encode('want for nothing?'));
+
+        expect(child.digest('hex')).toBe('5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843');
+        expect(toHex(parent.digest())).toBe(toHex(hmacSha256(key, new TextEncoder().encode('what do ya garbage'))));
+    });
+
+    it('throws after free', () => {
+        const hasher = new HmacSha256Hasher(new Uint8Array(32));
+        hasher.free();
+        hasher.free(); // idempotent
+        expect(() => hasher.update(new Uint8Array(1))).toThrow('Hasher has been freed');
+        expect(() => hasher.digest()).toThrow('Hasher has been freed');
+    });
+});
+
+describe('hmacSha256Stream', () => {
+    it('matches hmacSha256()', async () => {
+        const key = new TextEncoder().encode('Jefe');
+        async function* gen() {
+            yield new TextEncoder().encode('what do ya want ');
+            yield new TextEncoder().encode('for nothing?');
+        }
+        const tag = await hmacSha256Stream(key, gen());
+        expect(toHex(tag)).toBe(toHex(hmacSha256(key, new TextEncoder().encode('what do ya want for nothing?'))));
+    });
+});
+
+// ---------------------------------------------------------------------------
+// Constant-time comparison
+// ---------------------------------------------------------------------------
+
+describe('constant-time verification', () => {
+    const key = new TextEncoder().encode('Jefe');
+    const data = 'what do ya want for nothing?';
+    const tag = '5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843';
+
+    it('timingSafeEqual compares bytes and hex', () => {
+        const mac = fromHex(tag);
+        expect(timingSafeEqual(mac, fromHex(tag))).toBe(true);
+        expect(timingSafeEqual(mac, tag)).toBe(true);
+        expect(timingSafeEqual(mac, tag.toUpperCase())).toBe(true);
+        expect(timingSafeEqual(mac, `${tag.slice(0, -1)}4`)).toBe(false);
+        expect(timingSafeEqual(mac, tag.slice(0, -2))).toBe(false);
+        expect(timingSafeEqual(mac, mac.subarray(1))).toBe(false);
+        expect(timingSafeEqual(mac, `${tag.slice(0, -2)}zz`)).toBe(false);
+        expect(timingSafeEqual(new Uint8Array(0), '')).toBe(true);
+    });
+
+    it('verifyHmacSha256 accepts tags as bytes or hex', () => {
+        expect(verifyHmacSha256(key, data, tag)).toBe(true);
+        expect(verifyHmacSha256(key, new TextEncoder().encode(data), fromHex(tag))).toBe(true);
+        expect(verifyHmacSha256(key, `${data}!`, tag)).toBe(false);
+        expect(verifyHmacSha256(new TextEncoder().encode('jefe'), data, tag)).toBe(false);
+    });
+
+    it('Hasher.verify() finalizes and frees the hasher', () => {
+        const mac = new HmacSha256Hasher(key).update(data);
+        expect(mac.verify(tag)).toBe(true);
+        expect(() => mac.update('more')).toThrow('Hasher has been freed');
+        expect(() => mac.verify(tag)).toThrow('Hasher has been freed');
+        expect(new HmacSha256Hasher(key).update('other').verify(tag)).toBe(false);
+        expect(new Sha256Hasher().update('abc').verify(sha256('abc'))).toBe(true);
+        expect(new Sha256Hasher().update('abc').verify(sha256Hex('abd'))).toBe(false);
+    });
+});
+
+// ---------------------------------------------------------------------------
+// Key derivation
+// ---------------------------------------------------------------------------
+
+describe('hkdfSha256 (RFC 5869)', () => {
+    it('test case 1: basic', () => {
+        const ikm = new Uint8Array(22).fill(0x0b);
+        const salt = fromHex('000102030405060708090a0b0c');
+        const info = fromHex('f0f1f2f3f4f5f6f7f8f9');
+        const prk = hkdfExtract(salt, ikm);
+        expect(toHex(prk)).toBe('077709362c2e32df0ddc3f0dc47bba6390b6c73bb50f9c3122ec844ad7c2b3e5');
+
+        const okm = '3cb25f25faacd57a90434f64d0362f2a2d2d0a90cf1a5a4c5db02d56ecc4c5bf34007208d5b887185865';
+        expect(toHex(hkdfExpand(prk, info, 42))).toBe(okm);
+        expect(toHex(hkdfSha256(ikm, salt, info, 42))).toBe(okm);
+    });
+
+    it('test case 2: longer inputs and outputs', () => {
+        const range = (from: number, to: number) => new Uint8Array(to - from).map((_, i) => from + i);
+        const okm = hkdfSha256(range(0x00, 0x50), range(0x60, 0xb0), range(0xb0, 0x100), 82);
+        expect(toHex(okm)).toBe(
+            'b11e398dc80327a1c8e7f78c596a49344f012eda2d4efad8a050cc4c19afa97c59045a99cac7827271cb41c65e590e09da3275600c2f09b8367793a9aca3db71cc30c58179ec3e87c14c01d5c1f3434f1d87'
+        );
+    });
+
+    it('test case 3: empty salt and info', () => {
+        const ikm = new Uint8Array(22).fill(0x0b);
+        expect(toHex(hkdfExtract(new Uint8Array(0), ikm))).toBe(
+            '19ef24a32c717b167f33a91d6f648bdf96596776afdb6377ac434c1c293ccb04'
+        );
+        expect(toHex(hkdfSha256(ikm, '', '', 42))).toBe(
+            '8da4e775a563c18f715f802a063c5a31b8a11f5c5ee1879ec3454e5f3c738d2d9d201395faa4b61a96c8'
+        );
+    });
+
+    it('encodes string inputs as UTF-8', () => {
+        const encode = (s: string) => new TextEncoder().encode(s);
+        expect(toHex(hkdfSha256('key', 'salt', 'info', 16))).toBe('9ca0d662557439e3b83365f2da4626d3');
+        expect(hkdfSha256('key', 'salt', 'info', 16)).toEqual(
+            hkdfSha256(encode('key'), encode('salt'), encode('info'), 16)
+        );
+    });
+
+    it('rejects invalid lengths and short PRKs', () => {
+        expect(hkdfSha256('key', '', '', 8160)).toHaveLength(8160);
+        expect(() => hkdfSha256('key', '', '', 8161)).toThrow(RangeError);
+        expect(() => hkdfSha256('key', '', '', -1)).toThrow('Output length must be a non-negative integer');
+        expect(() => hkdfExpand(new Uint8Array(32), '', 8161)).toThrow(RangeError);
+        expect(() => hkdfExpand(new Uint8Array(16), '', 32)).toThrow('PRK must be at least 32 bytes');
+    });
+});
+
+describe('pbkdf2Sha256', () => {
+    it('RFC 7914 test vector', () => {
+        expect(toHex(pbkdf2Sha256('passwd', 'salt', 1, 64))).toBe(
+            '55ac046e56e3089fec1691c22544b605f94185216dde0465e68b9d57c20dacbc49ca9cccf179b645991664b39d77ef317c71b845b1e30bd509112041d3a19783'
+        );
+    });
+
+    it('RFC 6070 inputs with SHA-256', () => {
+        const cases = [
+            { iterations: 1, expected: '120fb6cffcf8b32c43e7225256c4f837a86548c92ccc35480805987cb70be17b' },
+            { iterations: 2, expected: 'ae4d0c95af6b46d32d0adff928f06dd02a303f8ef3c251dfd6e2d85a95474c43' },
+            { iterations: 4096, expected: 'c5e478d59288c841aa530db6845c4c8d962893a001ce4e11a4963873aa98134a' }
+        ];
+        for (const { iterations, expected } of cases) {
+            expect(toHex(pbkdf2Sha256('password', 'salt', iterations, 32))).toBe(expected);
+        }
+        expect(toHex(pbkdf2Sha256('passwordPASSWORDpassword', 'saltSALTsaltSALTsaltSALTsaltSALTsalt', 4096, 40))).toBe(
+            '348c89dbcbd32b2f32d814b8116e84cf2b17347ebc1800181c4e2a1fb8dd53e1c635518c7dac47e9'
+        );
+    });
+
+    it('accepts binary inputs', () => {
+        const password = new TextEncoder().encode('password');
+        expect(toHex(pbkdf2Sha256(password, new TextEncoder().encode('salt').buffer, 1, 32))).toBe(
+            '120fb6cffcf8b32c43e7225256c4f837a86548c92ccc35480805987cb70be17b'
+        );
+    });
+
+    it('rejects invalid iterations and lengths', () => {
+        expect(() => pbkdf2Sha256('password', 'salt', 0, 32)).toThrow('Iterations must be a positive 32-bit integer');
+        expect(() => pbkdf2Sha256('password', 'salt', 1.5, 32)).toThrow(RangeError);
+        expect(() => pbkdf2Sha256('password', 'salt', 1, -1)).toThrow(RangeError);
+    });
+});
+
 // ---------------------------------------------------------------------------
 // Streaming hasher
 // ---------------------------------------------------------------------------
@@ -145,6 +435,82 @@ describe('Sha256Hasher streaming', () => {
         expect(toHex(result)).toBe(toHex(sha256(new TextEncoder().encode('ab'))));
     });
 
+    it('clone() forks independent hashers from a shared prefix', () => {
+        const parent = new Sha256Hasher();
+        parent.update(new TextEncoder().encode('hello'));
+        const child = parent.clone();
+        child.update(new TextEncoder().encode(' world'));
+        parent.update(new TextEncoder().encode(' there'));
+
+        expect(toHex(child.digest())).toBe(toHex(sha256(new TextEncoder().encode('hello world'))));
+        expect(toHex(parent.digest())).toBe(toHex(sha256(new TextEncoder().encode('hello there'))));
+    });
+
+    it('clone() outlives its parent', () => {
+        const parent = new Sha256Hasher();
+        parent.update(new TextEncoder().encode('ab'));
+        const child = parent.clone();
+        parent.free();
+        child.update(new TextEncoder().encode('c'));
+        expect(child.digest('hex')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+        expect(() => parent.clone()).toThrow('Hasher has been freed');
+    });
+
+    it('exportState() / fromState() resumes hashing', () => {
+        const data = new TextEncoder().encode('abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq');
+        const hasher = new Sha256Hasher();
+        hasher.update(data.subarray(0, 30));
+        const state = hasher.exportState();
+        hasher.free();
+
+        expect(state.length).toBe(46 + 30 + 4);
+        expect(Array.from(state.subarray(0, 5))).toEqual([0x48, 0x42, 0x53, 0x32, 0x01]);
+
+        const resumed = Sha256Hasher.fromState(state);
+        resumed.update(data.subarray(30));
+        expect(resumed.digest('hex')).toBe('248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1');
+    });
+
+    it('exportState() spans block boundaries', () => {
+        const data = new Uint8Array(1000).map((_, i) => i * 7);
+        const hasher = new Sha256Hasher();
+        hasher.update(data.subarray(0, 130));
+        const resumed = Sha256Hasher.fromState(hasher.exportState());
+        hasher.free();
+        resumed.update(data.subarray(130));
+        expect(toHex(resumed.digest())).toBe(toHex(sha256(data)));
+    });
+
+    it('fromState() rejects truncated state', () => {
+        const hasher = new Sha256Hasher();
+        hasher.update(new TextEncoder().encode('abc'));
+        const state = hasher.exportState();
+        hasher.free();
+        expect(() => Sha256Hasher.fromState(state.subarray(0, state.length - 1))).toThrow('Invalid SHA-256 state');
+        expect(() => Sha256Hasher.fromState(new Uint8Array(0))).toThrow('Invalid SHA-256 state');
+    });
+
+    it('fromState() rejects corrupted state', () => {
+        const hasher = new Sha256Hasher();
+        hasher.update(new TextEncoder().encode('hello world'));
+        const state = hasher.exportState();
+        hasher.free();
+        for (let i = 0; i < state.length; i++) {
+            const corrupted = state.slice();
+            corrupted[i] = (corrupted[i] ?? 0) ^ 0x01;
+            expect(() => Sha256Hasher.fromState(corrupted)).toThrow();
+        }
+    });
+
+    it('reset() after fromState() returns to the empty state', () => {
+        const hasher = new Sha256Hasher();
+        hasher.update(new TextEncoder().encode('garbage'));
+        const resumed = Sha256Hasher.fromState(hasher.exportState());
+        hasher.free();
+        resumed.reset().update(new TextEncoder().encode('abc'));
+        expect(resumed.digest('hex')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+    });
+
     it('throws after free', () => {
         const hasher = new Sha256Hasher();
         hasher.free();
@@ -175,6 +541,23 @@ describe('Sha256Hasher streaming', () => {
         expect(() => hasher.finalize()).toThrow('Hasher has been freed');
     });
 
+    it("digest('base64') and digest('base64url') encode in WASM", () => {
+        expect(new Sha256Hasher().update('abc').digest('base64')).toBe('ungWv48Bz+pBQUDeXa4iI7ADYaOWF3qctBD/YfIAFa0=');
+        expect(new Sha256Hasher().update('abc').digest('base64url')).toBe(
+            'ungWv48Bz-pBQUDeXa4iI7ADYaOWF3qctBD_YfIAFa0'
+        );
+        const mac = new HmacSha256Hasher(new TextEncoder().encode('Jefe'));
+        mac.update('what do ya want for nothing?');
+        expect(mac.digest('base64')).toBe('W9zBRr9gdU5qBCQmCJV1x1oAPwidJzmDnexYuWTsOEM=');
+    });
+
+    it('digest() rejects unknown encodings without consuming the hasher', () => {
+        const hasher = new Sha256Hasher();
+        // @ts-expect-error -- runtime validation for JS callers
+        expect(() => hasher.digest('latin1')).toThrow('Unsupported digest encoding: latin1');
+        expect(hasher.digest('hex')).toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+    });
+
     it('digest() matches finalize() output', () => {
         const data = new TextEncoder().encode('consistency');
         const hasher1 = new Sha256Hasher();
@@ -196,6 +579,92 @@ describe('Sha256Hasher streaming', () => {
     });
 });
 
+// ---------------------------------------------------------------------------
+// Zero-copy input buffer
+// ---------------------------------------------------------------------------
+
+describe('Sha256Hasher input buffer', () => {
+    const data = Uint8Array.from({ length: 200 * 1024 + 17 }, (_, i) => (i * 13) % 256);
+
+    it('commit() matches update()', () => {
+        const hasher = new Sha256Hasher();
+        const input = hasher.inputBuffer;
+        expect(input.byteLength).toBe(1024 * 1024);
+        for (let offset = 0; offset < data.byteLength; offset += input.byteLength) {
+            const piece = data.subarray(offset, offset + input.byteLength);
+            hasher.inputBuffer.set(piece);
+            hasher.commit(piece.byteLength);
+        }
+        expect(toHex(hasher.digest())).toBe(toHex(sha256(data)));
+    });
+
+    it('reuses one buffer across commits', () => {
+        const hasher = new Sha256Hasher();
+        const input = hasher.inputBuffer;
+        for (let i = 0; i < 4096; i++) {
+            hasher.inputBuffer.set(data.subarray(0, 1024));
+            hasher.commit(1024);
+        }
+        // A new view would mean the commit path allocated and grew WASM memory
+        expect(hasher.inputBuffer).toBe(input);
+        expect(input.byteLength).toBe(1024 * 1024);
+        hasher.free();
+    });
+
+    it('mixes with update() and commits nothing for length 0', () => {
+        const hasher = new Sha256Hasher();
+        hasher.update(data.subarray(0, 10));
+        hasher.inputBuffer.set(data.subarray(10, 100));
+        hasher.commit(90).commit(0).update(data.subarray(100, 1000));
+        expect(toHex(hasher.digest())).toBe(toHex(sha256(data.subarray(0, 1000))));
+    });
+
+    it('gives clones their own buffer', () => {
+        const hasher = new Sha256Hasher();
+        hasher.inputBuffer.set(new TextEncoder().encode('abc'));
+        const clone = hasher.clone();
+        clone.inputBuffer.set(new TextEncoder().encode('xyz'));
+        hasher.commit(3);
+        clone.commit(3);
+        expect(toHex(hasher.digest())).toBe(toHex(sha256('abc')));
+        expect(toHex(clone.digest())).toBe(toHex(sha256('xyz')));
+    });
+
+    it('recreates the view after WASM memory grows', () => {
+        const hasher = new Sha256Hasher();
+        const stale = hasher.inputBuffer;
+        stale.set(new TextEncoder().encode('kept'));
+        for (let size = 1024 * 1024; stale.byteLength !== 0; size *= 2) {
+            sha256(new Uint8Array(size));
+        }
+        const fresh = hasher.inputBuffer;
+        expect(fresh.byteLength).toBe(1024 * 1024);
+        expect(toHex(fresh.subarray(0, 4))).toBe(toHex(new TextEncoder().encode('kept')));
+        hasher.commit(4);
+        expect(toHex(hasher.digest())).toBe(toHex(sha256('kept')));
+    });
+
+    it('rejects invalid commit lengths', () => {
+        const hasher = new Sha256Hasher();
+        expect(() => hasher.commit(-1)).toThrow('Commit length must be a non-negative integer');
+        expect(() => hasher.commit(1.5)).toThrow(RangeError);
+        expect(() => hasher.commit(1024 * 1024 + 1)).toThrow(
+            'Cannot commit 1048577 bytes from an input buffer of 1048576 bytes'
+        );
+        hasher.free();
+        expect(() => hasher.inputBuffer).toThrow('Hasher has been freed');
+        expect(() => hasher.commit(0)).toThrow('Hasher has been freed');
+    });
+
+    it('carries sha256Stream() chunks larger than the buffer', async () => {
+        async function* gen() {
+            yield data.subarray(0, 5);
+            yield data.subarray(5);
+        }
+        expect(toHex(await sha256Stream(gen()))).toBe(toHex(sha256(data)));
+    });
+});
+
 // ---------------------------------------------------------------------------
 // sha256Stream
 // ---------------------------------------------------------------------------
@@ -219,6 +688,23 @@ describe('sha256Stream', () => {
         const hash = await sha256Stream(gen());
         expect(toHex(hash)).toBe(toHex(sha256(new Uint8Array(0))));
     });
+
+    it('hashes a ReadableStream', async () => {
+        const stream = new ReadableStream<Uint8Array>({
+            start(controller) {
+                controller.enqueue(new TextEncoder().encode('hello'));
+                controller.enqueue(new TextEncoder().encode(' world'));
+                controller.close();
+            }
+        });
+        const hash = await sha256Stream(stream);
+        expect(toHex(hash)).toBe(toHex(sha256('hello world')));
+    });
+
+    it('hashes a Blob', async () => {
+        const hash = await sha256Stream(new Blob(['hello', ' world']));
+        expect(toHex(hash)).toBe(toHex(sha256('hello world')));
+    });
 });
 
 // ---------------------------------------------------------------------------
@@ -231,6 +717,17 @@ describe('SHA256 HashAlgorithm', () => {
         expect(SHA256.digestLength).toBe(32);
     });
 
+    it('createHmac matches hmacSha256()', () => {
+        const key = new TextEncoder().encode('key');
+        expect(SHA256.createHmac?.(key).update('test').digest('hex')).toBe(toHex(hmacSha256(key, 'test')));
+    });
+
+    it('is registered by name and aliases', () => {
+        for (const name of ['sha256', 'SHA256', 'sha-256', 'SHA-256', 'sha2-256']) {
+            expect(getAlgorithm(name)).toBe(SHA256);
+        }
+    });
+
     it('hash matches sha256()', () => {
         const data = new TextEncoder().encode('test');
         expect(toHex(SHA256.hash(data))).toBe(toHex(sha256(data)));
@@ -241,6 +738,12 @@ describe('SHA256 HashAlgorithm', () => {
         expect(toHex(SHA256.doubleHash(data))).toBe(toHex(doubleSha256(data)));
     });
 
+    it('hashMany matches sha256Many()', () => {
+        expect(toHex(SHA256.hashMany(['abc', 'test']))).toBe(toHex(sha256Many(['abc', 'test'])));
+        const packed = SHA256.hashManyPacked(new TextEncoder().encode('abc'), new Uint32Array([0, 3]));
+        expect(toHex(packed)).toBe(toHex(sha256('abc')));
+    });
+
     it('stream matches sha256Stream()', async () => {
         const data = new TextEncoder().encode('streaming test');
         async function* gen() {
@@ -0,0 +1,32 @@
+import { bench, describe } from 'vitest';
+import { Sha256Hasher } from '../src/index.js';
+
+// Compares feeding chunks through `update()`, which copies each one into a
+// fresh WASM allocation, with writing them into `inputBuffer` and calling
+// `commit()`. Run with `pnpm bench`.
+
+const TOTAL = 4 * 1024 * 1024;
+
+for (const chunkSize of [64, 1024, 16 * 1024, 64 * 1024]) {
+    const chunk = Uint8Array.from({ length: chunkSize }, (_, i) => i % 256);
+    const chunks = TOTAL / chunkSize;
+
+    describe(`${TOTAL / 1024 / 1024} MiB in ${chunkSize}-byte chunks`, () => {
+        bench('update()', () => {
+            const hasher = new Sha256Hasher();
+            for (let i = 0; i < chunks; i++) {
+                hasher.update(chunk);
+            }
+            hasher.digest();
+        });
+
+        bench('inputBuffer + commit()', () => {
+            const hasher = new Sha256Hasher();
+            for (let i = 0; i < chunks; i++) {
+                hasher.inputBuffer.set(chunk);
+                hasher.commit(chunkSize);
+            }
+            hasher.digest();
+        });
+    });
+}
@@ -0,0 +1,868 @@
+import type { HashAlgorithm, HashInput, HashStreamSource, WasmHasher } from '@hashbuf/types';
+import {
+    assertNonNegativeInteger,
+    hashChunks,
+    packInputs,
+    registerAlgorithm,
+    toBytes,
+    WasmHasherBase
+} from '@hashbuf/types';
+import {
+    double_keccak256_hash,
+    double_keccak256_hash_str,
+    double_sha3_224_hash,
+    double_sha3_224_hash_str,
+    double_sha3_256_hash,
+    double_sha3_256_hash_str,
+    double_sha3_384_hash,
+    double_sha3_384_hash_str,
+    double_sha3_512_hash,
+    double_sha3_512_hash_str,
+    keccak256_base64,
+    keccak256_base64_str,
+    keccak256_base64url,
+    keccak256_base64url_str,
+    keccak256_hash,
+    keccak256_hash_many,
+    keccak256_hash_str,
+    keccak256_hex,
+    keccak256_hex_str,
+    sha3_224_base64,
+    sha3_224_base64_str,
+    sha3_224_base64url,
+    sha3_224_base64url_str,
+    sha3_224_hash,
+    sha3_224_hash_many,
+    sha3_224_hash_str,
+    sha3_224_hex,
+    sha3_224_hex_str,
+    sha3_256_base64,
+    sha3_256_base64_str,
+    sha3_256_base64url,
+    sha3_256_base64url_str,
+    sha3_256_hash,
+    sha3_256_hash_many,
+    sha3_256_hash_str,
+    sha3_256_hex,
+    sha3_256_hex_str,
+    sha3_384_base64,
+    sha3_384_base64_str,
+    sha3_384_base64url,
+    sha3_384_base64url_str,
+    sha3_384_hash,
+    sha3_384_hash_many,
+    sha3_384_hash_str,
+    sha3_384_hex,
+    sha3_384_hex_str,
+    sha3_512_base64,
+    sha3_512_base64_str,
+    sha3_512_base64url,
+    sha3_512_base64url_str,
+    sha3_512_hash,
+    sha3_512_hash_many,
+    sha3_512_hash_str,
+    sha3_512_hex,
+    sha3_512_hex_str,
+    shake128_hash,
+    shake128_hash_many,
+    shake128_hash_str,
+    shake128_hex,
+    shake128_hex_str,
+    shake256_hash,
+    shake256_hash_many,
+    shake256_hash_str,
+    shake256_hex,
+    shake256_hex_str,
+    timing_safe_equal,
+    timing_safe_equal_hex,
+    Keccak256Hasher as WasmKeccak256Hasher,
+    Sha3_224Hasher as WasmSha3_224Hasher,
+    Sha3_256Hasher as WasmSha3_256Hasher,
+    Sha3_384Hasher as WasmSha3_384Hasher,
+    Sha3_512Hasher as WasmSha3_512Hasher,
+    Shake128Hasher as WasmShake128Hasher,
+    Shake256Hasher as WasmShake256Hasher,
+    type ShakeReader as WasmShakeReader
+} from './wasm-inline/hashbuf_sha3.js';
+
+/** Options for the SHAKE extendable-output functions. */
+export interface ShakeOptions {
+    /**
+     * Number of output bytes to produce. Defaults to 32 for SHAKE128 and 64
+     * for SHAKE256 (twice the security level). Shorter outputs are prefixes
+     * of longer ones.
+     */
+    outputLength?: number;
+}
+
+const SHAKE128_DEFAULT_LENGTH = 32;
+const SHAKE256_DEFAULT_LENGTH = 64;
+
+/** Resolve and validate `options.outputLength`. */
+function outputLengthOf(options: ShakeOptions | undefined, fallback: number): number {
+    const length = options?.outputLength ?? fallback;
+    assertNonNegativeInteger(length, 'Output length');
+    return length;
+}
+
+// ---------------------------------------------------------------------------
+// SHA3-224 one-shot helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Compute SHA3-224 hash of `data` in one shot. Strings are hashed as UTF-8.
+ * Returns a 28-byte `Uint8Array`.
+ */
+export function sha3_224(data: HashInput): Uint8Array {
+    return typeof data === 'string' ? sha3_224_hash_str(data) : sha3_224_hash(toBytes(data));
+}
+
+/**
+ * Compute SHA3-224 hash of `data` in one shot, returning a hex string.
+ * Hex encoding is performed in WASM.
+ */
+export function sha3_224Hex(data: HashInput): string {
+    return typeof data === 'string' ? sha3_224_hex_str(data) : sha3_224_hex(toBytes(data));
+}
+
+/** Compute SHA3-224 hash of `data` in one shot, returning standard (padded) base64. */
+export function sha3_224Base64(data: HashInput): string {
+    return typeof data === 'string' ? sha3_224_base64_str(data) : sha3_224_base64(toBytes(data));
+}
+
+/** Compute SHA3-224 hash of `data` in one shot, returning unpadded base64url. */
+export function sha3_224Base64Url(data: HashInput): string {
+    return typeof data === 'string' ? sha3_224_base64url_str(data) : sha3_224_base64url(toBytes(data));
+}
+
+/**
+ * Compute double SHA3-224 hash: `sha3_224(sha3_224(data))`.
+ * Returns a 28-byte `Uint8Array`.
+ */
+export function doubleSha3_224(data: HashInput): Uint8Array {
+    return typeof data === 'string' ? double_sha3_224_hash_str(data) : double_sha3_224_hash(toBytes(data));
+}
+
+// ---------------------------------------------------------------------------
+// SHA3-256 one-shot helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Compute SHA3-256 hash of `data` in one shot. Strings are hashed as UTF-8.
+ * Returns a 32-byte `Uint8Array`.
+ */
+export function sha3_256(data: HashInput): Uint8Array {
+    return typeof data === 'string' ? sha3_256_hash_str(data) : sha3_256_hash(toBytes(data));
+}
+
+/**
+ * Compute SHA3-256 hash of `data` in one shot, returning a hex string.
+ * Hex encoding is performed in WASM.
+ */
+export function sha3_256Hex(data: HashInput): string {
+    return typeof data === 'string' ? sha3_256_hex_str(data) : sha3_256_hex(toBytes(data));
+}
+
+/** Compute SHA3-256 hash of `data` in one shot, returning standard (padded) base64. */
+export function sha3_256Base64(data: HashInput): string {
+    return typeof data === 'string' ? sha3_256_base64_str(data) : sha3_256_base64(toBytes(data));
+}
+
+/** Compute SHA3-256 hash of `data` in one shot, returning unpadded base64url. */
+export function sha3_256Base64Url(data: HashInput): string {
+    return typeof data === 'string' ? sha3_256_base64url_str(data) : sha3_256_base64url(toBytes(data));
+}
+
+/**
+ * Compute double SHA3-256 hash: `sha3_256(sha3_256(data))`.
+ * Returns a 32-byte `Uint8Array`.
+ */
+export function doubleSha3_256(data: HashInput): Uint8Array {
+    return typeof data === 'string' ? double_sha3_256_hash_str(data) : double_sha3_256_hash(toBytes(data));
+}
+
+// ---------------------------------------------------------------------------
+// SHA3-384 one-shot helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Compute SHA3-384 hash of `data` in one shot. Strings are hashed as UTF-8.
+ * Returns a 48-byte `Uint8Array`.
+ */
+export function sha3_384(data: HashInput): Uint8Array {
+    return typeof data === 'string' ? sha3_384_hash_str(data) : sha3_384_hash(toBytes(data));
+}
+
+/**
+ * Compute SHA3-384 hash of `data` in one shot, returning a hex string.
+ * Hex encoding is performed in WASM.
+ */
+export function sha3_384Hex(data: HashInput): string {
+    return typeof data === 'string' ? sha3_384_hex_str(data) : sha3_384_hex(toBytes(data));
+}
+
+/** Compute SHA3-384 hash of `data` in one shot, returning standard (padded) base64. */
+export function sha3_384Base64(data: HashInput): string {
+    return typeof data === 'string' ? sha3_384_base64_str(data) : sha3_384_base64(toBytes(data));
+}
+
+/** Compute SHA3-384 hash of `data` in one shot, returning unpadded base64url. */
+export function sha3_384Base64Url(data: HashInput): string {
+    return typeof data === 'string' ? sha3_384_base64url_str(data) : sha3_384_base64url(toBytes(data));
+}
+
+/**
+ * Compute double SHA3-384 hash: `sha3_384(sha3_384(data))`.
+ * Returns a 48-byte `Uint8Array`.
+ */
+export function doubleSha3_384(data: HashInput): Uint8Array {
+    return typeof data === 'string' ? double_sha3_384_hash_str(data) : double_sha3_384_hash(toBytes(data));
+}
+
+// ---------------------------------------------------------------------------
+// SHA3-512 one-shot helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Compute SHA3-512 hash of `data` in one shot. Strings are hashed as UTF-8.
+ * Returns a 64-byte `Uint8Array`.
+ */
+export function sha3_512(data: HashInput): Uint8Array {
+    return typeof data === 'string' ? sha3_512_hash_str(data) : sha3_512_hash(toBytes(data));
+}
+
+/**
+ * Compute SHA3-512 hash of `data` in one shot, returning a hex string.
+ * Hex encoding is performed in WASM.
+ */
+export function sha3_512Hex(data: HashInput): string {
+    return typeof data === 'string' ? sha3_512_hex_str(data) : sha3_512_hex(toBytes(data));
+}
+
+/** Compute SHA3-512 hash of `data` in one shot, returning standard (padded) base64. */
+export function sha3_512Base64(data: HashInput): string {
+    return typeof data === 'string' ? sha3_512_base64_str(data) : sha3_512_base64(toBytes(data));
+}
+
+/** Compute SHA3-512 hash of `data` in one shot, returning unpadded base64url. */
+export function sha3_512Base64Url(data: HashInput): string {
+    return typeof data === 'string' ? sha3_512_base64url_str(data) : sha3_512_base64url(toBytes(data));
+}
+
+/**
+ * Compute double SHA3-512 hash: `sha3_512(sha3_512(data))`.
+ * Returns a 64-byte `Uint8Array`.
+ */
+export function doubleSha3_512(data: HashInput): Uint8Array {
+    return typeof data === 'string' ? double_sha3_512_hash_str(data) : double_sha3_512_hash(toBytes(data));
+}
+
+// ---------------------------------------------------------------------------
+// Keccak-256 one-shot helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Compute Keccak-256 hash of `data` in one shot. Strings are hashed as UTF-8.
+ * Returns a 32-byte `Uint8Array`.
+ *
+ * This is the original Keccak submission used by Ethereum, NOT the
+ * standardized SHA3-256 (which uses different padding).
+ */
+export function keccak256(data: HashInput): Uint8Array {
+    return typeof data === 'string' ? keccak256_hash_str(data) : keccak256_hash(toBytes(data));
+}
+
+/**
+ * Compute Keccak-256 hash of `data` in one shot, returning a hex string.
+ * Hex encoding is performed in WASM.
+ */
+export function keccak256Hex(data: HashInput): string {
+    return typeof data === 'string' ? keccak256_hex_str(data) : keccak256_hex(toBytes(data));
+}
+
+/** Compute Keccak-256 hash of `data` in one shot, returning standard (padded) base64. */
+export function keccak256Base64(data: HashInput): string {
+    return typeof data === 'string' ? keccak256_base64_str(data) : keccak256_base64(toBytes(data));
+}
+
+/** Compute Keccak-256 hash of `data` in one shot, returning unpadded base64url. */
+export function keccak256Base64Url(data: HashInput): string {
+    return typeof data === 'string' ? keccak256_base64url_str(data) : keccak256_base64url(toBytes(data));
+}
+
+/**
+ * Compute double Keccak-256 hash: `keccak256(keccak256(data))`.
+ * Returns a 32-byte `Uint8Array`.
+ */
+export function doubleKeccak256(data: HashInput): Uint8Array {
+    return typeof data === 'string' ? double_keccak256_hash_str(data) : double_keccak256_hash(toBytes(data));
+}
+
+// ---------------------------------------------------------------------------
+// SHAKE one-shot helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Compute SHAKE128 of `data` in one shot. Strings are hashed as UTF-8.
+ * Returns `options.outputLength` bytes (default 32).
+ */
+export function shake128(data: HashInput, options?: ShakeOptions): Uint8Array {
+    const length = outputLengthOf(options, SHAKE128_DEFAULT_LENGTH);
+    return typeof data === 'string' ? shake128_hash_str(data, length) : shake128_hash(toBytes(data), length);
+}
+
+/**
+ * Compute SHAKE128 of `data` in one shot, returning a hex string of
+ * `options.outputLength` bytes (default 32).
+ */
+export function shake128Hex(data: HashInput, options?: ShakeOptions): string {
+    const length = outputLengthOf(options, SHAKE128_DEFAULT_LENGTH);
+    return typeof data === 'string' ? shake128_hex_str(data, length) : shake128_hex(toBytes(data), length);
+}
+
+/**
+ * Compute SHAKE256 of `data` in one shot. Strings are hashed as UTF-8.
+ * Returns `options.outputLength` bytes (default 64).
+ */
+export function shake256(data: HashInput, options?: ShakeOptions): Uint8Array {
+    const length = outputLengthOf(options, SHAKE256_DEFAULT_LENGTH);
+    return typeof data === 'string' ? shake256_hash_str(data, length) : shake256_hash(toBytes(data), length);
+}
+
+/**
+ * Compute SHAKE256 of `data` in one shot, returning a hex string of
+ * `options.outputLength` bytes (default 64).
+ */
+export function shake256Hex(data: HashInput, options?: ShakeOptions): string {
+    const length = outputLengthOf(options, SHAKE256_DEFAULT_LENGTH);
+    return typeof data === 'string' ? shake256_hex_str(data, length) : shake256_hex(toBytes(data), length);
+}
+
+// ---------------------------------------------------------------------------
+// Constant-time comparison
+// ---------------------------------------------------------------------------
+
+/**
+ * Compare a computed digest with an expected one in constant time (in
+ * WASM), instead of `===` on hex strings, which leaks timing.
+ * `expected` may be raw bytes or a hex string (either case). Values of
+ * different lengths and malformed hex compare unequal.
+ *
+ * ```ts
+ * const ok = timingSafeEqual(sha3_256(file), expectedHex);
+ * ```
+ */
+export function timingSafeEqual(actual: Uint8Array, expected: Uint8Array | string): boolean {
+    return typeof expected === 'string' ? timing_safe_equal_hex(actual, expected) : timing_safe_equal(actual, expected);
+}
+
+// ---------------------------------------------------------------------------
+// Batch hashing
+// ---------------------------------------------------------------------------
+
+/**
+ * Hash every input with SHA3-224 in a single WASM call. Strings are hashed as
+ * UTF-8. Returns the 28-byte digests concatenated in input order.
+ */
+export function sha3_224Many(inputs: readonly HashInput[]): Uint8Array {
+    const [data, offsets] = packInputs(inputs);
+    return sha3_224_hash_many(data, offsets);
+}
+
+/**
+ * Hash inputs packed into one buffer with SHA3-224 in a single WASM call:
+ * input `i` is `data.subarray(offsets[i], offsets[i + 1])`. Returns the
+ * 28-byte digests concatenated in input order.
+ */
+export function sha3_224ManyPacked(data: Uint8Array, offsets: Uint32Array): Uint8Array {
+    return sha3_224_hash_many(data, offsets);
+}
+
+/**
+ * Hash every input with SHA3-256 in a single WASM call. Strings are hashed as
+ * UTF-8. Returns the 32-byte digests concatenated in input order.
+ */
+export function sha3_256Many(inputs: readonly HashInput[]): Uint8Array {
+    const [data, offsets] = packInputs(inputs);
+    return sha3_256_hash_many(data, offsets);
+}
+
+/**
+ * Hash inputs packed into one buffer with SHA3-256 in a single WASM call:
+ * input `i` is `data.subarray(offsets[i], offsets[i + 1])`. Returns the
+ * 32-byte digests concatenated in input order.
+ */
+export function sha3_256ManyPacked(data: Uint8Array, offsets: Uint32Array): Uint8Array {
+    return sha3_256_hash_many(data, offsets);
+}
+
+/**
+ * Hash every input with SHA3-384 in a single WASM call. Strings are hashed as
+ * UTF-8. Returns the 48-byte digests concatenated in input order.
+ */
+export function sha3_384Many(inputs: readonly HashInput[]): Uint8Array {
+    const [data, offsets] = packInputs(inputs);
+    return sha3_384_hash_many(data, offsets);
+}
+
+/**
+ * Hash inputs packed into one buffer with SHA3-384 in a single WASM call:
+ * input `i` is `data.subarray(offsets[i], offsets[i + 1])`. Returns the
+ * 48-byte digests concatenated in input order.
+ */
+export function sha3_384ManyPacked(data: Uint8Array, offsets: Uint32Array): Uint8Array {
+    return sha3_384_hash_many(data, offsets);
+}
+
+/**
+ * Hash every input with SHA3-512 in a single WASM call. Strings are hashed as
+ * UTF-8. Returns the 64-byte digests concatenated in input order.
+ */
+export function sha3_512Many(inputs: readonly HashInput[]): Uint8Array {
+    const [data, offsets] = packInputs(inputs);
+    return sha3_512_hash_many(data, offsets);
+}
+
+/**
+ * Hash inputs packed into one buffer with SHA3-512 in a single WASM call:
+ * input `i` is `data.subarray(offsets[i], offsets[i + 1])`. Returns the
+ * 64-byte digests concatenated in input order.
+ */
+export function sha3_512ManyPacked(data: Uint8Array, offsets: Uint32Array): Uint8Array {
+    return sha3_512_hash_many(data, offsets);
+}
+
+/**
+ * Hash every input with Keccak-256 in a single WASM call. Strings are hashed as
+ * UTF-8. Returns the 32-byte digests concatenated in input order.
+ */
+export function keccak256Many(inputs: readonly HashInput[]): Uint8Array {
+    const [data, offsets] = packInputs(inputs);
+    return keccak256_hash_many(data, offsets);
+}
+
+/**
+ * Hash inputs packed into one buffer with Keccak-256 in a single WASM call:
+ * input `i` is `data.subarray(offsets[i], offsets[i + 1])`. Returns the
+ * 32-byte digests concatenated in input order.
+ */
+export function keccak256ManyPacked(data: Uint8Array, offsets: Uint32Array): Uint8Array {
+    return keccak256_hash_many(data, offsets);
+}
+
+/**
+ * Compute SHAKE128 of every input in a single WASM call. Strings are hashed
+ * as UTF-8. Returns the `options.outputLength`-byte outputs (default 32)
+ * concatenated in input order.
+ */
+export function shake128Many(inputs: readonly HashInput[], options?: ShakeOptions): Uint8Array {
+    const length = outputLengthOf(options, SHAKE128_DEFAULT_LENGTH);
+    const [data, offsets] = packInputs(inputs);
+    return shake128_hash_many(data, offsets, length);
+}
+
+/**
+ * Compute SHAKE128 of inputs packed into one buffer in a single WASM call:
+ * input `i` is `data.subarray(offsets[i], offsets[i + 1])`.
+ */
+export function shake128ManyPacked(data: Uint8Array, offsets: Uint32Array, options?: ShakeOptions): Uint8Array {
+    return shake128_hash_many(data, offsets, outputLengthOf(options, SHAKE128_DEFAULT_LENGTH));
+}
+
+/**
+ * Compute SHAKE256 of every input in a single WASM call. Strings are hashed
+ * as UTF-8. Returns the `options.outputLength`-byte outputs (default 64)
+ * concatenated in input order.
+ */
+export function shake256Many(inputs: readonly HashInput[], options?: ShakeOptions): Uint8Array {
+    const length = outputLengthOf(options, SHAKE256_DEFAULT_LENGTH);
+    const [data, offsets] = packInputs(inputs);
+    return shake256_hash_many(data, offsets, length);
+}
+
+/**
+ * Compute SHAKE256 of inputs packed into one buffer in a single WASM call:
+ * input `i` is `data.subarray(offsets[i], offsets[i + 1])`.
+ */
+export function shake256ManyPacked(data: Uint8Array, offsets: Uint32Array, options?: ShakeOptions): Uint8Array {
+    return shake256_hash_many(data, offsets, outputLengthOf(options, SHAKE256_DEFAULT_LENGTH));
+}
+
+// ---------------------------------------------------------------------------
+// Streaming hashers
+// ---------------------------------------------------------------------------
+
+interface WasmShakeHasher extends WasmHasher {
+    finalizeXof(length: number): Uint8Array;
+    finalizeReader(): WasmShakeReader;
+}
+
+/**
+ * Common base of the hasher classes below, which differ only in the WASM
+ * hasher they construct.
+ */
+abstract class SpongeHasher<W extends WasmHasher> extends WasmHasherBase<W> {
+    /**
+     * Consumptive verify — finalizes like `digest()` and compares the result
+     * with `expected` (raw bytes or a hex string) in constant time.
+     * The hasher must not be used after calling `verify()`.
+     */
+    verify(expected: Uint8Array | string): boolean {
+        return timingSafeEqual(this.digest(), expected);
+    }
+
+    /**
+     * Support for TC39 Explicit Resource Management.
+     * Allows `using hasher = new Sha3_256Hasher()`.
+     */
+    [Symbol.dispose](): void {
+        this.free();
+    }
+}
+
+/**
+ * Streaming SHA3-256 hasher backed by WASM.
+ *
+ * Usage:
+ * ```ts
+ * const hasher = new Sha3_256Hasher();
+ * hasher.update(chunk1);
+ * hasher.update(chunk2);
+ * const hash = hasher.finalize(); // 32 bytes
+ * hasher.free(); // release WASM memory
+ * ```
+ */
+export class Sha3_256Hasher extends SpongeHasher<WasmSha3_256Hasher> {
+    /** Create a new SHA3-256 hasher. */
+    constructor() {
+        super(new WasmSha3_256Hasher());
+    }
+}
+
+/** Streaming SHA3-224 hasher backed by WASM. Produces 28-byte digests. */
+export class Sha3_224Hasher extends SpongeHasher<WasmSha3_224Hasher> {
+    /** Create a new SHA3-224 hasher. */
+    constructor() {
+        super(new WasmSha3_224Hasher());
+    }
+}
+
+/** Streaming SHA3-384 hasher backed by WASM. Produces 48-byte digests. */
+export class Sha3_384Hasher extends SpongeHasher<WasmSha3_384Hasher> {
+    /** Create a new SHA3-384 hasher. */
+    constructor() {
+        super(new WasmSha3_384Hasher());
+    }
+}
+
+/** Streaming SHA3-512 hasher backed by WASM. Produces 64-byte digests. */
+export class Sha3_512Hasher extends SpongeHasher<WasmSha3_512Hasher> {
+    /** Create a new SHA3-512 hasher. */
+    constructor() {
+        super(new WasmSha3_512Hasher());
+    }
+}
+
+/**
+ * Streaming legacy Keccak-256 hasher (as used by Ethereum) backed by WASM.
+ * Produces 32-byte digests.
+ */
+export class Keccak256Hasher extends SpongeHasher<WasmKeccak256Hasher> {
+    /** Create a new Keccak-256 hasher. */
+    constructor() {
+        super(new WasmKeccak256Hasher());
+    }
+}
+
+// ---------------------------------------------------------------------------
+// Streaming SHAKE
+// ---------------------------------------------------------------------------
+
+/**
+ * SHAKE hashers implement `Hasher` with a fixed output length for
+ * `finalize()` / `digest()`, plus arbitrary-length output on demand.
+ */
+abstract class ShakeHasher extends SpongeHasher<WasmShakeHasher> {
+    /**
+     * Finalize and return `length` bytes of output, independent of the
+     * hasher's configured output length. The hasher is NOT consumed.
+     */
+    finalizeXof(length: number): Uint8Array {
+        if (this.freed) {
+            throw new Error('Hasher has been freed');
+        }
+        assertNonNegativeInteger(length, 'Output length');
+        return this.inner.finalizeXof(length);
+    }
+
+    /**
+     * Finalize into a reader over the unbounded output stream.
+     * The hasher is NOT consumed, and the reader owns its own WASM memory
+     * which must be released with `reader.free()`.
+     */
+    finalizeReader(): ShakeReader {
+        if (this.freed) {
+            throw new Error('Hasher has been freed');
+        }
+        return new ShakeReader(this.inner.finalizeReader());
+    }
+}
+
+/**
+ * Streaming SHAKE128 backed by WASM.
+ *
+ * Usage:
+ * ```ts
+ * const hasher = new Shake128Hasher({ outputLength: 64 });
+ * hasher.update(chunk);
+ * const out = hasher.digest(); // 64 bytes, auto-frees
+ * ```
+ */
+export class Shake128Hasher extends ShakeHasher {
+    /**
+     * Create a new SHAKE128 hasher.
+     * @param options `outputLength` used by `finalize()` / `digest()` (default 32).
+     */
+    constructor(options?: ShakeOptions) {
+        super(new WasmShake128Hasher(outputLengthOf(options, SHAKE128_DEFAULT_LENGTH)));
+    }
+}
+
+/** Streaming SHAKE256 backed by WASM. See `Shake128Hasher`. */
+export class Shake256Hasher extends ShakeHasher {
+    /**
+     * Create a new SHAKE256 hasher.
+     * @param options `outputLength` used by `finalize()` / `digest()` (default 64).
+     */
+    constructor(options?: ShakeOptions) {
+        super(new WasmShake256Hasher(outputLengthOf(options, SHAKE256_DEFAULT_LENGTH)));
+    }
+}
+
+/**
+ * Sequential reader over SHAKE output, returned by
+ * `Shake128Hasher.finalizeReader()` / `Shake256Hasher.finalizeReader()`.
+ * Unlike BLAKE3, SHAKE output can only be read forward.
+ */
+export class ShakeReader {
+    private inner: WasmShakeReader;
+    private freed = false;
+
+    /** @internal Use `finalizeReader()` on a SHAKE hasher instead. */
+    constructor(inner: WasmShakeReader) {
+        this.inner = inner;
+    }
+
+    /** Number of output bytes read so far. */
+    get position(): number {
+        if (this.freed) {
+            throw new Error('Output reader has been freed');
+        }
+        return Number(this.inner.position());
+    }
+
+    /**
+     * Fill `buf` with the next `buf.length` bytes of output and advance
+     * the position accordingly.
+     * @returns `buf` for convenience.
+     */
+    fill(buf: Uint8Array): Uint8Array {
+        if (this.freed) {
+            throw new Error('Output reader has been freed');
+        }
+        this.inner.fill(buf);
+        return buf;
+    }
+
+    /**
+     * Release the underlying WASM memory.
+     * The reader must not be used after calling `free()`.
+     */
+    free(): void {
+        if (!this.freed) {
+            this.inner.free();
+            this.freed = true;
+        }
+    }
+
+    /**
+     * Support for TC39 Explicit Resource Management.
+     * Allows `using reader = hasher.finalizeReader()`.
+     */
+    [Symbol.dispose](): void {
+        this.free();
+    }
+}
+
+// ---------------------------------------------------------------------------
+// Streaming helpers for async iterables
+// ---------------------------------------------------------------------------
+
+/**
+ * Hash an async iterable of chunks, a `ReadableStream` or a `Blob` / `File`
+ * using SHA3-224 streaming.
+ */
+export function sha3_224Stream(source: HashStreamSource): Promise<Uint8Array> {
+    return hashChunks(new Sha3_224Hasher(), source);
+}
+
+/**
+ * Hash an async iterable of chunks, a `ReadableStream` or a `Blob` / `File`
+ * using SHA3-256 streaming.
+ */
+export function sha3_256Stream(source: HashStreamSource): Promise<Uint8Array> {
+    return hashChunks(new Sha3_256Hasher(), source);
+}
+
+/**
+ * Hash an async iterable of chunks, a `ReadableStream` or a `Blob` / `File`
+ * using SHA3-384 streaming.
+ */
+export function sha3_384Stream(source: HashStreamSource): Promise<Uint8Array> {
+    return hashChunks(new Sha3_384Hasher(), source);
+}
+
+/**
+ * Hash an async iterable of chunks, a `ReadableStream` or a `Blob` / `File`
+ * using SHA3-512 streaming.
+ */
+export function sha3_512Stream(source: HashStreamSource): Promise<Uint8Array> {
+    return hashChunks(new Sha3_512Hasher(), source);
+}
+
+/**
+ * Hash an async iterable of chunks, a `ReadableStream` or a `Blob` / `File`
+ * using Keccak-256 streaming.
+ */
+export function keccak256Stream(source: HashStreamSource): Promise<Uint8Array> {
+    return hashChunks(new Keccak256Hasher(), source);
+}
+
+/**
+ * Compute SHAKE128 over an async iterable of chunks, a `ReadableStream` or
+ * a `Blob` / `File`. Returns `options.outputLength` bytes (default 32).
+ */
+export function shake128Stream(source: HashStreamSource, options?: ShakeOptions): Promise<Uint8Array> {
+    return hashChunks(new Shake128Hasher(options), source);
+}
+
+/**
+ * Compute SHAKE256 over an async iterable of chunks, a `ReadableStream` or
+ * a `Blob` / `File`. Returns `options.outputLength` bytes (default 64).
+ */
+export function shake256Stream(source: HashStreamSource, options?: ShakeOptions): Promise<Uint8Array> {
+    return hashChunks(new Shake256Hasher(options), source);
+}
+
+// ---------------------------------------------------------------------------
+// HashAlgorithm implementations
+// ---------------------------------------------------------------------------
+
+/**
+ * SHA3-224 as a `HashAlgorithm` — unified interface for all hashbuf algorithms.
+ */
+export const SHA3_224: HashAlgorithm = {
+    name: 'sha3-224',
+    digestLength: 28,
+    hash: sha3_224,
+    doubleHash: doubleSha3_224,
+    hashMany: sha3_224Many,
+    hashManyPacked: sha3_224ManyPacked,
+    createHasher: () => new Sha3_224Hasher(),
+    stream: sha3_224Stream
+} as const;
+
+/**
+ * SHA3-256 as a `HashAlgorithm` — unified interface for all hashbuf algorithms.
+ */
+export const SHA3_256: HashAlgorithm = {
+    name: 'sha3-256',
+    digestLength: 32,
+    hash: sha3_256,
+    doubleHash: doubleSha3_256,
+    hashMany: sha3_256Many,
+    hashManyPacked: sha3_256ManyPacked,
+    createHasher: () => new Sha3_256Hasher(),
+    stream: sha3_256Stream
+} as const;
+
+/**
+ * SHA3-384 as a `HashAlgorithm` — unified interface for all hashbuf algorithms.
+ */
+export const SHA3_384: HashAlgorithm = {
+    name: 'sha3-384',
+    digestLength: 48,
+    hash: sha3_384,
+    doubleHash: doubleSha3_384,
+    hashMany: sha3_384Many,
+    hashManyPacked: sha3_384ManyPacked,
+    createHasher: () => new Sha3_384Hasher(),
+    stream: sha3_384Stream
+} as const;
+
+/**
+ * SHA3-512 as a `HashAlgorithm` — unified interface for all hashbuf algorithms.
+ */
+export const SHA3_512: HashAlgorithm = {
+    name: 'sha3-512',
+    digestLength: 64,
+    hash: sha3_512,
+    doubleHash: doubleSha3_512,
+    hashMany: sha3_512Many,
+    hashManyPacked: sha3_512ManyPacked,
+    createHasher: () => new Sha3_512Hasher(),
+    stream: sha3_512Stream
+} as const;
+
+/**
+ * Keccak-256 as a `HashAlgorithm` — unified interface for all hashbuf algorithms.
+ */
+export const KECCAK256: HashAlgorithm = {
+    name: 'keccak256',
+    digestLength: 32,
+    hash: keccak256,
+    doubleHash: doubleKeccak256,
+    hashMany: keccak256Many,
+    hashManyPacked: keccak256ManyPacked,
+    createHasher: () => new Keccak256Hasher(),
+    stream: keccak256Stream
+} as const;
+
+/**
+ * SHAKE128 with its default 32-byte output as a `HashAlgorithm`. Use
+ * `shake128()` or `Shake128Hasher` directly for other output lengths.
+ */
+export const SHAKE128: HashAlgorithm = {
+    name: 'shake128',
+    digestLength: SHAKE128_DEFAULT_LENGTH,
+    hash: (data) => shake128(data),
+    doubleHash: (data) => shake128(shake128(data)),
+    hashMany: (inputs) => shake128Many(inputs),
+    hashManyPacked: (data, offsets) => shake128ManyPacked(data, offsets),
+    createHasher: () => new Shake128Hasher(),
+    stream: (source) => shake128Stream(source)
+} as const;
+
+/**
+ * SHAKE256 with its default 64-byte output as a `HashAlgorithm`. Use
+ * `shake256()` or `Shake256Hasher` directly for other output lengths.
+ */
+export const SHAKE256: HashAlgorithm = {
+    name: 'shake256',
+    digestLength: SHAKE256_DEFAULT_LENGTH,
+    hash: (data) => shake256(data),
+    doubleHash: (data) => shake256(shake256(data)),
+    hashMany: (inputs) => shake256Many(inputs),
+    hashManyPacked: (data, offsets) => shake256ManyPacked(data, offsets),
+    createHasher: () => new Shake256Hasher(),
+    stream: (source) => shake256Stream(source)
+} as const;
+
+// Make the algorithms available by name through `getAlgorithm()`
+registerAlgorithm(SHA3_224);
+registerAlgorithm(SHA3_256);
+registerAlgorithm(SHA3_384);
+registerAlgorithm(SHA3_512);
+registerAlgorithm(KECCAK256, ['keccak-256']);
+registerAlgorithm(SHAKE128, ['shake-128']);
+registerAlgorithm(SHAKE256, ['shake-256']);
@@ -0,0 +1,415 @@
+import { getAlgorithm } from '@hashbuf/types';
+import { describe, expect, it } from 'vitest';
+import {
+    doubleKeccak256,
+    doubleSha3_256,
+    doubleSha3_512,
+    KECCAK256,
+    Keccak256Hasher,
+    keccak256,
+    keccak256Base64,
+    keccak256Hex,
+    keccak256Many,
+    keccak256Stream,
+    SHA3_224,
+    SHA3_256,
+    SHA3_384,
+    SHA3_512,
+    SHAKE128,
+    SHAKE256,
+    Sha3_224Hasher,
+    Sha3_256Hasher,
+    Sha3_384Hasher,
+    Sha3_512Hasher,
+    Shake128Hasher,
+    Shake256Hasher,
+    sha3_224,
+    sha3_224Many,
+    sha3_256,
+    sha3_256Base64,
+    sha3_256Base64Url,
+    sha3_256Hex,
+    sha3_256Many,
+    sha3_256ManyPacked,
+    sha3_256Stream,
+    sha3_384,
+    sha3_384Many,
+    sha3_512,
+    sha3_512Hex,
+    sha3_512Many,
+    shake128,
+    shake128Hex,
+    shake128Many,
+    shake128Stream,
+    shake256,
+    shake256Hex,
+    shake256Many,
+    shake256ManyPacked,
+    timingSafeEqual
+} from '../src/index.js';
+
+// Helper to convert Uint8Array to hex string
+function toHex(buf: Uint8Array): string {
+    return Array.from(buf)
+        .map((b) => b.toString(16).padStart(2, '0'))
+        .join('');
+}
+
+const SHA3_256_ABC = '3a985da74fe225b2045c172d6bd390bd855f086e3e9d525b46bfe24511431532';
+const KECCAK256_EMPTY = 'c5d2460186f7233c927e7db2dcc703c0e500b653ca82273b7bfad8045d85a470';
+const KECCAK256_ABC = '4e03657aea45a94fc7d47ba826c8d667c0d1e6e33a64a036ec44f58fa12d6c45';
+const SHAKE128_ABC_32 = '5881092dd818bf5cf8a3ddb793fbcba74097d5c526a6d35f97b83351940f2cc8';
+const SHAKE256_ABC_64 =
+    '483366601360a8771c6863080cc4114d8db44530f8f1e1ee4f94ea37e78b5739d5a15bef186a5386c75744c0527e1faa9f8726e462a12a4feb06bd8801e751e4';
+
+// ---------------------------------------------------------------------------
+// One-shot (NIST FIPS 202 examples)
+// ---------------------------------------------------------------------------
+
+describe('SHA-3 one-shot', () => {
+    it('hashes empty input', () => {
+        expect(toHex(sha3_224(new Uint8Array(0)))).toBe('6b4e03423667dbb73b6e15454f0eb1abd4597f9a1b078e3f5b5a6bc7');
+        expect(toHex(sha3_256(new Uint8Array(0)))).toBe(
+            'a7ffc6f8bf1ed76651c14756a061d662f580ff4de43b49fa82d80a4b80f8434a'
+        );
+        expect(toHex(sha3_384(new Uint8Array(0)))).toBe(
+            '0c63a75b845e4f7d01107d852e4c2485c51a50aaaa94fc61995e71bbee983a2ac3713831264adb47fb6bd1e058d5f004'
+        );
+        expect(toHex(sha3_512(new Uint8Array(0)))).toBe(
+            'a69f73cca23a9ac5c8b567dc185a756e97c982164fe25859e0d1dcc1475c80a615b2123af1f5f94c11e3e9402c3ac558f500199d95b6d3e301758586281dcd26'
+        );
+    });
+
+    it("hashes 'abc' (NIST vector)", () => {
+        expect(toHex(sha3_224('abc'))).toBe('e642824c3f8cf24ad09234ee7d3c766fc9a3a5168d0c94ad73b46fdf');
+        expect(toHex(sha3_256(new TextEncoder().encode('abc')))).toBe(SHA3_256_ABC);
+        expect(sha3_256Hex('abc')).toBe(SHA3_256_ABC);
+        expect(toHex(sha3_384('abc'))).toBe(
+            'ec01498288516fc926459f58e2c6ad8df9b473cb0fc08c2596da7cf0e49be4b298d88cea927ac7f539f1edf228376d25'
+        );
+        expect(sha3_512Hex('abc')).toBe(
+            'b751850b1a57168a5693cd924b6b096e08f621827444f70d884f5d0240d2712e10e116e9192af3c91a7ec57647e3934057340b4cf408d5a56592f8274eec53f0'
+        );
+    });
+
+    it('returns base64 and base64url', () => {
+        expect(sha3_256Base64('abc')).toBe('Ophdp0/iJbIEXBcta9OQvYVfCG4+nVJbRr/iRRFDFTI=');
+        expect(sha3_256Base64Url('abc')).toBe('Ophdp0_iJbIEXBcta9OQvYVfCG4-nVJbRr_iRRFDFTI');
+    });
+
+    it('double hashes', () => {
+        expect(toHex(doubleSha3_256('abc'))).toBe('f6362cbb9fb8a60f03c2f0d8124d2c6a1a828e2db8e8b05a6f699735b4492cbc');
+        expect(toHex(doubleSha3_512('abc'))).toBe(toHex(sha3_512(sha3_512('abc'))));
+    });
+});
+
+describe('keccak256 one-shot', () => {
+    it('matches Ethereum Keccak-256 vectors', () => {
+        expect(toHex(keccak256(new Uint8Array(0)))).toBe(KECCAK256_EMPTY);
+        expect(keccak256Hex('abc')).toBe(KECCAK256_ABC);
+        expect(keccak256Base64('abc')).toBe('TgNleupFqU/H1HuoJsjWZ8DR5uM6ZKA27ET1j6EtbEU=');
+    });
+
+    it('differs from SHA3-256', () => {
+        expect(keccak256Hex('abc')).not.toBe(sha3_256Hex('abc'));
+    });
+
+    it('double hashes', () => {
+        expect(toHex(doubleKeccak256('abc'))).toBe('b8e12eedbb60e5321db47f5a3bfeb8ec0ff6ae9af10020cc61bb8c82ae0b7b66');
+    });
+});
+
+describe('SHAKE one-shot', () => {
+    it('uses 32 / 64 bytes by default', () => {
+        expect(toHex(shake128('abc'))).toBe(SHAKE128_ABC_32);
+        expect(toHex(shake256('abc'))).toBe(SHAKE256_ABC_64);
+        expect(shake128Hex('')).toBe('7f9c2ba4e88f827d616045507605853ed73b8093f6efbc88eb1a6eacfa66ef26');
+    });
+
+    it('supports variable output length', () => {
+        expect(shake256Hex('abc', { outputLength: 16 })).toBe('483366601360a8771c6863080cc4114d');
+        expect(shake128('abc', { outputLength: 0 })).toHaveLength(0);
+        const long = shake128('abc', { outputLength: 200 });
+        expect(long).toHaveLength(200);
+        expect(toHex(long.subarray(168))).toBe('6aa01b3f5af057805f973ff8ecb8b226ac32ada6f01c1fcd4818cb006aa5b4cd');
+    });
+
+    it('rejects invalid output lengths', () => {
+        expect(() => shake128('abc', { outputLength: -1 })).toThrow(RangeError);
+        expect(() => shake256('abc', { outputLength: 1.5 })).toThrow('Output length must be a non-negative integer');
+    });
+});
+
+// ---------------------------------------------------------------------------
+// Batch hashing
+// ---------------------------------------------------------------------------
+
+describe('batch hashing', () => {
+    const inputs = ['', 'abc', new TextEncoder().encode('hello world')];
+
+    it('matches the one-shots', () => {
+        const cases = [
+            { many: sha3_224Many, one: sha3_224, size: 28 },
+            { many: sha3_256Many, one: sha3_256, size: 32 },
+            { many: sha3_384Many, one: sha3_384, size: 48 },
+            { many: sha3_512Many, one: sha3_512, size: 64 },
+            { many: keccak256Many, one: keccak256, size: 32 }
+        ];
+        for (const { many, one, size } of cases) {
+            const out = many(inputs);
+            expect(out).toHaveLength(inputs.length * size);
+            inputs.forEach((input, i) => {
+                expect(toHex(out.subarray(i * size, (i + 1) * size))).toBe(toHex(one(input)));
+            });
+        }
+    });
+
+    it('produces outputLength bytes per SHAKE input', () => {
+        const out = shake128Many(inputs, { outputLength: 10 });
+        expect(out).toHaveLength(30);
+        inputs.forEach((input, i) => {
+            expect(toHex(out.subarray(i * 10, (i + 1) * 10))).toBe(shake128Hex(input, { outputLength: 10 }));
+        });
+        expect(shake256Many(inputs)).toHaveLength(3 * 64);
+    });
+
+    it('hashes pre-packed inputs', () => {
+        const data = new TextEncoder().encode('abchello world');
+        const offsets = new Uint32Array([0, 0, 3, 14]);
+        expect(toHex(sha3_256ManyPacked(data, offsets))).toBe(toHex(sha3_256Many(inputs)));
+        expect(toHex(shake256ManyPacked(data, offsets, { outputLength: 5 }))).toBe(
+            toHex(shake256Many(inputs, { outputLength: 5 }))
+        );
+    });
+
+    it('handles an empty batch', () => {
+        expect(sha3_256Many([])).toHaveLength(0);
+        expect(shake128Many([])).toHaveLength(0);
+    });
+
+    it('rejects out-of-range offsets', () => {
+        expect(() => sha3_256ManyPacked(new Uint8Array(4), new Uint32Array([0, 5]))).toThrow('Invalid offsets');
+    });
+});
+
+// ---------------------------------------------------------------------------
+// Streaming hashers
+// ---------------------------------------------------------------------------
+
+describe('streaming hashers', () => {
+    it('match the one-shots across chunks', () => {
+        const data = new Uint8Array(500).map((_, i) => i);
+        const cases = [
+            { hasher: new Sha3_224Hasher(), expected: sha3_224(data) },
+            { hasher: new Sha3_256Hasher(), expected: sha3_256(data) },
+            { hasher: new Sha3_384Hasher(), expected: sha3_384(data) },
+            { hasher: new Sha3_512Hasher(), expected: sha3_512(data) },
+            { hasher: new Keccak256Hasher(), expected: keccak256(data) }
+        ];
+        for (const { hasher, expected } of cases) {
+            for (let i = 0; i < data.length; i += 37) {
+                hasher.update(data.subarray(i, i + 37));
+            }
+            expect(toHex(hasher.digest())).toBe(toHex(expected));
+        }
+    });
+
+    it('finalize does not consume state', () => {
+        const hasher = new Sha3_256Hasher().update('abc');
+        expect(toHex(hasher.finalize())).toBe(SHA3_256_ABC);
+        expect(toHex(hasher.finalize())).toBe(SHA3_256_ABC);
+        hasher.free();
+    });
+
+    it('reset works', () => {
+        const hasher = new Keccak256Hasher();
+        hasher.update('garbage');
+        hasher.reset().update('abc');
+        expect(hasher.digest('hex')).toBe(KECCAK256_ABC);
+    });
+
+    it('clone() forks independent hashers from a shared prefix', () => {
+        const parent = new Sha3_512Hasher().update('hello');
+        const child = parent.clone();
+        parent.update(' there');
+        child.update(' world');
+
+        expect(child).toBeInstanceOf(Sha3_512Hasher);
+        expect(toHex(child.digest())).toBe(toHex(sha3_512('hello world')));
+        expect(toHex(parent.digest())).toBe(toHex(sha3_512('hello there')));
+    });
+
+    it("digest('base64') and digest('base64url') encode in WASM", () => {
+        expect(new Sha3_256Hasher().update('abc').digest('base64')).toBe(sha3_256Base64('abc'));
+        expect(new Sha3_256Hasher().update('abc').digest('base64url')).toBe(sha3_256Base64Url('abc'));
+    });
+
+    it('digest() rejects unknown encodings without consuming the hasher', () => {
+        const hasher = new Keccak256Hasher();
+        // @ts-expect-error -- runtime validation for JS callers
+        expect(() => hasher.digest('latin1')).toThrow('Unsupported digest encoding: latin1');
+        expect(hasher.digest('hex')).toBe(KECCAK256_EMPTY);
+    });
+
+    it('throws after free', () => {
+        const hasher = new Sha3_384Hasher();
+        hasher.free();
+        hasher.free(); // idempotent
+        expect(() => hasher.update(new Uint8Array(1))).toThrow('Hasher has been freed');
+        expect(() => hasher.finalize()).toThrow('Hasher has been freed');
+        expect(() => hasher.digest()).toThrow('Hasher has been freed');
+    });
+});
+
+describe('SHAKE streaming', () => {
+    it('digest() uses the configured output length', () => {
+        expect(toHex(new Shake128Hasher().update('abc').digest())).toBe(SHAKE128_ABC_32);
+        expect(new Shake256Hasher({ outputLength: 16 }).update('abc').digest('hex')).toBe(
+            '483366601360a8771c6863080cc4114d'
+        );
+        expect(new Shake256Hasher().update('a').update('bc').digest('base64')).toBe(
+            Buffer.from(shake256('abc')).toString('base64')
+        );
+    });
+
+    it('finalizeXof() returns any length without consuming the hasher', () => {
+        const hasher = new Shake128Hasher().update('abc');
+        expect(toHex(hasher.finalizeXof(300))).toBe(toHex(shake128('abc', { outputLength: 300 })));
+        expect(toHex(hasher.finalize())).toBe(SHAKE128_ABC_32);
+        expect(() => hasher.finalizeXof(-1)).toThrow(RangeError);
+        hasher.free();
+    });
+
+    it('finalizeReader() streams the output sequentially', () => {
+        const expected = shake256('abc', { outputLength: 300 });
+        const hasher = new Shake256Hasher().update('abc');
+        const reader = hasher.finalizeReader();
+        const first = reader.fill(new Uint8Array(10));
+        expect(reader.position).toBe(10);
+        const rest = reader.fill(new Uint8Array(290));
+        expect(reader.position).toBe(300);
+        expect(toHex(first)).toBe(toHex(expected.subarray(0, 10)));
+        expect(toHex(rest)).toBe(toHex(expected.subarray(10)));
+
+        reader.free();
+        expect(() => reader.fill(new Uint8Array(1))).toThrow('Output reader has been freed');
+        hasher.update('d');
+        expect(toHex(hasher.digest())).toBe(toHex(shake256('abcd')));
+    });
+
+    it('clone() keeps the output length and reset() keeps it too', () => {
+        const parent = new Shake128Hasher({ outputLength: 48 }).update('ab');
+        const child = parent.clone().update('c');
+        expect(child).toBeInstanceOf(Shake128Hasher);
+        expect(toHex(child.digest())).toBe(toHex(shake128('abc', { outputLength: 48 })));
+        expect(parent.reset().update('abc').digest()).toHaveLength(48);
+    });
+
+    it('rejects invalid output lengths', () => {
+        expect(() => new Shake128Hasher({ outputLength: -1 })).toThrow(RangeError);
+    });
+});
+
+// ---------------------------------------------------------------------------
+// Constant-time comparison
+// ---------------------------------------------------------------------------
+
+describe('constant-time verification', () => {
+    it('timingSafeEqual compares bytes and hex', () => {
+        const digest = sha3_256('abc');
+        const hex = sha3_256Hex('abc');
+        expect(timingSafeEqual(digest, sha3_256('abc'))).toBe(true);
+        expect(timingSafeEqual(digest, hex.toUpperCase())).toBe(true);
+        expect(timingSafeEqual(digest, sha3_256Hex('abd'))).toBe(false);
+        expect(timingSafeEqual(digest, hex.slice(0, -2))).toBe(false);
+    });
+
+    it('Hasher.verify() finalizes and frees the hasher', () => {
+        const hasher = new Keccak256Hasher().update('abc');
+        expect(hasher.verify(keccak256Hex('abc'))).toBe(true);
+        expect(() => hasher.verify(keccak256Hex('abc'))).toThrow('Hasher has been freed');
+        expect(new Sha3_512Hasher().update('abc').verify(sha3_512('abd'))).toBe(false);
+        expect(
+            new Shake128Hasher({ outputLength: 64 }).update('abc').verify(shake128('abc', { outputLength: 64 }))
+        ).toBe(true);
+    });
+});
+
+// ---------------------------------------------------------------------------
+// Async streams
+// ---------------------------------------------------------------------------
+
+describe('stream helpers', () => {
+    it('hash an async iterable', async () => {
+        async function* gen() {
+            yield new TextEncoder().encode('hello');
+            yield ' world';
+        }
+        expect(toHex(await sha3_256Stream(gen()))).toBe(toHex(sha3_256('hello world')));
+    });
+
+    it('hash a ReadableStream', async () => {
+        const stream = new ReadableStream<Uint8Array>({
+            start(controller) {
+                controller.enqueue(new TextEncoder().encode('hello'));
+                controller.enqueue(new TextEncoder().encode(' world'));
+                controller.close();
+            }
+        });
+        expect(toHex(await keccak256Stream(stream))).toBe(toHex(keccak256('hello world')));
+    });
+
+    it('hash a Blob with SHAKE and a custom length', async () => {
+        const hash = await shake128Stream(new Blob(['hello', ' world']), { outputLength: 100 });
+        expect(toHex(hash)).toBe(toHex(shake128('hello world', { outputLength: 100 })));
+    });
+});
+
+// ---------------------------------------------------------------------------
+// HashAlgorithm interface
+// ---------------------------------------------------------------------------
+
+describe('HashAlgorithm constants', () => {
+    it('have correct metadata', () => {
+        expect([SHA3_224, SHA3_256, SHA3_384, SHA3_512, KECCAK256, SHAKE128, SHAKE256].map((a) => a.name)).toEqual([
+            'sha3-224',
+            'sha3-256',
+            'sha3-384',
+            'sha3-512',
+            'keccak256',
+            'shake128',
+            'shake256'
+        ]);
+    });
+
+    it('are registered by name and aliases', () => {
+        for (const algorithm of [SHA3_224, SHA3_256, SHA3_384, SHA3_512, KECCAK256, SHAKE128, SHAKE256]) {
+            expect(getAlgorithm(algorithm.name)).toBe(algorithm);
+        }
+        expect(getAlgorithm('SHA3-256')).toBe(SHA3_256);
+        expect(getAlgorithm('keccak-256')).toBe(KECCAK256);
+        expect(getAlgorithm('shake-128')).toBe(SHAKE128);
+    });
+
+    it('digestLength matches the actual output', async () => {
+        for (const algorithm of [SHA3_224, SHA3_256, SHA3_384, SHA3_512, KECCAK256, SHAKE128, SHAKE256]) {
+            expect(algorithm.hash('abc')).toHaveLength(algorithm.digestLength);
+            expect(algorithm.doubleHash('abc')).toHaveLength(algorithm.digestLength);
+            expect(algorithm.createHasher().update('abc').digest()).toHaveLength(algorithm.digestLength);
+            expect(await algorithm.stream(new Blob(['abc']))).toHaveLength(algorithm.digestLength);
+        }
+    });
+
+    it('hash and doubleHash match the one-shots', () => {
+        expect(toHex(KECCAK256.hash('abc'))).toBe(KECCAK256_ABC);
+        expect(toHex(SHAKE256.doubleHash('abc'))).toBe(toHex(shake256(shake256('abc'))));
+    });
+
+    it('hashMany and hashManyPacked match the batch functions', () => {
+        expect(toHex(SHA3_512.hashMany(['abc', '']))).toBe(toHex(sha3_512Many(['abc', ''])));
+        expect(SHAKE128.hashMany(['abc', ''])).toHaveLength(2 * SHAKE128.digestLength);
+        expect(toHex(KECCAK256.hashManyPacked(new TextEncoder().encode('abc'), new Uint32Array([0, 3])))).toBe(
+            KECCAK256_ABC
+        );
+    });
+});
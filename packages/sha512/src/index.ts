@@ -0,0 +1,510 @@
+import type { HashAlgorithm, HashInput, HashStreamSource, WasmHasher } from '@hashbuf/types';
+import { hashChunks, packInputs, registerAlgorithm, toBytes, WasmHasherBase } from '@hashbuf/types';
+import {
+    double_sha384_hash,
+    double_sha384_hash_str,
+    double_sha512_256_hash,
+    double_sha512_256_hash_str,
+    double_sha512_hash,
+    double_sha512_hash_str,
+    sha384_base64,
+    sha384_base64_str,
+    sha384_base64url,
+    sha384_base64url_str,
+    sha384_hash,
+    sha384_hash_many,
+    sha384_hash_str,
+    sha384_hex,
+    sha384_hex_str,
+    sha384_hmac,
+    sha384_hmac_str,
+    sha512_256_base64,
+    sha512_256_base64_str,
+    sha512_256_base64url,
+    sha512_256_base64url_str,
+    sha512_256_hash,
+    sha512_256_hash_many,
+    sha512_256_hash_str,
+    sha512_256_hex,
+    sha512_256_hex_str,
+    sha512_256_hmac,
+    sha512_256_hmac_str,
+    sha512_base64,
+    sha512_base64_str,
+    sha512_base64url,
+    sha512_base64url_str,
+    sha512_hash,
+    sha512_hash_many,
+    sha512_hash_str,
+    sha512_hex,
+    sha512_hex_str,
+    sha512_hmac,
+    sha512_hmac_str,
+    timing_safe_equal,
+    timing_safe_equal_hex,
+    HmacSha384Hasher as WasmHmacSha384Hasher,
+    HmacSha512_256Hasher as WasmHmacSha512_256Hasher,
+    HmacSha512Hasher as WasmHmacSha512Hasher,
+    Sha384Hasher as WasmSha384Hasher,
+    Sha512_256Hasher as WasmSha512_256Hasher,
+    Sha512Hasher as WasmSha512Hasher
+} from './wasm-inline/hashbuf_sha512.js';
+
+// ---------------------------------------------------------------------------
+// SHA-512 one-shot helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Compute SHA-512 hash of `data` in one shot. Strings are hashed as UTF-8.
+ * Returns a 64-byte `Uint8Array`.
+ */
+export function sha512(data: HashInput): Uint8Array {
+    return typeof data === 'string' ? sha512_hash_str(data) : sha512_hash(toBytes(data));
+}
+
+/**
+ * Compute SHA-512 hash of `data` in one shot, returning a hex string.
+ * Hex encoding is performed in WASM.
+ */
+export function sha512Hex(data: HashInput): string {
+    return typeof data === 'string' ? sha512_hex_str(data) : sha512_hex(toBytes(data));
+}
+
+/** Compute SHA-512 hash of `data` in one shot, returning standard (padded) base64. */
+export function sha512Base64(data: HashInput): string {
+    return typeof data === 'string' ? sha512_base64_str(data) : sha512_base64(toBytes(data));
+}
+
+/** Compute SHA-512 hash of `data` in one shot, returning unpadded base64url. */
+export function sha512Base64Url(data: HashInput): string {
+    return typeof data === 'string' ? sha512_base64url_str(data) : sha512_base64url(toBytes(data));
+}
+
+/**
+ * Compute double SHA-512 hash: `sha512(sha512(data))`.
+ * Returns a 64-byte `Uint8Array`.
+ */
+export function doubleSha512(data: HashInput): Uint8Array {
+    return typeof data === 'string' ? double_sha512_hash_str(data) : double_sha512_hash(toBytes(data));
+}
+
+/**
+ * Compute HMAC-SHA512.
+ * Returns a 64-byte `Uint8Array`.
+ */
+export function hmacSha512(key: Uint8Array, data: HashInput): Uint8Array {
+    return typeof data === 'string' ? sha512_hmac_str(key, data) : sha512_hmac(key, toBytes(data));
+}
+
+// ---------------------------------------------------------------------------
+// SHA-384 one-shot helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Compute SHA-384 hash of `data` in one shot. Strings are hashed as UTF-8.
+ * Returns a 48-byte `Uint8Array`.
+ */
+export function sha384(data: HashInput): Uint8Array {
+    return typeof data === 'string' ? sha384_hash_str(data) : sha384_hash(toBytes(data));
+}
+
+/**
+ * Compute SHA-384 hash of `data` in one shot, returning a hex string.
+ * Hex encoding is performed in WASM.
+ */
+export function sha384Hex(data: HashInput): string {
+    return typeof data === 'string' ? sha384_hex_str(data) : sha384_hex(toBytes(data));
+}
+
+/**
+ * Compute SHA-384 hash of `data` in one shot, returning standard (padded)
+ * base64 — the form used by Subresource Integrity (`sha384-…`).
+ */
+export function sha384Base64(data: HashInput): string {
+    return typeof data === 'string' ? sha384_base64_str(data) : sha384_base64(toBytes(data));
+}
+
+/** Compute SHA-384 hash of `data` in one shot, returning unpadded base64url. */
+export function sha384Base64Url(data: HashInput): string {
+    return typeof data === 'string' ? sha384_base64url_str(data) : sha384_base64url(toBytes(data));
+}
+
+/**
+ * Compute double SHA-384 hash: `sha384(sha384(data))`.
+ * Returns a 48-byte `Uint8Array`.
+ */
+export function doubleSha384(data: HashInput): Uint8Array {
+    return typeof data === 'string' ? double_sha384_hash_str(data) : double_sha384_hash(toBytes(data));
+}
+
+/**
+ * Compute HMAC-SHA384.
+ * Returns a 48-byte `Uint8Array`.
+ */
+export function hmacSha384(key: Uint8Array, data: HashInput): Uint8Array {
+    return typeof data === 'string' ? sha384_hmac_str(key, data) : sha384_hmac(key, toBytes(data));
+}
+
+// ---------------------------------------------------------------------------
+// SHA-512/256 one-shot helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Compute SHA-512/256 hash of `data` in one shot. Strings are hashed as UTF-8.
+ * Returns a 32-byte `Uint8Array`.
+ *
+ * SHA-512/256 uses its own initial values — it is NOT a truncated SHA-512.
+ */
+export function sha512_256(data: HashInput): Uint8Array {
+    return typeof data === 'string' ? sha512_256_hash_str(data) : sha512_256_hash(toBytes(data));
+}
+
+/**
+ * Compute SHA-512/256 hash of `data` in one shot, returning a hex string.
+ * Hex encoding is performed in WASM.
+ */
+export function sha512_256Hex(data: HashInput): string {
+    return typeof data === 'string' ? sha512_256_hex_str(data) : sha512_256_hex(toBytes(data));
+}
+
+/** Compute SHA-512/256 hash of `data` in one shot, returning standard (padded) base64. */
+export function sha512_256Base64(data: HashInput): string {
+    return typeof data === 'string' ? sha512_256_base64_str(data) : sha512_256_base64(toBytes(data));
+}
+
+/** Compute SHA-512/256 hash of `data` in one shot, returning unpadded base64url. */
+export function sha512_256Base64Url(data: HashInput): string {
+    return typeof data === 'string' ? sha512_256_base64url_str(data) : sha512_256_base64url(toBytes(data));
+}
+
+/**
+ * Compute double SHA-512/256 hash: `sha512_256(sha512_256(data))`.
+ * Returns a 32-byte `Uint8Array`.
+ */
+export function doubleSha512_256(data: HashInput): Uint8Array {
+    return typeof data === 'string' ? double_sha512_256_hash_str(data) : double_sha512_256_hash(toBytes(data));
+}
+
+/**
+ * Compute HMAC-SHA512/256.
+ * Returns a 32-byte `Uint8Array`.
+ */
+export function hmacSha512_256(key: Uint8Array, data: HashInput): Uint8Array {
+    return typeof data === 'string' ? sha512_256_hmac_str(key, data) : sha512_256_hmac(key, toBytes(data));
+}
+
+// ---------------------------------------------------------------------------
+// Constant-time comparison
+// ---------------------------------------------------------------------------
+
+/**
+ * Compare a computed digest with an expected one in constant time (in
+ * WASM), instead of `===` on hex strings, which leaks timing.
+ * `expected` may be raw bytes or a hex string (either case). Values of
+ * different lengths and malformed hex compare unequal.
+ *
+ * ```ts
+ * const ok = timingSafeEqual(hmacSha512(secret, body), signatureHex);
+ * ```
+ */
+export function timingSafeEqual(actual: Uint8Array, expected: Uint8Array | string): boolean {
+    return typeof expected === 'string' ? timing_safe_equal_hex(actual, expected) : timing_safe_equal(actual, expected);
+}
+
+/**
+ * Compute HMAC-SHA512 over `data` and compare it with `tag` (raw bytes or hex)
+ * in constant time.
+ */
+export function verifyHmacSha512(key: Uint8Array, data: HashInput, tag: Uint8Array | string): boolean {
+    return timingSafeEqual(hmacSha512(key, data), tag);
+}
+
+/**
+ * Compute HMAC-SHA384 over `data` and compare it with `tag` (raw bytes or hex)
+ * in constant time.
+ */
+export function verifyHmacSha384(key: Uint8Array, data: HashInput, tag: Uint8Array | string): boolean {
+    return timingSafeEqual(hmacSha384(key, data), tag);
+}
+
+/**
+ * Compute HMAC-SHA512/256 over `data` and compare it with `tag` (raw bytes or hex)
+ * in constant time.
+ */
+export function verifyHmacSha512_256(key: Uint8Array, data: HashInput, tag: Uint8Array | string): boolean {
+    return timingSafeEqual(hmacSha512_256(key, data), tag);
+}
+
+// ---------------------------------------------------------------------------
+// Batch hashing
+// ---------------------------------------------------------------------------
+
+/**
+ * Hash every input with SHA-512 in a single WASM call. Strings are hashed as
+ * UTF-8. Returns the 64-byte digests concatenated in input order.
+ */
+export function sha512Many(inputs: readonly HashInput[]): Uint8Array {
+    const [data, offsets] = packInputs(inputs);
+    return sha512_hash_many(data, offsets);
+}
+
+/**
+ * Hash inputs packed into one buffer with SHA-512 in a single WASM call:
+ * input `i` is `data.subarray(offsets[i], offsets[i + 1])`. Returns the
+ * 64-byte digests concatenated in input order.
+ */
+export function sha512ManyPacked(data: Uint8Array, offsets: Uint32Array): Uint8Array {
+    return sha512_hash_many(data, offsets);
+}
+
+/**
+ * Hash every input with SHA-384 in a single WASM call. Strings are hashed as
+ * UTF-8. Returns the 48-byte digests concatenated in input order.
+ */
+export function sha384Many(inputs: readonly HashInput[]): Uint8Array {
+    const [data, offsets] = packInputs(inputs);
+    return sha384_hash_many(data, offsets);
+}
+
+/**
+ * Hash inputs packed into one buffer with SHA-384 in a single WASM call:
+ * input `i` is `data.subarray(offsets[i], offsets[i + 1])`. Returns the
+ * 48-byte digests concatenated in input order.
+ */
+export function sha384ManyPacked(data: Uint8Array, offsets: Uint32Array): Uint8Array {
+    return sha384_hash_many(data, offsets);
+}
+
+/**
+ * Hash every input with SHA-512/256 in a single WASM call. Strings are hashed as
+ * UTF-8. Returns the 32-byte digests concatenated in input order.
+ */
+export function sha512_256Many(inputs: readonly HashInput[]): Uint8Array {
+    const [data, offsets] = packInputs(inputs);
+    return sha512_256_hash_many(data, offsets);
+}
+
+/**
+ * Hash inputs packed into one buffer with SHA-512/256 in a single WASM call:
+ * input `i` is `data.subarray(offsets[i], offsets[i + 1])`. Returns the
+ * 32-byte digests concatenated in input order.
+ */
+export function sha512_256ManyPacked(data: Uint8Array, offsets: Uint32Array): Uint8Array {
+    return sha512_256_hash_many(data, offsets);
+}
+
+// ---------------------------------------------------------------------------
+// Streaming hashers
+// ---------------------------------------------------------------------------
+
+/**
+ * Common base of the six hasher classes below, which differ only in the WASM
+ * hasher they construct.
+ */
+abstract class Sha512FamilyHasher extends WasmHasherBase<WasmHasher> {
+    /**
+     * Consumptive verify — finalizes like `digest()` and compares the result
+     * with `expected` (raw bytes or a hex string) in constant time.
+     * The hasher must not be used after calling `verify()`.
+     */
+    verify(expected: Uint8Array | string): boolean {
+        return timingSafeEqual(this.digest(), expected);
+    }
+
+    /**
+     * Support for TC39 Explicit Resource Management.
+     * Allows `using hasher = new Sha512Hasher()`.
+     */
+    [Symbol.dispose](): void {
+        this.free();
+    }
+}
+
+/**
+ * Streaming SHA-512 hasher backed by WASM.
+ *
+ * Usage:
+ * ```ts
+ * const hasher = new Sha512Hasher();
+ * hasher.update(chunk1);
+ * hasher.update(chunk2);
+ * const hash = hasher.finalize(); // 64 bytes
+ * hasher.free(); // release WASM memory
+ * ```
+ */
+export class Sha512Hasher extends Sha512FamilyHasher {
+    /** Create a new SHA-512 hasher. */
+    constructor() {
+        super(new WasmSha512Hasher());
+    }
+}
+
+/** Streaming SHA-384 hasher backed by WASM. Produces 48-byte digests. */
+export class Sha384Hasher extends Sha512FamilyHasher {
+    /** Create a new SHA-384 hasher. */
+    constructor() {
+        super(new WasmSha384Hasher());
+    }
+}
+
+/** Streaming SHA-512/256 hasher backed by WASM. Produces 32-byte digests. */
+export class Sha512_256Hasher extends Sha512FamilyHasher {
+    /** Create a new SHA-512/256 hasher. */
+    constructor() {
+        super(new WasmSha512_256Hasher());
+    }
+}
+
+// ---------------------------------------------------------------------------
+// Streaming HMAC
+// ---------------------------------------------------------------------------
+
+/**
+ * Streaming HMAC-SHA512 backed by WASM.
+ *
+ * Usage:
+ * ```ts
+ * const mac = new HmacSha512Hasher(key);
+ * mac.update(chunk1);
+ * mac.update(chunk2);
+ * const tag = mac.digest('hex'); // auto-frees
+ * ```
+ */
+export class HmacSha512Hasher extends Sha512FamilyHasher {
+    /**
+     * Create a new HMAC-SHA512 hasher.
+     * @param key HMAC key of any length.
+     */
+    constructor(key: Uint8Array) {
+        super(new WasmHmacSha512Hasher(key));
+    }
+}
+
+/** Streaming HMAC-SHA384 backed by WASM. Produces 48-byte tags. */
+export class HmacSha384Hasher extends Sha512FamilyHasher {
+    /**
+     * Create a new HMAC-SHA384 hasher.
+     * @param key HMAC key of any length.
+     */
+    constructor(key: Uint8Array) {
+        super(new WasmHmacSha384Hasher(key));
+    }
+}
+
+/** Streaming HMAC-SHA512/256 backed by WASM. Produces 32-byte tags. */
+export class HmacSha512_256Hasher extends Sha512FamilyHasher {
+    /**
+     * Create a new HMAC-SHA512/256 hasher.
+     * @param key HMAC key of any length.
+     */
+    constructor(key: Uint8Array) {
+        super(new WasmHmacSha512_256Hasher(key));
+    }
+}
+
+// ---------------------------------------------------------------------------
+// Streaming helpers for async iterables
+// ---------------------------------------------------------------------------
+
+/**
+ * Hash an async iterable of chunks, a `ReadableStream` or a `Blob` / `File`
+ * using SHA-512 streaming.
+ */
+export function sha512Stream(source: HashStreamSource): Promise<Uint8Array> {
+    return hashChunks(new Sha512Hasher(), source);
+}
+
+/**
+ * Hash an async iterable of chunks, a `ReadableStream` or a `Blob` / `File`
+ * using SHA-384 streaming.
+ */
+export function sha384Stream(source: HashStreamSource): Promise<Uint8Array> {
+    return hashChunks(new Sha384Hasher(), source);
+}
+
+/**
+ * Hash an async iterable of chunks, a `ReadableStream` or a `Blob` / `File`
+ * using SHA-512/256 streaming.
+ */
+export function sha512_256Stream(source: HashStreamSource): Promise<Uint8Array> {
+    return hashChunks(new Sha512_256Hasher(), source);
+}
+
+/**
+ * Compute HMAC-SHA512 over an async iterable of chunks, a `ReadableStream`
+ * or a `Blob` / `File`.
+ */
+export function hmacSha512Stream(key: Uint8Array, source: HashStreamSource): Promise<Uint8Array> {
+    return hashChunks(new HmacSha512Hasher(key), source);
+}
+
+/**
+ * Compute HMAC-SHA384 over an async iterable of chunks, a `ReadableStream`
+ * or a `Blob` / `File`.
+ */
+export function hmacSha384Stream(key: Uint8Array, source: HashStreamSource): Promise<Uint8Array> {
+    return hashChunks(new HmacSha384Hasher(key), source);
+}
+
+/**
+ * Compute HMAC-SHA512/256 over an async iterable of chunks, a
+ * `ReadableStream` or a `Blob` / `File`.
+ */
+export function hmacSha512_256Stream(key: Uint8Array, source: HashStreamSource): Promise<Uint8Array> {
+    return hashChunks(new HmacSha512_256Hasher(key), source);
+}
+
+// ---------------------------------------------------------------------------
+// HashAlgorithm implementations
+// ---------------------------------------------------------------------------
+
+/**
+ * SHA-512 as a `HashAlgorithm` — unified interface for all hashbuf algorithms.
+ */
+export const SHA512: HashAlgorithm = {
+    name: 'sha512',
+    digestLength: 64,
+    hash: sha512,
+    doubleHash: doubleSha512,
+    hashMany: sha512Many,
+    hashManyPacked: sha512ManyPacked,
+    createHasher: () => new Sha512Hasher(),
+    createHmac: (key) => new HmacSha512Hasher(key),
+    stream: sha512Stream
+} as const;
+
+/**
+ * SHA-384 as a `HashAlgorithm` — unified interface for all hashbuf algorithms.
+ */
+export const SHA384: HashAlgorithm = {
+    name: 'sha384',
+    digestLength: 48,
+    hash: sha384,
+    doubleHash: doubleSha384,
+    hashMany: sha384Many,
+    hashManyPacked: sha384ManyPacked,
+    createHasher: () => new Sha384Hasher(),
+    createHmac: (key) => new HmacSha384Hasher(key),
+    stream: sha384Stream
+} as const;
+
+/**
+ * SHA-512/256 as a `HashAlgorithm` — unified interface for all hashbuf
+ * algorithms. Named `'sha512-256'` after the `node:crypto` algorithm name.
+ */
+export const SHA512_256: HashAlgorithm = {
+    name: 'sha512-256',
+    digestLength: 32,
+    hash: sha512_256,
+    doubleHash: doubleSha512_256,
+    hashMany: sha512_256Many,
+    hashManyPacked: sha512_256ManyPacked,
+    createHasher: () => new Sha512_256Hasher(),
+    createHmac: (key) => new HmacSha512_256Hasher(key),
+    stream: sha512_256Stream
+} as const;
+
+// Make the algorithms available by name through `getAlgorithm()`
+registerAlgorithm(SHA512, ['sha-512', 'sha2-512']);
+registerAlgorithm(SHA384, ['sha-384', 'sha2-384']);
+registerAlgorithm(SHA512_256, ['sha-512/256', 'sha512/256', 'sha2-512-256']);
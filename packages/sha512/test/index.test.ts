@@ -0,0 +1,494 @@
+import { getAlgorithm } from '@hashbuf/types';
+import { describe, expect, it } from 'vitest';
+import {
+    doubleSha384,
+    doubleSha512,
+    doubleSha512_256,
+    HmacSha384Hasher,
+    HmacSha512_256Hasher,
+    HmacSha512Hasher,
+    hmacSha384,
+    hmacSha384Stream,
+    hmacSha512,
+    hmacSha512_256,
+    hmacSha512_256Stream,
+    hmacSha512Stream,
+    SHA384,
+    SHA512,
+    SHA512_256,
+    Sha384Hasher,
+    Sha512_256Hasher,
+    Sha512Hasher,
+    sha384,
+    sha384Base64,
+    sha384Hex,
+    sha384Many,
+    sha384Stream,
+    sha512,
+    sha512_256,
+    sha512_256Base64Url,
+    sha512_256Hex,
+    sha512_256Many,
+    sha512_256Stream,
+    sha512Base64,
+    sha512Base64Url,
+    sha512Hex,
+    sha512Many,
+    sha512ManyPacked,
+    sha512Stream,
+    timingSafeEqual,
+    verifyHmacSha384,
+    verifyHmacSha512,
+    verifyHmacSha512_256
+} from '../src/index.js';
+
+// Helper to convert Uint8Array to hex string
+function toHex(buf: Uint8Array): string {
+    return Array.from(buf)
+        .map((b) => b.toString(16).padStart(2, '0'))
+        .join('');
+}
+
+function fromHex(hex: string): Uint8Array {
+    const bytes = new Uint8Array(hex.length / 2);
+    for (let i = 0; i < hex.length; i += 2) {
+        bytes[i / 2] = parseInt(hex.substring(i, i + 2), 16);
+    }
+    return bytes;
+}
+
+const SHA512_EMPTY =
+    'cf83e1357eefb8bdf1542850d66d8007d620e4050b5715dc83f4a921d36ce9ce47d0d13c5d85f2b0ff8318d2877eec2f63b931bd47417a81a538327af927da3e';
+const SHA512_ABC =
+    'ddaf35a193617abacc417349ae20413112e6fa4e89a97ea20a9eeee64b55d39a2192992a274fc1a836ba3c23a3feebbd454d4423643ce80e2a9ac94fa54ca49f';
+const SHA384_EMPTY = '38b060a751ac96384cd9327eb1b1e36a21fdb71114be07434c0cc7bf63f6e1da274edebfe76f65fbd51ad2f14898b95b';
+const SHA384_ABC = 'cb00753f45a35e8bb5a03d699ac65007272c32ab0eded1631a8b605a43ff5bed8086072ba1e7cc2358baeca134c825a7';
+const SHA512_256_EMPTY = 'c672b8d1ef56ed28ab87c3622c5114069bdd3ad7b8f9737498d0c01ecef0967a';
+const SHA512_256_ABC = '53048e2681941ef99b2e29b76b4c7dabe4c2d0c634fc6d46e0e2f13107e7af23';
+
+const TWO_BLOCK =
+    'abcdefghbcdefghicdefghijdefghijkefghijklfghijklmghijklmnhijklmnoijklmnopjklmnopqklmnopqrlmnopqrsmnopqrstnopqrstu';
+
+// ---------------------------------------------------------------------------
+// One-shot (NIST FIPS 180-4 examples)
+// ---------------------------------------------------------------------------
+
+describe('sha512 one-shot', () => {
+    it('hashes empty input', () => {
+        expect(toHex(sha512(new Uint8Array(0)))).toBe(SHA512_EMPTY);
+    });
+
+    it("hashes 'abc' (NIST vector)", () => {
+        expect(toHex(sha512(new TextEncoder().encode('abc')))).toBe(SHA512_ABC);
+        expect(toHex(sha512('abc'))).toBe(SHA512_ABC);
+    });
+
+    it('hashes the two-block NIST message', () => {
+        expect(sha512Hex(TWO_BLOCK)).toBe(
+            '8e959b75dae313da8cf4f72814fc143f8f7779c6eb9f7fa17299aeadb6889018501d289e4900f7e4331b99dec4b5433ac7d329eeb6dd26545e96e55b874be909'
+        );
+    });
+
+    it('returns 64 bytes', () => {
+        expect(sha512(new Uint8Array(100)).length).toBe(64);
+    });
+});
+
+describe('sha384 one-shot', () => {
+    it('hashes empty input', () => {
+        expect(toHex(sha384(new Uint8Array(0)))).toBe(SHA384_EMPTY);
+    });
+
+    it("hashes 'abc' (NIST vector)", () => {
+        expect(toHex(sha384(new TextEncoder().encode('abc')))).toBe(SHA384_ABC);
+        expect(sha384Hex('abc')).toBe(SHA384_ABC);
+    });
+
+    it('hashes the two-block NIST message', () => {
+        expect(sha384Hex(TWO_BLOCK)).toBe(
+            '09330c33f71147e83d192fc782cd1b4753111b173b3b05d22fa08086e3b0f712fcc7c71a557e2db966c3e9fa91746039'
+        );
+    });
+
+    it('returns 48 bytes', () => {
+        expect(sha384(new Uint8Array(100)).length).toBe(48);
+    });
+});
+
+describe('sha512_256 one-shot', () => {
+    it('hashes empty input', () => {
+        expect(toHex(sha512_256(new Uint8Array(0)))).toBe(SHA512_256_EMPTY);
+    });
+
+    it("hashes 'abc' (NIST vector)", () => {
+        expect(toHex(sha512_256(new TextEncoder().encode('abc')))).toBe(SHA512_256_ABC);
+        expect(sha512_256Hex('abc')).toBe(SHA512_256_ABC);
+    });
+
+    it('is not a truncated SHA-512', () => {
+        expect(sha512_256Hex('abc')).not.toBe(SHA512_ABC.slice(0, 64));
+    });
+
+    it('returns 32 bytes', () => {
+        expect(sha512_256(new Uint8Array(100)).length).toBe(32);
+    });
+});
+
+describe('base64 one-shots', () => {
+    it('returns padded base64', () => {
+        expect(sha512Base64('abc')).toBe(
+            '3a81oZNherrMQXNJriBBMRLm+k6JqX6iCp7u5ktV05ohkpkqJ0/BqDa6PCOj/uu9RU1EI2Q86A4qmslPpUyknw=='
+        );
+        expect(sha384Base64('abc')).toBe('ywB1P0WjXou1oD1pmsZQBycsMqsO3tFjGotgWkP/W+2AhgcroefMI1i67KE0yCWn');
+    });
+
+    it('returns unpadded base64url', () => {
+        expect(sha512Base64Url('abc')).toBe(
+            '3a81oZNherrMQXNJriBBMRLm-k6JqX6iCp7u5ktV05ohkpkqJ0_BqDa6PCOj_uu9RU1EI2Q86A4qmslPpUyknw'
+        );
+        expect(sha512_256Base64Url('abc')).toBe('UwSOJoGUHvmbLim3a0x9q-TC0MY0_G1G4OLxMQfnryM');
+    });
+});
+
+describe('double hash', () => {
+    it('equals hash(hash(data))', () => {
+        const data = new TextEncoder().encode('abc');
+        expect(toHex(doubleSha512(data))).toBe(toHex(sha512(sha512(data))));
+        expect(toHex(doubleSha384(data))).toBe(toHex(sha384(sha384(data))));
+        expect(toHex(doubleSha512_256(data))).toBe(toHex(sha512_256(sha512_256(data))));
+    });
+});
+
+// ---------------------------------------------------------------------------
+// HMAC (RFC 4231)
+// ---------------------------------------------------------------------------
+
+describe('HMAC one-shot', () => {
+    it('RFC 4231 Test Case 1', () => {
+        const key = fromHex('0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b');
+        const data = new TextEncoder().encode('Hi There');
+        expect(toHex(hmacSha384(key, data))).toBe(
+            'afd03944d84895626b0825f4ab46907f15f9dadbe4101ec682aa034c7cebc59cfaea9ea9076ede7f4af152e8b2fa9cb6'
+        );
+        expect(toHex(hmacSha512(key, data))).toBe(
+            '87aa7cdea5ef619d4ff0b4241a1d6cb02379f4e2ce4ec2787ad0b30545e17cdedaa833b7d6b8a702038b274eaea3f4e4be9d914eeb61f1702e696c203a126854'
+        );
+    });
+
+    it('RFC 4231 Test Case 2', () => {
+        const key = new TextEncoder().encode('Jefe');
+        const data = 'what do ya want for nothing?';
+        expect(toHex(hmacSha384(key, data))).toBe(
+            'af45d2e376484031617f78d2b58a6b1b9c7ef464f5a01b47e42ec3736322445e8e2240ca5e69e2c78b3239ecfab21649'
+        );
+        expect(toHex(hmacSha512(key, data))).toBe(
+            '164b7a7bfcf819e2e395fbe73b56e0a387bd64222e831fd610270cd7ea2505549758bf75c05a994a6d034f65f8f0e6fdcaeab1a34d4a6b4b636e070a38bce737'
+        );
+        expect(toHex(hmacSha512_256(key, data))).toBe(
+            '6df7b24630d5ccb2ee335407081a87188c221489768fa2020513b2d593359456'
+        );
+    });
+});
+
+describe('HMAC streaming', () => {
+    it('matches the one-shot across chunks', () => {
+        const key = new TextEncoder().encode('Jefe');
+        const hasher = new HmacSha512Hasher(key);
+        hasher.update('what do ya ').update('want for nothing?');
+        const tag = hasher.finalize();
+        hasher.free();
+        expect(toHex(tag)).toBe(toHex(hmacSha512(key, 'what do ya want for nothing?')));
+    });
+
+    it('RFC 4231 Test Case 6 (key larger than block size)', () => {
+        const key = new Uint8Array(131).fill(0xaa);
+        const data = 'Test Using Larger Than Block-Size Key - Hash Key First';
+        expect(new HmacSha512Hasher(key).update(data).digest('hex')).toBe(
+            '80b24263c7c1a3ebb71493c1dd7be8b49b46d1f41b4aeec1121b013783f8f3526b56d037e05f2598bd0fd2215d6a1e5295e64f73f63f0aec8b915a985d786598'
+        );
+        expect(new HmacSha384Hasher(key).update(data).digest('hex')).toBe(
+            '4ece084485813e9088d2c63a041bc5b44f9ef1012a2b588f3cd11f05033ac4c60c2ef6ab4030fe8296248df163f44952'
+        );
+    });
+
+    it('reset preserves the key', () => {
+        const hasher = new HmacSha512_256Hasher(new TextEncoder().encode('Jefe'));
+        hasher.update('garbage');
+        hasher.reset().update('what do ya want for nothing?');
+        expect(hasher.digest('hex')).toBe('6df7b24630d5ccb2ee335407081a87188c221489768fa2020513b2d593359456');
+    });
+
+    it('clone() forks from a shared prefix', () => {
+        const key = new TextEncoder().encode('Jefe');
+        const parent = new HmacSha384Hasher(key);
+        parent.update('what do ya ');
+        const child = parent.clone();
+        parent.update('garbage');
+        child.update('want for nothing?');
+
+        expect(child).toBeInstanceOf(HmacSha384Hasher);
+        expect(toHex(child.digest())).toBe(toHex(hmacSha384(key, 'what do ya want for nothing?')));
+        expect(toHex(parent.digest())).toBe(toHex(hmacSha384(key, 'what do ya garbage')));
+    });
+
+    it('stream helpers match the one-shots', async () => {
+        const key = new TextEncoder().encode('Jefe');
+        async function* gen() {
+            yield 'what do ya want ';
+            yield 'for nothing?';
+        }
+        const data = 'what do ya want for nothing?';
+        expect(toHex(await hmacSha512Stream(key, gen()))).toBe(toHex(hmacSha512(key, data)));
+        expect(toHex(await hmacSha384Stream(key, gen()))).toBe(toHex(hmacSha384(key, data)));
+        expect(toHex(await hmacSha512_256Stream(key, gen()))).toBe(toHex(hmacSha512_256(key, data)));
+    });
+});
+
+// ---------------------------------------------------------------------------
+// Constant-time comparison
+// ---------------------------------------------------------------------------
+
+describe('constant-time verification', () => {
+    const key = new TextEncoder().encode('Jefe');
+    const data = 'what do ya want for nothing?';
+
+    it('timingSafeEqual compares bytes and hex', () => {
+        const mac = hmacSha512(key, data);
+        const hex = toHex(mac);
+        expect(timingSafeEqual(mac, hmacSha512(key, data))).toBe(true);
+        expect(timingSafeEqual(mac, hex.toUpperCase())).toBe(true);
+        expect(timingSafeEqual(mac, hex.slice(0, -2))).toBe(false);
+        expect(timingSafeEqual(mac, `${hex.slice(0, -2)}zz`)).toBe(false);
+    });
+
+    it('verifyHmac* accept RFC 4231 tags', () => {
+        const tag512 =
+            '164b7a7bfcf819e2e395fbe73b56e0a387bd64222e831fd610270cd7ea2505549758bf75c05a994a6d034f65f8f0e6fdcaeab1a34d4a6b4b636e070a38bce737';
+        const tag384 =
+            'af45d2e376484031617f78d2b58a6b1b9c7ef464f5a01b47e42ec3736322445e8e2240ca5e69e2c78b3239ecfab21649';
+        expect(verifyHmacSha512(key, data, tag512)).toBe(true);
+        expect(verifyHmacSha384(key, data, tag384)).toBe(true);
+        expect(verifyHmacSha512_256(key, data, hmacSha512_256(key, data))).toBe(true);
+        expect(verifyHmacSha512(key, `${data}!`, tag512)).toBe(false);
+        expect(verifyHmacSha384(key, data, tag512)).toBe(false);
+    });
+
+    it('Hasher.verify() finalizes and frees the hasher', () => {
+        const mac = new HmacSha384Hasher(key).update(data);
+        expect(mac.verify(hmacSha384(key, data))).toBe(true);
+        expect(() => mac.verify(hmacSha384(key, data))).toThrow('Hasher has been freed');
+        expect(new Sha512Hasher().update('abc').verify(sha512Hex('abc'))).toBe(true);
+        expect(new Sha512_256Hasher().update('abc').verify(sha512_256('abd'))).toBe(false);
+    });
+});
+
+// ---------------------------------------------------------------------------
+// Batch hashing
+// ---------------------------------------------------------------------------
+
+describe('batch hashing', () => {
+    const inputs = ['', 'abc', new TextEncoder().encode('hello world')];
+
+    it('matches the one-shots', () => {
+        const cases = [
+            { many: sha512Many, one: sha512, size: 64 },
+            { many: sha384Many, one: sha384, size: 48 },
+            { many: sha512_256Many, one: sha512_256, size: 32 }
+        ];
+        for (const { many, one, size } of cases) {
+            const out = many(inputs);
+            expect(out).toHaveLength(inputs.length * size);
+            inputs.forEach((input, i) => {
+                expect(toHex(out.subarray(i * size, (i + 1) * size))).toBe(toHex(one(input)));
+            });
+        }
+    });
+
+    it('hashes pre-packed inputs', () => {
+        const data = new TextEncoder().encode('abchello world');
+        const offsets = new Uint32Array([0, 0, 3, 14]);
+        expect(toHex(sha512ManyPacked(data, offsets))).toBe(toHex(sha512Many(inputs)));
+    });
+
+    it('handles an empty batch', () => {
+        expect(sha512Many([])).toHaveLength(0);
+    });
+
+    it('rejects out-of-range offsets', () => {
+        expect(() => sha512ManyPacked(new Uint8Array(4), new Uint32Array([0, 5]))).toThrow('Invalid offsets');
+    });
+});
+
+// ---------------------------------------------------------------------------
+// Streaming hashers
+// ---------------------------------------------------------------------------
+
+describe('streaming hashers', () => {
+    it('match the one-shots across chunks', () => {
+        const data = new TextEncoder().encode(TWO_BLOCK);
+        const cases = [
+            { hasher: new Sha512Hasher(), expected: sha512(data) },
+            { hasher: new Sha384Hasher(), expected: sha384(data) },
+            { hasher: new Sha512_256Hasher(), expected: sha512_256(data) }
+        ];
+        for (const { hasher, expected } of cases) {
+            for (let i = 0; i < data.length; i += 7) {
+                hasher.update(data.subarray(i, i + 7));
+            }
+            expect(toHex(hasher.digest())).toBe(toHex(expected));
+        }
+    });
+
+    it('finalize does not consume state', () => {
+        const hasher = new Sha512Hasher().update('abc');
+        const h1 = hasher.finalize();
+        const h2 = hasher.finalize();
+        hasher.free();
+        expect(toHex(h1)).toBe(SHA512_ABC);
+        expect(toHex(h2)).toBe(SHA512_ABC);
+    });
+
+    it('reset works', () => {
+        const hasher = new Sha384Hasher();
+        hasher.update('garbage');
+        hasher.reset().update('abc');
+        expect(hasher.digest('hex')).toBe(SHA384_ABC);
+    });
+
+    it('clone() forks independent hashers from a shared prefix', () => {
+        const parent = new Sha512_256Hasher().update('hello');
+        const child = parent.clone();
+        parent.update(' there');
+        child.update(' world');
+
+        expect(child).toBeInstanceOf(Sha512_256Hasher);
+        expect(toHex(child.digest())).toBe(toHex(sha512_256('hello world')));
+        expect(toHex(parent.digest())).toBe(toHex(sha512_256('hello there')));
+    });
+
+    it("digest('base64') and digest('base64url') encode in WASM", () => {
+        expect(new Sha512Hasher().update('abc').digest('base64')).toBe(sha512Base64('abc'));
+        expect(new Sha512Hasher().update('abc').digest('base64url')).toBe(sha512Base64Url('abc'));
+    });
+
+    it('digest() rejects unknown encodings without consuming the hasher', () => {
+        const hasher = new Sha512Hasher();
+        // @ts-expect-error -- runtime validation for JS callers
+        expect(() => hasher.digest('latin1')).toThrow('Unsupported digest encoding: latin1');
+        expect(hasher.digest('hex')).toBe(SHA512_EMPTY);
+    });
+
+    it('throws after free', () => {
+        const hasher = new Sha384Hasher();
+        hasher.free();
+        hasher.free(); // idempotent
+        expect(() => hasher.update(new Uint8Array(1))).toThrow('Hasher has been freed');
+        expect(() => hasher.finalize()).toThrow('Hasher has been freed');
+        expect(() => hasher.clone()).toThrow('Hasher has been freed');
+        expect(() => hasher.digest()).toThrow('Hasher has been freed');
+    });
+
+    it('digest() frees the hasher', () => {
+        const hasher = new Sha512Hasher();
+        hasher.digest();
+        expect(() => hasher.update(new Uint8Array(1))).toThrow('Hasher has been freed');
+    });
+});
+
+// ---------------------------------------------------------------------------
+// Async streams
+// ---------------------------------------------------------------------------
+
+describe('stream helpers', () => {
+    it('hash an async iterable', async () => {
+        async function* gen() {
+            yield new TextEncoder().encode('hello');
+            yield new TextEncoder().encode(' world');
+        }
+        expect(toHex(await sha512Stream(gen()))).toBe(toHex(sha512('hello world')));
+    });
+
+    it('handle an empty stream', async () => {
+        async function* gen() {
+            // empty
+        }
+        expect(toHex(await sha384Stream(gen()))).toBe(SHA384_EMPTY);
+    });
+
+    it('hash a ReadableStream', async () => {
+        const stream = new ReadableStream<Uint8Array>({
+            start(controller) {
+                controller.enqueue(new TextEncoder().encode('hello'));
+                controller.enqueue(new TextEncoder().encode(' world'));
+                controller.close();
+            }
+        });
+        expect(toHex(await sha512_256Stream(stream))).toBe(toHex(sha512_256('hello world')));
+    });
+
+    it('hash a Blob', async () => {
+        expect(toHex(await sha384Stream(new Blob(['hello', ' world'])))).toBe(toHex(sha384('hello world')));
+    });
+});
+
+// ---------------------------------------------------------------------------
+// HashAlgorithm interface
+// ---------------------------------------------------------------------------
+
+describe('HashAlgorithm constants', () => {
+    it('have correct metadata', () => {
+        expect(SHA512.name).toBe('sha512');
+        expect(SHA512.digestLength).toBe(64);
+        expect(SHA384.name).toBe('sha384');
+        expect(SHA384.digestLength).toBe(48);
+        expect(SHA512_256.name).toBe('sha512-256');
+        expect(SHA512_256.digestLength).toBe(32);
+    });
+
+    it('createHmac matches the HMAC one-shots', () => {
+        const key = new TextEncoder().encode('key');
+        expect(SHA512.createHmac?.(key).update('test').digest('hex')).toBe(toHex(hmacSha512(key, 'test')));
+        expect(SHA384.createHmac?.(key).update('test').digest('hex')).toBe(toHex(hmacSha384(key, 'test')));
+        expect(SHA512_256.createHmac?.(key).update('test').digest('hex')).toBe(toHex(hmacSha512_256(key, 'test')));
+    });
+
+    it('are registered by name and aliases', () => {
+        expect(getAlgorithm('sha512')).toBe(SHA512);
+        expect(getAlgorithm('SHA-512')).toBe(SHA512);
+        expect(getAlgorithm('sha-384')).toBe(SHA384);
+        expect(getAlgorithm('sha512-256')).toBe(SHA512_256);
+        expect(getAlgorithm('SHA-512/256')).toBe(SHA512_256);
+    });
+
+    it('digestLength matches the actual output', () => {
+        for (const algorithm of [SHA512, SHA384, SHA512_256]) {
+            expect(algorithm.hash('abc').length).toBe(algorithm.digestLength);
+            expect(algorithm.doubleHash('abc').length).toBe(algorithm.digestLength);
+        }
+    });
+
+    it('hash and doubleHash match the one-shots', () => {
+        expect(toHex(SHA384.hash('test'))).toBe(toHex(sha384('test')));
+        expect(toHex(SHA512.doubleHash('test'))).toBe(toHex(doubleSha512('test')));
+    });
+
+    it('hashMany and hashManyPacked match the batch functions', () => {
+        expect(toHex(SHA384.hashMany(['abc', 'test']))).toBe(toHex(sha384Many(['abc', 'test'])));
+        expect(toHex(SHA512.hashManyPacked(new TextEncoder().encode('abc'), new Uint32Array([0, 3])))).toBe(SHA512_ABC);
+    });
+
+    it('stream matches the stream helpers', async () => {
+        async function* gen() {
+            yield 'streaming test';
+        }
+        expect(toHex(await SHA512_256.stream(gen()))).toBe(toHex(sha512_256('streaming test')));
+    });
+
+    it('createHasher returns a working Hasher', () => {
+        const hasher = SHA512.createHasher();
+        hasher.update('abc');
+        const result = hasher.finalize();
+        hasher.free();
+        expect(toHex(result)).toBe(SHA512_ABC);
+    });
+});
@@ -1,13 +1,70 @@
+/**
+ * Data accepted by one-shot hash functions and `Hasher.update()`.
+ *
+ * - `string` is hashed as its UTF-8 encoding (encoded inside WASM).
+ * - `ArrayBuffer`, `SharedArrayBuffer` and any `ArrayBufferView`
+ *   (`Uint8Array`, `DataView`, `Float64Array`, Node.js `Buffer`, …) are
+ *   hashed as their raw bytes, honouring `byteOffset` and `byteLength`.
+ */
+export type HashInput = string | ArrayBufferLike | ArrayBufferView;
+
+/**
+ * Minimal structural subset of a WHATWG `ReadableStream` reader.
+ */
+export interface ReadableStreamReaderLike<T> {
+    read(): Promise<{ done: boolean; value?: T }>;
+    releaseLock(): void;
+}
+
+/**
+ * Minimal structural subset of a WHATWG `ReadableStream`, so the types
+ * do not depend on the DOM or Node.js typings.
+ */
+export interface ReadableStreamLike<T> {
+    getReader(): ReadableStreamReaderLike<T>;
+}
+
+/**
+ * Minimal structural subset of a WHATWG `Blob` (and therefore `File`).
+ */
+export interface BlobLike {
+    stream(): ReadableStreamLike<Uint8Array>;
+}
+
+/**
+ * Sources accepted by `HashAlgorithm.stream()` and the `*Stream()` helpers:
+ * an async iterable of chunks (e.g. a Node.js `Readable`), a WHATWG
+ * `ReadableStream`, or a `Blob` / `File`.
+ */
+export type HashStreamSource = AsyncIterable<HashInput> | ReadableStreamLike<HashInput> | BlobLike;
+
+/**
+ * Text encodings supported for digests. Matches the `node:crypto` names:
+ * `'base64'` is padded, `'base64url'` is unpadded (RFC 4648 §5).
+ */
+export type DigestEncoding = 'hex' | 'base64' | 'base64url';
+
+/**
+ * The build of a WASM module in use: `'simd128'` is compiled with WASM SIMD,
+ * `'baseline'` runs everywhere.
+ */
+export type WasmBackend = 'simd128' | 'baseline';
+
 /**
  * A streaming hasher that accumulates data incrementally.
  */
 export interface Hasher {
     /** Feed data into the hasher. Returns `this` for chaining. */
-    update(data: Uint8Array): this;
+    update(data: HashInput): this;
     /** Finalize and return the hash digest. */
     finalize(): Uint8Array;
     /** Reset the hasher to its initial state. */
     reset(): this;
+    /**
+     * Duplicate the hasher, including any data absorbed so far.
+     * The copy is independent and must be freed separately.
+     */
+    clone(): this;
     /** Release underlying resources (e.g. WASM memory). */
     free(): void;
 
@@ -17,10 +74,34 @@ export interface Hasher {
      *
      * Mirrors `node:crypto`'s `Hash.digest()` API:
      * - `digest()` → `Uint8Array` (raw bytes)
-     * - `digest('hex')` → `string` (hex-encoded, fast path via WASM)
+     * - `digest('hex' | 'base64' | 'base64url')` → `string` (encoded in WASM)
      */
     digest(): Uint8Array;
-    digest(encoding: 'hex'): string;
+    digest(encoding: DigestEncoding): string;
+
+    /**
+     * Consumptive verify — finalizes like `digest()` and compares the result
+     * with `expected` (raw bytes or a hex string, either case) in constant
+     * time, inside WASM. Use it to check MACs and signatures instead of
+     * comparing with `===`, which leaks timing.
+     * The hasher must not be used after calling `verify()`.
+     */
+    verify(expected: Uint8Array | string): boolean;
+}
+
+/**
+ * A hasher that also takes zero-copy input. Check for one with
+ * `isBufferedHasher()`.
+ */
+export interface BufferedHasher extends Hasher {
+    /**
+     * A view of a reusable buffer in WASM memory. Write into it, then call
+     * `commit(length)`. Growing WASM memory detaches earlier views, so read
+     * the property again before each fill instead of keeping the view.
+     */
+    readonly inputBuffer: Uint8Array;
+    /** Hash the first `length` bytes of `inputBuffer`, as if passed to `update()`. */
+    commit(length: number): this;
 }
 
 /**
@@ -32,11 +113,47 @@ export interface HashAlgorithm {
     /** The digest length in bytes (e.g. 32 for SHA-256 / BLAKE3). */
     readonly digestLength: number;
     /** Compute a hash in one shot. */
-    hash(data: Uint8Array): Uint8Array;
+    hash(data: HashInput): Uint8Array;
     /** Compute a double hash: `hash(hash(data))`. */
-    doubleHash(data: Uint8Array): Uint8Array;
+    doubleHash(data: HashInput): Uint8Array;
+    /**
+     * Hash every input in a single WASM call. Returns the digests
+     * concatenated in input order (`inputs.length * digestLength` bytes).
+     */
+    hashMany(inputs: readonly HashInput[]): Uint8Array;
+    /**
+     * Like `hashMany()`, for inputs already packed into one buffer: input `i`
+     * is `data.subarray(offsets[i], offsets[i + 1])`, so `n` inputs take
+     * `n + 1` offsets. Skips the copy `hashMany()` makes to pack its inputs.
+     */
+    hashManyPacked(data: Uint8Array, offsets: Uint32Array): Uint8Array;
     /** Create a streaming hasher. */
     createHasher(): Hasher;
-    /** Hash an async iterable of chunks (streaming). */
-    stream(source: AsyncIterable<Uint8Array>): Promise<Uint8Array>;
+    /**
+     * Create a streaming HMAC keyed with `key`. Only present on algorithms
+     * that provide HMAC (e.g. SHA-256 and the SHA-512 family).
+     */
+    createHmac?(key: Uint8Array): Hasher;
+    /** Hash an async iterable, `ReadableStream` or `Blob` (streaming). */
+    stream(source: HashStreamSource): Promise<Uint8Array>;
+    /**
+     * The WASM build in use, on algorithms that ship a SIMD build next to the
+     * baseline one (BLAKE3 and SHA-256). The SIMD build is picked where the
+     * runtime supports it; both give identical results.
+     */
+    readonly backend?: WasmBackend;
 }
+
+export {
+    assertDigestEncoding,
+    assertNonNegativeInteger,
+    chunksOf,
+    hashChunks,
+    isBufferedHasher,
+    packInputs,
+    toBinary,
+    toBytes,
+    updateBuffered
+} from './input.js';
+export { findAlgorithm, getAlgorithm, listAlgorithms, registerAlgorithm } from './registry.js';
+export { type WasmHasher, WasmHasherBase } from './wasm-hasher.js';
@@ -0,0 +1,132 @@
+import type { BlobLike, BufferedHasher, Hasher, HashInput, HashStreamSource } from './index.js';
+
+// ---------------------------------------------------------------------------
+// Input normalization
+//
+// Shared by the algorithm packages, so input handling lives in one place.
+// ---------------------------------------------------------------------------
+
+/** View binary input as a `Uint8Array` over the same memory (no copy). */
+export function toBytes(data: Exclude<HashInput, string>): Uint8Array {
+    if (data instanceof Uint8Array) {
+        return data;
+    }
+    if (ArrayBuffer.isView(data)) {
+        return new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+    }
+    return new Uint8Array(data);
+}
+
+const encoder = new TextEncoder();
+
+/**
+ * Like `toBytes()`, but strings are UTF-8 encoded in JS. Used where a
+ * function takes several inputs, so per-input `_str` WASM variants don't pay off.
+ */
+export function toBinary(data: HashInput): Uint8Array {
+    return typeof data === 'string' ? encoder.encode(data) : toBytes(data);
+}
+
+/**
+ * Pack `inputs` into one buffer plus `inputs.length + 1` boundary offsets,
+ * the layout taken by the `*_hash_many` WASM functions.
+ */
+export function packInputs(inputs: readonly HashInput[]): [Uint8Array, Uint32Array] {
+    const parts = inputs.map(toBinary);
+    const offsets = new Uint32Array(parts.length + 1);
+    let total = 0;
+    parts.forEach((part, i) => {
+        total += part.byteLength;
+        offsets[i + 1] = total;
+    });
+    if (total > 0xffff_ffff) {
+        throw new RangeError('Batch inputs must total less than 4 GiB');
+    }
+    const data = new Uint8Array(total);
+    let position = 0;
+    for (const part of parts) {
+        data.set(part, position);
+        position += part.byteLength;
+    }
+    return [data, offsets];
+}
+
+function isBlobLike(source: HashStreamSource): source is BlobLike {
+    return typeof (source as BlobLike).stream === 'function';
+}
+
+/** Iterate the chunks of an async iterable, `ReadableStream` or `Blob`. */
+export async function* chunksOf(source: HashStreamSource): AsyncGenerator<HashInput> {
+    const iterable = isBlobLike(source) ? source.stream() : source;
+    if (!('getReader' in iterable)) {
+        yield* iterable;
+        return;
+    }
+    const reader = iterable.getReader();
+    try {
+        for (;;) {
+            const { done, value } = await reader.read();
+            if (done) {
+                return;
+            }
+            if (value !== undefined) {
+                yield value;
+            }
+        }
+    } finally {
+        reader.releaseLock();
+    }
+}
+
+/** Whether `hasher` takes zero-copy input: it has both `inputBuffer` and `commit()`. */
+export function isBufferedHasher(hasher: Hasher): hasher is BufferedHasher {
+    const candidate = hasher as Partial<BufferedHasher>;
+    return candidate.inputBuffer instanceof Uint8Array && typeof candidate.commit === 'function';
+}
+
+/**
+ * Feed `data` into `hasher`, through its input buffer one buffer-sized piece
+ * at a time where it is a `BufferedHasher`, and through `update()` otherwise.
+ */
+export function updateBuffered(hasher: Hasher, data: HashInput): void {
+    if (typeof data === 'string' || !isBufferedHasher(hasher)) {
+        hasher.update(data);
+        return;
+    }
+    const bytes = toBytes(data);
+    for (let offset = 0; offset < bytes.byteLength; ) {
+        const input = hasher.inputBuffer;
+        const piece = bytes.subarray(offset, offset + input.byteLength);
+        input.set(piece);
+        hasher.commit(piece.byteLength);
+        offset += piece.byteLength;
+    }
+}
+
+/** Feed every chunk of `source` into `hasher`, then finalize and free it. */
+export async function hashChunks(hasher: Hasher, source: HashStreamSource): Promise<Uint8Array> {
+    try {
+        for await (const chunk of chunksOf(source)) {
+            updateBuffered(hasher, chunk);
+        }
+        return hasher.finalize();
+    } finally {
+        hasher.free();
+    }
+}
+
+// ---------------------------------------------------------------------------
+// Argument validation
+// ---------------------------------------------------------------------------
+
+export function assertNonNegativeInteger(value: number, name: string): void {
+    if (!Number.isSafeInteger(value) || value < 0) {
+        throw new RangeError(`${name} must be a non-negative integer`);
+    }
+}
+
+export function assertDigestEncoding(encoding: string | undefined): void {
+    if (encoding !== undefined && encoding !== 'hex' && encoding !== 'base64' && encoding !== 'base64url') {
+        throw new TypeError(`Unsupported digest encoding: ${encoding}`);
+    }
+}
@@ -0,0 +1,70 @@
+import type { HashAlgorithm } from './index.js';
+
+// ---------------------------------------------------------------------------
+// Algorithm registry
+//
+// Every hashbuf algorithm package registers its `HashAlgorithm` singletons
+// when it is imported, so code that receives an algorithm name from a config
+// file or a wire protocol can look up the implementation by that name.
+// Names are case-insensitive.
+// ---------------------------------------------------------------------------
+
+/** Canonical algorithm name → algorithm. */
+const algorithms = new Map<string, HashAlgorithm>();
+/** Lowercase canonical name or alias → canonical name. */
+const names = new Map<string, string>();
+
+function normalize(name: string): string {
+    return name.toLowerCase();
+}
+
+/**
+ * Register `algorithm` under its `name` and any `aliases`, so
+ * `getAlgorithm()` can find it. Registering a name again replaces the
+ * previous algorithm, which lets an application substitute its own
+ * implementation.
+ *
+ * ```ts
+ * registerAlgorithm(SHA256, ['sha-256', 'sha2-256']);
+ * getAlgorithm('SHA-256'); // SHA256
+ * ```
+ */
+export function registerAlgorithm(algorithm: HashAlgorithm, aliases: readonly string[] = []): void {
+    const name = normalize(algorithm.name);
+    algorithms.set(name, algorithm);
+    names.set(name, name);
+    for (const alias of aliases) {
+        names.set(normalize(alias), name);
+    }
+}
+
+/**
+ * Look up a registered algorithm by name or alias (case-insensitive).
+ * Throws if no algorithm is registered under `name`; the message lists the
+ * available algorithms. Algorithm packages register themselves on import,
+ * so import the package first (e.g. `import '@hashbuf/sha256'`).
+ */
+export function getAlgorithm(name: string): HashAlgorithm {
+    const algorithm = findAlgorithm(name);
+    if (algorithm === undefined) {
+        const available = listAlgorithms();
+        throw new Error(
+            `Unknown hash algorithm '${name}' (available: ${available.length > 0 ? available.join(', ') : 'none'})`
+        );
+    }
+    return algorithm;
+}
+
+/**
+ * Like `getAlgorithm()`, but returns `undefined` instead of throwing when
+ * no algorithm is registered under `name`.
+ */
+export function findAlgorithm(name: string): HashAlgorithm | undefined {
+    const canonical = names.get(normalize(name));
+    return canonical === undefined ? undefined : algorithms.get(canonical);
+}
+
+/** The canonical names of all registered algorithms, sorted. */
+export function listAlgorithms(): string[] {
+    return [...algorithms.keys()].sort();
+}
@@ -0,0 +1,137 @@
+import type { DigestEncoding, Hasher, HashInput } from './index.js';
+import { assertDigestEncoding, toBytes } from './input.js';
+
+// ---------------------------------------------------------------------------
+// WASM-backed hashers
+// ---------------------------------------------------------------------------
+
+/** The methods of a wasm-bindgen hasher class that `WasmHasherBase` wraps. */
+export interface WasmHasher {
+    update(data: Uint8Array): void;
+    updateStr(data: string): void;
+    finalize(): Uint8Array;
+    fork(): this;
+    reset(): void;
+    free(): void;
+    digest(): Uint8Array;
+    digestHex(): string;
+    digestBase64(): string;
+    digestBase64Url(): string;
+}
+
+/**
+ * A `Hasher` around a wasm-bindgen hasher class, for algorithm packages whose
+ * WASM classes all have the `WasmHasher` surface, so that subclasses only
+ * construct the WASM hasher. Subclasses implement `verify()` with their
+ * package's constant-time comparison.
+ */
+export abstract class WasmHasherBase<W extends WasmHasher> implements Hasher {
+    protected inner: W;
+    protected freed = false;
+
+    protected constructor(inner: W) {
+        this.inner = inner;
+    }
+
+    /**
+     * Feed data into the hasher. Can be called multiple times.
+     * Strings are hashed as UTF-8.
+     * @returns `this` for chaining.
+     */
+    update(data: HashInput): this {
+        if (this.freed) {
+            throw new Error('Hasher has been freed');
+        }
+        if (typeof data === 'string') {
+            this.inner.updateStr(data);
+        } else {
+            this.inner.update(toBytes(data));
+        }
+        return this;
+    }
+
+    /**
+     * Finalize and return the hash.
+     * The hasher is NOT consumed — you can continue calling `update()`
+     * after `finalize()` and call `finalize()` again for an updated hash.
+     */
+    finalize(): Uint8Array {
+        if (this.freed) {
+            throw new Error('Hasher has been freed');
+        }
+        return this.inner.finalize();
+    }
+
+    /**
+     * Duplicate the hasher, including any key, seed and data absorbed so far.
+     * The clone owns its own WASM memory and must be freed separately.
+     */
+    clone(): this {
+        if (this.freed) {
+            throw new Error('Hasher has been freed');
+        }
+        const hasher: this = Object.create(Object.getPrototypeOf(this));
+        hasher.inner = this.inner.fork();
+        hasher.freed = false;
+        return hasher;
+    }
+
+    /**
+     * Reset the hasher to its initial state, keeping any key or seed it was
+     * created with.
+     * @returns `this` for chaining.
+     */
+    reset(): this {
+        if (this.freed) {
+            throw new Error('Hasher has been freed');
+        }
+        this.inner.reset();
+        return this;
+    }
+
+    /**
+     * Release the underlying WASM memory.
+     * The hasher must not be used after calling `free()`.
+     */
+    free(): void {
+        if (!this.freed) {
+            this.inner.free();
+            this.freed = true;
+        }
+    }
+
+    /**
+     * Consumptive finalize — returns the hash and releases WASM memory.
+     * The hasher must not be used after calling `digest()`.
+     *
+     * - `digest()` → `Uint8Array` (raw bytes)
+     * - `digest('hex')` → `string` (fast path via WASM)
+     * - `digest('base64')` / `digest('base64url')` → `string` (encoded in WASM)
+     */
+    digest(): Uint8Array;
+    digest(encoding: DigestEncoding): string;
+    digest(encoding?: DigestEncoding): Uint8Array | string {
+        if (this.freed) {
+            throw new Error('Hasher has been freed');
+        }
+        assertDigestEncoding(encoding);
+        this.freed = true;
+        switch (encoding) {
+            case 'hex':
+                return this.inner.digestHex();
+            case 'base64':
+                return this.inner.digestBase64();
+            case 'base64url':
+                return this.inner.digestBase64Url();
+            default:
+                return this.inner.digest();
+        }
+    }
+
+    /**
+     * Consumptive verify — finalizes like `digest()` and compares the result
+     * with `expected` (raw bytes or a hex string) in constant time.
+     * The hasher must not be used after calling `verify()`.
+     */
+    abstract verify(expected: Uint8Array | string): boolean;
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import type { BufferedHasher, Hasher } from '../src/index';
+import { chunksOf, hashChunks, isBufferedHasher, packInputs, toBinary, toBytes, updateBuffered } from '../src/index';
+
+async function collect(source: Parameters<typeof chunksOf>[0]): Promise<Uint8Array[]> {
+    const chunks: Uint8Array[] = [];
+    for await (const chunk of chunksOf(source)) {
+        chunks.push(toBinary(chunk));
+    }
+    return chunks;
+}
+
+describe('input helpers', () => {
+    it('views binary input without copying', () => {
+        const bytes = new Uint8Array([1, 2, 3, 4]);
+        expect(toBytes(bytes)).toBe(bytes);
+        const view = toBytes(new DataView(bytes.buffer, 1, 2));
+        expect(view).toEqual(new Uint8Array([2, 3]));
+        view[0] = 9;
+        expect(bytes[1]).toBe(9);
+        expect(toBytes(bytes.buffer)).toEqual(bytes);
+    });
+
+    it('encodes strings as UTF-8', () => {
+        expect(toBinary('é')).toEqual(new Uint8Array([0xc3, 0xa9]));
+    });
+
+    it('packs inputs with boundary offsets', () => {
+        const [data, offsets] = packInputs(['ab', new Uint8Array([1]), '']);
+        expect(data).toEqual(new Uint8Array([0x61, 0x62, 1]));
+        expect(offsets).toEqual(new Uint32Array([0, 2, 3, 3]));
+    });
+
+    it('iterates async iterables, streams and blobs', async () => {
+        async function* source() {
+            yield 'a';
+            yield new Uint8Array([1]);
+        }
+        expect(await collect(source())).toEqual([new Uint8Array([0x61]), new Uint8Array([1])]);
+        expect(await collect(new Blob(['abc']))).toEqual([new Uint8Array([0x61, 0x62, 0x63])]);
+    });
+
+    it('frees the hasher after hashing chunks', async () => {
+        const seen: number[] = [];
+        let freed = false;
+        const hasher = {
+            update(data) {
+                seen.push(toBinary(data).byteLength);
+                return this;
+            },
+            finalize: () => new Uint8Array(seen),
+            free() {
+                freed = true;
+            }
+        } as Hasher;
+        expect(await hashChunks(hasher, new Blob(['abcd']).stream())).toEqual(new Uint8Array([4]));
+        expect(freed).toBe(true);
+    });
+
+    it('feeds buffered hashers through inputBuffer in buffer-sized pieces', () => {
+        const commits: number[][] = [];
+        const inputBuffer = new Uint8Array(4);
+        const hasher = {
+            inputBuffer,
+            commit(length: number) {
+                commits.push(Array.from(inputBuffer.subarray(0, length)));
+                return this;
+            },
+            update() {
+                throw new Error('update() called');
+            }
+        } as unknown as BufferedHasher;
+        expect(isBufferedHasher(hasher)).toBe(true);
+        updateBuffered(hasher, new Uint8Array([1, 2, 3, 4, 5, 6]));
+        expect(commits).toEqual([
+            [1, 2, 3, 4],
+            [5, 6]
+        ]);
+        expect(isBufferedHasher({ ...hasher, commit: undefined } as unknown as Hasher)).toBe(false);
+    });
+});
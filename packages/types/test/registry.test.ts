@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import type { HashAlgorithm } from '../src/index';
+import { findAlgorithm, getAlgorithm, listAlgorithms, registerAlgorithm } from '../src/index';
+
+function fakeAlgorithm(name: string): HashAlgorithm {
+    const hash = () => new Uint8Array(4);
+    return {
+        name,
+        digestLength: 4,
+        hash,
+        doubleHash: hash,
+        hashMany: hash,
+        hashManyPacked: hash,
+        createHasher: () => {
+            throw new Error('not implemented');
+        },
+        stream: async () => hash()
+    };
+}
+
+describe('algorithm registry', () => {
+    it('looks up algorithms by name and alias, ignoring case', () => {
+        const alpha = fakeAlgorithm('alpha-256');
+        registerAlgorithm(alpha, ['alpha', 'ALPHA2-256']);
+        expect(getAlgorithm('alpha-256')).toBe(alpha);
+        expect(getAlgorithm('Alpha-256')).toBe(alpha);
+        expect(getAlgorithm('alpha')).toBe(alpha);
+        expect(getAlgorithm('alpha2-256')).toBe(alpha);
+        expect(findAlgorithm('ALPHA')).toBe(alpha);
+    });
+
+    it('lists canonical names only', () => {
+        registerAlgorithm(fakeAlgorithm('beta'), ['b']);
+        const names = listAlgorithms();
+        expect(names).toContain('alpha-256');
+        expect(names).toContain('beta');
+        expect(names).not.toContain('alpha');
+        expect(names).not.toContain('b');
+        expect(names).toEqual([...names].sort());
+    });
+
+    it('replaces an algorithm registered under the same name', () => {
+        const first = fakeAlgorithm('gamma');
+        const second = fakeAlgorithm('gamma');
+        registerAlgorithm(first, ['g']);
+        registerAlgorithm(second);
+        expect(getAlgorithm('gamma')).toBe(second);
+        expect(getAlgorithm('g')).toBe(second);
+    });
+
+    it('throws on unknown names, listing the available algorithms', () => {
+        expect(findAlgorithm('md5')).toBeUndefined();
+        expect(() => getAlgorithm('md5')).toThrow(
+            `Unknown hash algorithm 'md5' (available: ${listAlgorithms().join(', ')})`
+        );
+    });
+});
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import type { WasmHasher } from '../src/index';
+import { WasmHasherBase } from '../src/index';
+
+/** Stands in for a wasm-bindgen class: the "digest" is the bytes absorbed so far. */
+class FakeWasmHasher implements WasmHasher {
+    bytes: number[] = [];
+    freed = false;
+
+    update(data: Uint8Array): void {
+        this.bytes.push(...data);
+    }
+    updateStr(data: string): void {
+        this.update(new TextEncoder().encode(data));
+    }
+    finalize(): Uint8Array {
+        return new Uint8Array(this.bytes);
+    }
+    fork(): this {
+        const fork = new FakeWasmHasher() as this;
+        fork.bytes = [...this.bytes];
+        return fork;
+    }
+    reset(): void {
+        this.bytes = [];
+    }
+    free(): void {
+        this.freed = true;
+    }
+    digest(): Uint8Array {
+        this.free();
+        return this.finalize();
+    }
+    digestHex(): string {
+        return Array.from(this.digest(), (b) => b.toString(16).padStart(2, '0')).join('');
+    }
+    digestBase64(): string {
+        this.free();
+        return 'base64';
+    }
+    digestBase64Url(): string {
+        this.free();
+        return 'base64url';
+    }
+}
+
+class TestHasher extends WasmHasherBase<FakeWasmHasher> {
+    constructor() {
+        super(new FakeWasmHasher());
+    }
+
+    get wasm(): FakeWasmHasher {
+        return this.inner;
+    }
+
+    verify(expected: Uint8Array | string): boolean {
+        return this.digest('hex') === expected;
+    }
+}
+
+describe('WasmHasherBase', () => {
+    it('feeds strings and binary input to the WASM hasher', () => {
+        const hasher = new TestHasher().update('a').update(new Uint16Array([0x0302]));
+        expect(hasher.finalize()).toEqual(new Uint8Array([0x61, 2, 3]));
+        expect(hasher.reset().update('b').digest('hex')).toBe('62');
+    });
+
+    it('clones into an independent hasher of the same class', () => {
+        const hasher = new TestHasher().update('a');
+        const clone = hasher.clone().update('b');
+        expect(clone).toBeInstanceOf(TestHasher);
+        expect(hasher.digest()).toEqual(new Uint8Array([0x61]));
+        expect(clone.verify('6162')).toBe(true);
+    });
+
+    it('frees once and rejects use afterwards', () => {
+        const hasher = new TestHasher();
+        const { wasm } = hasher;
+        expect(hasher.digest('base64url')).toBe('base64url');
+        expect(wasm.freed).toBe(true);
+        hasher.free();
+        expect(() => hasher.update('a')).toThrow('Hasher has been freed');
+        expect(() => hasher.clone()).toThrow('Hasher has been freed');
+        expect(() => new TestHasher().digest('latin1' as 'hex')).toThrow('Unsupported digest encoding: latin1');
+    });
+});
@@ -0,0 +1,362 @@
+import type { HashAlgorithm, HashInput, HashStreamSource, WasmHasher } from '@hashbuf/types';
+import { hashChunks, packInputs, registerAlgorithm, toBytes, WasmHasherBase } from '@hashbuf/types';
+import {
+    timing_safe_equal,
+    timing_safe_equal_hex,
+    Xxh3_64Hasher as WasmXxh3_64Hasher,
+    Xxh3_128Hasher as WasmXxh3_128Hasher,
+    Xxh64Hasher as WasmXxh64Hasher,
+    xxh3_64_hash,
+    xxh3_64_hash_many,
+    xxh3_64_hash_str,
+    xxh3_64_hex,
+    xxh3_64_hex_str,
+    xxh3_64_u64,
+    xxh3_64_u64_str,
+    xxh3_128_hash,
+    xxh3_128_hash_many,
+    xxh3_128_hash_str,
+    xxh3_128_hex,
+    xxh3_128_hex_str,
+    xxh64_hash,
+    xxh64_hash_many,
+    xxh64_hash_str,
+    xxh64_hex,
+    xxh64_hex_str,
+    xxh64_u64,
+    xxh64_u64_str
+} from './wasm-inline/hashbuf_xxhash.js';
+
+/**
+ * Seed for the xxHash functions: an unsigned 64-bit integer, given as a
+ * `bigint` or as a non-negative safe-integer `number`. Defaults to `0`.
+ */
+export type XxhashSeed = number | bigint;
+
+const MAX_SEED = 0xffff_ffff_ffff_ffffn;
+
+/** Validate `seed` and convert it to the `bigint` expected by WASM. */
+function toSeed(seed: XxhashSeed = 0): bigint {
+    if (typeof seed === 'number' ? Number.isSafeInteger(seed) && seed >= 0 : seed >= 0n && seed <= MAX_SEED) {
+        return BigInt(seed);
+    }
+    throw new RangeError('Seed must be an unsigned 64-bit integer');
+}
+
+/** Read big-endian digest bytes as an unsigned integer. */
+function toBigInt(bytes: Uint8Array): bigint {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    let value = 0n;
+    for (let i = 0; i < bytes.byteLength; i += 8) {
+        value = (value << 64n) | view.getBigUint64(i);
+    }
+    return value;
+}
+
+// ---------------------------------------------------------------------------
+// XXH3-64 one-shot helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Compute XXH3-64 hash of `data` in one shot. Strings are hashed as UTF-8.
+ * Returns the 8-byte big-endian (canonical) form.
+ */
+export function xxh3_64(data: HashInput, seed?: XxhashSeed): Uint8Array {
+    return typeof data === 'string' ? xxh3_64_hash_str(data, toSeed(seed)) : xxh3_64_hash(toBytes(data), toSeed(seed));
+}
+
+/**
+ * Compute XXH3-64 hash of `data` in one shot, returning a 16-char hex string.
+ * Hex encoding is performed in WASM.
+ */
+export function xxh3_64Hex(data: HashInput, seed?: XxhashSeed): string {
+    return typeof data === 'string' ? xxh3_64_hex_str(data, toSeed(seed)) : xxh3_64_hex(toBytes(data), toSeed(seed));
+}
+
+/**
+ * Compute XXH3-64 hash of `data` in one shot, returning the result as a
+ * `bigint` (e.g. for use as a `Map` key).
+ */
+export function xxh3_64BigInt(data: HashInput, seed?: XxhashSeed): bigint {
+    return typeof data === 'string' ? xxh3_64_u64_str(data, toSeed(seed)) : xxh3_64_u64(toBytes(data), toSeed(seed));
+}
+
+// ---------------------------------------------------------------------------
+// XXH3-128 one-shot helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Compute XXH3-128 hash of `data` in one shot. Strings are hashed as UTF-8.
+ * Returns the 16-byte big-endian (canonical) form.
+ */
+export function xxh3_128(data: HashInput, seed?: XxhashSeed): Uint8Array {
+    return typeof data === 'string'
+        ? xxh3_128_hash_str(data, toSeed(seed))
+        : xxh3_128_hash(toBytes(data), toSeed(seed));
+}
+
+/**
+ * Compute XXH3-128 hash of `data` in one shot, returning a 32-char hex string.
+ * Hex encoding is performed in WASM.
+ */
+export function xxh3_128Hex(data: HashInput, seed?: XxhashSeed): string {
+    return typeof data === 'string' ? xxh3_128_hex_str(data, toSeed(seed)) : xxh3_128_hex(toBytes(data), toSeed(seed));
+}
+
+/** Compute XXH3-128 hash of `data` in one shot, returning the result as a `bigint`. */
+export function xxh3_128BigInt(data: HashInput, seed?: XxhashSeed): bigint {
+    return toBigInt(xxh3_128(data, seed));
+}
+
+// ---------------------------------------------------------------------------
+// XXH64 one-shot helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Compute XXH64 hash of `data` in one shot. Strings are hashed as UTF-8.
+ * Returns the 8-byte big-endian (canonical) form.
+ */
+export function xxh64(data: HashInput, seed?: XxhashSeed): Uint8Array {
+    return typeof data === 'string' ? xxh64_hash_str(data, toSeed(seed)) : xxh64_hash(toBytes(data), toSeed(seed));
+}
+
+/**
+ * Compute XXH64 hash of `data` in one shot, returning a 16-char hex string.
+ * Hex encoding is performed in WASM.
+ */
+export function xxh64Hex(data: HashInput, seed?: XxhashSeed): string {
+    return typeof data === 'string' ? xxh64_hex_str(data, toSeed(seed)) : xxh64_hex(toBytes(data), toSeed(seed));
+}
+
+/** Compute XXH64 hash of `data` in one shot, returning the result as a `bigint`. */
+export function xxh64BigInt(data: HashInput, seed?: XxhashSeed): bigint {
+    return typeof data === 'string' ? xxh64_u64_str(data, toSeed(seed)) : xxh64_u64(toBytes(data), toSeed(seed));
+}
+
+// ---------------------------------------------------------------------------
+// Constant-time comparison
+// ---------------------------------------------------------------------------
+
+/**
+ * Compare a computed digest with an expected one in constant time (in
+ * WASM). `expected` may be raw bytes or a hex string (either case). Values
+ * of different lengths and malformed hex compare unequal.
+ *
+ * XXH3 and XXH64 are not cryptographic: they detect accidental changes, not
+ * tampering, so use a cryptographic hash or MAC when the input is untrusted.
+ *
+ * ```ts
+ * const ok = timingSafeEqual(xxh3_64(data), expectedHex);
+ * ```
+ */
+export function timingSafeEqual(actual: Uint8Array, expected: Uint8Array | string): boolean {
+    return typeof expected === 'string' ? timing_safe_equal_hex(actual, expected) : timing_safe_equal(actual, expected);
+}
+
+// ---------------------------------------------------------------------------
+// Batch hashing
+// ---------------------------------------------------------------------------
+
+/**
+ * Hash every input with XXH3-64 in a single WASM call. Strings are hashed as
+ * UTF-8. Returns the 8-byte big-endian results concatenated in input order.
+ */
+export function xxh3_64Many(inputs: readonly HashInput[], seed?: XxhashSeed): Uint8Array {
+    const [data, offsets] = packInputs(inputs);
+    return xxh3_64_hash_many(data, offsets, toSeed(seed));
+}
+
+/**
+ * Hash inputs packed into one buffer with XXH3-64 in a single WASM call:
+ * input `i` is `data.subarray(offsets[i], offsets[i + 1])`.
+ */
+export function xxh3_64ManyPacked(data: Uint8Array, offsets: Uint32Array, seed?: XxhashSeed): Uint8Array {
+    return xxh3_64_hash_many(data, offsets, toSeed(seed));
+}
+
+/**
+ * Hash every input with XXH3-128 in a single WASM call. Strings are hashed as
+ * UTF-8. Returns the 16-byte big-endian results concatenated in input order.
+ */
+export function xxh3_128Many(inputs: readonly HashInput[], seed?: XxhashSeed): Uint8Array {
+    const [data, offsets] = packInputs(inputs);
+    return xxh3_128_hash_many(data, offsets, toSeed(seed));
+}
+
+/**
+ * Hash inputs packed into one buffer with XXH3-128 in a single WASM call:
+ * input `i` is `data.subarray(offsets[i], offsets[i + 1])`.
+ */
+export function xxh3_128ManyPacked(data: Uint8Array, offsets: Uint32Array, seed?: XxhashSeed): Uint8Array {
+    return xxh3_128_hash_many(data, offsets, toSeed(seed));
+}
+
+/**
+ * Hash every input with XXH64 in a single WASM call. Strings are hashed as
+ * UTF-8. Returns the 8-byte big-endian results concatenated in input order.
+ */
+export function xxh64Many(inputs: readonly HashInput[], seed?: XxhashSeed): Uint8Array {
+    const [data, offsets] = packInputs(inputs);
+    return xxh64_hash_many(data, offsets, toSeed(seed));
+}
+
+/**
+ * Hash inputs packed into one buffer with XXH64 in a single WASM call:
+ * input `i` is `data.subarray(offsets[i], offsets[i + 1])`.
+ */
+export function xxh64ManyPacked(data: Uint8Array, offsets: Uint32Array, seed?: XxhashSeed): Uint8Array {
+    return xxh64_hash_many(data, offsets, toSeed(seed));
+}
+
+// ---------------------------------------------------------------------------
+// Streaming hashers
+// ---------------------------------------------------------------------------
+
+/**
+ * Common base of the hasher classes below, which differ only in the WASM
+ * hasher they construct. Digests are big-endian bytes.
+ */
+abstract class XxHasher<W extends WasmHasher> extends WasmHasherBase<W> {
+    /** Like `finalize()`, but returns the result as a `bigint`. */
+    finalizeBigInt(): bigint {
+        return toBigInt(this.finalize());
+    }
+
+    /**
+     * Consumptive verify — finalizes like `digest()` and compares the result
+     * with `expected` (raw bytes or a hex string) in constant time.
+     * The hasher must not be used after calling `verify()`.
+     */
+    verify(expected: Uint8Array | string): boolean {
+        return timingSafeEqual(this.digest(), expected);
+    }
+
+    /** Consumptive finalize returning the result as a `bigint`. */
+    digestBigInt(): bigint {
+        return toBigInt(this.digest());
+    }
+
+    /**
+     * Support for TC39 Explicit Resource Management.
+     * Allows `using hasher = new Xxh3_64Hasher()`.
+     */
+    [Symbol.dispose](): void {
+        this.free();
+    }
+}
+
+/**
+ * Streaming XXH3-64 hasher backed by WASM.
+ *
+ * Usage:
+ * ```ts
+ * const hasher = new Xxh3_64Hasher(seed);
+ * hasher.update(chunk1);
+ * hasher.update(chunk2);
+ * const key = hasher.digestBigInt(); // auto-frees
+ * ```
+ */
+export class Xxh3_64Hasher extends XxHasher<WasmXxh3_64Hasher> {
+    /** Create a new XXH3-64 hasher. */
+    constructor(seed?: XxhashSeed) {
+        super(new WasmXxh3_64Hasher(toSeed(seed)));
+    }
+}
+
+/** Streaming XXH3-128 hasher backed by WASM. Produces 16-byte digests. */
+export class Xxh3_128Hasher extends XxHasher<WasmXxh3_128Hasher> {
+    /** Create a new XXH3-128 hasher. */
+    constructor(seed?: XxhashSeed) {
+        super(new WasmXxh3_128Hasher(toSeed(seed)));
+    }
+}
+
+/** Streaming XXH64 hasher backed by WASM. Produces 8-byte digests. */
+export class Xxh64Hasher extends XxHasher<WasmXxh64Hasher> {
+    /** Create a new XXH64 hasher. */
+    constructor(seed?: XxhashSeed) {
+        super(new WasmXxh64Hasher(toSeed(seed)));
+    }
+}
+
+// ---------------------------------------------------------------------------
+// Streaming helpers for async iterables
+// ---------------------------------------------------------------------------
+
+/**
+ * Hash an async iterable of chunks, a `ReadableStream` or a `Blob` / `File`
+ * using XXH3-64 streaming.
+ */
+export function xxh3_64Stream(source: HashStreamSource, seed?: XxhashSeed): Promise<Uint8Array> {
+    return hashChunks(new Xxh3_64Hasher(seed), source);
+}
+
+/**
+ * Hash an async iterable of chunks, a `ReadableStream` or a `Blob` / `File`
+ * using XXH3-128 streaming.
+ */
+export function xxh3_128Stream(source: HashStreamSource, seed?: XxhashSeed): Promise<Uint8Array> {
+    return hashChunks(new Xxh3_128Hasher(seed), source);
+}
+
+/**
+ * Hash an async iterable of chunks, a `ReadableStream` or a `Blob` / `File`
+ * using XXH64 streaming.
+ */
+export function xxh64Stream(source: HashStreamSource, seed?: XxhashSeed): Promise<Uint8Array> {
+    return hashChunks(new Xxh64Hasher(seed), source);
+}
+
+// ---------------------------------------------------------------------------
+// HashAlgorithm implementations
+// ---------------------------------------------------------------------------
+
+/**
+ * XXH3-64 (seed 0) as a `HashAlgorithm` — unified interface for all hashbuf
+ * algorithms. Not suitable for cryptographic use.
+ */
+export const XXH3_64: HashAlgorithm = {
+    name: 'xxh3-64',
+    digestLength: 8,
+    hash: (data) => xxh3_64(data),
+    doubleHash: (data) => xxh3_64(xxh3_64(data)),
+    hashMany: (inputs) => xxh3_64Many(inputs),
+    hashManyPacked: (data, offsets) => xxh3_64ManyPacked(data, offsets),
+    createHasher: () => new Xxh3_64Hasher(),
+    stream: (source) => xxh3_64Stream(source)
+} as const;
+
+/**
+ * XXH3-128 (seed 0) as a `HashAlgorithm` — unified interface for all hashbuf
+ * algorithms. Not suitable for cryptographic use.
+ */
+export const XXH3_128: HashAlgorithm = {
+    name: 'xxh3-128',
+    digestLength: 16,
+    hash: (data) => xxh3_128(data),
+    doubleHash: (data) => xxh3_128(xxh3_128(data)),
+    hashMany: (inputs) => xxh3_128Many(inputs),
+    hashManyPacked: (data, offsets) => xxh3_128ManyPacked(data, offsets),
+    createHasher: () => new Xxh3_128Hasher(),
+    stream: (source) => xxh3_128Stream(source)
+} as const;
+
+/**
+ * XXH64 (seed 0) as a `HashAlgorithm` — unified interface for all hashbuf
+ * algorithms. Not suitable for cryptographic use.
+ */
+export const XXH64: HashAlgorithm = {
+    name: 'xxh64',
+    digestLength: 8,
+    hash: (data) => xxh64(data),
+    doubleHash: (data) => xxh64(xxh64(data)),
+    hashMany: (inputs) => xxh64Many(inputs),
+    hashManyPacked: (data, offsets) => xxh64ManyPacked(data, offsets),
+    createHasher: () => new Xxh64Hasher(),
+    stream: (source) => xxh64Stream(source)
+} as const;
+
+// Make the algorithms available by name through `getAlgorithm()`
+registerAlgorithm(XXH3_64, ['xxh3']);
+registerAlgorithm(XXH3_128, ['xxh128']);
+registerAlgorithm(XXH64);
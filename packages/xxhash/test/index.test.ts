@@ -0,0 +1,305 @@
+import { getAlgorithm } from '@hashbuf/types';
+import { describe, expect, it } from 'vitest';
+import {
+    timingSafeEqual,
+    XXH3_64,
+    XXH3_128,
+    XXH64,
+    Xxh3_64Hasher,
+    Xxh3_128Hasher,
+    Xxh64Hasher,
+    xxh3_64,
+    xxh3_64BigInt,
+    xxh3_64Hex,
+    xxh3_64Many,
+    xxh3_64ManyPacked,
+    xxh3_64Stream,
+    xxh3_128,
+    xxh3_128BigInt,
+    xxh3_128Hex,
+    xxh3_128Many,
+    xxh3_128Stream,
+    xxh64,
+    xxh64BigInt,
+    xxh64Hex,
+    xxh64Many,
+    xxh64Stream
+} from '../src/index.js';
+
+// Helper to convert Uint8Array to hex string
+function toHex(buf: Uint8Array): string {
+    return Array.from(buf)
+        .map((b) => b.toString(16).padStart(2, '0'))
+        .join('');
+}
+
+// Reference values as printed by `xxhsum` (canonical big-endian form)
+const XXH3_64_EMPTY = '2d06800538d394c2';
+const XXH3_64_ABC = '78af5f94892f3950';
+const XXH3_128_EMPTY = '99aa06d3014798d86001c324468d497f';
+const XXH3_128_HELLO_WORLD = 'df8d09e93f874900a99b8775cc15b6c7';
+const XXH64_EMPTY = 'ef46db3751d8e999';
+const XXH64_ABC = '44bc2cf5ad770999';
+
+// ---------------------------------------------------------------------------
+// One-shot
+// ---------------------------------------------------------------------------
+
+describe('xxh3_64 one-shot', () => {
+    it('hashes empty input', () => {
+        expect(toHex(xxh3_64(new Uint8Array(0)))).toBe(XXH3_64_EMPTY);
+        expect(xxh3_64Hex('')).toBe(XXH3_64_EMPTY);
+    });
+
+    it("hashes 'abc'", () => {
+        expect(toHex(xxh3_64(new TextEncoder().encode('abc')))).toBe(XXH3_64_ABC);
+        expect(xxh3_64Hex('abc')).toBe(XXH3_64_ABC);
+        expect(xxh3_64BigInt('abc')).toBe(0x78af5f94892f3950n);
+        expect(xxh3_64BigInt(new TextEncoder().encode('abc'))).toBe(0x78af5f94892f3950n);
+    });
+
+    it('accepts number and bigint seeds', () => {
+        expect(xxh3_64Hex('abc', 42)).toBe('d8438def21bbdcc3');
+        expect(xxh3_64Hex('abc', 42n)).toBe('d8438def21bbdcc3');
+        expect(xxh3_64Hex('abc', 0)).toBe(XXH3_64_ABC);
+    });
+});
+
+describe('xxh3_128 one-shot', () => {
+    it('hashes known vectors', () => {
+        expect(toHex(xxh3_128(new Uint8Array(0)))).toBe(XXH3_128_EMPTY);
+        expect(xxh3_128Hex('hello world')).toBe(XXH3_128_HELLO_WORLD);
+        expect(xxh3_128Hex('abc', 42n)).toBe('4bc24859f045e0b4d8438def21bbdcc3');
+    });
+
+    it('returns a 128-bit bigint', () => {
+        expect(xxh3_128BigInt('hello world')).toBe(BigInt(`0x${XXH3_128_HELLO_WORLD}`));
+    });
+});
+
+describe('xxh64 one-shot', () => {
+    it('hashes known vectors', () => {
+        expect(toHex(xxh64(new Uint8Array(0)))).toBe(XXH64_EMPTY);
+        expect(xxh64Hex('abc')).toBe(XXH64_ABC);
+        expect(xxh64BigInt('abc')).toBe(0x44bc2cf5ad770999n);
+        expect(xxh64Hex('hello world', 42)).toBe('69c2b68f9d9352a1');
+    });
+
+    it('accepts the full 64-bit seed range', () => {
+        expect(xxh64Hex('abc', 0xffff_ffff_ffff_ffffn)).toBe('28306e589cc02176');
+    });
+});
+
+describe('seed validation', () => {
+    it('rejects seeds outside the unsigned 64-bit range', () => {
+        expect(() => xxh3_64('abc', -1)).toThrow(RangeError);
+        expect(() => xxh64('abc', 1.5)).toThrow('Seed must be an unsigned 64-bit integer');
+        expect(() => xxh3_128('abc', 2n ** 64n)).toThrow(RangeError);
+        expect(() => new Xxh64Hasher(-1n)).toThrow(RangeError);
+    });
+});
+
+// ---------------------------------------------------------------------------
+// Batch hashing
+// ---------------------------------------------------------------------------
+
+describe('batch hashing', () => {
+    const inputs = ['', 'abc', new TextEncoder().encode('hello world')];
+
+    it('matches the one-shots', () => {
+        const cases = [
+            { many: xxh3_64Many, one: xxh3_64, size: 8 },
+            { many: xxh3_128Many, one: xxh3_128, size: 16 },
+            { many: xxh64Many, one: xxh64, size: 8 }
+        ];
+        for (const { many, one, size } of cases) {
+            const out = many(inputs, 42n);
+            expect(out).toHaveLength(inputs.length * size);
+            inputs.forEach((input, i) => {
+                expect(toHex(out.subarray(i * size, (i + 1) * size))).toBe(toHex(one(input, 42n)));
+            });
+        }
+    });
+
+    it('hashes pre-packed inputs', () => {
+        const data = new TextEncoder().encode('abchello world');
+        const offsets = new Uint32Array([0, 0, 3, 14]);
+        expect(toHex(xxh3_64ManyPacked(data, offsets, 7))).toBe(toHex(xxh3_64Many(inputs, 7)));
+    });
+
+    it('handles an empty batch', () => {
+        expect(xxh64Many([])).toHaveLength(0);
+        expect(xxh3_64ManyPacked(new Uint8Array(0), new Uint32Array(0))).toHaveLength(0);
+    });
+
+    it('rejects out-of-range offsets', () => {
+        expect(() => xxh3_64ManyPacked(new Uint8Array(4), new Uint32Array([0, 5]))).toThrow('Invalid offsets');
+        expect(() => xxh3_64ManyPacked(new Uint8Array(4), new Uint32Array([3, 1]))).toThrow('Invalid offsets');
+    });
+});
+
+// ---------------------------------------------------------------------------
+// Streaming hashers
+// ---------------------------------------------------------------------------
+
+describe('streaming hashers', () => {
+    it('match the one-shots across chunks', () => {
+        const data = new Uint8Array(1000).map((_, i) => i);
+        const cases = [
+            { hasher: new Xxh3_64Hasher(7), expected: xxh3_64(data, 7) },
+            { hasher: new Xxh3_128Hasher(7), expected: xxh3_128(data, 7) },
+            { hasher: new Xxh64Hasher(7), expected: xxh64(data, 7) }
+        ];
+        for (const { hasher, expected } of cases) {
+            for (let i = 0; i < data.length; i += 37) {
+                hasher.update(data.subarray(i, i + 37));
+            }
+            expect(toHex(hasher.digest())).toBe(toHex(expected));
+        }
+    });
+
+    it('finalize does not consume state', () => {
+        const hasher = new Xxh64Hasher().update('abc');
+        expect(toHex(hasher.finalize())).toBe(XXH64_ABC);
+        expect(hasher.finalizeBigInt()).toBe(0x44bc2cf5ad770999n);
+        hasher.update('def');
+        expect(hasher.digest('hex')).toBe(xxh64Hex('abcdef'));
+    });
+
+    it('reset keeps the seed', () => {
+        const hasher = new Xxh3_64Hasher(42);
+        hasher.update('garbage');
+        hasher.reset().update('abc');
+        expect(hasher.digest('hex')).toBe('d8438def21bbdcc3');
+    });
+
+    it('clone() forks independent hashers from a shared prefix', () => {
+        const parent = new Xxh3_128Hasher().update('hello');
+        const child = parent.clone();
+        parent.update(' there');
+        child.update(' world');
+
+        expect(child).toBeInstanceOf(Xxh3_128Hasher);
+        expect(child.digest('hex')).toBe(XXH3_128_HELLO_WORLD);
+        expect(toHex(parent.digest())).toBe(xxh3_128Hex('hello there'));
+    });
+
+    it('digestBigInt() returns the integer and frees the hasher', () => {
+        const hasher = new Xxh3_64Hasher().update('abc');
+        expect(hasher.digestBigInt()).toBe(xxh3_64BigInt('abc'));
+        expect(() => hasher.update('x')).toThrow('Hasher has been freed');
+        expect(new Xxh3_128Hasher().update('hello world').digestBigInt()).toBe(xxh3_128BigInt('hello world'));
+    });
+
+    it("digest('base64') and digest('base64url') encode in WASM", () => {
+        expect(new Xxh3_64Hasher().update('abc').digest('base64')).toBe('eK9flIkvOVA=');
+        expect(new Xxh3_64Hasher().update('abc').digest('base64url')).toBe('eK9flIkvOVA');
+    });
+
+    it('digest() rejects unknown encodings without consuming the hasher', () => {
+        const hasher = new Xxh64Hasher();
+        // @ts-expect-error -- runtime validation for JS callers
+        expect(() => hasher.digest('latin1')).toThrow('Unsupported digest encoding: latin1');
+        expect(hasher.digest('hex')).toBe(XXH64_EMPTY);
+    });
+
+    it('throws after free', () => {
+        const hasher = new Xxh3_64Hasher();
+        hasher.free();
+        hasher.free(); // idempotent
+        expect(() => hasher.update(new Uint8Array(1))).toThrow('Hasher has been freed');
+        expect(() => hasher.finalize()).toThrow('Hasher has been freed');
+        expect(() => hasher.finalizeBigInt()).toThrow('Hasher has been freed');
+        expect(() => hasher.digest()).toThrow('Hasher has been freed');
+    });
+});
+
+// ---------------------------------------------------------------------------
+// Constant-time comparison
+// ---------------------------------------------------------------------------
+
+describe('constant-time verification', () => {
+    it('timingSafeEqual compares bytes and hex', () => {
+        expect(timingSafeEqual(xxh3_64('abc'), xxh3_64Hex('abc'))).toBe(true);
+        expect(timingSafeEqual(xxh3_64('abc'), xxh3_64('abd'))).toBe(false);
+        expect(timingSafeEqual(xxh3_64('abc'), xxh3_128Hex('abc'))).toBe(false);
+    });
+
+    it('Hasher.verify() finalizes and frees the hasher', () => {
+        const hasher = new Xxh64Hasher(7).update('abc');
+        expect(hasher.verify(xxh64Hex('abc', 7))).toBe(true);
+        expect(() => hasher.verify(xxh64Hex('abc', 7))).toThrow('Hasher has been freed');
+        expect(new Xxh3_128Hasher().update('abc').verify(xxh3_128('abd'))).toBe(false);
+    });
+});
+
+// ---------------------------------------------------------------------------
+// Async streams
+// ---------------------------------------------------------------------------
+
+describe('stream helpers', () => {
+    it('hash an async iterable', async () => {
+        async function* gen() {
+            yield new TextEncoder().encode('hello');
+            yield ' world';
+        }
+        expect(toHex(await xxh3_128Stream(gen()))).toBe(XXH3_128_HELLO_WORLD);
+    });
+
+    it('hash a ReadableStream with a seed', async () => {
+        const stream = new ReadableStream<Uint8Array>({
+            start(controller) {
+                controller.enqueue(new TextEncoder().encode('hello'));
+                controller.enqueue(new TextEncoder().encode(' world'));
+                controller.close();
+            }
+        });
+        expect(toHex(await xxh64Stream(stream, 42))).toBe('69c2b68f9d9352a1');
+    });
+
+    it('hash a Blob', async () => {
+        expect(toHex(await xxh3_64Stream(new Blob(['a', 'bc'])))).toBe(XXH3_64_ABC);
+    });
+});
+
+// ---------------------------------------------------------------------------
+// HashAlgorithm interface
+// ---------------------------------------------------------------------------
+
+describe('HashAlgorithm constants', () => {
+    it('have correct metadata', () => {
+        expect([XXH3_64, XXH3_128, XXH64].map((a) => [a.name, a.digestLength])).toEqual([
+            ['xxh3-64', 8],
+            ['xxh3-128', 16],
+            ['xxh64', 8]
+        ]);
+    });
+
+    it('are registered by name and aliases', () => {
+        for (const algorithm of [XXH3_64, XXH3_128, XXH64]) {
+            expect(getAlgorithm(algorithm.name)).toBe(algorithm);
+        }
+        expect(getAlgorithm('xxh3')).toBe(XXH3_64);
+        expect(getAlgorithm('XXH128')).toBe(XXH3_128);
+    });
+
+    it('digestLength matches the actual output', async () => {
+        for (const algorithm of [XXH3_64, XXH3_128, XXH64]) {
+            expect(algorithm.hash('abc')).toHaveLength(algorithm.digestLength);
+            expect(algorithm.doubleHash('abc')).toHaveLength(algorithm.digestLength);
+            expect(algorithm.createHasher().update('abc').digest()).toHaveLength(algorithm.digestLength);
+            expect(await algorithm.stream(new Blob(['abc']))).toHaveLength(algorithm.digestLength);
+        }
+    });
+
+    it('hash and doubleHash match the one-shots', () => {
+        expect(toHex(XXH64.hash('abc'))).toBe(XXH64_ABC);
+        expect(toHex(XXH3_64.doubleHash('abc'))).toBe(toHex(xxh3_64(xxh3_64('abc'))));
+    });
+
+    it('hashMany and hashManyPacked match the batch functions', () => {
+        expect(toHex(XXH3_128.hashMany(['abc', 'hello world']))).toBe(toHex(xxh3_128Many(['abc', 'hello world'])));
+        const packed = XXH64.hashManyPacked(new TextEncoder().encode('abc'), new Uint32Array([0, 3]));
+        expect(toHex(packed)).toBe(XXH64_ABC);
+    });
+});
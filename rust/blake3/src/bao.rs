@@ -0,0 +1,729 @@
+//! Bao verified streaming: BLAKE3's tree encoded alongside the content, so
+//! each 1 KiB chunk can be checked against the root hash as it arrives.
+//!
+//! The root of a Bao encoding is the plain BLAKE3 hash of the content. The
+//! encoding is an 8-byte little-endian content length followed by the tree
+//! in pre-order: every parent node is the 64-byte concatenation of its
+//! children's chaining values, followed by its left and right subtrees. The
+//! outboard encoding has the same layout without the chunks.
+
+use blake3::hazmat::{
+    left_subtree_len, merge_subtrees_non_root, merge_subtrees_root, ChainingValue, HasherExt, Mode,
+};
+use blake3::Hasher;
+
+#[cfg(feature = "wasm")]
+use wasm_bindgen::prelude::*;
+
+const CHUNK_LEN: u64 = 1024;
+const HEADER_LEN: usize = 8;
+const PARENT_LEN: usize = 64;
+
+// ---------------------------------------------------------------------------
+// Tree layout
+// ---------------------------------------------------------------------------
+
+/// Number of parent nodes in the tree over `len` content bytes.
+fn parent_count(len: u64) -> u64 {
+    len.div_ceil(CHUNK_LEN).max(1) - 1
+}
+
+/// Bytes taken by the subtree over `len` content bytes in a combined
+/// (`with_content`) or outboard encoding. Saturates for bogus lengths.
+fn encoded_subtree_len(len: u64, with_content: bool) -> u64 {
+    let parents = parent_count(len).saturating_mul(PARENT_LEN as u64);
+    if with_content {
+        parents.saturating_add(len)
+    } else {
+        parents
+    }
+}
+
+/// The range of content a slice starting at `start` of `len` bytes must
+/// cover. It always includes at least one chunk, and a slice reaching past
+/// the end includes the final chunk, which is what authenticates the length.
+fn slice_bounds(content_len: u64, start: u64, len: u64) -> (u64, u64) {
+    let start = start.min(content_len.saturating_sub(1));
+    let end = start.saturating_add(len).min(content_len).max(start + 1);
+    (start, end)
+}
+
+fn overlaps(offset: u64, len: u64, (start, end): (u64, u64)) -> bool {
+    offset < end && offset + len > start
+}
+
+/// Chaining value of a chunk, or the root hash if it is the whole input.
+fn chunk_cv(chunk: &[u8], offset: u64, is_root: bool) -> ChainingValue {
+    if is_root {
+        *blake3::hash(chunk).as_bytes()
+    } else {
+        Hasher::new()
+            .set_input_offset(offset)
+            .update(chunk)
+            .finalize_non_root()
+    }
+}
+
+/// Chaining value of a parent node, or the root hash if it is the root.
+fn parent_cv(left: &ChainingValue, right: &ChainingValue, is_root: bool) -> ChainingValue {
+    if is_root {
+        *merge_subtrees_root(left, right, Mode::Hash).as_bytes()
+    } else {
+        merge_subtrees_non_root(left, right, Mode::Hash)
+    }
+}
+
+// ---------------------------------------------------------------------------
+// Encoding
+// ---------------------------------------------------------------------------
+
+/// Append the pre-order encoding of the subtree over `input`, which starts
+/// at content byte `offset`, to `out`. Returns its chaining value.
+fn encode_subtree(
+    input: &[u8],
+    offset: u64,
+    is_root: bool,
+    with_content: bool,
+    out: &mut Vec<u8>,
+) -> ChainingValue {
+    if input.len() as u64 <= CHUNK_LEN {
+        if with_content {
+            out.extend_from_slice(input);
+        }
+        return chunk_cv(input, offset, is_root);
+    }
+    // Parent nodes precede their subtrees, so reserve the slot and fill it in
+    // once both children are hashed.
+    let parent = out.len();
+    out.extend_from_slice(&[0; PARENT_LEN]);
+    let left_len = left_subtree_len(input.len() as u64);
+    let (left_input, right_input) = input.split_at(left_len as usize);
+    let left = encode_subtree(left_input, offset, false, with_content, out);
+    let right = encode_subtree(right_input, offset + left_len, false, with_content, out);
+    out[parent..parent + 32].copy_from_slice(&left);
+    out[parent + 32..parent + PARENT_LEN].copy_from_slice(&right);
+    parent_cv(&left, &right, is_root)
+}
+
+fn encode(data: &[u8], with_content: bool) -> Vec<u8> {
+    let len = data.len() as u64;
+    let mut out =
+        Vec::with_capacity(32 + HEADER_LEN + encoded_subtree_len(len, with_content) as usize);
+    out.extend_from_slice(&[0; 32]);
+    out.extend_from_slice(&len.to_le_bytes());
+    let hash = encode_subtree(data, 0, true, with_content, &mut out);
+    out[..32].copy_from_slice(&hash);
+    out
+}
+
+/// Bao combined encoding of `data`. Returns the 32-byte root hash (equal to
+/// `blake3_hash(data)`) followed by the encoding, so the content is only
+/// hashed once.
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn blake3_bao_encode(data: &[u8]) -> Vec<u8> {
+    encode(data, true)
+}
+
+/// Bao outboard encoding of `data` (the tree without the content). Returns
+/// the 32-byte root hash followed by the outboard encoding.
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn blake3_bao_outboard(data: &[u8]) -> Vec<u8> {
+    encode(data, false)
+}
+
+// ---------------------------------------------------------------------------
+// Slice extraction
+// ---------------------------------------------------------------------------
+
+/// Reads parent nodes and chunks from a combined encoding, or parent nodes
+/// from an outboard encoding and chunks from the separate content.
+struct Source<'a> {
+    tree: &'a [u8],
+    position: usize,
+    content: Option<&'a [u8]>,
+}
+
+impl<'a> Source<'a> {
+    fn take(&mut self, len: usize) -> Result<&'a [u8], String> {
+        let end = self.position.saturating_add(len);
+        let bytes = self
+            .tree
+            .get(self.position..end)
+            .ok_or_else(|| "Bao encoding is truncated".to_string())?;
+        self.position = end;
+        Ok(bytes)
+    }
+
+    fn chunk(&mut self, offset: u64, len: u64) -> Result<&'a [u8], String> {
+        match self.content {
+            Some(content) => usize::try_from(offset)
+                .ok()
+                .and_then(|start| content.get(start..start + len as usize))
+                .ok_or_else(|| "Bao content is truncated".to_string()),
+            None => self.take(len as usize),
+        }
+    }
+
+    fn skip(&mut self, len: u64) {
+        let skipped = encoded_subtree_len(len, self.content.is_none());
+        self.position = self
+            .position
+            .saturating_add(usize::try_from(skipped).unwrap_or(usize::MAX));
+    }
+}
+
+fn extract_subtree(
+    source: &mut Source,
+    offset: u64,
+    len: u64,
+    bounds: (u64, u64),
+    out: &mut Vec<u8>,
+) -> Result<(), String> {
+    if len <= CHUNK_LEN {
+        out.extend_from_slice(source.chunk(offset, len)?);
+        return Ok(());
+    }
+    out.extend_from_slice(source.take(PARENT_LEN)?);
+    let left_len = left_subtree_len(len);
+    for (child_offset, child_len) in [(offset, left_len), (offset + left_len, len - left_len)] {
+        if overlaps(child_offset, child_len, bounds) {
+            extract_subtree(source, child_offset, child_len, bounds, out)?;
+        } else {
+            source.skip(child_len);
+        }
+    }
+    Ok(())
+}
+
+fn extract_slice(mut source: Source, start: u64, len: u64) -> Result<Vec<u8>, String> {
+    let header = source.take(HEADER_LEN)?;
+    let content_len = u64::from_le_bytes(header.try_into().unwrap());
+    let mut out = header.to_vec();
+    let bounds = slice_bounds(content_len, start, len);
+    extract_subtree(&mut source, 0, content_len, bounds, &mut out)?;
+    Ok(out)
+}
+
+/// Extract the part of a combined encoding needed to verify `len` content
+/// bytes from `start`: the header, the chunks overlapping the range and the
+/// parent nodes above them.
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn blake3_bao_extract_slice(encoded: &[u8], start: u64, len: u64) -> Result<Vec<u8>, String> {
+    let source = Source {
+        tree: encoded,
+        position: 0,
+        content: None,
+    };
+    extract_slice(source, start, len)
+}
+
+/// Like `blake3_bao_extract_slice`, from the content and its outboard
+/// encoding. The slice has the same format either way.
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn blake3_bao_extract_slice_outboard(
+    data: &[u8],
+    outboard: &[u8],
+    start: u64,
+    len: u64,
+) -> Result<Vec<u8>, String> {
+    let source = Source {
+        tree: outboard,
+        position: 0,
+        content: Some(data),
+    };
+    extract_slice(source, start, len)
+}
+
+// ---------------------------------------------------------------------------
+// Verified decoding
+// ---------------------------------------------------------------------------
+
+/// A subtree still to be read, with the chaining value it must hash to.
+#[derive(Clone, Copy)]
+struct Pending {
+    offset: u64,
+    len: u64,
+    cv: ChainingValue,
+    is_root: bool,
+}
+
+/// Incremental Bao decoder: feed it the encoding in pieces of any size and
+/// it returns the content of each chunk once the chunk and every parent node
+/// above it have been verified against the root hash.
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub struct Blake3BaoDecoder {
+    hash: ChainingValue,
+    /// Requested content range `[start, end)`; the whole input when decoding
+    /// a full encoding.
+    range: (u64, u64),
+    is_slice: bool,
+    /// Outboard tree, read from `outboard_position`; `None` when parent nodes
+    /// are interleaved with the content.
+    outboard: Option<Vec<u8>>,
+    outboard_position: usize,
+    /// Received bytes not yet consumed.
+    buf: Vec<u8>,
+    /// Subtrees still to be read, the next one last.
+    stack: Vec<Pending>,
+    /// Range of content covered once the header is read.
+    bounds: Option<(u64, u64)>,
+}
+
+impl Blake3BaoDecoder {
+    fn with(
+        hash: &[u8],
+        range: (u64, u64),
+        is_slice: bool,
+        outboard: Option<Vec<u8>>,
+    ) -> Result<Blake3BaoDecoder, String> {
+        let hash: ChainingValue = hash
+            .try_into()
+            .map_err(|_| "Hash must be exactly 32 bytes".to_string())?;
+        Ok(Blake3BaoDecoder {
+            hash,
+            range,
+            is_slice,
+            outboard,
+            outboard_position: 0,
+            buf: Vec::new(),
+            stack: Vec::new(),
+            bounds: None,
+        })
+    }
+
+    /// Take the next header or parent node, from the outboard tree if any.
+    /// Returns `None` if more input is needed.
+    fn take_tree(&mut self, len: usize, consumed: &mut usize) -> Result<Option<Vec<u8>>, String> {
+        match &self.outboard {
+            Some(outboard) => {
+                let end = self.outboard_position + len;
+                let bytes = outboard
+                    .get(self.outboard_position..end)
+                    .ok_or_else(|| "Bao outboard encoding is truncated".to_string())?;
+                self.outboard_position = end;
+                Ok(Some(bytes.to_vec()))
+            }
+            None => Ok(self.take_input(len, consumed).map(<[u8]>::to_vec)),
+        }
+    }
+
+    fn is_done(&self) -> bool {
+        self.bounds.is_some() && self.stack.is_empty()
+    }
+
+    fn take_input(&self, len: usize, consumed: &mut usize) -> Option<&[u8]> {
+        let bytes = self.buf.get(*consumed..*consumed + len)?;
+        *consumed += len;
+        Some(bytes)
+    }
+
+    /// Verify as much of the buffered input as possible, appending the
+    /// requested content of verified chunks to `out`.
+    fn advance(&mut self, consumed: &mut usize, out: &mut Vec<u8>) -> Result<(), String> {
+        loop {
+            let bounds = match self.bounds {
+                Some(bounds) => bounds,
+                None => {
+                    let Some(header) = self.take_tree(HEADER_LEN, consumed)? else {
+                        return Ok(());
+                    };
+                    let content_len = u64::from_le_bytes(header.try_into().unwrap());
+                    let bounds = if self.is_slice {
+                        slice_bounds(content_len, self.range.0, self.range.1 - self.range.0)
+                    } else {
+                        (0, content_len)
+                    };
+                    self.stack.push(Pending {
+                        offset: 0,
+                        len: content_len,
+                        cv: self.hash,
+                        is_root: true,
+                    });
+                    self.bounds = Some(bounds);
+                    bounds
+                }
+            };
+            let Some(&node) = self.stack.last() else {
+                return Ok(());
+            };
+
+            if node.len > CHUNK_LEN {
+                let Some(parent) = self.take_tree(PARENT_LEN, consumed)? else {
+                    return Ok(());
+                };
+                let left: ChainingValue = parent[..32].try_into().unwrap();
+                let right: ChainingValue = parent[32..].try_into().unwrap();
+                if parent_cv(&left, &right, node.is_root) != node.cv {
+                    return Err(verification_error(node.offset));
+                }
+                self.stack.pop();
+                let left_len = left_subtree_len(node.len);
+                let children = [
+                    Pending {
+                        offset: node.offset + left_len,
+                        len: node.len - left_len,
+                        cv: right,
+                        is_root: false,
+                    },
+                    Pending {
+                        offset: node.offset,
+                        len: left_len,
+                        cv: left,
+                        is_root: false,
+                    },
+                ];
+                for child in children {
+                    if overlaps(child.offset, child.len, bounds) {
+                        self.stack.push(child);
+                    }
+                }
+            } else {
+                let Some(chunk) = self.take_input(node.len as usize, consumed) else {
+                    return Ok(());
+                };
+                if chunk_cv(chunk, node.offset, node.is_root) != node.cv {
+                    return Err(verification_error(node.offset));
+                }
+                let (start, end) = self.range;
+                let from = start.saturating_sub(node.offset).min(node.len) as usize;
+                let to = end.saturating_sub(node.offset).min(node.len) as usize;
+                out.extend_from_slice(&chunk[from..to.max(from)]);
+                self.stack.pop();
+            }
+        }
+    }
+}
+
+fn verification_error(offset: u64) -> String {
+    format!("Bao verification failed at byte offset {}", offset)
+}
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+impl Blake3BaoDecoder {
+    /// Create a decoder for a combined encoding with the given 32-byte root hash.
+    #[cfg_attr(feature = "wasm", wasm_bindgen(constructor))]
+    pub fn new(hash: &[u8]) -> Result<Blake3BaoDecoder, String> {
+        Self::with(hash, (0, u64::MAX), false, None)
+    }
+
+    /// Create a decoder for content whose parent nodes come from `outboard`.
+    /// `update` then takes the content bytes only.
+    pub fn new_outboard(hash: &[u8], outboard: &[u8]) -> Result<Blake3BaoDecoder, String> {
+        Self::with(hash, (0, u64::MAX), false, Some(outboard.to_vec()))
+    }
+
+    /// Create a decoder for a slice extracted for `len` bytes from `start`.
+    /// It returns exactly the requested range, clamped to the content.
+    pub fn new_slice(hash: &[u8], start: u64, len: u64) -> Result<Blake3BaoDecoder, String> {
+        Self::with(hash, (start, start.saturating_add(len)), true, None)
+    }
+
+    /// Feed the next bytes of the encoding. Returns the content verified by
+    /// them (possibly empty), or an error as soon as a chunk or parent node
+    /// does not match the root hash.
+    pub fn update(&mut self, data: &[u8]) -> Result<Vec<u8>, String> {
+        self.buf.extend_from_slice(data);
+        let mut consumed = 0;
+        let mut out = Vec::new();
+        let result = self.advance(&mut consumed, &mut out);
+        self.buf.drain(..consumed);
+        result?;
+        if self.is_done() && !self.buf.is_empty() {
+            return Err("Unexpected data after the end of the Bao encoding".to_string());
+        }
+        Ok(out)
+    }
+
+    /// Check that the whole encoding has been received.
+    pub fn finish(&self) -> Result<(), String> {
+        if self.is_done() {
+            Ok(())
+        } else {
+            Err("Bao encoding is truncated".to_string())
+        }
+    }
+}
+
+/// Decode and fully verify a combined encoding against its root hash.
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn blake3_bao_decode(encoded: &[u8], hash: &[u8]) -> Result<Vec<u8>, String> {
+    let mut decoder = Blake3BaoDecoder::new(hash)?;
+    let content = decoder.update(encoded)?;
+    decoder.finish()?;
+    Ok(content)
+}
+
+/// Verify content against its outboard encoding and root hash.
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn blake3_bao_decode_outboard(
+    data: &[u8],
+    outboard: &[u8],
+    hash: &[u8],
+) -> Result<Vec<u8>, String> {
+    let mut decoder = Blake3BaoDecoder::new_outboard(hash, outboard)?;
+    let content = decoder.update(data)?;
+    decoder.finish()?;
+    Ok(content)
+}
+
+/// Verify a slice against the root hash and return the `len` content bytes
+/// from `start` (fewer if the range passes the end of the content).
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn blake3_bao_decode_slice(
+    slice: &[u8],
+    hash: &[u8],
+    start: u64,
+    len: u64,
+) -> Result<Vec<u8>, String> {
+    let mut decoder = Blake3BaoDecoder::new_slice(hash, start, len)?;
+    let content = decoder.update(slice)?;
+    decoder.finish()?;
+    Ok(content)
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+#[cfg(test)]
+mod tests {
+    use super::*;
+    use hex::encode;
+
+    const SIZES: [usize; 9] = [0, 1, 1023, 1024, 1025, 2048, 2049, 3072, 9000];
+
+    fn input(len: usize) -> Vec<u8> {
+        (0..len).map(|i| (i % 251) as u8).collect()
+    }
+
+    fn split(encoded: Vec<u8>) -> ([u8; 32], Vec<u8>) {
+        (encoded[..32].try_into().unwrap(), encoded[32..].to_vec())
+    }
+
+    #[test]
+    fn test_root_is_blake3_hash() {
+        for len in SIZES {
+            let data = input(len);
+            let expected = *blake3::hash(&data).as_bytes();
+            assert_eq!(split(blake3_bao_encode(&data)).0, expected, "len {}", len);
+            assert_eq!(split(blake3_bao_outboard(&data)).0, expected, "len {}", len);
+        }
+    }
+
+    #[test]
+    fn test_encoded_layout() {
+        let data = input(2049);
+        let (hash, encoded) = split(blake3_bao_encode(&data));
+        let (_, outboard) = split(blake3_bao_outboard(&data));
+        // Header, two parent nodes and three chunks
+        assert_eq!(encoded.len(), 8 + 2 * 64 + 2049);
+        assert_eq!(outboard.len(), 8 + 2 * 64);
+        assert_eq!(&encoded[..8], &2049u64.to_le_bytes());
+        assert_eq!(&encoded[..8 + 64], &outboard[..8 + 64]);
+        assert_eq!(&encoded[8 + 64..8 + 64 + 64], &outboard[8 + 64..]);
+        assert_eq!(&encoded[8 + 128..], &data[..]);
+        assert_eq!(encode(hash), encode(blake3::hash(&data).as_bytes()));
+    }
+
+    #[test]
+    fn test_empty_encoding() {
+        let (hash, encoded) = split(blake3_bao_encode(b""));
+        assert_eq!(
+            encode(hash),
+            "af1349b9f5f9a1a6a0404dea36dcc9499bcb25c9adc112b7cc9a93cae41f3262"
+        );
+        assert_eq!(encoded, vec![0; 8]);
+        assert_eq!(blake3_bao_decode(&encoded, &hash).unwrap(), b"");
+    }
+
+    #[test]
+    fn test_decode_round_trip() {
+        for len in SIZES {
+            let data = input(len);
+            let (hash, encoded) = split(blake3_bao_encode(&data));
+            let (_, outboard) = split(blake3_bao_outboard(&data));
+            assert_eq!(
+                blake3_bao_decode(&encoded, &hash).unwrap(),
+                data,
+                "len {}",
+                len
+            );
+            assert_eq!(
+                blake3_bao_decode_outboard(&data, &outboard, &hash).unwrap(),
+                data,
+                "len {}",
+                len
+            );
+        }
+    }
+
+    #[test]
+    fn test_decoder_incremental() {
+        let data = input(9000);
+        let (hash, encoded) = split(blake3_bao_encode(&data));
+        let mut decoder = Blake3BaoDecoder::new(&hash).unwrap();
+        let mut decoded = Vec::new();
+        for piece in encoded.chunks(97) {
+            decoded.extend(decoder.update(piece).unwrap());
+            // Nothing is released before its chunk is complete
+            assert!(decoded.len() % 1024 == 0 || decoded.len() == data.len());
+        }
+        decoder.finish().unwrap();
+        assert_eq!(decoded, data);
+    }
+
+    #[test]
+    fn test_decoder_fails_at_first_bad_chunk() {
+        let data = input(9000);
+        let (hash, mut encoded) = split(blake3_bao_encode(&data));
+        // Corrupt content byte 5000, in the fifth chunk (offset 4096)
+        let parents = 8 * 64;
+        encoded[8 + parents + 5000] ^= 1;
+        let mut decoder = Blake3BaoDecoder::new(&hash).unwrap();
+        let mut decoded = Vec::new();
+        let mut error = None;
+        for piece in encoded.chunks(512) {
+            match decoder.update(piece) {
+                Ok(bytes) => decoded.extend(bytes),
+                Err(e) => {
+                    error = Some(e);
+                    break;
+                }
+            }
+        }
+        assert_eq!(
+            error.unwrap(),
+            "Bao verification failed at byte offset 4096"
+        );
+        assert_eq!(decoded, &data[..4096]);
+    }
+
+    #[test]
+    fn test_decode_rejects_tampering() {
+        let data = input(3000);
+        let (hash, encoded) = split(blake3_bao_encode(&data));
+        for i in [0, 8, 100, 200, encoded.len() - 1] {
+            let mut tampered = encoded.clone();
+            tampered[i] ^= 0x80;
+            assert!(blake3_bao_decode(&tampered, &hash).is_err(), "byte {}", i);
+        }
+        let mut wrong = hash;
+        wrong[0] ^= 1;
+        assert!(blake3_bao_decode(&encoded, &wrong).is_err());
+    }
+
+    #[test]
+    fn test_decode_rejects_truncated_and_trailing() {
+        let data = input(3000);
+        let (hash, encoded) = split(blake3_bao_encode(&data));
+        assert_eq!(
+            blake3_bao_decode(&encoded[..encoded.len() - 1], &hash).unwrap_err(),
+            "Bao encoding is truncated"
+        );
+        let mut long = encoded.clone();
+        long.push(0);
+        assert_eq!(
+            blake3_bao_decode(&long, &hash).unwrap_err(),
+            "Unexpected data after the end of the Bao encoding"
+        );
+        assert_eq!(
+            blake3_bao_decode(&encoded, &hash[..31]).unwrap_err(),
+            "Hash must be exactly 32 bytes"
+        );
+    }
+
+    #[test]
+    fn test_outboard_rejects_modified_content() {
+        let data = input(5000);
+        let (hash, outboard) = split(blake3_bao_outboard(&data));
+        let mut modified = data.clone();
+        modified[4999] ^= 1;
+        assert_eq!(
+            blake3_bao_decode_outboard(&modified, &outboard, &hash).unwrap_err(),
+            "Bao verification failed at byte offset 4096"
+        );
+        assert_eq!(
+            blake3_bao_decode_outboard(&data, &outboard[..outboard.len() - 1], &hash).unwrap_err(),
+            "Bao outboard encoding is truncated"
+        );
+    }
+
+    #[test]
+    fn test_slices() {
+        let data = input(9000);
+        let (hash, encoded) = split(blake3_bao_encode(&data));
+        let (_, outboard) = split(blake3_bao_outboard(&data));
+        for (start, len) in [
+            (0, 1),
+            (1000, 100),
+            (2048, 1024),
+            (3000, 4000),
+            (8999, 1),
+            (0, 9000),
+        ] {
+            let slice = blake3_bao_extract_slice(&encoded, start, len).unwrap();
+            assert_eq!(
+                blake3_bao_extract_slice_outboard(&data, &outboard, start, len).unwrap(),
+                slice
+            );
+            assert!(slice.len() < encoded.len() || len == 9000);
+            let end = (start + len) as usize;
+            assert_eq!(
+                blake3_bao_decode_slice(&slice, &hash, start, len).unwrap(),
+                &data[start as usize..end],
+                "slice {}+{}",
+                start,
+                len
+            );
+        }
+    }
+
+    #[test]
+    fn test_slice_size() {
+        let data = input(9000);
+        let (_, encoded) = split(blake3_bao_encode(&data));
+        // One chunk and the three parents above it
+        let slice = blake3_bao_extract_slice(&encoded, 4096, 10).unwrap();
+        assert_eq!(slice.len(), 8 + 4 * 64 + 1024);
+    }
+
+    #[test]
+    fn test_slice_past_end() {
+        let data = input(3000);
+        let (hash, encoded) = split(blake3_bao_encode(&data));
+        let slice = blake3_bao_extract_slice(&encoded, 2900, 500).unwrap();
+        assert_eq!(
+            blake3_bao_decode_slice(&slice, &hash, 2900, 500).unwrap(),
+            &data[2900..]
+        );
+        // Entirely past the end: the root parent and the final chunk, which
+        // proves the length
+        let slice = blake3_bao_extract_slice(&encoded, 5000, 10).unwrap();
+        assert_eq!(slice.len(), 8 + 64 + 952);
+        assert_eq!(
+            blake3_bao_decode_slice(&slice, &hash, 5000, 10).unwrap(),
+            b""
+        );
+    }
+
+    #[test]
+    fn test_slice_of_empty_input() {
+        let (hash, encoded) = split(blake3_bao_encode(b""));
+        let slice = blake3_bao_extract_slice(&encoded, 0, 100).unwrap();
+        assert_eq!(slice, vec![0; 8]);
+        assert_eq!(blake3_bao_decode_slice(&slice, &hash, 0, 100).unwrap(), b"");
+    }
+
+    #[test]
+    fn test_slice_rejects_tampering() {
+        let data = input(9000);
+        let (hash, encoded) = split(blake3_bao_encode(&data));
+        let mut slice = blake3_bao_extract_slice(&encoded, 4096, 10).unwrap();
+        let last = slice.len() - 1;
+        slice[last] ^= 1;
+        assert_eq!(
+            blake3_bao_decode_slice(&slice, &hash, 4096, 10).unwrap_err(),
+            "Bao verification failed at byte offset 4096"
+        );
+    }
+}
@@ -1,8 +1,21 @@
-use blake3::Hasher;
+mod bao;
+
+use base64::engine::general_purpose::{STANDARD, URL_SAFE_NO_PAD};
+use base64::Engine as _;
+use blake3::hazmat::{
+    hash_derive_key_context, max_subtree_len, merge_subtrees_non_root, merge_subtrees_root,
+    merge_subtrees_root_xof, ChainingValue, ContextKey, HasherExt, Mode,
+};
+use blake3::{Hasher, OutputReader};
+use subtle::ConstantTimeEq;
+
+pub use bao::*;
 
 #[cfg(feature = "wasm")]
 use wasm_bindgen::prelude::*;
 
+const CHUNK_LEN: u64 = blake3::CHUNK_LEN as u64;
+
 // ---------------------------------------------------------------------------
 // One-shot functions
 // ---------------------------------------------------------------------------
@@ -20,6 +33,29 @@ pub fn blake3_hex(data: &[u8]) -> String {
     hex::encode(blake3::hash(data).as_bytes())
 }
 
+/// One-shot BLAKE3 hash returning standard (padded) base64.
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn blake3_base64(data: &[u8]) -> String {
+    STANDARD.encode(blake3::hash(data).as_bytes())
+}
+
+/// One-shot BLAKE3 hash returning unpadded base64url.
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn blake3_base64url(data: &[u8]) -> String {
+    URL_SAFE_NO_PAD.encode(blake3::hash(data).as_bytes())
+}
+
+/// One-shot BLAKE3 hash with extendable output of `length` bytes.
+/// The first 32 bytes are identical to `blake3_hash`.
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn blake3_xof(data: &[u8], length: usize) -> Vec<u8> {
+    let mut hasher = Hasher::new();
+    hasher.update(data);
+    let mut out = vec![0u8; length];
+    hasher.finalize_xof().fill(&mut out);
+    out
+}
+
 #[cfg_attr(feature = "wasm", wasm_bindgen)]
 pub fn double_blake3_hash(data: &[u8]) -> Vec<u8> {
     let first = blake3_hash(data);
@@ -36,13 +72,227 @@ pub fn blake3_mac(key: &[u8], data: &[u8]) -> Result<Vec<u8>, String> {
     Ok(hasher.finalize().as_bytes().to_vec())
 }
 
+/// BLAKE3 key derivation: derive a 32-byte subkey from `material`
+/// under a hardcoded, globally unique, application-specific `context`.
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn blake3_derive_key(context: &str, material: &[u8]) -> Vec<u8> {
+    blake3::derive_key(context, material).to_vec()
+}
+
+/// BLAKE3 key derivation with extendable output of `length` bytes.
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn blake3_derive_key_xof(context: &str, material: &[u8], length: usize) -> Vec<u8> {
+    let mut hasher = Hasher::new_derive_key(context);
+    hasher.update(material);
+    let mut out = vec![0u8; length];
+    hasher.finalize_xof().fill(&mut out);
+    out
+}
+
+// ---------------------------------------------------------------------------
+// String input
+//
+// wasm-bindgen encodes JS strings as UTF-8 directly into WASM memory, so
+// these variants avoid materializing an intermediate `Uint8Array` in JS.
+// ---------------------------------------------------------------------------
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn blake3_hash_str(data: &str) -> Vec<u8> {
+    blake3_hash(data.as_bytes())
+}
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn blake3_hex_str(data: &str) -> String {
+    blake3_hex(data.as_bytes())
+}
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn blake3_base64_str(data: &str) -> String {
+    blake3_base64(data.as_bytes())
+}
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn blake3_base64url_str(data: &str) -> String {
+    blake3_base64url(data.as_bytes())
+}
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn blake3_xof_str(data: &str, length: usize) -> Vec<u8> {
+    blake3_xof(data.as_bytes(), length)
+}
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn double_blake3_hash_str(data: &str) -> Vec<u8> {
+    double_blake3_hash(data.as_bytes())
+}
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn blake3_mac_str(key: &[u8], data: &str) -> Result<Vec<u8>, String> {
+    blake3_mac(key, data.as_bytes())
+}
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn blake3_derive_key_str(context: &str, material: &str) -> Vec<u8> {
+    blake3_derive_key(context, material.as_bytes())
+}
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn blake3_derive_key_xof_str(context: &str, material: &str, length: usize) -> Vec<u8> {
+    blake3_derive_key_xof(context, material.as_bytes(), length)
+}
+
+// ---------------------------------------------------------------------------
+// Batch hashing
+//
+// Hash many inputs packed into one buffer in a single WASM call, instead of
+// paying a boundary crossing and a result allocation per input. Input `i` is
+// `data[offsets[i]..offsets[i + 1]]`, so `n` inputs take `n + 1` offsets.
+// ---------------------------------------------------------------------------
+
+/// Split `data` into the inputs described by `offsets`, rejecting offsets
+/// that decrease or run past the end of `data`.
+fn batch_inputs<'a>(data: &'a [u8], offsets: &[u32]) -> Result<Vec<&'a [u8]>, String> {
+    offsets
+        .windows(2)
+        .map(|pair| {
+            let (start, end) = (pair[0] as usize, pair[1] as usize);
+            data.get(start..end).ok_or_else(|| {
+                format!(
+                    "Invalid offsets: {}..{} is out of range for {} bytes",
+                    start,
+                    end,
+                    data.len()
+                )
+            })
+        })
+        .collect()
+}
+
+/// Hash every input and return the 32-byte digests concatenated in input order.
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn blake3_hash_many(data: &[u8], offsets: &[u32]) -> Result<Vec<u8>, String> {
+    let inputs = batch_inputs(data, offsets)?;
+    let mut out = Vec::with_capacity(inputs.len() * blake3::OUT_LEN);
+    for input in inputs {
+        out.extend_from_slice(blake3::hash(input).as_bytes());
+    }
+    Ok(out)
+}
+
+// ---------------------------------------------------------------------------
+// Input buffers
+// ---------------------------------------------------------------------------
+
+/// Capacity of a hasher's input buffer, in bytes.
+pub const INPUT_BUFFER_LEN: usize = 1024 * 1024;
+
+/// Scratch space in WASM memory that JS fills directly before `commit`,
+/// allocated on first use. Its contents are not hasher state, so clones
+/// start without one.
+#[derive(Default)]
+struct InputBuffer(Vec<u8>);
+
+impl Clone for InputBuffer {
+    fn clone(&self) -> Self {
+        Self::default()
+    }
+}
+
+impl InputBuffer {
+    fn ptr(&mut self) -> usize {
+        if self.0.is_empty() {
+            self.0 = vec![0; INPUT_BUFFER_LEN];
+        }
+        self.0.as_mut_ptr() as usize
+    }
+
+    fn get(&self, length: usize) -> Result<&[u8], String> {
+        self.0.get(..length).ok_or_else(|| {
+            format!(
+                "Cannot commit {} bytes from an input buffer of {} bytes",
+                length,
+                self.0.len()
+            )
+        })
+    }
+}
+
+/// The module's linear memory, which JS views input buffers through.
+#[cfg(feature = "wasm")]
+#[wasm_bindgen]
+pub fn wasm_memory() -> JsValue {
+    wasm_bindgen::memory()
+}
+
 // ---------------------------------------------------------------------------
 // Streaming hasher
 // ---------------------------------------------------------------------------
 
+/// Hashing mode of a hasher, which its subtrees must be hashed and merged
+/// with when they are computed separately.
+#[derive(Clone, Copy)]
+enum TreeMode {
+    Hash,
+    Keyed([u8; 32]),
+    DeriveKey(ContextKey),
+}
+
+impl TreeMode {
+    fn mode(&self) -> Mode<'_> {
+        match self {
+            TreeMode::Hash => Mode::Hash,
+            TreeMode::Keyed(key) => Mode::KeyedHash(key),
+            TreeMode::DeriveKey(context_key) => Mode::DeriveKeyMaterial(context_key),
+        }
+    }
+
+    /// A hasher for the input from `offset`, which must be a subtree
+    /// boundary.
+    fn hasher(&self, offset: u64) -> Hasher {
+        let mut hasher = match self {
+            TreeMode::Hash => Hasher::new(),
+            TreeMode::Keyed(key) => Hasher::new_keyed(key),
+            TreeMode::DeriveKey(context_key) => Hasher::new_from_context_key(context_key),
+        };
+        hasher.set_input_offset(offset);
+        hasher
+    }
+
+    /// Serialize as an empty array (hash), or a tag byte followed by the key
+    /// (`1`, keyed) or context key (`2`, key derivation).
+    fn to_bytes(self) -> Vec<u8> {
+        match self {
+            TreeMode::Hash => Vec::new(),
+            TreeMode::Keyed(key) => [&[1][..], &key].concat(),
+            TreeMode::DeriveKey(context_key) => [&[2][..], &context_key].concat(),
+        }
+    }
+
+    fn from_bytes(bytes: &[u8]) -> Result<TreeMode, String> {
+        match bytes {
+            [] => Ok(TreeMode::Hash),
+            [1, key @ ..] if key.len() == 32 => Ok(TreeMode::Keyed(key.try_into().unwrap())),
+            [2, key @ ..] if key.len() == 32 => Ok(TreeMode::DeriveKey(key.try_into().unwrap())),
+            _ => Err("Invalid tree mode".to_string()),
+        }
+    }
+}
+
 #[cfg_attr(feature = "wasm", wasm_bindgen)]
+#[derive(Clone)]
 pub struct Blake3Hasher {
+    /// Hashes the input after `subtrees`, from input offset `offset`.
     inner: Hasher,
+    /// Bytes absorbed by `inner`.
+    inner_len: u64,
+    mode: TreeMode,
+    /// Complete subtrees before `offset` as (chaining value, length), left to
+    /// right, with strictly decreasing lengths. Empty unless subtrees were
+    /// hashed separately (see `update_subtrees`); `inner` is then never
+    /// empty, so the root is always a parent node.
+    subtrees: Vec<(ChainingValue, u64)>,
+    offset: u64,
+    input: InputBuffer,
 }
 
 #[cfg_attr(feature = "wasm", wasm_bindgen)]
@@ -50,9 +300,7 @@ impl Blake3Hasher {
     /// Create a new hasher (unkeyed).
     #[cfg_attr(feature = "wasm", wasm_bindgen(constructor))]
     pub fn new() -> Self {
-        Blake3Hasher {
-            inner: Hasher::new(),
-        }
+        Self::with_mode(TreeMode::Hash)
     }
 
     /// Create a new keyed hasher. `key` must be exactly 32 bytes.
@@ -60,32 +308,90 @@ impl Blake3Hasher {
         let key32: [u8; 32] = key
             .try_into()
             .map_err(|_| "Key must be exactly 32 bytes".to_string())?;
-        Ok(Blake3Hasher {
-            inner: Hasher::new_keyed(&key32),
-        })
+        Ok(Self::with_mode(TreeMode::Keyed(key32)))
+    }
+
+    /// Create a new hasher in key derivation mode for the given `context`.
+    pub fn new_derive_key(context: &str) -> Blake3Hasher {
+        Self::with_mode(TreeMode::DeriveKey(hash_derive_key_context(context)))
     }
 
     /// Feed data into the hasher. Can be called multiple times.
     pub fn update(&mut self, data: &[u8]) {
-        self.inner.update(data);
+        self.absorb(data);
+    }
+
+    /// Feed a string into the hasher as UTF-8.
+    #[cfg_attr(feature = "wasm", wasm_bindgen(js_name = "updateStr"))]
+    pub fn update_str(&mut self, data: &str) {
+        self.absorb(data.as_bytes());
+    }
+
+    /// Address of the hasher's input buffer of `INPUT_BUFFER_LEN` bytes in
+    /// WASM memory, allocated on the first call. JS writes input there and
+    /// calls `commit`, skipping the allocation and copy of `update`.
+    #[cfg_attr(feature = "wasm", wasm_bindgen(js_name = "inputPtr"))]
+    pub fn input_ptr(&mut self) -> usize {
+        self.input.ptr()
+    }
+
+    /// Capacity of the input buffer behind `input_ptr`.
+    #[cfg_attr(feature = "wasm", wasm_bindgen(js_name = "inputCapacity"))]
+    pub fn input_capacity(&self) -> usize {
+        INPUT_BUFFER_LEN
+    }
+
+    /// Absorb the first `length` bytes of the input buffer, as if passed to
+    /// `update`.
+    pub fn commit(&mut self, length: usize) -> Result<(), String> {
+        let input = std::mem::take(&mut self.input);
+        let result = input.get(length).map(|data| self.absorb(data));
+        self.input = input;
+        result
     }
 
     /// Finalize and return the 32-byte hash.
     /// The hasher state is NOT consumed — you can continue calling `update`
     /// after `finalize` to get incremental hashes (e.g. for progress).
     pub fn finalize(&self) -> Vec<u8> {
-        self.inner.finalize().as_bytes().to_vec()
+        self.root_hash().as_bytes().to_vec()
+    }
+
+    /// Finalize with extendable output and return `length` bytes.
+    /// Like `finalize`, the hasher state is NOT consumed.
+    #[cfg_attr(feature = "wasm", wasm_bindgen(js_name = "finalizeXof"))]
+    pub fn finalize_xof(&self, length: usize) -> Vec<u8> {
+        let mut out = vec![0u8; length];
+        self.root_reader().fill(&mut out);
+        out
+    }
+
+    /// Finalize into a seekable reader over the extendable output stream.
+    /// The reader is independent of the hasher, which is NOT consumed.
+    #[cfg_attr(feature = "wasm", wasm_bindgen(js_name = "finalizeReader"))]
+    pub fn finalize_reader(&self) -> Blake3OutputReader {
+        Blake3OutputReader {
+            inner: self.root_reader(),
+        }
+    }
+
+    /// Duplicate the hasher, including any data absorbed so far.
+    /// The copy is fully independent and owns its own WASM allocation.
+    pub fn fork(&self) -> Blake3Hasher {
+        self.clone()
     }
 
     /// Reset the hasher to its initial state, preserving the key if keyed.
     pub fn reset(&mut self) {
-        self.inner.reset();
+        let input = std::mem::take(&mut self.input);
+        *self = Self::with_mode(self.mode);
+        self.input = input;
     }
 
     /// Consumptive finalize: returns 32-byte hash and drops the hasher.
     /// Single WASM boundary crossing (vs finalize + free = 2 crossings).
     pub fn digest(self) -> Box<[u8]> {
-        let hash = self.inner.finalize();
+        let hash = self.root_hash();
         hash.as_bytes().to_vec().into_boxed_slice()
     }
 
@@ -93,9 +399,192 @@ impl Blake3Hasher {
     /// Avoids JS-side Uint8Array → hex conversion.
     #[cfg_attr(feature = "wasm", wasm_bindgen(js_name = "digestHex"))]
     pub fn digest_hex(self) -> String {
-        let hash = self.inner.finalize();
+        let hash = self.root_hash();
         hex::encode(hash.as_bytes())
     }
+
+    /// Consumptive finalize returning standard (padded) base64.
+    #[cfg_attr(feature = "wasm", wasm_bindgen(js_name = "digestBase64"))]
+    pub fn digest_base64(self) -> String {
+        STANDARD.encode(self.root_hash().as_bytes())
+    }
+
+    /// Consumptive finalize returning unpadded base64url.
+    #[cfg_attr(feature = "wasm", wasm_bindgen(js_name = "digestBase64Url"))]
+    pub fn digest_base64url(self) -> String {
+        URL_SAFE_NO_PAD.encode(self.root_hash().as_bytes())
+    }
+
+    /// Total number of bytes absorbed so far.
+    pub fn count(&self) -> u64 {
+        self.offset + self.inner_len
+    }
+
+    /// The hashing mode to pass to `blake3_subtree_cv` for this hasher's
+    /// subtrees. Contains the key of a keyed hasher.
+    #[cfg_attr(feature = "wasm", wasm_bindgen(js_name = "treeMode"))]
+    pub fn tree_mode(&self) -> Vec<u8> {
+        self.mode.to_bytes()
+    }
+
+    /// Plan how the next `len` input bytes can be hashed as separate
+    /// subtrees of at most `max_subtree_len` bytes. Returns ascending
+    /// boundaries relative to the input: the bytes before the first boundary
+    /// and after the last go through `update_subtrees` as `head` and `tail`,
+    /// and each pair of consecutive boundaries delimits one subtree. Returns
+    /// an empty array if the input is too short to split.
+    #[cfg_attr(feature = "wasm", wasm_bindgen(js_name = "splitSubtrees"))]
+    pub fn split_subtrees(&self, len: u64, max_subtree_len: u64) -> Vec<u64> {
+        // `inner` must first be filled up to a whole power-of-two number of
+        // chunks, so that it can be closed as a subtree.
+        let head = if self.inner_len == 0 {
+            0
+        } else {
+            self.inner_len.div_ceil(CHUNK_LEN).next_power_of_two() * CHUNK_LEN - self.inner_len
+        };
+        let start = self.count();
+        let mut position = start.saturating_add(head);
+        // Keep at least one byte for `tail`, and subtrees whole chunks.
+        let end = (start.saturating_add(len).saturating_sub(1) / CHUNK_LEN) * CHUNK_LEN;
+        let max_subtree_len = prev_power_of_two(max_subtree_len.max(CHUNK_LEN));
+        if head >= len || position >= end {
+            return Vec::new();
+        }
+        let mut bounds = vec![head];
+        while position < end {
+            let mut size = max_subtree_len.min(prev_power_of_two(end - position));
+            if position > 0 {
+                size = size.min(1 << position.trailing_zeros());
+            }
+            position += size;
+            bounds.push(position - start);
+        }
+        bounds
+    }
+
+    /// Absorb `head`, then the subtrees of the given lengths whose chaining
+    /// values (from `blake3_subtree_cv`, 32 bytes each) are concatenated in
+    /// `cvs`, then `tail`, which must not be empty. Equivalent to `update`
+    /// with the whole input; `split_subtrees` plans a valid layout.
+    #[cfg_attr(feature = "wasm", wasm_bindgen(js_name = "updateSubtrees"))]
+    pub fn update_subtrees(
+        &mut self,
+        head: &[u8],
+        lens: &[u64],
+        cvs: &[u8],
+        tail: &[u8],
+    ) -> Result<(), String> {
+        if cvs.len() != lens.len() * 32 {
+            return Err("Expected one 32-byte chaining value per subtree".to_string());
+        }
+        if tail.is_empty() {
+            return Err("Subtrees must be followed by more input".to_string());
+        }
+        // Check the whole layout before changing any state.
+        let closed = self.inner_len + head.len() as u64;
+        let mut position = self.offset;
+        for &len in std::iter::once(&closed).filter(|&&len| len > 0).chain(lens) {
+            if !is_subtree_len(len) || position % len != 0 {
+                return Err(format!(
+                    "Subtree at byte offset {} is not aligned with the hasher's input",
+                    position
+                ));
+            }
+            position += len;
+        }
+
+        self.inner.update(head);
+        self.inner_len = closed;
+        if closed > 0 {
+            self.close_inner();
+        }
+        for (cv, &len) in cvs.chunks_exact(32).zip(lens) {
+            self.push_subtree(cv.try_into().unwrap(), len);
+            self.offset += len;
+        }
+        self.inner = self.mode.hasher(self.offset);
+        self.absorb(tail);
+        Ok(())
+    }
+}
+
+impl Blake3Hasher {
+    fn with_mode(mode: TreeMode) -> Self {
+        Blake3Hasher {
+            inner: mode.hasher(0),
+            inner_len: 0,
+            mode,
+            subtrees: Vec::new(),
+            offset: 0,
+            input: InputBuffer::default(),
+        }
+    }
+
+    fn absorb(&mut self, mut data: &[u8]) {
+        // After separately hashed subtrees, `inner` can only cover up to the
+        // next subtree boundary; close it there when more input follows.
+        while let Some(max) = max_subtree_len(self.offset) {
+            let room = max - self.inner_len;
+            if data.len() as u64 <= room {
+                break;
+            }
+            let (head, rest) = data.split_at(room as usize);
+            self.inner.update(head);
+            self.inner_len = max;
+            self.close_inner();
+            self.inner = self.mode.hasher(self.offset);
+            data = rest;
+        }
+        self.inner.update(data);
+        self.inner_len += data.len() as u64;
+    }
+
+    /// Move the complete subtree in `inner` onto `subtrees`. The caller
+    /// replaces `inner`.
+    fn close_inner(&mut self) {
+        self.push_subtree(self.inner.finalize_non_root(), self.inner_len);
+        self.offset += self.inner_len;
+        self.inner_len = 0;
+    }
+
+    /// Push a subtree that directly follows `subtrees`, merging equal-sized
+    /// neighbours like a binary counter.
+    fn push_subtree(&mut self, mut cv: ChainingValue, mut len: u64) {
+        while let Some(&(left, left_len)) = self.subtrees.last() {
+            if left_len != len {
+                break;
+            }
+            self.subtrees.pop();
+            cv = merge_subtrees_non_root(&left, &cv, self.mode.mode());
+            len *= 2;
+        }
+        self.subtrees.push((cv, len));
+    }
+
+    /// Chaining values of the root's children, or `None` if `inner` holds
+    /// the whole input.
+    fn root_children(&self) -> Option<(ChainingValue, ChainingValue)> {
+        let ((left, _), rest) = self.subtrees.split_first()?;
+        let mut right = self.inner.finalize_non_root();
+        for (cv, _) in rest.iter().rev() {
+            right = merge_subtrees_non_root(cv, &right, self.mode.mode());
+        }
+        Some((*left, right))
+    }
+
+    fn root_hash(&self) -> blake3::Hash {
+        match self.root_children() {
+            Some((left, right)) => merge_subtrees_root(&left, &right, self.mode.mode()),
+            None => self.inner.finalize(),
+        }
+    }
+
+    fn root_reader(&self) -> OutputReader {
+        match self.root_children() {
+            Some((left, right)) => merge_subtrees_root_xof(&left, &right, self.mode.mode()),
+            None => self.inner.finalize_xof(),
+        }
+    }
 }
 
 impl Default for Blake3Hasher {
@@ -104,6 +593,113 @@ impl Default for Blake3Hasher {
     }
 }
 
+// ---------------------------------------------------------------------------
+// Parallel hashing
+//
+// BLAKE3 is a tree: subtrees of a power-of-two number of chunks, aligned to
+// their size, can be hashed independently (e.g. in workers) and their
+// chaining values merged by `Blake3Hasher::update_subtrees`.
+// ---------------------------------------------------------------------------
+
+/// Whether `len` is a valid subtree length: a power-of-two number of chunks.
+fn is_subtree_len(len: u64) -> bool {
+    len % CHUNK_LEN == 0 && (len / CHUNK_LEN).is_power_of_two()
+}
+
+/// Largest power of two not above `n` (which must be non-zero).
+fn prev_power_of_two(n: u64) -> u64 {
+    1 << (63 - n.leading_zeros())
+}
+
+/// Chaining value of the subtree over `data` at input offset `offset`, for
+/// a hasher whose `tree_mode()` is `mode`. `data` must be a power-of-two
+/// number of chunks and `offset` a multiple of its length.
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn blake3_subtree_cv(data: &[u8], offset: u64, mode: &[u8]) -> Result<Vec<u8>, String> {
+    let len = data.len() as u64;
+    if !is_subtree_len(len) || offset % len != 0 {
+        return Err(format!(
+            "Invalid subtree of {} bytes at byte offset {}",
+            len, offset
+        ));
+    }
+    let mode = TreeMode::from_bytes(mode)?;
+    Ok(mode
+        .hasher(offset)
+        .update(data)
+        .finalize_non_root()
+        .to_vec())
+}
+
+// ---------------------------------------------------------------------------
+// Extendable output reader
+// ---------------------------------------------------------------------------
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub struct Blake3OutputReader {
+    inner: OutputReader,
+}
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+impl Blake3OutputReader {
+    /// Fill `buf` with the next bytes of the output stream and advance
+    /// the position by `buf.len()`.
+    pub fn fill(&mut self, buf: &mut [u8]) {
+        self.inner.fill(buf);
+    }
+
+    /// Current byte offset into the output stream.
+    pub fn position(&self) -> u64 {
+        self.inner.position()
+    }
+
+    /// Seek to an absolute byte offset in the output stream.
+    pub fn seek(&mut self, position: u64) {
+        self.inner.set_position(position);
+    }
+}
+
+// ---------------------------------------------------------------------------
+// Constant-time comparison
+// ---------------------------------------------------------------------------
+
+/// Compare two byte strings in constant time, e.g. a computed MAC with an
+/// expected tag. Only the lengths are compared in variable time: strings of
+/// different lengths are unequal.
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn timing_safe_equal(a: &[u8], b: &[u8]) -> bool {
+    a.ct_eq(b).into()
+}
+
+/// Like `timing_safe_equal`, with `expected` given as hex (either case).
+/// Returns `false` if `expected` is not valid hex.
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn timing_safe_equal_hex(actual: &[u8], expected: &str) -> bool {
+    match hex::decode(expected) {
+        Ok(expected) => timing_safe_equal(actual, &expected),
+        Err(_) => false,
+    }
+}
+
+// ---------------------------------------------------------------------------
+// Backend
+//
+// The package ships a baseline build and one compiled with WASM SIMD
+// (`-C target-feature=+simd128`). Both the main and the `/async` entry probe
+// for SIMD support with `WebAssembly.validate` and load one of them.
+// ---------------------------------------------------------------------------
+
+/// The build this module was compiled as: `"simd128"` when WASM SIMD is
+/// enabled, `"baseline"` otherwise.
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn wasm_backend() -> String {
+    if cfg!(target_feature = "simd128") {
+        "simd128".to_string()
+    } else {
+        "baseline".to_string()
+    }
+}
+
 // ---------------------------------------------------------------------------
 // Tests
 // ---------------------------------------------------------------------------
@@ -131,6 +727,41 @@ mod tests {
         );
     }
 
+    #[test]
+    fn test_xof_prefix_matches_hash() {
+        let xof = blake3_xof(b"test input", 64);
+        assert_eq!(
+            encode(&xof),
+            "aa4909e14f1389afc428e481ea20ffd9673604711f5afb60a747fec57e4c267c\
+             6f392fac968795c02f053f49543231fde1e2e2e942824c92d52aa61a8dd4b55b"
+        );
+    }
+
+    #[test]
+    fn test_xof_empty_length() {
+        assert!(blake3_xof(b"test input", 0).is_empty());
+    }
+
+    #[test]
+    fn test_str_variants_match_bytes() {
+        let text = "héllo wörld 🌍";
+        let bytes = text.as_bytes();
+        assert_eq!(blake3_hash_str(text), blake3_hash(bytes));
+        assert_eq!(blake3_hex_str(text), blake3_hex(bytes));
+        assert_eq!(blake3_xof_str(text, 64), blake3_xof(bytes, 64));
+        assert_eq!(double_blake3_hash_str(text), double_blake3_hash(bytes));
+        let key = blake3_hash(b"key");
+        assert_eq!(blake3_mac_str(&key, text), blake3_mac(&key, bytes));
+        assert_eq!(
+            blake3_derive_key_str("ctx", text),
+            blake3_derive_key("ctx", bytes)
+        );
+        assert_eq!(
+            blake3_derive_key_xof_str("ctx", text, 48),
+            blake3_derive_key_xof("ctx", bytes, 48)
+        );
+    }
+
     #[test]
     fn test_double_hash() {
         let hash = double_blake3_hash(b"test input");
@@ -156,6 +787,34 @@ mod tests {
         assert!(result.is_err());
     }
 
+    #[test]
+    fn test_derive_key() {
+        let key = blake3_derive_key("hashbuf 2026-10-19 test context", b"key material");
+        assert_eq!(
+            encode(&key),
+            "9777e9966c26c0c63e3e5f32604e72eeaa2242b4526309eaaf2736afadc13178"
+        );
+    }
+
+    #[test]
+    fn test_derive_key_xof() {
+        let key = blake3_derive_key_xof("hashbuf 2026-10-19 test context", b"key material", 64);
+        assert_eq!(
+            encode(&key),
+            "9777e9966c26c0c63e3e5f32604e72eeaa2242b4526309eaaf2736afadc13178\
+             49e9758701a7b8af9c2771eb8f99c6a6fe338b52ac6dee0c605bd24a8c3813b9"
+        );
+    }
+
+    #[test]
+    fn test_derive_key_differs_from_hash() {
+        assert_ne!(blake3_derive_key("ctx", b"data"), blake3_hash(b"data"));
+        assert_ne!(
+            blake3_derive_key("ctx", b"data"),
+            blake3_derive_key("ctx2", b"data")
+        );
+    }
+
     #[test]
     fn test_streaming_matches_oneshot() {
         let data = b"hello world, this is a streaming test with blake3";
@@ -211,6 +870,28 @@ mod tests {
         assert_eq!(oneshot_mac, streamed_mac);
     }
 
+    #[test]
+    fn test_streaming_derive_key() {
+        let oneshot = blake3_derive_key("hashbuf 2026-10-19 test context", b"key material");
+
+        let mut hasher = Blake3Hasher::new_derive_key("hashbuf 2026-10-19 test context");
+        hasher.update(b"key ");
+        hasher.update(b"material");
+        assert_eq!(hasher.finalize(), oneshot);
+
+        hasher.reset();
+        hasher.update(b"key material");
+        assert_eq!(hasher.finalize(), oneshot);
+    }
+
+    #[test]
+    fn test_update_str() {
+        let mut hasher = Blake3Hasher::new();
+        hasher.update_str("test ");
+        hasher.update(b"input");
+        assert_eq!(hasher.finalize(), blake3_hash(b"test input"));
+    }
+
     #[test]
     fn test_finalize_does_not_consume() {
         let mut hasher = Blake3Hasher::new();
@@ -224,6 +905,62 @@ mod tests {
         assert_ne!(h1, h3);
     }
 
+    #[test]
+    fn test_finalize_xof_matches_oneshot() {
+        let mut hasher = Blake3Hasher::new();
+        hasher.update(b"test ");
+        hasher.update(b"input");
+        assert_eq!(hasher.finalize_xof(100), blake3_xof(b"test input", 100));
+        assert_eq!(hasher.finalize_xof(32), hasher.finalize());
+    }
+
+    #[test]
+    fn test_output_reader_fill_and_seek() {
+        let expected = blake3_xof(b"test input", 100);
+        let mut hasher = Blake3Hasher::new();
+        hasher.update(b"test input");
+        let mut reader = hasher.finalize_reader();
+
+        let mut first = [0u8; 40];
+        let mut rest = [0u8; 60];
+        reader.fill(&mut first);
+        reader.fill(&mut rest);
+        assert_eq!(&first[..], &expected[..40]);
+        assert_eq!(&rest[..], &expected[40..]);
+        assert_eq!(reader.position(), 100);
+
+        let mut tail = [0u8; 36];
+        reader.seek(64);
+        reader.fill(&mut tail);
+        assert_eq!(&tail[..], &expected[64..]);
+    }
+
+    #[test]
+    fn test_fork_is_independent() {
+        let mut parent = Blake3Hasher::new();
+        parent.update(b"test ");
+        let mut child = parent.fork();
+        child.update(b"input");
+        parent.update(b"garbage");
+
+        assert_eq!(child.finalize(), blake3_hash(b"test input"));
+        assert_eq!(parent.finalize(), blake3_hash(b"test garbage"));
+    }
+
+    #[test]
+    fn test_fork_keeps_key() {
+        let key = blake3_hash(b"key");
+        let mut parent = Blake3Hasher::new_keyed(&key).unwrap();
+        parent.update(b"mes");
+        let mut child = parent.fork();
+        child.update(b"sage");
+        assert_eq!(child.finalize(), blake3_mac(&key, b"message").unwrap());
+
+        child.reset();
+        child.update(b"message");
+        assert_eq!(child.finalize(), blake3_mac(&key, b"message").unwrap());
+    }
+
     #[test]
     fn test_blake3_hex() {
         let hex = blake3_hex(b"test input");
@@ -242,6 +979,34 @@ mod tests {
         );
     }
 
+    #[test]
+    fn test_blake3_base64() {
+        assert_eq!(
+            blake3_base64(b"test input"),
+            "qkkJ4U8Tia/EKOSB6iD/2Wc2BHEfWvtgp0f+xX5MJnw="
+        );
+        assert_eq!(
+            blake3_base64url(b"test input"),
+            "qkkJ4U8Tia_EKOSB6iD_2Wc2BHEfWvtgp0f-xX5MJnw"
+        );
+        assert_eq!(
+            blake3_base64_str("test input"),
+            blake3_base64(b"test input")
+        );
+        assert_eq!(
+            blake3_base64url_str("test input"),
+            blake3_base64url(b"test input")
+        );
+    }
+
+    #[test]
+    fn test_digest_base64_matches() {
+        let mut hasher = Blake3Hasher::new();
+        hasher.update(b"test input");
+        assert_eq!(hasher.fork().digest_base64(), blake3_base64(b"test input"));
+        assert_eq!(hasher.digest_base64url(), blake3_base64url(b"test input"));
+    }
+
     #[test]
     fn test_digest_matches_finalize() {
         let mut hasher1 = Blake3Hasher::new();
@@ -265,4 +1030,209 @@ mod tests {
             "aa4909e14f1389afc428e481ea20ffd9673604711f5afb60a747fec57e4c267c"
         );
     }
+
+    // -- Batch tests --
+
+    #[test]
+    fn test_hash_many_matches_one_shot() {
+        let out = blake3_hash_many(b"abchello world", &[0, 0, 3, 14]).unwrap();
+        let expected = [
+            blake3_hash(b""),
+            blake3_hash(b"abc"),
+            blake3_hash(b"hello world"),
+        ]
+        .concat();
+        assert_eq!(out, expected);
+    }
+
+    #[test]
+    fn test_hash_many_empty_batch() {
+        assert!(blake3_hash_many(b"abc", &[]).unwrap().is_empty());
+        assert!(blake3_hash_many(b"abc", &[2]).unwrap().is_empty());
+    }
+
+    #[test]
+    fn test_hash_many_rejects_bad_offsets() {
+        assert!(blake3_hash_many(b"abc", &[0, 4]).is_err());
+        assert!(blake3_hash_many(b"abc", &[2, 1]).is_err());
+    }
+
+    // --- Parallel hashing ---
+
+    /// Feed `data` like `updateParallel` does, hashing the subtrees here.
+    fn update_split(hasher: &mut Blake3Hasher, data: &[u8], max_subtree_len: u64) {
+        let bounds = hasher.split_subtrees(data.len() as u64, max_subtree_len);
+        let Some((&head, _)) = bounds.split_first() else {
+            hasher.update(data);
+            return;
+        };
+        let start = hasher.count();
+        let mode = hasher.tree_mode();
+        let mut lens = Vec::new();
+        let mut cvs = Vec::new();
+        for pair in bounds.windows(2) {
+            let subtree = &data[pair[0] as usize..pair[1] as usize];
+            cvs.extend(blake3_subtree_cv(subtree, start + pair[0], &mode).unwrap());
+            lens.push(pair[1] - pair[0]);
+        }
+        let tail = &data[*bounds.last().unwrap() as usize..];
+        hasher
+            .update_subtrees(&data[..head as usize], &lens, &cvs, tail)
+            .unwrap();
+    }
+
+    fn pattern(len: usize) -> Vec<u8> {
+        (0..len).map(|i| (i % 251) as u8).collect()
+    }
+
+    #[test]
+    fn test_subtrees_match_update() {
+        let hashers = [
+            Blake3Hasher::new(),
+            Blake3Hasher::new_keyed(&[7u8; 32]).unwrap(),
+            Blake3Hasher::new_derive_key("hashbuf subtree test"),
+        ];
+        for hasher in hashers {
+            for prefix in [0, 1, 1024, 3000] {
+                for len in [1, 1025, 5000, 70_000] {
+                    for max_subtree_len in [1024, 4096, 1 << 20] {
+                        let data = pattern(prefix + len);
+                        let mut serial = hasher.clone();
+                        serial.update(&data);
+                        let mut split = hasher.clone();
+                        split.update(&data[..prefix]);
+                        update_split(&mut split, &data[prefix..], max_subtree_len);
+                        assert_eq!(split.count(), serial.count());
+                        assert_eq!(encode(split.finalize()), encode(serial.finalize()));
+                        assert_eq!(split.finalize_xof(100), serial.finalize_xof(100));
+
+                        // Plain updates continue the tree
+                        serial.update(&data);
+                        split.update(&data);
+                        assert_eq!(encode(split.finalize()), encode(serial.finalize()));
+                    }
+                }
+            }
+        }
+    }
+
+    #[test]
+    fn test_subtrees_repeated_and_reset() {
+        let data = pattern(10_000);
+        let mut split = Blake3Hasher::new();
+        for _ in 0..3 {
+            update_split(&mut split, &data, 2048);
+        }
+        let expected = blake3::hash(&[&data[..], &data, &data].concat());
+        assert_eq!(split.finalize(), expected.as_bytes());
+
+        split.reset();
+        split.update(b"test input");
+        assert_eq!(
+            encode(split.finalize()),
+            "aa4909e14f1389afc428e481ea20ffd9673604711f5afb60a747fec57e4c267c"
+        );
+    }
+
+    #[test]
+    fn test_split_subtrees_layout() {
+        let hasher = Blake3Hasher::new();
+        // Aligned power-of-two subtrees, keeping the last chunk for the tail
+        assert_eq!(hasher.split_subtrees(8192, 4096), vec![0, 4096, 6144, 7168]);
+        assert_eq!(hasher.split_subtrees(1024, 4096), Vec::<u64>::new());
+
+        let mut hasher = Blake3Hasher::new();
+        hasher.update(&[0; 1500]);
+        // `inner` is filled to two chunks first
+        assert_eq!(hasher.split_subtrees(8192, 4096)[0], 548);
+    }
+
+    #[test]
+    fn test_update_subtrees_rejects_invalid_layout() {
+        let mut hasher = Blake3Hasher::new();
+        hasher.update(b"abc");
+        let cv = [0u8; 32];
+        assert!(hasher.update_subtrees(b"", &[1024], &cv, b"x").is_err());
+        assert!(hasher
+            .update_subtrees(&[0; 1021], &[1024], &cv, b"")
+            .is_err());
+        assert!(hasher
+            .update_subtrees(&[0; 1021], &[1024], &cv[..31], b"x")
+            .is_err());
+        assert!(hasher
+            .update_subtrees(&[0; 1021], &[2048], &cv, b"x")
+            .is_err());
+        // Nothing was absorbed by the failed calls
+        assert_eq!(hasher.count(), 3);
+        assert!(hasher
+            .update_subtrees(&[0; 1021], &[1024], &cv, b"x")
+            .is_ok());
+    }
+
+    #[test]
+    fn test_subtree_cv_rejects_invalid_subtrees() {
+        assert!(blake3_subtree_cv(&[0; 1000], 0, &[]).is_err());
+        assert!(blake3_subtree_cv(&[0; 2048], 1024, &[]).is_err());
+        assert!(blake3_subtree_cv(&[0; 1024], 1024, &[3]).is_err());
+        assert!(blake3_subtree_cv(&[0; 1024], 1024, &[]).is_ok());
+    }
+
+    #[test]
+    fn test_commit_matches_update() {
+        let mut hasher = Blake3Hasher::new();
+        let ptr = hasher.input_ptr();
+        assert_eq!(hasher.input_capacity(), INPUT_BUFFER_LEN);
+        hasher.input.0[..5].copy_from_slice(b"hello");
+        hasher.commit(5).unwrap();
+        // The buffer is reused at the same address
+        assert_eq!(hasher.input_ptr(), ptr);
+        hasher.input.0[..6].copy_from_slice(b" world");
+        hasher.commit(6).unwrap();
+        hasher.commit(0).unwrap();
+        assert_eq!(hasher.finalize(), blake3_hash(b"hello world"));
+    }
+
+    #[test]
+    fn test_commit_rejects_overlong_length() {
+        let mut hasher = Blake3Hasher::new();
+        assert!(hasher.commit(1).is_err());
+        hasher.input_ptr();
+        assert!(hasher.commit(INPUT_BUFFER_LEN + 1).is_err());
+        hasher.commit(INPUT_BUFFER_LEN).unwrap();
+        assert_eq!(hasher.finalize(), blake3_hash(&vec![0; INPUT_BUFFER_LEN]));
+    }
+
+    #[test]
+    fn test_input_buffer_is_not_cloned() {
+        let mut hasher = Blake3Hasher::new();
+        hasher.input_ptr();
+        hasher.update(b"abc");
+        let fork = hasher.fork();
+        assert!(fork.input.0.is_empty());
+        assert_eq!(fork.finalize(), blake3_hash(b"abc"));
+    }
+
+    #[test]
+    fn test_timing_safe_equal() {
+        assert!(timing_safe_equal(b"", b""));
+        assert!(timing_safe_equal(b"abc", b"abc"));
+        assert!(!timing_safe_equal(b"abc", b"abd"));
+        assert!(!timing_safe_equal(b"abc", b"ab"));
+    }
+
+    #[test]
+    fn test_timing_safe_equal_hex() {
+        assert!(timing_safe_equal_hex(&[0xab, 0x01], "ab01"));
+        assert!(timing_safe_equal_hex(&[0xab, 0x01], "AB01"));
+        assert!(!timing_safe_equal_hex(&[0xab, 0x01], "ab02"));
+        assert!(!timing_safe_equal_hex(&[0xab, 0x01], "ab0"));
+        assert!(!timing_safe_equal_hex(&[0xab, 0x01], "ab0100"));
+        assert!(!timing_safe_equal_hex(&[0xab, 0x01], "zz01"));
+    }
+
+    #[test]
+    fn test_wasm_backend() {
+        // Native test builds never enable WASM SIMD
+        assert_eq!(wasm_backend(), "baseline");
+    }
 }
@@ -1,5 +1,16 @@
 #!/bin/sh
+set -e
+
+# Baseline build, for runtimes without WASM SIMD
 wasm-pack build --target bundler --out-dir build/bundler --release -- --features wasm
+
+# SIMD build: the bindings are the same, only the .wasm differs
+RUSTFLAGS="-C target-feature=+simd128" \
+    wasm-pack build --target bundler --out-dir build/bundler-simd --release -- --features wasm,simd
+cmp build/bundler/hashbuf_sha256_bg.js build/bundler-simd/hashbuf_sha256_bg.js
+mv build/bundler-simd/hashbuf_sha256_bg.wasm build/bundler/hashbuf_sha256_simd_bg.wasm
+rm -rf build/bundler-simd
+
 rm -f build/bundler/.gitignore
 rm -f build/bundler/package.json
 rm -f build/bundler/README.md
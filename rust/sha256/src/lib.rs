@@ -1,5 +1,12 @@
+mod state;
+
+use base64::engine::general_purpose::{STANDARD, URL_SAFE_NO_PAD};
+use base64::Engine as _;
+use hkdf::Hkdf;
 use hmac::{Hmac, Mac};
 use sha2::{Digest, Sha256};
+use state::Sha256State;
+use subtle::ConstantTimeEq;
 
 #[cfg(feature = "wasm")]
 use wasm_bindgen::prelude::*;
@@ -25,6 +32,18 @@ pub fn sha256_hex(data: &[u8]) -> String {
     hex::encode(hasher.finalize())
 }
 
+/// One-shot SHA-256 hash returning standard (padded) base64.
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn sha256_base64(data: &[u8]) -> String {
+    STANDARD.encode(Sha256::digest(data))
+}
+
+/// One-shot SHA-256 hash returning unpadded base64url.
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn sha256_base64url(data: &[u8]) -> String {
+    URL_SAFE_NO_PAD.encode(Sha256::digest(data))
+}
+
 #[cfg_attr(feature = "wasm", wasm_bindgen)]
 pub fn double_sha256_hash(data: &[u8]) -> Vec<u8> {
     let first = sha256_hash(data);
@@ -39,14 +58,135 @@ pub fn sha256_hmac(key: &[u8], data: &[u8]) -> Result<Vec<u8>, String> {
     Ok(mac.finalize().into_bytes().to_vec())
 }
 
+// ---------------------------------------------------------------------------
+// String input
+//
+// wasm-bindgen encodes JS strings as UTF-8 directly into WASM memory, so
+// these variants avoid materializing an intermediate `Uint8Array` in JS.
+// ---------------------------------------------------------------------------
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn sha256_hash_str(data: &str) -> Vec<u8> {
+    sha256_hash(data.as_bytes())
+}
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn sha256_hex_str(data: &str) -> String {
+    sha256_hex(data.as_bytes())
+}
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn sha256_base64_str(data: &str) -> String {
+    sha256_base64(data.as_bytes())
+}
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn sha256_base64url_str(data: &str) -> String {
+    sha256_base64url(data.as_bytes())
+}
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn double_sha256_hash_str(data: &str) -> Vec<u8> {
+    double_sha256_hash(data.as_bytes())
+}
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn sha256_hmac_str(key: &[u8], data: &str) -> Result<Vec<u8>, String> {
+    sha256_hmac(key, data.as_bytes())
+}
+
+// ---------------------------------------------------------------------------
+// Batch hashing
+//
+// Hash many inputs packed into one buffer in a single WASM call, instead of
+// paying a boundary crossing and a result allocation per input. Input `i` is
+// `data[offsets[i]..offsets[i + 1]]`, so `n` inputs take `n + 1` offsets.
+// ---------------------------------------------------------------------------
+
+/// Split `data` into the inputs described by `offsets`, rejecting offsets
+/// that decrease or run past the end of `data`.
+fn batch_inputs<'a>(data: &'a [u8], offsets: &[u32]) -> Result<Vec<&'a [u8]>, String> {
+    offsets
+        .windows(2)
+        .map(|pair| {
+            let (start, end) = (pair[0] as usize, pair[1] as usize);
+            data.get(start..end).ok_or_else(|| {
+                format!(
+                    "Invalid offsets: {}..{} is out of range for {} bytes",
+                    start,
+                    end,
+                    data.len()
+                )
+            })
+        })
+        .collect()
+}
+
+/// Hash every input and return the 32-byte digests concatenated in input order.
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn sha256_hash_many(data: &[u8], offsets: &[u32]) -> Result<Vec<u8>, String> {
+    let inputs = batch_inputs(data, offsets)?;
+    let mut out = Vec::with_capacity(inputs.len() * 32);
+    for input in inputs {
+        out.extend_from_slice(&Sha256::digest(input));
+    }
+    Ok(out)
+}
+
+// ---------------------------------------------------------------------------
+// Input buffers
+// ---------------------------------------------------------------------------
+
+/// Capacity of a hasher's input buffer, in bytes.
+pub const INPUT_BUFFER_LEN: usize = 1024 * 1024;
+
+/// Scratch space in WASM memory that JS fills directly before `commit`,
+/// allocated on first use. Its contents are not hasher state, so clones
+/// start without one.
+#[derive(Default)]
+struct InputBuffer(Vec<u8>);
+
+impl Clone for InputBuffer {
+    fn clone(&self) -> Self {
+        Self::default()
+    }
+}
+
+impl InputBuffer {
+    fn ptr(&mut self) -> usize {
+        if self.0.is_empty() {
+            self.0 = vec![0; INPUT_BUFFER_LEN];
+        }
+        self.0.as_mut_ptr() as usize
+    }
+
+    fn get(&self, length: usize) -> Result<&[u8], String> {
+        self.0.get(..length).ok_or_else(|| {
+            format!(
+                "Cannot commit {} bytes from an input buffer of {} bytes",
+                length,
+                self.0.len()
+            )
+        })
+    }
+}
+
+/// The module's linear memory, which JS views input buffers through.
+#[cfg(feature = "wasm")]
+#[wasm_bindgen]
+pub fn wasm_memory() -> JsValue {
+    wasm_bindgen::memory()
+}
+
 // ---------------------------------------------------------------------------
 // Streaming hasher
 // ---------------------------------------------------------------------------
 
 #[cfg_attr(feature = "wasm", wasm_bindgen)]
+#[derive(Clone)]
 pub struct Sha256Hasher {
-    inner: Sha256,
-    initial: Sha256,
+    inner: Sha256State,
+    input: InputBuffer,
 }
 
 #[cfg_attr(feature = "wasm", wasm_bindgen)]
@@ -55,26 +195,77 @@ impl Sha256Hasher {
     #[cfg_attr(feature = "wasm", wasm_bindgen(constructor))]
     pub fn new() -> Self {
         Sha256Hasher {
-            inner: Sha256::new(),
-            initial: Sha256::new(),
+            inner: Sha256State::new(),
+            input: InputBuffer::default(),
         }
     }
 
+    /// Restore a hasher from bytes produced by `export_state`.
+    /// Rejects truncated, corrupted or unknown-version state.
+    #[cfg_attr(feature = "wasm", wasm_bindgen(js_name = "fromState"))]
+    pub fn from_state(bytes: &[u8]) -> Result<Sha256Hasher, String> {
+        Ok(Sha256Hasher {
+            inner: Sha256State::import(bytes)?,
+            input: InputBuffer::default(),
+        })
+    }
+
     /// Feed data into the hasher. Can be called multiple times.
     pub fn update(&mut self, data: &[u8]) {
         self.inner.update(data);
     }
 
+    /// Feed a string into the hasher as UTF-8.
+    #[cfg_attr(feature = "wasm", wasm_bindgen(js_name = "updateStr"))]
+    pub fn update_str(&mut self, data: &str) {
+        self.inner.update(data.as_bytes());
+    }
+
+    /// Address of the hasher's input buffer of `INPUT_BUFFER_LEN` bytes in
+    /// WASM memory, allocated on the first call. JS writes input there and
+    /// calls `commit`, skipping the allocation and copy of `update`.
+    #[cfg_attr(feature = "wasm", wasm_bindgen(js_name = "inputPtr"))]
+    pub fn input_ptr(&mut self) -> usize {
+        self.input.ptr()
+    }
+
+    /// Capacity of the input buffer behind `input_ptr`.
+    #[cfg_attr(feature = "wasm", wasm_bindgen(js_name = "inputCapacity"))]
+    pub fn input_capacity(&self) -> usize {
+        INPUT_BUFFER_LEN
+    }
+
+    /// Absorb the first `length` bytes of the input buffer, as if passed to
+    /// `update`.
+    pub fn commit(&mut self, length: usize) -> Result<(), String> {
+        let data = self.input.get(length)?;
+        self.inner.update(data);
+        Ok(())
+    }
+
     /// Finalize and return the 32-byte hash.
     /// The hasher state is NOT consumed — you can continue calling `update`
     /// after `finalize` to get incremental hashes.
     pub fn finalize(&self) -> Vec<u8> {
-        self.inner.clone().finalize().to_vec()
+        self.inner.finalize().to_vec()
+    }
+
+    /// Serialize the midstate, buffered partial block and total length
+    /// (see `state.rs` for the format). The hasher is NOT consumed.
+    #[cfg_attr(feature = "wasm", wasm_bindgen(js_name = "exportState"))]
+    pub fn export_state(&self) -> Vec<u8> {
+        self.inner.export()
+    }
+
+    /// Duplicate the hasher, including any data absorbed so far.
+    /// The copy is fully independent and owns its own WASM allocation.
+    pub fn fork(&self) -> Sha256Hasher {
+        self.clone()
     }
 
     /// Reset the hasher to its initial state.
     pub fn reset(&mut self) {
-        self.inner = self.initial.clone();
+        self.inner = Sha256State::new();
     }
 
     /// Consumptive finalize: returns 32-byte hash and drops the hasher.
@@ -89,6 +280,18 @@ impl Sha256Hasher {
     pub fn digest_hex(self) -> String {
         hex::encode(self.inner.finalize())
     }
+
+    /// Consumptive finalize returning standard (padded) base64.
+    #[cfg_attr(feature = "wasm", wasm_bindgen(js_name = "digestBase64"))]
+    pub fn digest_base64(self) -> String {
+        STANDARD.encode(self.inner.finalize())
+    }
+
+    /// Consumptive finalize returning unpadded base64url.
+    #[cfg_attr(feature = "wasm", wasm_bindgen(js_name = "digestBase64Url"))]
+    pub fn digest_base64url(self) -> String {
+        URL_SAFE_NO_PAD.encode(self.inner.finalize())
+    }
 }
 
 impl Default for Sha256Hasher {
@@ -97,6 +300,194 @@ impl Default for Sha256Hasher {
     }
 }
 
+// ---------------------------------------------------------------------------
+// Streaming HMAC
+// ---------------------------------------------------------------------------
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+#[derive(Clone)]
+pub struct HmacSha256Hasher {
+    inner: HmacSha256,
+    initial: HmacSha256,
+}
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+impl HmacSha256Hasher {
+    /// Create a new HMAC-SHA256 hasher keyed with `key`.
+    #[cfg_attr(feature = "wasm", wasm_bindgen(constructor))]
+    pub fn new(key: &[u8]) -> Result<HmacSha256Hasher, String> {
+        let mac = HmacSha256::new_from_slice(key).map_err(|e| format!("Invalid key: {}", e))?;
+        Ok(HmacSha256Hasher {
+            inner: mac.clone(),
+            initial: mac,
+        })
+    }
+
+    /// Feed data into the MAC. Can be called multiple times.
+    pub fn update(&mut self, data: &[u8]) {
+        self.inner.update(data);
+    }
+
+    /// Feed a string into the MAC as UTF-8.
+    #[cfg_attr(feature = "wasm", wasm_bindgen(js_name = "updateStr"))]
+    pub fn update_str(&mut self, data: &str) {
+        self.inner.update(data.as_bytes());
+    }
+
+    /// Finalize and return the 32-byte tag.
+    /// The hasher state is NOT consumed.
+    pub fn finalize(&self) -> Vec<u8> {
+        self.inner.clone().finalize().into_bytes().to_vec()
+    }
+
+    /// Duplicate the hasher, including the key and any data absorbed so far.
+    pub fn fork(&self) -> HmacSha256Hasher {
+        self.clone()
+    }
+
+    /// Reset the hasher to its initial state, preserving the key.
+    pub fn reset(&mut self) {
+        self.inner = self.initial.clone();
+    }
+
+    /// Consumptive finalize: returns 32-byte tag and drops the hasher.
+    pub fn digest(self) -> Box<[u8]> {
+        self.inner
+            .finalize()
+            .into_bytes()
+            .to_vec()
+            .into_boxed_slice()
+    }
+
+    /// Consumptive finalize returning hex string directly.
+    #[cfg_attr(feature = "wasm", wasm_bindgen(js_name = "digestHex"))]
+    pub fn digest_hex(self) -> String {
+        hex::encode(self.inner.finalize().into_bytes())
+    }
+
+    /// Consumptive finalize returning standard (padded) base64.
+    #[cfg_attr(feature = "wasm", wasm_bindgen(js_name = "digestBase64"))]
+    pub fn digest_base64(self) -> String {
+        STANDARD.encode(self.inner.finalize().into_bytes())
+    }
+
+    /// Consumptive finalize returning unpadded base64url.
+    #[cfg_attr(feature = "wasm", wasm_bindgen(js_name = "digestBase64Url"))]
+    pub fn digest_base64url(self) -> String {
+        URL_SAFE_NO_PAD.encode(self.inner.finalize().into_bytes())
+    }
+}
+
+// ---------------------------------------------------------------------------
+// Key derivation
+//
+// Both KDFs run entirely inside WASM, so deriving a key costs one boundary
+// crossing regardless of the iteration count or output length.
+// ---------------------------------------------------------------------------
+
+/// Largest HKDF-SHA256 output: 255 blocks of 32 bytes (RFC 5869 §2.3).
+const HKDF_MAX_LENGTH: usize = 255 * 32;
+
+/// Allocate the HKDF output buffer, rejecting lengths the RFC does not allow
+/// before allocating anything.
+fn hkdf_output(length: usize) -> Result<Vec<u8>, String> {
+    if length > HKDF_MAX_LENGTH {
+        return Err(format!(
+            "Invalid length: HKDF-SHA256 output is at most {} bytes",
+            HKDF_MAX_LENGTH
+        ));
+    }
+    Ok(vec![0u8; length])
+}
+
+/// HKDF-SHA256 (RFC 5869): extract a pseudorandom key from `ikm` and `salt`,
+/// then expand it with `info` into `length` bytes (at most 8160).
+/// An empty `salt` is equivalent to the RFC's default of 32 zero bytes.
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn sha256_hkdf(ikm: &[u8], salt: &[u8], info: &[u8], length: usize) -> Result<Vec<u8>, String> {
+    let mut okm = hkdf_output(length)?;
+    Hkdf::<Sha256>::new(Some(salt), ikm)
+        .expand(info, &mut okm)
+        .map_err(|e| format!("Invalid length: {}", e))?;
+    Ok(okm)
+}
+
+/// HKDF-Extract step: returns the 32-byte pseudorandom key.
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn sha256_hkdf_extract(salt: &[u8], ikm: &[u8]) -> Vec<u8> {
+    let (prk, _) = Hkdf::<Sha256>::extract(Some(salt), ikm);
+    prk.to_vec()
+}
+
+/// HKDF-Expand step: expands a pseudorandom key of at least 32 bytes into
+/// `length` bytes (at most 8160).
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn sha256_hkdf_expand(prk: &[u8], info: &[u8], length: usize) -> Result<Vec<u8>, String> {
+    let hkdf = Hkdf::<Sha256>::from_prk(prk).map_err(|e| format!("Invalid PRK: {}", e))?;
+    let mut okm = hkdf_output(length)?;
+    hkdf.expand(info, &mut okm)
+        .map_err(|e| format!("Invalid length: {}", e))?;
+    Ok(okm)
+}
+
+/// PBKDF2-HMAC-SHA256 (RFC 8018) deriving `length` bytes.
+/// `iterations` must be at least 1.
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn sha256_pbkdf2(
+    password: &[u8],
+    salt: &[u8],
+    iterations: u32,
+    length: usize,
+) -> Result<Vec<u8>, String> {
+    if iterations == 0 {
+        return Err("Invalid iterations: must be at least 1".to_string());
+    }
+    let mut dk = vec![0u8; length];
+    pbkdf2::pbkdf2_hmac::<Sha256>(password, salt, iterations, &mut dk);
+    Ok(dk)
+}
+
+// ---------------------------------------------------------------------------
+// Constant-time comparison
+// ---------------------------------------------------------------------------
+
+/// Compare two byte strings in constant time, e.g. a computed MAC with an
+/// expected tag. Only the lengths are compared in variable time: strings of
+/// different lengths are unequal.
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn timing_safe_equal(a: &[u8], b: &[u8]) -> bool {
+    a.ct_eq(b).into()
+}
+
+/// Like `timing_safe_equal`, with `expected` given as hex (either case).
+/// Returns `false` if `expected` is not valid hex.
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn timing_safe_equal_hex(actual: &[u8], expected: &str) -> bool {
+    match hex::decode(expected) {
+        Ok(expected) => timing_safe_equal(actual, &expected),
+        Err(_) => false,
+    }
+}
+
+// ---------------------------------------------------------------------------
+// Backend
+//
+// The package ships a baseline build and one compiled with WASM SIMD
+// (`-C target-feature=+simd128`). Both the main and the `/async` entry probe
+// for SIMD support with `WebAssembly.validate` and load one of them.
+// ---------------------------------------------------------------------------
+
+/// The build this module was compiled as: `"simd128"` when WASM SIMD is
+/// enabled, `"baseline"` otherwise.
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn wasm_backend() -> String {
+    if cfg!(target_feature = "simd128") {
+        "simd128".to_string()
+    } else {
+        "baseline".to_string()
+    }
+}
+
 // ---------------------------------------------------------------------------
 // Tests
 // ---------------------------------------------------------------------------
@@ -138,6 +529,16 @@ mod tests {
         assert_eq!(encode(&result), expected);
     }
 
+    #[test]
+    fn test_str_variants_match_bytes() {
+        let text = "héllo wörld 🌍";
+        let bytes = text.as_bytes();
+        assert_eq!(sha256_hash_str(text), sha256_hash(bytes));
+        assert_eq!(sha256_hex_str(text), sha256_hex(bytes));
+        assert_eq!(double_sha256_hash_str(text), double_sha256_hash(bytes));
+        assert_eq!(sha256_hmac_str(b"key", text), sha256_hmac(b"key", bytes));
+    }
+
     // -- HMAC tests (RFC 4231) --
 
     #[test]
@@ -158,6 +559,64 @@ mod tests {
         assert_eq!(encode(&result), expected);
     }
 
+    // -- Streaming HMAC tests --
+
+    #[test]
+    fn test_hmac_streaming_matches_oneshot() {
+        let key = b"Jefe";
+        let oneshot = sha256_hmac(key, b"what do ya want for nothing?").unwrap();
+
+        let mut hasher = HmacSha256Hasher::new(key).unwrap();
+        hasher.update(b"what do ya ");
+        hasher.update(b"want for nothing?");
+        assert_eq!(hasher.finalize(), oneshot);
+        assert_eq!(hasher.finalize(), oneshot);
+    }
+
+    #[test]
+    fn test_hmac_streaming_long_key() {
+        // RFC 4231 test case 6: key longer than the block size
+        let key = [0xaau8; 131];
+        let data = b"Test Using Larger Than Block-Size Key - Hash Key First";
+        let expected = "60e431591ee0b67f0d8a26aacbf5b77f8e0bc6213728c5140546040f0ee37f54";
+
+        let mut hasher = HmacSha256Hasher::new(&key).unwrap();
+        hasher.update(&data[..20]);
+        hasher.update(&data[20..]);
+        assert_eq!(hasher.digest_hex(), expected);
+    }
+
+    #[test]
+    fn test_hmac_streaming_reset_keeps_key() {
+        let key = b"Jefe";
+        let mut hasher = HmacSha256Hasher::new(key).unwrap();
+        hasher.update(b"garbage");
+        hasher.reset();
+        hasher.update(b"what do ya want for nothing?");
+        assert_eq!(
+            encode(hasher.digest()),
+            "5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843"
+        );
+    }
+
+    #[test]
+    fn test_hmac_fork_is_independent() {
+        let mut parent = HmacSha256Hasher::new(b"Jefe").unwrap();
+        parent.update(b"what do ya ");
+        let mut child = parent.fork();
+        child.update(b"want for nothing?");
+        parent.update(b"garbage");
+
+        assert_eq!(
+            child.finalize(),
+            sha256_hmac(b"Jefe", b"what do ya want for nothing?").unwrap()
+        );
+        assert_eq!(
+            parent.finalize(),
+            sha256_hmac(b"Jefe", b"what do ya garbage").unwrap()
+        );
+    }
+
     // -- Streaming tests --
 
     #[test]
@@ -186,6 +645,21 @@ mod tests {
         assert_eq!(oneshot, streamed);
     }
 
+    #[test]
+    fn test_update_str() {
+        let mut hasher = Sha256Hasher::new();
+        hasher.update_str("hello ");
+        hasher.update(b"world");
+        assert_eq!(hasher.finalize(), sha256_hash(b"hello world"));
+
+        let mut mac = HmacSha256Hasher::new(b"Jefe").unwrap();
+        mac.update_str("what do ya want for nothing?");
+        assert_eq!(
+            mac.finalize(),
+            sha256_hmac(b"Jefe", b"what do ya want for nothing?").unwrap()
+        );
+    }
+
     #[test]
     fn test_streaming_finalize_no_consume() {
         let mut hasher = Sha256Hasher::new();
@@ -206,6 +680,47 @@ mod tests {
         assert_eq!(result, expected);
     }
 
+    #[test]
+    fn test_fork_is_independent() {
+        let mut parent = Sha256Hasher::new();
+        parent.update(b"hello");
+        let mut child = parent.fork();
+        child.update(b" world");
+        parent.update(b" there");
+
+        assert_eq!(child.finalize(), sha256_hash(b"hello world"));
+        assert_eq!(parent.finalize(), sha256_hash(b"hello there"));
+    }
+
+    #[test]
+    fn test_export_state_resumes() {
+        let data = b"abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq";
+        let mut hasher = Sha256Hasher::new();
+        hasher.update(&data[..20]);
+        let state = hasher.export_state();
+        hasher.update(b"diverge");
+
+        let mut resumed = Sha256Hasher::from_state(&state).unwrap();
+        resumed.update(&data[20..]);
+        assert_eq!(resumed.finalize(), sha256_hash(data));
+    }
+
+    #[test]
+    fn test_from_state_rejects_garbage() {
+        assert!(Sha256Hasher::from_state(b"").is_err());
+        assert!(Sha256Hasher::from_state(&[0u8; 50]).is_err());
+    }
+
+    #[test]
+    fn test_reset_after_from_state() {
+        let mut hasher = Sha256Hasher::new();
+        hasher.update(b"garbage");
+        let mut resumed = Sha256Hasher::from_state(&hasher.export_state()).unwrap();
+        resumed.reset();
+        resumed.update(b"abc");
+        assert_eq!(resumed.finalize(), sha256_hash(b"abc"));
+    }
+
     #[test]
     fn test_sha256_hex() {
         let hex = sha256_hex(b"abc");
@@ -224,6 +739,35 @@ mod tests {
         );
     }
 
+    #[test]
+    fn test_sha256_base64() {
+        assert_eq!(
+            sha256_base64(b"abc"),
+            "ungWv48Bz+pBQUDeXa4iI7ADYaOWF3qctBD/YfIAFa0="
+        );
+        assert_eq!(
+            sha256_base64url(b"abc"),
+            "ungWv48Bz-pBQUDeXa4iI7ADYaOWF3qctBD_YfIAFa0"
+        );
+        assert_eq!(sha256_base64_str("abc"), sha256_base64(b"abc"));
+        assert_eq!(sha256_base64url_str("abc"), sha256_base64url(b"abc"));
+    }
+
+    #[test]
+    fn test_digest_base64_matches() {
+        let mut hasher = Sha256Hasher::new();
+        hasher.update(b"abc");
+        assert_eq!(hasher.fork().digest_base64(), sha256_base64(b"abc"));
+        assert_eq!(hasher.digest_base64url(), sha256_base64url(b"abc"));
+
+        let mut mac = HmacSha256Hasher::new(b"Jefe").unwrap();
+        mac.update(b"what do ya want for nothing?");
+        assert_eq!(
+            mac.digest_base64(),
+            "W9zBRr9gdU5qBCQmCJV1x1oAPwidJzmDnexYuWTsOEM="
+        );
+    }
+
     #[test]
     fn test_digest_matches_finalize() {
         let mut hasher1 = Sha256Hasher::new();
@@ -247,4 +791,206 @@ mod tests {
             "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad"
         );
     }
+
+    // -- HKDF tests (RFC 5869 Appendix A) --
+
+    #[test]
+    fn test_hkdf_rfc5869_case1() {
+        let ikm = [0x0bu8; 22];
+        let salt = decode("000102030405060708090a0b0c").unwrap();
+        let info = decode("f0f1f2f3f4f5f6f7f8f9").unwrap();
+        let expected_prk = "077709362c2e32df0ddc3f0dc47bba6390b6c73bb50f9c3122ec844ad7c2b3e5";
+        let expected_okm =
+            "3cb25f25faacd57a90434f64d0362f2a2d2d0a90cf1a5a4c5db02d56ecc4c5bf34007208d5b887185865";
+
+        let prk = sha256_hkdf_extract(&salt, &ikm);
+        assert_eq!(encode(&prk), expected_prk);
+        assert_eq!(
+            encode(sha256_hkdf_expand(&prk, &info, 42).unwrap()),
+            expected_okm
+        );
+        assert_eq!(
+            encode(sha256_hkdf(&ikm, &salt, &info, 42).unwrap()),
+            expected_okm
+        );
+    }
+
+    #[test]
+    fn test_hkdf_rfc5869_case2_long_inputs() {
+        let ikm: Vec<u8> = (0x00..=0x4f).collect();
+        let salt: Vec<u8> = (0x60..=0xaf).collect();
+        let info: Vec<u8> = (0xb0..=0xff).collect();
+        let expected = "b11e398dc80327a1c8e7f78c596a49344f012eda2d4efad8a050cc4c19afa97c59045a99cac7827271cb41c65e590e09da3275600c2f09b8367793a9aca3db71cc30c58179ec3e87c14c01d5c1f3434f1d87";
+        assert_eq!(
+            encode(sha256_hkdf(&ikm, &salt, &info, 82).unwrap()),
+            expected
+        );
+    }
+
+    #[test]
+    fn test_hkdf_rfc5869_case3_empty_salt_and_info() {
+        let ikm = [0x0bu8; 22];
+        let expected_prk = "19ef24a32c717b167f33a91d6f648bdf96596776afdb6377ac434c1c293ccb04";
+        let expected_okm =
+            "8da4e775a563c18f715f802a063c5a31b8a11f5c5ee1879ec3454e5f3c738d2d9d201395faa4b61a96c8";
+        assert_eq!(encode(sha256_hkdf_extract(b"", &ikm)), expected_prk);
+        assert_eq!(
+            encode(sha256_hkdf(&ikm, b"", b"", 42).unwrap()),
+            expected_okm
+        );
+    }
+
+    #[test]
+    fn test_hkdf_length_limits() {
+        assert_eq!(sha256_hkdf(b"ikm", b"", b"", 0).unwrap().len(), 0);
+        assert_eq!(sha256_hkdf(b"ikm", b"", b"", 8160).unwrap().len(), 8160);
+        assert!(sha256_hkdf(b"ikm", b"", b"", 8161).is_err());
+        assert!(sha256_hkdf_expand(&[0u8; 32], b"", 8161).is_err());
+    }
+
+    #[test]
+    fn test_hkdf_expand_rejects_short_prk() {
+        assert!(sha256_hkdf_expand(&[0u8; 16], b"", 32).is_err());
+    }
+
+    // -- PBKDF2 tests (RFC 7914 §11 and RFC 6070 inputs with SHA-256) --
+
+    #[test]
+    fn test_pbkdf2_rfc7914() {
+        let expected = "55ac046e56e3089fec1691c22544b605f94185216dde0465e68b9d57c20dacbc49ca9cccf179b645991664b39d77ef317c71b845b1e30bd509112041d3a19783";
+        assert_eq!(
+            encode(sha256_pbkdf2(b"passwd", b"salt", 1, 64).unwrap()),
+            expected
+        );
+
+        let expected = "4ddcd8f60b98be21830cee5ef22701f9641a4418d04c0414aeff08876b34ab56a1d425a1225833549adb841b51c9b3176a272bdebba1d078478f62b397f33c8d";
+        assert_eq!(
+            encode(sha256_pbkdf2(b"Password", b"NaCl", 80000, 64).unwrap()),
+            expected
+        );
+    }
+
+    #[test]
+    fn test_pbkdf2_rfc6070_inputs() {
+        let cases: [(u32, &str); 3] = [
+            (
+                1,
+                "120fb6cffcf8b32c43e7225256c4f837a86548c92ccc35480805987cb70be17b",
+            ),
+            (
+                2,
+                "ae4d0c95af6b46d32d0adff928f06dd02a303f8ef3c251dfd6e2d85a95474c43",
+            ),
+            (
+                4096,
+                "c5e478d59288c841aa530db6845c4c8d962893a001ce4e11a4963873aa98134a",
+            ),
+        ];
+        for (iterations, expected) in cases {
+            assert_eq!(
+                encode(sha256_pbkdf2(b"password", b"salt", iterations, 32).unwrap()),
+                expected
+            );
+        }
+
+        let expected =
+            "348c89dbcbd32b2f32d814b8116e84cf2b17347ebc1800181c4e2a1fb8dd53e1c635518c7dac47e9";
+        let result = sha256_pbkdf2(
+            b"passwordPASSWORDpassword",
+            b"saltSALTsaltSALTsaltSALTsaltSALTsalt",
+            4096,
+            40,
+        );
+        assert_eq!(encode(result.unwrap()), expected);
+    }
+
+    #[test]
+    fn test_pbkdf2_rejects_zero_iterations() {
+        assert!(sha256_pbkdf2(b"password", b"salt", 0, 32).is_err());
+    }
+
+    // -- Batch tests --
+
+    #[test]
+    fn test_hash_many_matches_one_shot() {
+        let out = sha256_hash_many(b"abchello world", &[0, 0, 3, 14]).unwrap();
+        let expected = [
+            sha256_hash(b""),
+            sha256_hash(b"abc"),
+            sha256_hash(b"hello world"),
+        ]
+        .concat();
+        assert_eq!(out, expected);
+    }
+
+    #[test]
+    fn test_hash_many_empty_batch() {
+        assert!(sha256_hash_many(b"abc", &[]).unwrap().is_empty());
+        assert!(sha256_hash_many(b"abc", &[2]).unwrap().is_empty());
+    }
+
+    #[test]
+    fn test_hash_many_rejects_bad_offsets() {
+        assert!(sha256_hash_many(b"abc", &[0, 4]).is_err());
+        assert!(sha256_hash_many(b"abc", &[2, 1]).is_err());
+    }
+
+    #[test]
+    fn test_commit_matches_update() {
+        let mut hasher = Sha256Hasher::new();
+        let ptr = hasher.input_ptr();
+        assert_eq!(hasher.input_capacity(), INPUT_BUFFER_LEN);
+        hasher.input.0[..5].copy_from_slice(b"hello");
+        hasher.commit(5).unwrap();
+        // The buffer is reused at the same address
+        assert_eq!(hasher.input_ptr(), ptr);
+        hasher.input.0[..6].copy_from_slice(b" world");
+        hasher.commit(6).unwrap();
+        hasher.commit(0).unwrap();
+        assert_eq!(hasher.finalize(), sha256_hash(b"hello world"));
+    }
+
+    #[test]
+    fn test_commit_rejects_overlong_length() {
+        let mut hasher = Sha256Hasher::new();
+        assert!(hasher.commit(1).is_err());
+        hasher.input_ptr();
+        assert!(hasher.commit(INPUT_BUFFER_LEN + 1).is_err());
+        hasher.commit(INPUT_BUFFER_LEN).unwrap();
+        assert_eq!(hasher.finalize(), sha256_hash(&vec![0; INPUT_BUFFER_LEN]));
+    }
+
+    #[test]
+    fn test_input_buffer_is_not_cloned() {
+        let mut hasher = Sha256Hasher::new();
+        hasher.input_ptr();
+        hasher.update(b"abc");
+        let fork = hasher.fork();
+        assert!(fork.input.0.is_empty());
+        assert_eq!(fork.finalize(), sha256_hash(b"abc"));
+    }
+
+    #[test]
+    fn test_timing_safe_equal() {
+        assert!(timing_safe_equal(b"", b""));
+        assert!(timing_safe_equal(b"abc", b"abc"));
+        assert!(!timing_safe_equal(b"abc", b"abd"));
+        assert!(!timing_safe_equal(b"abc", b"ab"));
+    }
+
+    #[test]
+    fn test_timing_safe_equal_hex() {
+        assert!(timing_safe_equal_hex(&[0xab, 0x01], "ab01"));
+        assert!(timing_safe_equal_hex(&[0xab, 0x01], "AB01"));
+        assert!(!timing_safe_equal_hex(&[0xab, 0x01], "ab02"));
+        assert!(!timing_safe_equal_hex(&[0xab, 0x01], "ab0"));
+        assert!(!timing_safe_equal_hex(&[0xab, 0x01], "ab0100"));
+        assert!(!timing_safe_equal_hex(&[0xab, 0x01], "zz01"));
+    }
+
+    #[test]
+    fn test_wasm_backend() {
+        // Native test builds never enable WASM SIMD
+        assert_eq!(wasm_backend(), "baseline");
+    }
 }
@@ -0,0 +1,266 @@
+//! Serializable SHA-256 state for resumable hashing.
+//!
+//! `sha2::Sha256` keeps its midstate private, so the streaming hasher tracks
+//! the midstate, the buffered partial block and the total length itself and
+//! drives `sha2::compress256` directly.
+//!
+//! # Exported state format (version 1)
+//!
+//! All integers are big-endian.
+//!
+//! | Offset   | Size | Field                                              |
+//! |----------|------|----------------------------------------------------|
+//! | 0        | 4    | Magic bytes `"HBS2"`                               |
+//! | 4        | 1    | Format version (`1`)                               |
+//! | 5        | 8    | Total bytes absorbed so far (`u64`)                |
+//! | 13       | 32   | Midstate: eight `u32` words                        |
+//! | 45       | 1    | Buffered byte count `n` (`0..=63`)                 |
+//! | 46       | n    | Buffered bytes of the partial block                |
+//! | 46 + n   | 4    | Checksum: first 4 bytes of SHA-256 of bytes `0..46 + n` |
+//!
+//! `n` must equal the total length modulo 64.
+
+use sha2::digest::generic_array::GenericArray;
+use sha2::{compress256, Digest, Sha256};
+
+const IV: [u32; 8] = [
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19,
+];
+
+const BLOCK_LEN: usize = 64;
+const MAGIC: [u8; 4] = *b"HBS2";
+const VERSION: u8 = 1;
+const HEADER_LEN: usize = 46;
+const CHECKSUM_LEN: usize = 4;
+/// Largest total length whose bit count still fits in the 64-bit length field.
+const MAX_TOTAL_LEN: u64 = u64::MAX / 8;
+
+#[derive(Clone)]
+pub struct Sha256State {
+    state: [u32; 8],
+    buffer: [u8; BLOCK_LEN],
+    buffer_len: usize,
+    total_len: u64,
+}
+
+impl Sha256State {
+    pub fn new() -> Self {
+        Sha256State {
+            state: IV,
+            buffer: [0u8; BLOCK_LEN],
+            buffer_len: 0,
+            total_len: 0,
+        }
+    }
+
+    pub fn update(&mut self, mut data: &[u8]) {
+        self.total_len = self.total_len.wrapping_add(data.len() as u64);
+
+        if self.buffer_len > 0 {
+            let take = (BLOCK_LEN - self.buffer_len).min(data.len());
+            self.buffer[self.buffer_len..self.buffer_len + take].copy_from_slice(&data[..take]);
+            self.buffer_len += take;
+            data = &data[take..];
+            if self.buffer_len < BLOCK_LEN {
+                return;
+            }
+            compress(&mut self.state, &self.buffer);
+            self.buffer_len = 0;
+        }
+
+        let mut blocks = data.chunks_exact(BLOCK_LEN);
+        for block in &mut blocks {
+            compress(&mut self.state, block);
+        }
+        let rest = blocks.remainder();
+        self.buffer[..rest.len()].copy_from_slice(rest);
+        self.buffer_len = rest.len();
+    }
+
+    /// Apply padding to a copy of the state and return the digest.
+    pub fn finalize(&self) -> [u8; 32] {
+        let mut state = self.state;
+        let mut block = [0u8; BLOCK_LEN];
+        block[..self.buffer_len].copy_from_slice(&self.buffer[..self.buffer_len]);
+        block[self.buffer_len] = 0x80;
+        if self.buffer_len >= BLOCK_LEN - 8 {
+            compress(&mut state, &block);
+            block = [0u8; BLOCK_LEN];
+        }
+        block[BLOCK_LEN - 8..].copy_from_slice(&self.total_len.wrapping_mul(8).to_be_bytes());
+        compress(&mut state, &block);
+
+        let mut out = [0u8; 32];
+        for (chunk, word) in out.chunks_exact_mut(4).zip(state.iter()) {
+            chunk.copy_from_slice(&word.to_be_bytes());
+        }
+        out
+    }
+
+    /// Serialize the state in the version 1 format documented above.
+    pub fn export(&self) -> Vec<u8> {
+        let mut out = Vec::with_capacity(HEADER_LEN + self.buffer_len + CHECKSUM_LEN);
+        out.extend_from_slice(&MAGIC);
+        out.push(VERSION);
+        out.extend_from_slice(&self.total_len.to_be_bytes());
+        for word in &self.state {
+            out.extend_from_slice(&word.to_be_bytes());
+        }
+        out.push(self.buffer_len as u8);
+        out.extend_from_slice(&self.buffer[..self.buffer_len]);
+        let checksum = Sha256::digest(&out);
+        out.extend_from_slice(&checksum[..CHECKSUM_LEN]);
+        out
+    }
+
+    /// Parse and validate state produced by `export`.
+    pub fn import(bytes: &[u8]) -> Result<Self, String> {
+        if bytes.len() < HEADER_LEN + CHECKSUM_LEN {
+            return Err("Invalid SHA-256 state: truncated".to_string());
+        }
+        if bytes[..4] != MAGIC {
+            return Err("Invalid SHA-256 state: bad magic".to_string());
+        }
+        if bytes[4] != VERSION {
+            return Err(format!("Unsupported SHA-256 state version: {}", bytes[4]));
+        }
+        let buffer_len = bytes[HEADER_LEN - 1] as usize;
+        if buffer_len >= BLOCK_LEN {
+            return Err("Invalid SHA-256 state: buffered length out of range".to_string());
+        }
+        let body_len = HEADER_LEN + buffer_len;
+        if bytes.len() != body_len + CHECKSUM_LEN {
+            return Err("Invalid SHA-256 state: length mismatch".to_string());
+        }
+        let checksum = Sha256::digest(&bytes[..body_len]);
+        if bytes[body_len..] != checksum[..CHECKSUM_LEN] {
+            return Err("Invalid SHA-256 state: checksum mismatch".to_string());
+        }
+
+        let total_len = u64::from_be_bytes(bytes[5..13].try_into().unwrap());
+        if total_len > MAX_TOTAL_LEN || total_len % BLOCK_LEN as u64 != buffer_len as u64 {
+            return Err("Invalid SHA-256 state: inconsistent total length".to_string());
+        }
+
+        let mut state = [0u32; 8];
+        for (word, chunk) in state.iter_mut().zip(bytes[13..45].chunks_exact(4)) {
+            *word = u32::from_be_bytes(chunk.try_into().unwrap());
+        }
+        let mut buffer = [0u8; BLOCK_LEN];
+        buffer[..buffer_len].copy_from_slice(&bytes[HEADER_LEN..body_len]);
+
+        Ok(Sha256State {
+            state,
+            buffer,
+            buffer_len,
+            total_len,
+        })
+    }
+}
+
+impl Default for Sha256State {
+    fn default() -> Self {
+        Self::new()
+    }
+}
+
+fn compress(state: &mut [u32; 8], block: &[u8]) {
+    compress256(state, &[*GenericArray::from_slice(block)]);
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+#[cfg(test)]
+mod tests {
+    use super::*;
+
+    fn digest_of(data: &[u8]) -> Vec<u8> {
+        Sha256::digest(data).to_vec()
+    }
+
+    #[test]
+    fn test_matches_sha2_across_block_boundaries() {
+        let data: Vec<u8> = (0..300u32).map(|i| i as u8).collect();
+        for len in [0, 1, 55, 56, 63, 64, 65, 119, 120, 128, 300] {
+            let mut state = Sha256State::new();
+            state.update(&data[..len]);
+            assert_eq!(
+                state.finalize().to_vec(),
+                digest_of(&data[..len]),
+                "len {}",
+                len
+            );
+        }
+    }
+
+    #[test]
+    fn test_matches_sha2_with_uneven_chunks() {
+        let data: Vec<u8> = (0..1000u32).map(|i| (i * 7) as u8).collect();
+        let mut state = Sha256State::new();
+        for chunk in data.chunks(37) {
+            state.update(chunk);
+        }
+        assert_eq!(state.finalize().to_vec(), digest_of(&data));
+    }
+
+    #[test]
+    fn test_export_import_roundtrip() {
+        let data = b"abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq";
+        let mut state = Sha256State::new();
+        state.update(&data[..30]);
+
+        let exported = state.export();
+        assert_eq!(exported.len(), HEADER_LEN + 30 + CHECKSUM_LEN);
+
+        let mut resumed = Sha256State::import(&exported).unwrap();
+        resumed.update(&data[30..]);
+        assert_eq!(
+            hex::encode(resumed.finalize()),
+            "248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1"
+        );
+    }
+
+    #[test]
+    fn test_export_fresh_state() {
+        let exported = Sha256State::new().export();
+        assert_eq!(&exported[..5], b"HBS2\x01");
+        let resumed = Sha256State::import(&exported).unwrap();
+        assert_eq!(resumed.finalize().to_vec(), digest_of(b""));
+    }
+
+    #[test]
+    fn test_import_rejects_truncated() {
+        let mut state = Sha256State::new();
+        state.update(b"abc");
+        let exported = state.export();
+        for len in 0..exported.len() {
+            assert!(
+                Sha256State::import(&exported[..len]).is_err(),
+                "len {}",
+                len
+            );
+        }
+    }
+
+    #[test]
+    fn test_import_rejects_corruption() {
+        let mut state = Sha256State::new();
+        state.update(b"hello world");
+        let exported = state.export();
+        for i in 0..exported.len() {
+            let mut corrupted = exported.clone();
+            corrupted[i] ^= 0x01;
+            assert!(Sha256State::import(&corrupted).is_err(), "byte {}", i);
+        }
+    }
+
+    #[test]
+    fn test_import_rejects_unknown_version() {
+        let mut exported = Sha256State::new().export();
+        exported[4] = 2;
+        let err = Sha256State::import(&exported).err().unwrap();
+        assert!(err.contains("version"));
+    }
+}
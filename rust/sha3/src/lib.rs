@@ -0,0 +1,1008 @@
+use base64::engine::general_purpose::{STANDARD, URL_SAFE_NO_PAD};
+use base64::Engine as _;
+use sha3::digest::{ExtendableOutput, Update, XofReader};
+use sha3::{Digest, Keccak256, Sha3_224, Sha3_256, Sha3_384, Sha3_512, Shake128, Shake256};
+use subtle::ConstantTimeEq;
+
+#[cfg(feature = "wasm")]
+use wasm_bindgen::prelude::*;
+
+// ---------------------------------------------------------------------------
+// Generic helpers
+//
+// wasm-bindgen cannot export generic functions, so each variant below is a
+// thin, concrete wrapper around these.
+// ---------------------------------------------------------------------------
+
+fn hash<D: Digest>(data: &[u8]) -> Vec<u8> {
+    D::digest(data).to_vec()
+}
+
+fn double_hash<D: Digest>(data: &[u8]) -> Vec<u8> {
+    D::digest(D::digest(data)).to_vec()
+}
+
+fn xof<X: ExtendableOutput + Default>(data: &[u8], length: usize) -> Vec<u8> {
+    let mut out = vec![0u8; length];
+    X::digest_xof(data, &mut out);
+    out
+}
+
+// ---------------------------------------------------------------------------
+// SHA3-224 one-shot functions
+// ---------------------------------------------------------------------------
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn sha3_224_hash(data: &[u8]) -> Vec<u8> {
+    hash::<Sha3_224>(data)
+}
+
+/// One-shot SHA3-224 hash returning hex string.
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn sha3_224_hex(data: &[u8]) -> String {
+    hex::encode(Sha3_224::digest(data))
+}
+
+/// One-shot SHA3-224 hash returning standard (padded) base64.
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn sha3_224_base64(data: &[u8]) -> String {
+    STANDARD.encode(Sha3_224::digest(data))
+}
+
+/// One-shot SHA3-224 hash returning unpadded base64url.
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn sha3_224_base64url(data: &[u8]) -> String {
+    URL_SAFE_NO_PAD.encode(Sha3_224::digest(data))
+}
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn double_sha3_224_hash(data: &[u8]) -> Vec<u8> {
+    double_hash::<Sha3_224>(data)
+}
+
+// ---------------------------------------------------------------------------
+// SHA3-256 one-shot functions
+// ---------------------------------------------------------------------------
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn sha3_256_hash(data: &[u8]) -> Vec<u8> {
+    hash::<Sha3_256>(data)
+}
+
+/// One-shot SHA3-256 hash returning hex string.
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn sha3_256_hex(data: &[u8]) -> String {
+    hex::encode(Sha3_256::digest(data))
+}
+
+/// One-shot SHA3-256 hash returning standard (padded) base64.
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn sha3_256_base64(data: &[u8]) -> String {
+    STANDARD.encode(Sha3_256::digest(data))
+}
+
+/// One-shot SHA3-256 hash returning unpadded base64url.
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn sha3_256_base64url(data: &[u8]) -> String {
+    URL_SAFE_NO_PAD.encode(Sha3_256::digest(data))
+}
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn double_sha3_256_hash(data: &[u8]) -> Vec<u8> {
+    double_hash::<Sha3_256>(data)
+}
+
+// ---------------------------------------------------------------------------
+// SHA3-384 one-shot functions
+// ---------------------------------------------------------------------------
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn sha3_384_hash(data: &[u8]) -> Vec<u8> {
+    hash::<Sha3_384>(data)
+}
+
+/// One-shot SHA3-384 hash returning hex string.
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn sha3_384_hex(data: &[u8]) -> String {
+    hex::encode(Sha3_384::digest(data))
+}
+
+/// One-shot SHA3-384 hash returning standard (padded) base64.
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn sha3_384_base64(data: &[u8]) -> String {
+    STANDARD.encode(Sha3_384::digest(data))
+}
+
+/// One-shot SHA3-384 hash returning unpadded base64url.
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn sha3_384_base64url(data: &[u8]) -> String {
+    URL_SAFE_NO_PAD.encode(Sha3_384::digest(data))
+}
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn double_sha3_384_hash(data: &[u8]) -> Vec<u8> {
+    double_hash::<Sha3_384>(data)
+}
+
+// ---------------------------------------------------------------------------
+// SHA3-512 one-shot functions
+// ---------------------------------------------------------------------------
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn sha3_512_hash(data: &[u8]) -> Vec<u8> {
+    hash::<Sha3_512>(data)
+}
+
+/// One-shot SHA3-512 hash returning hex string.
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn sha3_512_hex(data: &[u8]) -> String {
+    hex::encode(Sha3_512::digest(data))
+}
+
+/// One-shot SHA3-512 hash returning standard (padded) base64.
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn sha3_512_base64(data: &[u8]) -> String {
+    STANDARD.encode(Sha3_512::digest(data))
+}
+
+/// One-shot SHA3-512 hash returning unpadded base64url.
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn sha3_512_base64url(data: &[u8]) -> String {
+    URL_SAFE_NO_PAD.encode(Sha3_512::digest(data))
+}
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn double_sha3_512_hash(data: &[u8]) -> Vec<u8> {
+    double_hash::<Sha3_512>(data)
+}
+
+// ---------------------------------------------------------------------------
+// Keccak-256 one-shot functions
+// ---------------------------------------------------------------------------
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn keccak256_hash(data: &[u8]) -> Vec<u8> {
+    hash::<Keccak256>(data)
+}
+
+/// One-shot Keccak-256 hash returning hex string.
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn keccak256_hex(data: &[u8]) -> String {
+    hex::encode(Keccak256::digest(data))
+}
+
+/// One-shot Keccak-256 hash returning standard (padded) base64.
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn keccak256_base64(data: &[u8]) -> String {
+    STANDARD.encode(Keccak256::digest(data))
+}
+
+/// One-shot Keccak-256 hash returning unpadded base64url.
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn keccak256_base64url(data: &[u8]) -> String {
+    URL_SAFE_NO_PAD.encode(Keccak256::digest(data))
+}
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn double_keccak256_hash(data: &[u8]) -> Vec<u8> {
+    double_hash::<Keccak256>(data)
+}
+
+// ---------------------------------------------------------------------------
+// SHAKE one-shot functions
+// ---------------------------------------------------------------------------
+
+/// One-shot SHAKE128 returning `length` bytes of output.
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn shake128_hash(data: &[u8], length: usize) -> Vec<u8> {
+    xof::<Shake128>(data, length)
+}
+
+/// One-shot SHAKE128 returning `length` bytes of output as hex.
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn shake128_hex(data: &[u8], length: usize) -> String {
+    hex::encode(xof::<Shake128>(data, length))
+}
+
+/// One-shot SHAKE256 returning `length` bytes of output.
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn shake256_hash(data: &[u8], length: usize) -> Vec<u8> {
+    xof::<Shake256>(data, length)
+}
+
+/// One-shot SHAKE256 returning `length` bytes of output as hex.
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn shake256_hex(data: &[u8], length: usize) -> String {
+    hex::encode(xof::<Shake256>(data, length))
+}
+
+// ---------------------------------------------------------------------------
+// String input
+//
+// wasm-bindgen encodes JS strings as UTF-8 directly into WASM memory, so
+// these variants avoid materializing an intermediate `Uint8Array` in JS.
+// ---------------------------------------------------------------------------
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn sha3_224_hash_str(data: &str) -> Vec<u8> {
+    sha3_224_hash(data.as_bytes())
+}
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn sha3_224_hex_str(data: &str) -> String {
+    sha3_224_hex(data.as_bytes())
+}
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn sha3_224_base64_str(data: &str) -> String {
+    sha3_224_base64(data.as_bytes())
+}
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn sha3_224_base64url_str(data: &str) -> String {
+    sha3_224_base64url(data.as_bytes())
+}
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn double_sha3_224_hash_str(data: &str) -> Vec<u8> {
+    double_sha3_224_hash(data.as_bytes())
+}
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn sha3_256_hash_str(data: &str) -> Vec<u8> {
+    sha3_256_hash(data.as_bytes())
+}
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn sha3_256_hex_str(data: &str) -> String {
+    sha3_256_hex(data.as_bytes())
+}
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn sha3_256_base64_str(data: &str) -> String {
+    sha3_256_base64(data.as_bytes())
+}
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn sha3_256_base64url_str(data: &str) -> String {
+    sha3_256_base64url(data.as_bytes())
+}
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn double_sha3_256_hash_str(data: &str) -> Vec<u8> {
+    double_sha3_256_hash(data.as_bytes())
+}
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn sha3_384_hash_str(data: &str) -> Vec<u8> {
+    sha3_384_hash(data.as_bytes())
+}
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn sha3_384_hex_str(data: &str) -> String {
+    sha3_384_hex(data.as_bytes())
+}
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn sha3_384_base64_str(data: &str) -> String {
+    sha3_384_base64(data.as_bytes())
+}
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn sha3_384_base64url_str(data: &str) -> String {
+    sha3_384_base64url(data.as_bytes())
+}
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn double_sha3_384_hash_str(data: &str) -> Vec<u8> {
+    double_sha3_384_hash(data.as_bytes())
+}
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn sha3_512_hash_str(data: &str) -> Vec<u8> {
+    sha3_512_hash(data.as_bytes())
+}
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn sha3_512_hex_str(data: &str) -> String {
+    sha3_512_hex(data.as_bytes())
+}
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn sha3_512_base64_str(data: &str) -> String {
+    sha3_512_base64(data.as_bytes())
+}
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn sha3_512_base64url_str(data: &str) -> String {
+    sha3_512_base64url(data.as_bytes())
+}
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn double_sha3_512_hash_str(data: &str) -> Vec<u8> {
+    double_sha3_512_hash(data.as_bytes())
+}
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn keccak256_hash_str(data: &str) -> Vec<u8> {
+    keccak256_hash(data.as_bytes())
+}
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn keccak256_hex_str(data: &str) -> String {
+    keccak256_hex(data.as_bytes())
+}
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn keccak256_base64_str(data: &str) -> String {
+    keccak256_base64(data.as_bytes())
+}
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn keccak256_base64url_str(data: &str) -> String {
+    keccak256_base64url(data.as_bytes())
+}
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn double_keccak256_hash_str(data: &str) -> Vec<u8> {
+    double_keccak256_hash(data.as_bytes())
+}
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn shake128_hash_str(data: &str, length: usize) -> Vec<u8> {
+    shake128_hash(data.as_bytes(), length)
+}
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn shake128_hex_str(data: &str, length: usize) -> String {
+    shake128_hex(data.as_bytes(), length)
+}
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn shake256_hash_str(data: &str, length: usize) -> Vec<u8> {
+    shake256_hash(data.as_bytes(), length)
+}
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn shake256_hex_str(data: &str, length: usize) -> String {
+    shake256_hex(data.as_bytes(), length)
+}
+
+// ---------------------------------------------------------------------------
+// Batch hashing
+//
+// Hash many inputs packed into one buffer in a single WASM call, instead of
+// paying a boundary crossing and a result allocation per input. Input `i` is
+// `data[offsets[i]..offsets[i + 1]]`, so `n` inputs take `n + 1` offsets.
+// ---------------------------------------------------------------------------
+
+/// Split `data` into the inputs described by `offsets`, rejecting offsets
+/// that decrease or run past the end of `data`.
+fn batch_inputs<'a>(data: &'a [u8], offsets: &[u32]) -> Result<Vec<&'a [u8]>, String> {
+    offsets
+        .windows(2)
+        .map(|pair| {
+            let (start, end) = (pair[0] as usize, pair[1] as usize);
+            data.get(start..end).ok_or_else(|| {
+                format!(
+                    "Invalid offsets: {}..{} is out of range for {} bytes",
+                    start,
+                    end,
+                    data.len()
+                )
+            })
+        })
+        .collect()
+}
+
+fn hash_many<D: Digest>(data: &[u8], offsets: &[u32]) -> Result<Vec<u8>, String> {
+    let inputs = batch_inputs(data, offsets)?;
+    let mut out = Vec::with_capacity(inputs.len() * <D as Digest>::output_size());
+    for input in inputs {
+        out.extend_from_slice(&D::digest(input));
+    }
+    Ok(out)
+}
+
+/// Hash every input and return the 28-byte SHA3-224 digests concatenated in input order.
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn sha3_224_hash_many(data: &[u8], offsets: &[u32]) -> Result<Vec<u8>, String> {
+    hash_many::<Sha3_224>(data, offsets)
+}
+
+/// Hash every input and return the 32-byte SHA3-256 digests concatenated in input order.
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn sha3_256_hash_many(data: &[u8], offsets: &[u32]) -> Result<Vec<u8>, String> {
+    hash_many::<Sha3_256>(data, offsets)
+}
+
+/// Hash every input and return the 48-byte SHA3-384 digests concatenated in input order.
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn sha3_384_hash_many(data: &[u8], offsets: &[u32]) -> Result<Vec<u8>, String> {
+    hash_many::<Sha3_384>(data, offsets)
+}
+
+/// Hash every input and return the 64-byte SHA3-512 digests concatenated in input order.
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn sha3_512_hash_many(data: &[u8], offsets: &[u32]) -> Result<Vec<u8>, String> {
+    hash_many::<Sha3_512>(data, offsets)
+}
+
+/// Hash every input and return the 32-byte Keccak-256 digests concatenated in input order.
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn keccak256_hash_many(data: &[u8], offsets: &[u32]) -> Result<Vec<u8>, String> {
+    hash_many::<Keccak256>(data, offsets)
+}
+
+/// Compute SHAKE128 of every input and return the `length`-byte outputs
+/// concatenated in input order.
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn shake128_hash_many(data: &[u8], offsets: &[u32], length: usize) -> Result<Vec<u8>, String> {
+    let inputs = batch_inputs(data, offsets)?;
+    let mut out = Vec::with_capacity(inputs.len() * length);
+    for input in inputs {
+        out.extend_from_slice(&xof::<Shake128>(input, length));
+    }
+    Ok(out)
+}
+
+/// Compute SHAKE256 of every input and return the `length`-byte outputs
+/// concatenated in input order.
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn shake256_hash_many(data: &[u8], offsets: &[u32], length: usize) -> Result<Vec<u8>, String> {
+    let inputs = batch_inputs(data, offsets)?;
+    let mut out = Vec::with_capacity(inputs.len() * length);
+    for input in inputs {
+        out.extend_from_slice(&xof::<Shake256>(input, length));
+    }
+    Ok(out)
+}
+
+// ---------------------------------------------------------------------------
+// Streaming hashers
+//
+// wasm-bindgen cannot export generic structs either, so the fixed-output
+// hashers are stamped out from one definition.
+// ---------------------------------------------------------------------------
+
+macro_rules! streaming_hasher {
+    ($name:ident, $digest:ty, $label:literal) => {
+        #[cfg_attr(feature = "wasm", wasm_bindgen)]
+        #[derive(Clone)]
+        pub struct $name {
+            inner: $digest,
+        }
+
+        #[cfg_attr(feature = "wasm", wasm_bindgen)]
+        impl $name {
+            #[doc = concat!("Create a new ", $label, " hasher.")]
+            #[cfg_attr(feature = "wasm", wasm_bindgen(constructor))]
+            pub fn new() -> Self {
+                $name {
+                    inner: <$digest>::new(),
+                }
+            }
+
+            /// Feed data into the hasher. Can be called multiple times.
+            pub fn update(&mut self, data: &[u8]) {
+                Digest::update(&mut self.inner, data);
+            }
+
+            /// Feed a string into the hasher as UTF-8.
+            #[cfg_attr(feature = "wasm", wasm_bindgen(js_name = "updateStr"))]
+            pub fn update_str(&mut self, data: &str) {
+                Digest::update(&mut self.inner, data.as_bytes());
+            }
+
+            /// Finalize and return the hash.
+            /// The hasher state is NOT consumed — you can continue calling `update`
+            /// after `finalize` to get incremental hashes.
+            pub fn finalize(&self) -> Vec<u8> {
+                self.inner.clone().finalize().to_vec()
+            }
+
+            /// Duplicate the hasher, including any data absorbed so far.
+            /// The copy is fully independent and owns its own WASM allocation.
+            pub fn fork(&self) -> $name {
+                self.clone()
+            }
+
+            /// Reset the hasher to its initial state.
+            pub fn reset(&mut self) {
+                Digest::reset(&mut self.inner);
+            }
+
+            /// Consumptive finalize: returns the hash and drops the hasher.
+            /// Single WASM boundary crossing (vs finalize + free = 2 crossings).
+            pub fn digest(self) -> Box<[u8]> {
+                self.inner.finalize().to_vec().into_boxed_slice()
+            }
+
+            /// Consumptive finalize returning hex string directly.
+            #[cfg_attr(feature = "wasm", wasm_bindgen(js_name = "digestHex"))]
+            pub fn digest_hex(self) -> String {
+                hex::encode(self.inner.finalize())
+            }
+
+            /// Consumptive finalize returning standard (padded) base64.
+            #[cfg_attr(feature = "wasm", wasm_bindgen(js_name = "digestBase64"))]
+            pub fn digest_base64(self) -> String {
+                STANDARD.encode(self.inner.finalize())
+            }
+
+            /// Consumptive finalize returning unpadded base64url.
+            #[cfg_attr(feature = "wasm", wasm_bindgen(js_name = "digestBase64Url"))]
+            pub fn digest_base64url(self) -> String {
+                URL_SAFE_NO_PAD.encode(self.inner.finalize())
+            }
+        }
+
+        impl Default for $name {
+            fn default() -> Self {
+                Self::new()
+            }
+        }
+    };
+}
+
+streaming_hasher!(Sha3_224Hasher, Sha3_224, "SHA3-224");
+streaming_hasher!(Sha3_256Hasher, Sha3_256, "SHA3-256");
+streaming_hasher!(Sha3_384Hasher, Sha3_384, "SHA3-384");
+streaming_hasher!(Sha3_512Hasher, Sha3_512, "SHA3-512");
+streaming_hasher!(Keccak256Hasher, Keccak256, "legacy Keccak-256");
+
+// ---------------------------------------------------------------------------
+// Streaming SHAKE
+//
+// SHAKE has no natural digest length, so each hasher carries the output
+// length used by `finalize` and the `digest*` methods. `finalize_xof` and
+// `finalize_reader` ignore it.
+// ---------------------------------------------------------------------------
+
+macro_rules! shake_hasher {
+    ($name:ident, $xof:ty, $label:literal) => {
+        #[cfg_attr(feature = "wasm", wasm_bindgen)]
+        #[derive(Clone)]
+        pub struct $name {
+            inner: $xof,
+            output_length: usize,
+        }
+
+        #[cfg_attr(feature = "wasm", wasm_bindgen)]
+        impl $name {
+            #[doc = concat!("Create a new ", $label, " hasher whose `finalize` and `digest` produce `output_length` bytes.")]
+            #[cfg_attr(feature = "wasm", wasm_bindgen(constructor))]
+            pub fn new(output_length: usize) -> Self {
+                $name {
+                    inner: <$xof>::default(),
+                    output_length,
+                }
+            }
+
+            /// Feed data into the hasher. Can be called multiple times.
+            pub fn update(&mut self, data: &[u8]) {
+                Update::update(&mut self.inner, data);
+            }
+
+            /// Feed a string into the hasher as UTF-8.
+            #[cfg_attr(feature = "wasm", wasm_bindgen(js_name = "updateStr"))]
+            pub fn update_str(&mut self, data: &str) {
+                Update::update(&mut self.inner, data.as_bytes());
+            }
+
+            /// Finalize and return `output_length` bytes.
+            /// The hasher state is NOT consumed.
+            pub fn finalize(&self) -> Vec<u8> {
+                self.finalize_xof(self.output_length)
+            }
+
+            /// Finalize and return `length` bytes of output.
+            /// Like `finalize`, the hasher state is NOT consumed.
+            #[cfg_attr(feature = "wasm", wasm_bindgen(js_name = "finalizeXof"))]
+            pub fn finalize_xof(&self, length: usize) -> Vec<u8> {
+                self.inner.clone().finalize_boxed(length).into_vec()
+            }
+
+            /// Finalize into a reader over the unbounded output stream.
+            /// The reader is independent of the hasher, which is NOT consumed.
+            #[cfg_attr(feature = "wasm", wasm_bindgen(js_name = "finalizeReader"))]
+            pub fn finalize_reader(&self) -> ShakeReader {
+                ShakeReader {
+                    inner: Box::new(self.inner.clone().finalize_xof()),
+                    position: 0,
+                }
+            }
+
+            /// Duplicate the hasher, including any data absorbed so far.
+            /// The copy is fully independent and owns its own WASM allocation.
+            pub fn fork(&self) -> $name {
+                self.clone()
+            }
+
+            /// Reset the hasher to its initial state, keeping the output length.
+            pub fn reset(&mut self) {
+                self.inner = <$xof>::default();
+            }
+
+            /// Consumptive finalize: returns `output_length` bytes and drops the hasher.
+            pub fn digest(self) -> Box<[u8]> {
+                self.inner.finalize_boxed(self.output_length)
+            }
+
+            /// Consumptive finalize returning hex string directly.
+            #[cfg_attr(feature = "wasm", wasm_bindgen(js_name = "digestHex"))]
+            pub fn digest_hex(self) -> String {
+                hex::encode(self.digest())
+            }
+
+            /// Consumptive finalize returning standard (padded) base64.
+            #[cfg_attr(feature = "wasm", wasm_bindgen(js_name = "digestBase64"))]
+            pub fn digest_base64(self) -> String {
+                STANDARD.encode(self.digest())
+            }
+
+            /// Consumptive finalize returning unpadded base64url.
+            #[cfg_attr(feature = "wasm", wasm_bindgen(js_name = "digestBase64Url"))]
+            pub fn digest_base64url(self) -> String {
+                URL_SAFE_NO_PAD.encode(self.digest())
+            }
+        }
+    };
+}
+
+shake_hasher!(Shake128Hasher, Shake128, "SHAKE128");
+shake_hasher!(Shake256Hasher, Shake256, "SHAKE256");
+
+// ---------------------------------------------------------------------------
+// Extendable output reader
+// ---------------------------------------------------------------------------
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub struct ShakeReader {
+    inner: Box<dyn XofReader>,
+    position: u64,
+}
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+impl ShakeReader {
+    /// Fill `buf` with the next bytes of the output stream and advance
+    /// the position by `buf.len()`.
+    pub fn fill(&mut self, buf: &mut [u8]) {
+        self.inner.read(buf);
+        self.position += buf.len() as u64;
+    }
+
+    /// Number of output bytes read so far. SHAKE output cannot be seeked.
+    pub fn position(&self) -> u64 {
+        self.position
+    }
+}
+
+// ---------------------------------------------------------------------------
+// Constant-time comparison
+// ---------------------------------------------------------------------------
+
+/// Compare two byte strings in constant time, e.g. a computed MAC with an
+/// expected tag. Only the lengths are compared in variable time: strings of
+/// different lengths are unequal.
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn timing_safe_equal(a: &[u8], b: &[u8]) -> bool {
+    a.ct_eq(b).into()
+}
+
+/// Like `timing_safe_equal`, with `expected` given as hex (either case).
+/// Returns `false` if `expected` is not valid hex.
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn timing_safe_equal_hex(actual: &[u8], expected: &str) -> bool {
+    match hex::decode(expected) {
+        Ok(expected) => timing_safe_equal(actual, &expected),
+        Err(_) => false,
+    }
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+#[cfg(test)]
+mod tests {
+    use super::*;
+    use hex::encode;
+
+    // -- One-shot tests (NIST FIPS 202 examples) --
+
+    #[test]
+    fn test_sha3_empty() {
+        assert_eq!(
+            encode(sha3_224_hash(b"")),
+            "6b4e03423667dbb73b6e15454f0eb1abd4597f9a1b078e3f5b5a6bc7"
+        );
+        assert_eq!(
+            encode(sha3_256_hash(b"")),
+            "a7ffc6f8bf1ed76651c14756a061d662f580ff4de43b49fa82d80a4b80f8434a"
+        );
+        assert_eq!(
+            encode(sha3_384_hash(b"")),
+            "0c63a75b845e4f7d01107d852e4c2485c51a50aaaa94fc61995e71bbee983a2ac3713831264adb47fb6bd1e058d5f004"
+        );
+        assert_eq!(
+            encode(sha3_512_hash(b"")),
+            "a69f73cca23a9ac5c8b567dc185a756e97c982164fe25859e0d1dcc1475c80a615b2123af1f5f94c11e3e9402c3ac558f500199d95b6d3e301758586281dcd26"
+        );
+    }
+
+    #[test]
+    fn test_sha3_abc() {
+        assert_eq!(
+            sha3_224_hex(b"abc"),
+            "e642824c3f8cf24ad09234ee7d3c766fc9a3a5168d0c94ad73b46fdf"
+        );
+        assert_eq!(
+            sha3_256_hex(b"abc"),
+            "3a985da74fe225b2045c172d6bd390bd855f086e3e9d525b46bfe24511431532"
+        );
+        assert_eq!(
+            sha3_384_hex(b"abc"),
+            "ec01498288516fc926459f58e2c6ad8df9b473cb0fc08c2596da7cf0e49be4b298d88cea927ac7f539f1edf228376d25"
+        );
+        assert_eq!(
+            sha3_512_hex(b"abc"),
+            "b751850b1a57168a5693cd924b6b096e08f621827444f70d884f5d0240d2712e10e116e9192af3c91a7ec57647e3934057340b4cf408d5a56592f8274eec53f0"
+        );
+    }
+
+    #[test]
+    fn test_keccak256_differs_from_sha3_256() {
+        // Ethereum's Keccak-256 uses the original padding, not the FIPS 202 one.
+        assert_eq!(
+            encode(keccak256_hash(b"")),
+            "c5d2460186f7233c927e7db2dcc703c0e500b653ca82273b7bfad8045d85a470"
+        );
+        assert_eq!(
+            keccak256_hex(b"abc"),
+            "4e03657aea45a94fc7d47ba826c8d667c0d1e6e33a64a036ec44f58fa12d6c45"
+        );
+        assert_ne!(keccak256_hash(b"abc"), sha3_256_hash(b"abc"));
+    }
+
+    #[test]
+    fn test_base64_variants() {
+        assert_eq!(
+            sha3_256_base64(b"abc"),
+            "Ophdp0/iJbIEXBcta9OQvYVfCG4+nVJbRr/iRRFDFTI="
+        );
+        assert_eq!(
+            sha3_256_base64url(b"abc"),
+            "Ophdp0_iJbIEXBcta9OQvYVfCG4-nVJbRr_iRRFDFTI"
+        );
+        assert_eq!(
+            keccak256_base64(b"abc"),
+            "TgNleupFqU/H1HuoJsjWZ8DR5uM6ZKA27ET1j6EtbEU="
+        );
+    }
+
+    #[test]
+    fn test_double_hash() {
+        assert_eq!(
+            encode(double_sha3_256_hash(b"abc")),
+            "f6362cbb9fb8a60f03c2f0d8124d2c6a1a828e2db8e8b05a6f699735b4492cbc"
+        );
+        assert_eq!(
+            encode(double_keccak256_hash(b"abc")),
+            "b8e12eedbb60e5321db47f5a3bfeb8ec0ff6ae9af10020cc61bb8c82ae0b7b66"
+        );
+        assert_eq!(
+            double_sha3_512_hash(b"abc"),
+            sha3_512_hash(&sha3_512_hash(b"abc"))
+        );
+    }
+
+    #[test]
+    fn test_shake_known_vectors() {
+        assert_eq!(
+            shake128_hex(b"", 32),
+            "7f9c2ba4e88f827d616045507605853ed73b8093f6efbc88eb1a6eacfa66ef26"
+        );
+        assert_eq!(
+            shake128_hex(b"abc", 32),
+            "5881092dd818bf5cf8a3ddb793fbcba74097d5c526a6d35f97b83351940f2cc8"
+        );
+        assert_eq!(
+            shake256_hex(b"abc", 64),
+            "483366601360a8771c6863080cc4114d8db44530f8f1e1ee4f94ea37e78b5739d5a15bef186a5386c75744c0527e1faa9f8726e462a12a4feb06bd8801e751e4"
+        );
+    }
+
+    #[test]
+    fn test_shake_lengths() {
+        assert!(shake128_hash(b"abc", 0).is_empty());
+        assert_eq!(shake256_hash(b"abc", 16), shake256_hash(b"abc", 64)[..16]);
+        // Output beyond the 168-byte SHAKE128 rate
+        let long = shake128_hash(b"abc", 200);
+        assert_eq!(
+            encode(&long[168..]),
+            "6aa01b3f5af057805f973ff8ecb8b226ac32ada6f01c1fcd4818cb006aa5b4cd"
+        );
+    }
+
+    #[test]
+    fn test_str_variants_match_bytes() {
+        let text = "héllo wörld 🌍";
+        let bytes = text.as_bytes();
+        assert_eq!(sha3_224_hash_str(text), sha3_224_hash(bytes));
+        assert_eq!(sha3_256_hex_str(text), sha3_256_hex(bytes));
+        assert_eq!(sha3_384_base64_str(text), sha3_384_base64(bytes));
+        assert_eq!(sha3_512_base64url_str(text), sha3_512_base64url(bytes));
+        assert_eq!(keccak256_hash_str(text), keccak256_hash(bytes));
+        assert_eq!(
+            double_keccak256_hash_str(text),
+            double_keccak256_hash(bytes)
+        );
+        assert_eq!(shake128_hash_str(text, 40), shake128_hash(bytes, 40));
+        assert_eq!(shake256_hex_str(text, 40), shake256_hex(bytes, 40));
+    }
+
+    // -- Streaming tests --
+
+    #[test]
+    fn test_streaming_multi_chunk() {
+        let data: Vec<u8> = (0..500u32).map(|i| i as u8).collect();
+        let mut hasher = Sha3_256Hasher::new();
+        for chunk in data.chunks(37) {
+            hasher.update(chunk);
+        }
+        assert_eq!(hasher.finalize(), sha3_256_hash(&data));
+
+        let mut hasher = Keccak256Hasher::new();
+        hasher.update_str("a");
+        hasher.update(b"bc");
+        assert_eq!(
+            hasher.digest_hex(),
+            "4e03657aea45a94fc7d47ba826c8d667c0d1e6e33a64a036ec44f58fa12d6c45"
+        );
+    }
+
+    #[test]
+    fn test_streaming_finalize_no_consume() {
+        let mut hasher = Sha3_512Hasher::new();
+        hasher.update(b"abc");
+        let h1 = hasher.finalize();
+        let h2 = hasher.finalize();
+        assert_eq!(h1, h2);
+        assert_eq!(h1.len(), 64);
+    }
+
+    #[test]
+    fn test_streaming_reset() {
+        let mut hasher = Sha3_384Hasher::new();
+        hasher.update(b"garbage");
+        hasher.reset();
+        hasher.update(b"abc");
+        assert_eq!(hasher.finalize(), sha3_384_hash(b"abc"));
+    }
+
+    #[test]
+    fn test_fork_is_independent() {
+        let mut parent = Sha3_224Hasher::new();
+        parent.update(b"hello");
+        let mut child = parent.fork();
+        child.update(b" world");
+        parent.update(b" there");
+
+        assert_eq!(child.finalize(), sha3_224_hash(b"hello world"));
+        assert_eq!(parent.finalize(), sha3_224_hash(b"hello there"));
+    }
+
+    #[test]
+    fn test_digest_encodings() {
+        let mut hasher = Sha3_256Hasher::new();
+        hasher.update(b"abc");
+        assert_eq!(hasher.clone().digest_base64(), sha3_256_base64(b"abc"));
+        assert_eq!(hasher.digest_base64url(), sha3_256_base64url(b"abc"));
+    }
+
+    // -- Streaming SHAKE tests --
+
+    #[test]
+    fn test_shake_streaming_matches_oneshot() {
+        let mut hasher = Shake128Hasher::new(32);
+        hasher.update(b"a");
+        hasher.update_str("bc");
+        assert_eq!(hasher.finalize(), shake128_hash(b"abc", 32));
+        assert_eq!(hasher.finalize_xof(100), shake128_hash(b"abc", 100));
+        assert_eq!(hasher.digest_hex(), shake128_hex(b"abc", 32));
+
+        let mut hasher = Shake256Hasher::new(16);
+        hasher.update(b"abc");
+        assert_eq!(encode(hasher.digest()), "483366601360a8771c6863080cc4114d");
+    }
+
+    #[test]
+    fn test_shake_reset_and_fork() {
+        let mut parent = Shake256Hasher::new(64);
+        parent.update(b"garbage");
+        parent.reset();
+        parent.update(b"ab");
+        let mut child = parent.fork();
+        child.update(b"c");
+        parent.update(b"x");
+
+        assert_eq!(child.finalize(), shake256_hash(b"abc", 64));
+        assert_eq!(parent.finalize(), shake256_hash(b"abx", 64));
+    }
+
+    #[test]
+    fn test_shake_reader() {
+        let expected = shake128_hash(b"abc", 300);
+        let mut hasher = Shake128Hasher::new(32);
+        hasher.update(b"abc");
+        let mut reader = hasher.finalize_reader();
+
+        let mut first = [0u8; 10];
+        let mut rest = [0u8; 290];
+        reader.fill(&mut first);
+        assert_eq!(reader.position(), 10);
+        reader.fill(&mut rest);
+        assert_eq!(reader.position(), 300);
+        assert_eq!(first[..], expected[..10]);
+        assert_eq!(rest[..], expected[10..]);
+
+        // The hasher is not consumed by the reader
+        hasher.update(b"d");
+        assert_eq!(hasher.finalize(), shake128_hash(b"abcd", 32));
+    }
+
+    // -- Batch tests --
+
+    #[test]
+    fn test_hash_many_matches_one_shot() {
+        let data = b"abchello world";
+        let offsets = [0, 0, 3, 14];
+        let inputs: [&[u8]; 3] = [b"", b"abc", b"hello world"];
+        let expected: Vec<u8> = inputs
+            .iter()
+            .flat_map(|input| sha3_256_hash(input))
+            .collect();
+        assert_eq!(sha3_256_hash_many(data, &offsets).unwrap(), expected);
+        let expected: Vec<u8> = inputs
+            .iter()
+            .flat_map(|input| keccak256_hash(input))
+            .collect();
+        assert_eq!(keccak256_hash_many(data, &offsets).unwrap(), expected);
+        let expected: Vec<u8> = inputs
+            .iter()
+            .flat_map(|input| shake128_hash(input, 20))
+            .collect();
+        assert_eq!(shake128_hash_many(data, &offsets, 20).unwrap(), expected);
+    }
+
+    #[test]
+    fn test_hash_many_empty_batch() {
+        assert!(sha3_512_hash_many(b"abc", &[]).unwrap().is_empty());
+        assert!(shake256_hash_many(b"abc", &[2], 64).unwrap().is_empty());
+    }
+
+    #[test]
+    fn test_hash_many_rejects_bad_offsets() {
+        assert!(sha3_224_hash_many(b"abc", &[0, 4]).is_err());
+        assert!(sha3_384_hash_many(b"abc", &[2, 1]).is_err());
+    }
+
+    #[test]
+    fn test_timing_safe_equal() {
+        assert!(timing_safe_equal(b"", b""));
+        assert!(timing_safe_equal(b"abc", b"abc"));
+        assert!(!timing_safe_equal(b"abc", b"abd"));
+        assert!(!timing_safe_equal(b"abc", b"ab"));
+    }
+
+    #[test]
+    fn test_timing_safe_equal_hex() {
+        assert!(timing_safe_equal_hex(&[0xab, 0x01], "ab01"));
+        assert!(timing_safe_equal_hex(&[0xab, 0x01], "AB01"));
+        assert!(!timing_safe_equal_hex(&[0xab, 0x01], "ab02"));
+        assert!(!timing_safe_equal_hex(&[0xab, 0x01], "ab0"));
+        assert!(!timing_safe_equal_hex(&[0xab, 0x01], "ab0100"));
+        assert!(!timing_safe_equal_hex(&[0xab, 0x01], "zz01"));
+    }
+}
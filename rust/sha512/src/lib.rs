@@ -0,0 +1,853 @@
+use base64::engine::general_purpose::{STANDARD, URL_SAFE_NO_PAD};
+use base64::Engine as _;
+use hmac::digest::KeyInit;
+use hmac::{Hmac, Mac};
+use sha2::{Digest, Sha384, Sha512, Sha512_256};
+use subtle::ConstantTimeEq;
+
+#[cfg(feature = "wasm")]
+use wasm_bindgen::prelude::*;
+
+type HmacSha384 = Hmac<Sha384>;
+type HmacSha512 = Hmac<Sha512>;
+type HmacSha512_256 = Hmac<Sha512_256>;
+
+// ---------------------------------------------------------------------------
+// Generic helpers
+//
+// wasm-bindgen cannot export generic functions, so each variant below is a
+// thin, concrete wrapper around these.
+// ---------------------------------------------------------------------------
+
+fn hash<D: Digest>(data: &[u8]) -> Vec<u8> {
+    D::digest(data).to_vec()
+}
+
+fn double_hash<D: Digest>(data: &[u8]) -> Vec<u8> {
+    D::digest(D::digest(data)).to_vec()
+}
+
+fn mac<M: Mac + KeyInit>(key: &[u8], data: &[u8]) -> Result<Vec<u8>, String> {
+    let mut mac = <M as Mac>::new_from_slice(key).map_err(|e| format!("Invalid key: {}", e))?;
+    mac.update(data);
+    Ok(mac.finalize().into_bytes().to_vec())
+}
+
+// ---------------------------------------------------------------------------
+// SHA-512 one-shot functions
+// ---------------------------------------------------------------------------
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn sha512_hash(data: &[u8]) -> Vec<u8> {
+    hash::<Sha512>(data)
+}
+
+/// One-shot SHA-512 hash returning hex string.
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn sha512_hex(data: &[u8]) -> String {
+    hex::encode(Sha512::digest(data))
+}
+
+/// One-shot SHA-512 hash returning standard (padded) base64.
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn sha512_base64(data: &[u8]) -> String {
+    STANDARD.encode(Sha512::digest(data))
+}
+
+/// One-shot SHA-512 hash returning unpadded base64url.
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn sha512_base64url(data: &[u8]) -> String {
+    URL_SAFE_NO_PAD.encode(Sha512::digest(data))
+}
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn double_sha512_hash(data: &[u8]) -> Vec<u8> {
+    double_hash::<Sha512>(data)
+}
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn sha512_hmac(key: &[u8], data: &[u8]) -> Result<Vec<u8>, String> {
+    mac::<HmacSha512>(key, data)
+}
+
+// ---------------------------------------------------------------------------
+// SHA-384 one-shot functions
+// ---------------------------------------------------------------------------
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn sha384_hash(data: &[u8]) -> Vec<u8> {
+    hash::<Sha384>(data)
+}
+
+/// One-shot SHA-384 hash returning hex string.
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn sha384_hex(data: &[u8]) -> String {
+    hex::encode(Sha384::digest(data))
+}
+
+/// One-shot SHA-384 hash returning standard (padded) base64.
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn sha384_base64(data: &[u8]) -> String {
+    STANDARD.encode(Sha384::digest(data))
+}
+
+/// One-shot SHA-384 hash returning unpadded base64url.
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn sha384_base64url(data: &[u8]) -> String {
+    URL_SAFE_NO_PAD.encode(Sha384::digest(data))
+}
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn double_sha384_hash(data: &[u8]) -> Vec<u8> {
+    double_hash::<Sha384>(data)
+}
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn sha384_hmac(key: &[u8], data: &[u8]) -> Result<Vec<u8>, String> {
+    mac::<HmacSha384>(key, data)
+}
+
+// ---------------------------------------------------------------------------
+// SHA-512/256 one-shot functions
+// ---------------------------------------------------------------------------
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn sha512_256_hash(data: &[u8]) -> Vec<u8> {
+    hash::<Sha512_256>(data)
+}
+
+/// One-shot SHA-512/256 hash returning hex string.
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn sha512_256_hex(data: &[u8]) -> String {
+    hex::encode(Sha512_256::digest(data))
+}
+
+/// One-shot SHA-512/256 hash returning standard (padded) base64.
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn sha512_256_base64(data: &[u8]) -> String {
+    STANDARD.encode(Sha512_256::digest(data))
+}
+
+/// One-shot SHA-512/256 hash returning unpadded base64url.
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn sha512_256_base64url(data: &[u8]) -> String {
+    URL_SAFE_NO_PAD.encode(Sha512_256::digest(data))
+}
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn double_sha512_256_hash(data: &[u8]) -> Vec<u8> {
+    double_hash::<Sha512_256>(data)
+}
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn sha512_256_hmac(key: &[u8], data: &[u8]) -> Result<Vec<u8>, String> {
+    mac::<HmacSha512_256>(key, data)
+}
+
+// ---------------------------------------------------------------------------
+// String input
+//
+// wasm-bindgen encodes JS strings as UTF-8 directly into WASM memory, so
+// these variants avoid materializing an intermediate `Uint8Array` in JS.
+// ---------------------------------------------------------------------------
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn sha512_hash_str(data: &str) -> Vec<u8> {
+    sha512_hash(data.as_bytes())
+}
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn sha512_hex_str(data: &str) -> String {
+    sha512_hex(data.as_bytes())
+}
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn sha512_base64_str(data: &str) -> String {
+    sha512_base64(data.as_bytes())
+}
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn sha512_base64url_str(data: &str) -> String {
+    sha512_base64url(data.as_bytes())
+}
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn double_sha512_hash_str(data: &str) -> Vec<u8> {
+    double_sha512_hash(data.as_bytes())
+}
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn sha512_hmac_str(key: &[u8], data: &str) -> Result<Vec<u8>, String> {
+    sha512_hmac(key, data.as_bytes())
+}
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn sha384_hash_str(data: &str) -> Vec<u8> {
+    sha384_hash(data.as_bytes())
+}
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn sha384_hex_str(data: &str) -> String {
+    sha384_hex(data.as_bytes())
+}
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn sha384_base64_str(data: &str) -> String {
+    sha384_base64(data.as_bytes())
+}
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn sha384_base64url_str(data: &str) -> String {
+    sha384_base64url(data.as_bytes())
+}
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn double_sha384_hash_str(data: &str) -> Vec<u8> {
+    double_sha384_hash(data.as_bytes())
+}
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn sha384_hmac_str(key: &[u8], data: &str) -> Result<Vec<u8>, String> {
+    sha384_hmac(key, data.as_bytes())
+}
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn sha512_256_hash_str(data: &str) -> Vec<u8> {
+    sha512_256_hash(data.as_bytes())
+}
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn sha512_256_hex_str(data: &str) -> String {
+    sha512_256_hex(data.as_bytes())
+}
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn sha512_256_base64_str(data: &str) -> String {
+    sha512_256_base64(data.as_bytes())
+}
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn sha512_256_base64url_str(data: &str) -> String {
+    sha512_256_base64url(data.as_bytes())
+}
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn double_sha512_256_hash_str(data: &str) -> Vec<u8> {
+    double_sha512_256_hash(data.as_bytes())
+}
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn sha512_256_hmac_str(key: &[u8], data: &str) -> Result<Vec<u8>, String> {
+    sha512_256_hmac(key, data.as_bytes())
+}
+
+// ---------------------------------------------------------------------------
+// Batch hashing
+//
+// Hash many inputs packed into one buffer in a single WASM call, instead of
+// paying a boundary crossing and a result allocation per input. Input `i` is
+// `data[offsets[i]..offsets[i + 1]]`, so `n` inputs take `n + 1` offsets.
+// ---------------------------------------------------------------------------
+
+/// Split `data` into the inputs described by `offsets`, rejecting offsets
+/// that decrease or run past the end of `data`.
+fn batch_inputs<'a>(data: &'a [u8], offsets: &[u32]) -> Result<Vec<&'a [u8]>, String> {
+    offsets
+        .windows(2)
+        .map(|pair| {
+            let (start, end) = (pair[0] as usize, pair[1] as usize);
+            data.get(start..end).ok_or_else(|| {
+                format!(
+                    "Invalid offsets: {}..{} is out of range for {} bytes",
+                    start,
+                    end,
+                    data.len()
+                )
+            })
+        })
+        .collect()
+}
+
+fn hash_many<D: Digest>(data: &[u8], offsets: &[u32]) -> Result<Vec<u8>, String> {
+    let inputs = batch_inputs(data, offsets)?;
+    let mut out = Vec::with_capacity(inputs.len() * <D as Digest>::output_size());
+    for input in inputs {
+        out.extend_from_slice(&D::digest(input));
+    }
+    Ok(out)
+}
+
+/// Hash every input and return the 64-byte SHA-512 digests concatenated in input order.
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn sha512_hash_many(data: &[u8], offsets: &[u32]) -> Result<Vec<u8>, String> {
+    hash_many::<Sha512>(data, offsets)
+}
+
+/// Hash every input and return the 48-byte SHA-384 digests concatenated in input order.
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn sha384_hash_many(data: &[u8], offsets: &[u32]) -> Result<Vec<u8>, String> {
+    hash_many::<Sha384>(data, offsets)
+}
+
+/// Hash every input and return the 32-byte SHA-512/256 digests concatenated in input order.
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn sha512_256_hash_many(data: &[u8], offsets: &[u32]) -> Result<Vec<u8>, String> {
+    hash_many::<Sha512_256>(data, offsets)
+}
+
+// ---------------------------------------------------------------------------
+// Streaming hashers
+//
+// wasm-bindgen cannot export generic structs either, so the three hashers
+// are stamped out from one definition.
+// ---------------------------------------------------------------------------
+
+macro_rules! streaming_hasher {
+    ($name:ident, $digest:ty, $label:literal) => {
+        #[cfg_attr(feature = "wasm", wasm_bindgen)]
+        #[derive(Clone)]
+        pub struct $name {
+            inner: $digest,
+        }
+
+        #[cfg_attr(feature = "wasm", wasm_bindgen)]
+        impl $name {
+            #[doc = concat!("Create a new ", $label, " hasher.")]
+            #[cfg_attr(feature = "wasm", wasm_bindgen(constructor))]
+            pub fn new() -> Self {
+                $name {
+                    inner: <$digest>::new(),
+                }
+            }
+
+            /// Feed data into the hasher. Can be called multiple times.
+            pub fn update(&mut self, data: &[u8]) {
+                self.inner.update(data);
+            }
+
+            /// Feed a string into the hasher as UTF-8.
+            #[cfg_attr(feature = "wasm", wasm_bindgen(js_name = "updateStr"))]
+            pub fn update_str(&mut self, data: &str) {
+                self.inner.update(data.as_bytes());
+            }
+
+            /// Finalize and return the hash.
+            /// The hasher state is NOT consumed — you can continue calling `update`
+            /// after `finalize` to get incremental hashes.
+            pub fn finalize(&self) -> Vec<u8> {
+                self.inner.clone().finalize().to_vec()
+            }
+
+            /// Duplicate the hasher, including any data absorbed so far.
+            /// The copy is fully independent and owns its own WASM allocation.
+            pub fn fork(&self) -> $name {
+                self.clone()
+            }
+
+            /// Reset the hasher to its initial state.
+            pub fn reset(&mut self) {
+                Digest::reset(&mut self.inner);
+            }
+
+            /// Consumptive finalize: returns the hash and drops the hasher.
+            /// Single WASM boundary crossing (vs finalize + free = 2 crossings).
+            pub fn digest(self) -> Box<[u8]> {
+                self.inner.finalize().to_vec().into_boxed_slice()
+            }
+
+            /// Consumptive finalize returning hex string directly.
+            #[cfg_attr(feature = "wasm", wasm_bindgen(js_name = "digestHex"))]
+            pub fn digest_hex(self) -> String {
+                hex::encode(self.inner.finalize())
+            }
+
+            /// Consumptive finalize returning standard (padded) base64.
+            #[cfg_attr(feature = "wasm", wasm_bindgen(js_name = "digestBase64"))]
+            pub fn digest_base64(self) -> String {
+                STANDARD.encode(self.inner.finalize())
+            }
+
+            /// Consumptive finalize returning unpadded base64url.
+            #[cfg_attr(feature = "wasm", wasm_bindgen(js_name = "digestBase64Url"))]
+            pub fn digest_base64url(self) -> String {
+                URL_SAFE_NO_PAD.encode(self.inner.finalize())
+            }
+        }
+
+        impl Default for $name {
+            fn default() -> Self {
+                Self::new()
+            }
+        }
+    };
+}
+
+streaming_hasher!(Sha512Hasher, Sha512, "SHA-512");
+streaming_hasher!(Sha384Hasher, Sha384, "SHA-384");
+streaming_hasher!(Sha512_256Hasher, Sha512_256, "SHA-512/256");
+
+// ---------------------------------------------------------------------------
+// Streaming HMAC
+// ---------------------------------------------------------------------------
+
+macro_rules! hmac_hasher {
+    ($name:ident, $mac:ty, $label:literal) => {
+        #[cfg_attr(feature = "wasm", wasm_bindgen)]
+        #[derive(Clone)]
+        pub struct $name {
+            inner: $mac,
+            initial: $mac,
+        }
+
+        #[cfg_attr(feature = "wasm", wasm_bindgen)]
+        impl $name {
+            #[doc = concat!("Create a new ", $label, " hasher keyed with `key`.")]
+            #[cfg_attr(feature = "wasm", wasm_bindgen(constructor))]
+            pub fn new(key: &[u8]) -> Result<$name, String> {
+                let mac = <$mac as Mac>::new_from_slice(key)
+                    .map_err(|e| format!("Invalid key: {}", e))?;
+                Ok($name {
+                    inner: mac.clone(),
+                    initial: mac,
+                })
+            }
+
+            /// Feed data into the MAC. Can be called multiple times.
+            pub fn update(&mut self, data: &[u8]) {
+                self.inner.update(data);
+            }
+
+            /// Feed a string into the MAC as UTF-8.
+            #[cfg_attr(feature = "wasm", wasm_bindgen(js_name = "updateStr"))]
+            pub fn update_str(&mut self, data: &str) {
+                self.inner.update(data.as_bytes());
+            }
+
+            /// Finalize and return the tag.
+            /// The hasher state is NOT consumed.
+            pub fn finalize(&self) -> Vec<u8> {
+                self.inner.clone().finalize().into_bytes().to_vec()
+            }
+
+            /// Duplicate the hasher, including the key and any data absorbed so far.
+            pub fn fork(&self) -> $name {
+                self.clone()
+            }
+
+            /// Reset the hasher to its initial state, preserving the key.
+            pub fn reset(&mut self) {
+                self.inner = self.initial.clone();
+            }
+
+            /// Consumptive finalize: returns the tag and drops the hasher.
+            pub fn digest(self) -> Box<[u8]> {
+                self.inner
+                    .finalize()
+                    .into_bytes()
+                    .to_vec()
+                    .into_boxed_slice()
+            }
+
+            /// Consumptive finalize returning hex string directly.
+            #[cfg_attr(feature = "wasm", wasm_bindgen(js_name = "digestHex"))]
+            pub fn digest_hex(self) -> String {
+                hex::encode(self.inner.finalize().into_bytes())
+            }
+
+            /// Consumptive finalize returning standard (padded) base64.
+            #[cfg_attr(feature = "wasm", wasm_bindgen(js_name = "digestBase64"))]
+            pub fn digest_base64(self) -> String {
+                STANDARD.encode(self.inner.finalize().into_bytes())
+            }
+
+            /// Consumptive finalize returning unpadded base64url.
+            #[cfg_attr(feature = "wasm", wasm_bindgen(js_name = "digestBase64Url"))]
+            pub fn digest_base64url(self) -> String {
+                URL_SAFE_NO_PAD.encode(self.inner.finalize().into_bytes())
+            }
+        }
+    };
+}
+
+hmac_hasher!(HmacSha512Hasher, HmacSha512, "HMAC-SHA512");
+hmac_hasher!(HmacSha384Hasher, HmacSha384, "HMAC-SHA384");
+hmac_hasher!(HmacSha512_256Hasher, HmacSha512_256, "HMAC-SHA512/256");
+
+// ---------------------------------------------------------------------------
+// Constant-time comparison
+// ---------------------------------------------------------------------------
+
+/// Compare two byte strings in constant time, e.g. a computed MAC with an
+/// expected tag. Only the lengths are compared in variable time: strings of
+/// different lengths are unequal.
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn timing_safe_equal(a: &[u8], b: &[u8]) -> bool {
+    a.ct_eq(b).into()
+}
+
+/// Like `timing_safe_equal`, with `expected` given as hex (either case).
+/// Returns `false` if `expected` is not valid hex.
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn timing_safe_equal_hex(actual: &[u8], expected: &str) -> bool {
+    match hex::decode(expected) {
+        Ok(expected) => timing_safe_equal(actual, &expected),
+        Err(_) => false,
+    }
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+#[cfg(test)]
+mod tests {
+    use super::*;
+    use hex::{decode, encode};
+
+    const TWO_BLOCK: &[u8] = b"abcdefghbcdefghicdefghijdefghijkefghijklfghijklmghijklmnhijklmnoijklmnopjklmnopqklmnopqrlmnopqrsmnopqrstnopqrstu";
+
+    // -- One-shot tests (NIST FIPS 180-4 examples) --
+
+    #[test]
+    fn test_sha512_empty() {
+        let expected = "cf83e1357eefb8bdf1542850d66d8007d620e4050b5715dc83f4a921d36ce9ce47d0d13c5d85f2b0ff8318d2877eec2f63b931bd47417a81a538327af927da3e";
+        assert_eq!(encode(sha512_hash(b"")), expected);
+    }
+
+    #[test]
+    fn test_sha512_abc() {
+        let expected = "ddaf35a193617abacc417349ae20413112e6fa4e89a97ea20a9eeee64b55d39a2192992a274fc1a836ba3c23a3feebbd454d4423643ce80e2a9ac94fa54ca49f";
+        assert_eq!(encode(sha512_hash(b"abc")), expected);
+        assert_eq!(sha512_hex(b"abc"), expected);
+    }
+
+    #[test]
+    fn test_sha512_two_block() {
+        let expected = "8e959b75dae313da8cf4f72814fc143f8f7779c6eb9f7fa17299aeadb6889018501d289e4900f7e4331b99dec4b5433ac7d329eeb6dd26545e96e55b874be909";
+        assert_eq!(sha512_hex(TWO_BLOCK), expected);
+    }
+
+    #[test]
+    fn test_sha384_empty() {
+        let expected = "38b060a751ac96384cd9327eb1b1e36a21fdb71114be07434c0cc7bf63f6e1da274edebfe76f65fbd51ad2f14898b95b";
+        assert_eq!(encode(sha384_hash(b"")), expected);
+    }
+
+    #[test]
+    fn test_sha384_abc() {
+        let expected = "cb00753f45a35e8bb5a03d699ac65007272c32ab0eded1631a8b605a43ff5bed8086072ba1e7cc2358baeca134c825a7";
+        assert_eq!(encode(sha384_hash(b"abc")), expected);
+        assert_eq!(sha384_hex(b"abc"), expected);
+    }
+
+    #[test]
+    fn test_sha384_two_block() {
+        let expected = "09330c33f71147e83d192fc782cd1b4753111b173b3b05d22fa08086e3b0f712fcc7c71a557e2db966c3e9fa91746039";
+        assert_eq!(sha384_hex(TWO_BLOCK), expected);
+    }
+
+    #[test]
+    fn test_sha512_256_empty() {
+        let expected = "c672b8d1ef56ed28ab87c3622c5114069bdd3ad7b8f9737498d0c01ecef0967a";
+        assert_eq!(encode(sha512_256_hash(b"")), expected);
+    }
+
+    #[test]
+    fn test_sha512_256_abc() {
+        let expected = "53048e2681941ef99b2e29b76b4c7dabe4c2d0c634fc6d46e0e2f13107e7af23";
+        assert_eq!(encode(sha512_256_hash(b"abc")), expected);
+        assert_eq!(sha512_256_hex(b"abc"), expected);
+    }
+
+    #[test]
+    fn test_sha512_256_two_block() {
+        let expected = "3928e184fb8690f840da3988121d31be65cb9d3ef83ee6146feac861e19b563a";
+        assert_eq!(sha512_256_hex(TWO_BLOCK), expected);
+    }
+
+    #[test]
+    fn test_double_hash() {
+        assert_eq!(
+            encode(double_sha512_hash(b"abc")),
+            "373a9f3a902cf561003b513c94c5164ba4af135cbc4eb4d856b89ea5609523f130bbe5e453e6c645b2765a265aaeb1390c82c913130870636cd0c8ecf980d851"
+        );
+        assert_eq!(
+            encode(double_sha384_hash(b"abc")),
+            "73100f01cf258766906c34a30f9a486f07259c627ea0696d97c4582560447f59a6df4a7cf960708271a30324b1481ef4"
+        );
+        assert_eq!(
+            encode(double_sha512_256_hash(b"abc")),
+            "43d41a1566875ff3db7dae19aa7f3f68966abfa69841418296a6fdc9b2ba18ee"
+        );
+    }
+
+    #[test]
+    fn test_base64_variants() {
+        assert_eq!(
+            sha512_base64(b"abc"),
+            "3a81oZNherrMQXNJriBBMRLm+k6JqX6iCp7u5ktV05ohkpkqJ0/BqDa6PCOj/uu9RU1EI2Q86A4qmslPpUyknw=="
+        );
+        assert_eq!(
+            sha512_base64url(b"abc"),
+            "3a81oZNherrMQXNJriBBMRLm-k6JqX6iCp7u5ktV05ohkpkqJ0_BqDa6PCOj_uu9RU1EI2Q86A4qmslPpUyknw"
+        );
+        assert_eq!(
+            sha384_base64(b"abc"),
+            "ywB1P0WjXou1oD1pmsZQBycsMqsO3tFjGotgWkP/W+2AhgcroefMI1i67KE0yCWn"
+        );
+        assert_eq!(
+            sha512_256_base64url(b"abc"),
+            "UwSOJoGUHvmbLim3a0x9q-TC0MY0_G1G4OLxMQfnryM"
+        );
+    }
+
+    #[test]
+    fn test_str_variants_match_bytes() {
+        let text = "héllo wörld 🌍";
+        let bytes = text.as_bytes();
+        assert_eq!(sha512_hash_str(text), sha512_hash(bytes));
+        assert_eq!(sha512_hex_str(text), sha512_hex(bytes));
+        assert_eq!(sha512_base64_str(text), sha512_base64(bytes));
+        assert_eq!(double_sha512_hash_str(text), double_sha512_hash(bytes));
+        assert_eq!(sha512_hmac_str(b"key", text), sha512_hmac(b"key", bytes));
+        assert_eq!(sha384_hash_str(text), sha384_hash(bytes));
+        assert_eq!(sha384_base64url_str(text), sha384_base64url(bytes));
+        assert_eq!(sha384_hmac_str(b"key", text), sha384_hmac(b"key", bytes));
+        assert_eq!(sha512_256_hex_str(text), sha512_256_hex(bytes));
+        assert_eq!(
+            double_sha512_256_hash_str(text),
+            double_sha512_256_hash(bytes)
+        );
+        assert_eq!(
+            sha512_256_hmac_str(b"key", text),
+            sha512_256_hmac(b"key", bytes)
+        );
+    }
+
+    // -- HMAC tests (RFC 4231) --
+
+    #[test]
+    fn test_hmac_rfc4231_case1() {
+        let key = decode("0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b").unwrap();
+        let data = b"Hi There";
+        assert_eq!(
+            encode(sha384_hmac(&key, data).unwrap()),
+            "afd03944d84895626b0825f4ab46907f15f9dadbe4101ec682aa034c7cebc59cfaea9ea9076ede7f4af152e8b2fa9cb6"
+        );
+        assert_eq!(
+            encode(sha512_hmac(&key, data).unwrap()),
+            "87aa7cdea5ef619d4ff0b4241a1d6cb02379f4e2ce4ec2787ad0b30545e17cdedaa833b7d6b8a702038b274eaea3f4e4be9d914eeb61f1702e696c203a126854"
+        );
+    }
+
+    #[test]
+    fn test_hmac_rfc4231_case2() {
+        let key = b"Jefe";
+        let data = b"what do ya want for nothing?";
+        assert_eq!(
+            encode(sha384_hmac(key, data).unwrap()),
+            "af45d2e376484031617f78d2b58a6b1b9c7ef464f5a01b47e42ec3736322445e8e2240ca5e69e2c78b3239ecfab21649"
+        );
+        assert_eq!(
+            encode(sha512_hmac(key, data).unwrap()),
+            "164b7a7bfcf819e2e395fbe73b56e0a387bd64222e831fd610270cd7ea2505549758bf75c05a994a6d034f65f8f0e6fdcaeab1a34d4a6b4b636e070a38bce737"
+        );
+        assert_eq!(
+            encode(sha512_256_hmac(key, data).unwrap()),
+            "6df7b24630d5ccb2ee335407081a87188c221489768fa2020513b2d593359456"
+        );
+    }
+
+    // -- Streaming HMAC tests --
+
+    #[test]
+    fn test_hmac_streaming_matches_oneshot() {
+        let key = b"Jefe";
+        let oneshot = sha512_hmac(key, b"what do ya want for nothing?").unwrap();
+
+        let mut hasher = HmacSha512Hasher::new(key).unwrap();
+        hasher.update(b"what do ya ");
+        hasher.update(b"want for nothing?");
+        assert_eq!(hasher.finalize(), oneshot);
+        assert_eq!(hasher.finalize(), oneshot);
+    }
+
+    #[test]
+    fn test_hmac_streaming_long_key() {
+        // RFC 4231 test case 6: key longer than the block size
+        let key = [0xaau8; 131];
+        let data = b"Test Using Larger Than Block-Size Key - Hash Key First";
+
+        let mut hasher = HmacSha512Hasher::new(&key).unwrap();
+        hasher.update(&data[..20]);
+        hasher.update(&data[20..]);
+        assert_eq!(
+            hasher.digest_hex(),
+            "80b24263c7c1a3ebb71493c1dd7be8b49b46d1f41b4aeec1121b013783f8f3526b56d037e05f2598bd0fd2215d6a1e5295e64f73f63f0aec8b915a985d786598"
+        );
+
+        let mut hasher = HmacSha384Hasher::new(&key).unwrap();
+        hasher.update(data);
+        assert_eq!(
+            hasher.digest_hex(),
+            "4ece084485813e9088d2c63a041bc5b44f9ef1012a2b588f3cd11f05033ac4c60c2ef6ab4030fe8296248df163f44952"
+        );
+    }
+
+    #[test]
+    fn test_hmac_streaming_reset_keeps_key() {
+        let key = b"Jefe";
+        let mut hasher = HmacSha512_256Hasher::new(key).unwrap();
+        hasher.update(b"garbage");
+        hasher.reset();
+        hasher.update_str("what do ya want for nothing?");
+        assert_eq!(
+            encode(hasher.digest()),
+            "6df7b24630d5ccb2ee335407081a87188c221489768fa2020513b2d593359456"
+        );
+    }
+
+    #[test]
+    fn test_hmac_fork_is_independent() {
+        let mut parent = HmacSha384Hasher::new(b"Jefe").unwrap();
+        parent.update(b"what do ya ");
+        let mut child = parent.fork();
+        child.update(b"want for nothing?");
+        parent.update(b"garbage");
+
+        assert_eq!(
+            child.finalize(),
+            sha384_hmac(b"Jefe", b"what do ya want for nothing?").unwrap()
+        );
+        assert_eq!(
+            parent.finalize(),
+            sha384_hmac(b"Jefe", b"what do ya garbage").unwrap()
+        );
+    }
+
+    // -- Streaming tests --
+
+    #[test]
+    fn test_streaming_multi_chunk() {
+        let mut hasher = Sha512Hasher::new();
+        for chunk in TWO_BLOCK.chunks(7) {
+            hasher.update(chunk);
+        }
+        assert_eq!(hasher.finalize(), sha512_hash(TWO_BLOCK));
+
+        let mut hasher = Sha384Hasher::new();
+        hasher.update_str("hello ");
+        hasher.update(b"world");
+        assert_eq!(hasher.finalize(), sha384_hash(b"hello world"));
+
+        let mut hasher = Sha512_256Hasher::new();
+        hasher.update(b"a");
+        hasher.update(b"bc");
+        assert_eq!(
+            hasher.digest_hex(),
+            "53048e2681941ef99b2e29b76b4c7dabe4c2d0c634fc6d46e0e2f13107e7af23"
+        );
+    }
+
+    #[test]
+    fn test_streaming_finalize_no_consume() {
+        let mut hasher = Sha512Hasher::new();
+        hasher.update(b"abc");
+        let h1 = hasher.finalize();
+        let h2 = hasher.finalize();
+        assert_eq!(h1, h2);
+        assert_eq!(h1.len(), 64);
+    }
+
+    #[test]
+    fn test_streaming_reset() {
+        let mut hasher = Sha384Hasher::new();
+        hasher.update(b"garbage");
+        hasher.reset();
+        hasher.update(b"abc");
+        assert_eq!(hasher.finalize(), sha384_hash(b"abc"));
+    }
+
+    #[test]
+    fn test_fork_is_independent() {
+        let mut parent = Sha512_256Hasher::new();
+        parent.update(b"hello");
+        let mut child = parent.fork();
+        child.update(b" world");
+        parent.update(b" there");
+
+        assert_eq!(child.finalize(), sha512_256_hash(b"hello world"));
+        assert_eq!(parent.finalize(), sha512_256_hash(b"hello there"));
+    }
+
+    #[test]
+    fn test_digest_lengths() {
+        assert_eq!(Sha512Hasher::new().digest().len(), 64);
+        assert_eq!(Sha384Hasher::new().digest().len(), 48);
+        assert_eq!(Sha512_256Hasher::new().digest().len(), 32);
+        assert_eq!(HmacSha512_256Hasher::new(b"k").unwrap().digest().len(), 32);
+    }
+
+    #[test]
+    fn test_digest_encodings() {
+        let mut hasher = Sha512Hasher::new();
+        hasher.update(b"abc");
+        assert_eq!(hasher.clone().digest_base64(), sha512_base64(b"abc"));
+        assert_eq!(hasher.digest_base64url(), sha512_base64url(b"abc"));
+
+        let mut mac = HmacSha384Hasher::new(b"Jefe").unwrap();
+        mac.update(b"what do ya want for nothing?");
+        assert_eq!(
+            mac.digest_base64(),
+            STANDARD.encode(sha384_hmac(b"Jefe", b"what do ya want for nothing?").unwrap())
+        );
+    }
+
+    // -- Batch tests --
+
+    #[test]
+    fn test_hash_many_matches_one_shot() {
+        let data = b"abchello world";
+        let offsets = [0, 0, 3, 14];
+        let inputs: [&[u8]; 3] = [b"", b"abc", b"hello world"];
+        let expected: Vec<u8> = inputs.iter().flat_map(|input| sha512_hash(input)).collect();
+        assert_eq!(sha512_hash_many(data, &offsets).unwrap(), expected);
+        let expected: Vec<u8> = inputs.iter().flat_map(|input| sha384_hash(input)).collect();
+        assert_eq!(sha384_hash_many(data, &offsets).unwrap(), expected);
+        let expected: Vec<u8> = inputs
+            .iter()
+            .flat_map(|input| sha512_256_hash(input))
+            .collect();
+        assert_eq!(sha512_256_hash_many(data, &offsets).unwrap(), expected);
+    }
+
+    #[test]
+    fn test_hash_many_empty_batch() {
+        assert!(sha512_hash_many(b"abc", &[]).unwrap().is_empty());
+        assert!(sha384_hash_many(b"abc", &[2]).unwrap().is_empty());
+    }
+
+    #[test]
+    fn test_hash_many_rejects_bad_offsets() {
+        assert!(sha512_hash_many(b"abc", &[0, 4]).is_err());
+        assert!(sha512_256_hash_many(b"abc", &[2, 1]).is_err());
+    }
+
+    #[test]
+    fn test_timing_safe_equal() {
+        assert!(timing_safe_equal(b"", b""));
+        assert!(timing_safe_equal(b"abc", b"abc"));
+        assert!(!timing_safe_equal(b"abc", b"abd"));
+        assert!(!timing_safe_equal(b"abc", b"ab"));
+    }
+
+    #[test]
+    fn test_timing_safe_equal_hex() {
+        assert!(timing_safe_equal_hex(&[0xab, 0x01], "ab01"));
+        assert!(timing_safe_equal_hex(&[0xab, 0x01], "AB01"));
+        assert!(!timing_safe_equal_hex(&[0xab, 0x01], "ab02"));
+        assert!(!timing_safe_equal_hex(&[0xab, 0x01], "ab0"));
+        assert!(!timing_safe_equal_hex(&[0xab, 0x01], "ab0100"));
+        assert!(!timing_safe_equal_hex(&[0xab, 0x01], "zz01"));
+    }
+}
@@ -0,0 +1,487 @@
+use base64::engine::general_purpose::{STANDARD, URL_SAFE_NO_PAD};
+use base64::Engine as _;
+use subtle::ConstantTimeEq;
+use xxhash_rust::xxh3::{xxh3_128_with_seed, xxh3_64_with_seed, Xxh3};
+use xxhash_rust::xxh64::{xxh64, Xxh64};
+
+#[cfg(feature = "wasm")]
+use wasm_bindgen::prelude::*;
+
+// ---------------------------------------------------------------------------
+// Byte order
+//
+// xxHash results are integers. Byte outputs use the canonical big-endian
+// representation (as printed by `xxhsum`), so the hex of the bytes is the
+// hex of the integer. `u64` results cross the WASM boundary as `bigint`.
+// ---------------------------------------------------------------------------
+
+// ---------------------------------------------------------------------------
+// XXH3-64 one-shot functions
+// ---------------------------------------------------------------------------
+
+/// One-shot XXH3-64 hash returning the 64-bit integer.
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn xxh3_64_u64(data: &[u8], seed: u64) -> u64 {
+    xxh3_64_with_seed(data, seed)
+}
+
+/// One-shot XXH3-64 hash returning 8 big-endian bytes.
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn xxh3_64_hash(data: &[u8], seed: u64) -> Vec<u8> {
+    xxh3_64_with_seed(data, seed).to_be_bytes().to_vec()
+}
+
+/// One-shot XXH3-64 hash returning hex string.
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn xxh3_64_hex(data: &[u8], seed: u64) -> String {
+    hex::encode(xxh3_64_with_seed(data, seed).to_be_bytes())
+}
+
+// ---------------------------------------------------------------------------
+// XXH3-128 one-shot functions
+// ---------------------------------------------------------------------------
+
+/// One-shot XXH3-128 hash returning 16 big-endian bytes.
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn xxh3_128_hash(data: &[u8], seed: u64) -> Vec<u8> {
+    xxh3_128_with_seed(data, seed).to_be_bytes().to_vec()
+}
+
+/// One-shot XXH3-128 hash returning hex string.
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn xxh3_128_hex(data: &[u8], seed: u64) -> String {
+    hex::encode(xxh3_128_with_seed(data, seed).to_be_bytes())
+}
+
+// ---------------------------------------------------------------------------
+// XXH64 one-shot functions
+// ---------------------------------------------------------------------------
+
+/// One-shot XXH64 hash returning the 64-bit integer.
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn xxh64_u64(data: &[u8], seed: u64) -> u64 {
+    xxh64(data, seed)
+}
+
+/// One-shot XXH64 hash returning 8 big-endian bytes.
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn xxh64_hash(data: &[u8], seed: u64) -> Vec<u8> {
+    xxh64(data, seed).to_be_bytes().to_vec()
+}
+
+/// One-shot XXH64 hash returning hex string.
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn xxh64_hex(data: &[u8], seed: u64) -> String {
+    hex::encode(xxh64(data, seed).to_be_bytes())
+}
+
+// ---------------------------------------------------------------------------
+// String input variants (UTF-8 encoded in WASM, avoiding a JS TextEncoder)
+// ---------------------------------------------------------------------------
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn xxh3_64_u64_str(data: &str, seed: u64) -> u64 {
+    xxh3_64_u64(data.as_bytes(), seed)
+}
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn xxh3_64_hash_str(data: &str, seed: u64) -> Vec<u8> {
+    xxh3_64_hash(data.as_bytes(), seed)
+}
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn xxh3_64_hex_str(data: &str, seed: u64) -> String {
+    xxh3_64_hex(data.as_bytes(), seed)
+}
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn xxh3_128_hash_str(data: &str, seed: u64) -> Vec<u8> {
+    xxh3_128_hash(data.as_bytes(), seed)
+}
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn xxh3_128_hex_str(data: &str, seed: u64) -> String {
+    xxh3_128_hex(data.as_bytes(), seed)
+}
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn xxh64_u64_str(data: &str, seed: u64) -> u64 {
+    xxh64_u64(data.as_bytes(), seed)
+}
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn xxh64_hash_str(data: &str, seed: u64) -> Vec<u8> {
+    xxh64_hash(data.as_bytes(), seed)
+}
+
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn xxh64_hex_str(data: &str, seed: u64) -> String {
+    xxh64_hex(data.as_bytes(), seed)
+}
+
+// ---------------------------------------------------------------------------
+// Batch hashing
+//
+// Hash many inputs packed into one buffer in a single WASM call, instead of
+// paying a boundary crossing and a result allocation per input. Input `i` is
+// `data[offsets[i]..offsets[i + 1]]`, so `n` inputs take `n + 1` offsets.
+// ---------------------------------------------------------------------------
+
+/// Split `data` into the inputs described by `offsets`, rejecting offsets
+/// that decrease or run past the end of `data`.
+fn batch_inputs<'a>(data: &'a [u8], offsets: &[u32]) -> Result<Vec<&'a [u8]>, String> {
+    offsets
+        .windows(2)
+        .map(|pair| {
+            let (start, end) = (pair[0] as usize, pair[1] as usize);
+            data.get(start..end).ok_or_else(|| {
+                format!(
+                    "Invalid offsets: {}..{} is out of range for {} bytes",
+                    start,
+                    end,
+                    data.len()
+                )
+            })
+        })
+        .collect()
+}
+
+/// Hash every input with `seed` and return the 8-byte XXH3-64 big-endian results
+/// concatenated in input order.
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn xxh3_64_hash_many(data: &[u8], offsets: &[u32], seed: u64) -> Result<Vec<u8>, String> {
+    let inputs = batch_inputs(data, offsets)?;
+    let mut out = Vec::with_capacity(inputs.len() * 8);
+    for input in inputs {
+        out.extend_from_slice(&xxh3_64_with_seed(input, seed).to_be_bytes());
+    }
+    Ok(out)
+}
+
+/// Hash every input with `seed` and return the 16-byte XXH3-128 big-endian results
+/// concatenated in input order.
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn xxh3_128_hash_many(data: &[u8], offsets: &[u32], seed: u64) -> Result<Vec<u8>, String> {
+    let inputs = batch_inputs(data, offsets)?;
+    let mut out = Vec::with_capacity(inputs.len() * 16);
+    for input in inputs {
+        out.extend_from_slice(&xxh3_128_with_seed(input, seed).to_be_bytes());
+    }
+    Ok(out)
+}
+
+/// Hash every input with `seed` and return the 8-byte XXH64 big-endian results
+/// concatenated in input order.
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn xxh64_hash_many(data: &[u8], offsets: &[u32], seed: u64) -> Result<Vec<u8>, String> {
+    let inputs = batch_inputs(data, offsets)?;
+    let mut out = Vec::with_capacity(inputs.len() * 8);
+    for input in inputs {
+        out.extend_from_slice(&xxh64(input, seed).to_be_bytes());
+    }
+    Ok(out)
+}
+
+// ---------------------------------------------------------------------------
+// Streaming hashers
+//
+// `$new` builds the inner state from a seed (used by both `new` and
+// `reset`), `$digest` is the inner method producing the integer result.
+// ---------------------------------------------------------------------------
+
+macro_rules! streaming_hasher {
+    ($name:ident, $inner:ty, $new:path, $digest:ident, $label:literal) => {
+        #[cfg_attr(feature = "wasm", wasm_bindgen)]
+        #[derive(Clone)]
+        pub struct $name {
+            inner: $inner,
+            seed: u64,
+        }
+
+        #[cfg_attr(feature = "wasm", wasm_bindgen)]
+        impl $name {
+            #[doc = concat!("Create a new ", $label, " hasher with the given seed.")]
+            #[cfg_attr(feature = "wasm", wasm_bindgen(constructor))]
+            pub fn new(seed: u64) -> Self {
+                $name {
+                    inner: $new(seed),
+                    seed,
+                }
+            }
+
+            /// Feed data into the hasher. Can be called multiple times.
+            pub fn update(&mut self, data: &[u8]) {
+                self.inner.update(data);
+            }
+
+            /// Feed a string into the hasher as UTF-8.
+            #[cfg_attr(feature = "wasm", wasm_bindgen(js_name = "updateStr"))]
+            pub fn update_str(&mut self, data: &str) {
+                self.inner.update(data.as_bytes());
+            }
+
+            /// Finalize and return the hash as big-endian bytes.
+            /// The hasher state is NOT consumed — you can continue calling `update`
+            /// after `finalize` to get incremental hashes.
+            pub fn finalize(&self) -> Vec<u8> {
+                self.inner.$digest().to_be_bytes().to_vec()
+            }
+
+            /// Duplicate the hasher, including any data absorbed so far.
+            /// The copy is fully independent and owns its own WASM allocation.
+            pub fn fork(&self) -> $name {
+                self.clone()
+            }
+
+            /// Reset the hasher to its initial state, keeping the seed.
+            pub fn reset(&mut self) {
+                self.inner = $new(self.seed);
+            }
+
+            /// Consumptive finalize: returns the hash and drops the hasher.
+            /// Single WASM boundary crossing (vs finalize + free = 2 crossings).
+            pub fn digest(self) -> Box<[u8]> {
+                self.finalize().into_boxed_slice()
+            }
+
+            /// Consumptive finalize returning hex string directly.
+            #[cfg_attr(feature = "wasm", wasm_bindgen(js_name = "digestHex"))]
+            pub fn digest_hex(self) -> String {
+                hex::encode(self.inner.$digest().to_be_bytes())
+            }
+
+            /// Consumptive finalize returning standard (padded) base64.
+            #[cfg_attr(feature = "wasm", wasm_bindgen(js_name = "digestBase64"))]
+            pub fn digest_base64(self) -> String {
+                STANDARD.encode(self.inner.$digest().to_be_bytes())
+            }
+
+            /// Consumptive finalize returning unpadded base64url.
+            #[cfg_attr(feature = "wasm", wasm_bindgen(js_name = "digestBase64Url"))]
+            pub fn digest_base64url(self) -> String {
+                URL_SAFE_NO_PAD.encode(self.inner.$digest().to_be_bytes())
+            }
+        }
+
+        impl Default for $name {
+            fn default() -> Self {
+                Self::new(0)
+            }
+        }
+    };
+}
+
+streaming_hasher!(Xxh3_64Hasher, Xxh3, Xxh3::with_seed, digest, "XXH3-64");
+streaming_hasher!(Xxh3_128Hasher, Xxh3, Xxh3::with_seed, digest128, "XXH3-128");
+streaming_hasher!(Xxh64Hasher, Xxh64, Xxh64::new, digest, "XXH64");
+
+// ---------------------------------------------------------------------------
+// Constant-time comparison
+// ---------------------------------------------------------------------------
+
+/// Compare two byte strings in constant time, e.g. a computed MAC with an
+/// expected tag. Only the lengths are compared in variable time: strings of
+/// different lengths are unequal.
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn timing_safe_equal(a: &[u8], b: &[u8]) -> bool {
+    a.ct_eq(b).into()
+}
+
+/// Like `timing_safe_equal`, with `expected` given as hex (either case).
+/// Returns `false` if `expected` is not valid hex.
+#[cfg_attr(feature = "wasm", wasm_bindgen)]
+pub fn timing_safe_equal_hex(actual: &[u8], expected: &str) -> bool {
+    match hex::decode(expected) {
+        Ok(expected) => timing_safe_equal(actual, &expected),
+        Err(_) => false,
+    }
+}
+
+#[cfg(test)]
+mod tests {
+    use super::*;
+    use hex::encode;
+
+    // Reference values from the xxHash sanity checks / `xxhsum`.
+    const XXH3_64_EMPTY: &str = "2d06800538d394c2";
+    const XXH3_128_EMPTY: &str = "99aa06d3014798d86001c324468d497f";
+    const XXH64_EMPTY: &str = "ef46db3751d8e999";
+    const XXH64_ABC: &str = "44bc2cf5ad770999";
+
+    // -----------------------------------------------------------------------
+    // One-shot
+    // -----------------------------------------------------------------------
+
+    #[test]
+    fn test_xxh3_64_empty() {
+        assert_eq!(xxh3_64_hex(b"", 0), XXH3_64_EMPTY);
+        assert_eq!(xxh3_64_u64(b"", 0), 0x2d06800538d394c2);
+        assert_eq!(encode(xxh3_64_hash(b"", 0)), XXH3_64_EMPTY);
+    }
+
+    #[test]
+    fn test_xxh3_128_empty() {
+        assert_eq!(xxh3_128_hex(b"", 0), XXH3_128_EMPTY);
+        assert_eq!(xxh3_128_hash(b"", 0).len(), 16);
+    }
+
+    #[test]
+    fn test_xxh64_vectors() {
+        assert_eq!(xxh64_hex(b"", 0), XXH64_EMPTY);
+        assert_eq!(xxh64_hex(b"abc", 0), XXH64_ABC);
+        assert_eq!(xxh64_u64(b"abc", 0), 0x44bc2cf5ad770999);
+    }
+
+    #[test]
+    fn test_seed_changes_result() {
+        assert_ne!(xxh3_64_u64(b"abc", 0), xxh3_64_u64(b"abc", 1));
+        assert_ne!(xxh3_128_hex(b"abc", 0), xxh3_128_hex(b"abc", 1));
+        assert_ne!(xxh64_u64(b"abc", 0), xxh64_u64(b"abc", 1));
+    }
+
+    #[test]
+    fn test_str_variants() {
+        assert_eq!(xxh3_64_u64_str("abc", 7), xxh3_64_u64(b"abc", 7));
+        assert_eq!(xxh3_64_hash_str("abc", 7), xxh3_64_hash(b"abc", 7));
+        assert_eq!(xxh3_64_hex_str("abc", 7), xxh3_64_hex(b"abc", 7));
+        assert_eq!(xxh3_128_hash_str("abc", 7), xxh3_128_hash(b"abc", 7));
+        assert_eq!(xxh3_128_hex_str("abc", 7), xxh3_128_hex(b"abc", 7));
+        assert_eq!(xxh64_u64_str("abc", 7), xxh64_u64(b"abc", 7));
+        assert_eq!(xxh64_hash_str("abc", 7), xxh64_hash(b"abc", 7));
+        assert_eq!(xxh64_hex_str("abc", 7), xxh64_hex(b"abc", 7));
+    }
+
+    // -----------------------------------------------------------------------
+    // Streaming
+    // -----------------------------------------------------------------------
+
+    #[test]
+    fn test_streaming_matches_one_shot() {
+        let data: Vec<u8> = (0..1000u32).map(|i| i as u8).collect();
+
+        let mut h3 = Xxh3_64Hasher::new(42);
+        let mut h128 = Xxh3_128Hasher::new(42);
+        let mut h64 = Xxh64Hasher::new(42);
+        for chunk in data.chunks(37) {
+            h3.update(chunk);
+            h128.update(chunk);
+            h64.update(chunk);
+        }
+
+        assert_eq!(h3.finalize(), xxh3_64_hash(&data, 42));
+        assert_eq!(h128.finalize(), xxh3_128_hash(&data, 42));
+        assert_eq!(h64.finalize(), xxh64_hash(&data, 42));
+    }
+
+    #[test]
+    fn test_streaming_reset_keeps_seed() {
+        let mut hasher = Xxh64Hasher::new(9);
+        hasher.update(b"garbage");
+        hasher.reset();
+        hasher.update_str("abc");
+        assert_eq!(hasher.digest_hex(), xxh64_hex(b"abc", 9));
+
+        let mut hasher = Xxh3_128Hasher::new(9);
+        hasher.update(b"garbage");
+        hasher.reset();
+        hasher.update(b"abc");
+        assert_eq!(hasher.digest_hex(), xxh3_128_hex(b"abc", 9));
+    }
+
+    #[test]
+    fn test_streaming_finalize_non_consumptive() {
+        let mut hasher = Xxh3_64Hasher::default();
+        hasher.update(b"abc");
+        let first = hasher.finalize();
+        assert_eq!(hasher.finalize(), first);
+        hasher.update(b"def");
+        assert_eq!(hasher.finalize(), xxh3_64_hash(b"abcdef", 0));
+    }
+
+    #[test]
+    fn test_streaming_fork() {
+        let mut parent = Xxh3_128Hasher::new(1);
+        parent.update(b"hello");
+        let mut child = parent.fork();
+        parent.update(b" there");
+        child.update(b" world");
+        assert_eq!(
+            child.digest(),
+            xxh3_128_hash(b"hello world", 1).into_boxed_slice()
+        );
+        assert_eq!(
+            parent.digest(),
+            xxh3_128_hash(b"hello there", 1).into_boxed_slice()
+        );
+    }
+
+    #[test]
+    fn test_streaming_digest_base64() {
+        let mut hasher = Xxh64Hasher::default();
+        hasher.update(b"abc");
+        assert_eq!(
+            hasher.clone().digest_base64(),
+            STANDARD.encode(xxh64_hash(b"abc", 0))
+        );
+        assert_eq!(
+            hasher.digest_base64url(),
+            URL_SAFE_NO_PAD.encode(xxh64_hash(b"abc", 0))
+        );
+    }
+
+    // -----------------------------------------------------------------------
+    // Batch
+    // -----------------------------------------------------------------------
+
+    #[test]
+    fn test_hash_many_matches_one_shot() {
+        let data = b"abchello world";
+        let offsets = [0, 0, 3, 14];
+        let inputs: [&[u8]; 3] = [b"", b"abc", b"hello world"];
+        let expected: Vec<u8> = inputs
+            .iter()
+            .flat_map(|input| xxh3_64_hash(input, 5))
+            .collect();
+        assert_eq!(xxh3_64_hash_many(data, &offsets, 5).unwrap(), expected);
+        let expected: Vec<u8> = inputs
+            .iter()
+            .flat_map(|input| xxh3_128_hash(input, 5))
+            .collect();
+        assert_eq!(xxh3_128_hash_many(data, &offsets, 5).unwrap(), expected);
+        let expected: Vec<u8> = inputs
+            .iter()
+            .flat_map(|input| xxh64_hash(input, 5))
+            .collect();
+        assert_eq!(xxh64_hash_many(data, &offsets, 5).unwrap(), expected);
+    }
+
+    #[test]
+    fn test_hash_many_empty_batch() {
+        assert!(xxh3_64_hash_many(b"abc", &[], 0).unwrap().is_empty());
+        assert!(xxh64_hash_many(b"abc", &[2], 0).unwrap().is_empty());
+    }
+
+    #[test]
+    fn test_hash_many_rejects_bad_offsets() {
+        assert!(xxh3_128_hash_many(b"abc", &[0, 4], 0).is_err());
+        assert!(xxh64_hash_many(b"abc", &[2, 1], 0).is_err());
+    }
+
+    #[test]
+    fn test_timing_safe_equal() {
+        assert!(timing_safe_equal(b"", b""));
+        assert!(timing_safe_equal(b"abc", b"abc"));
+        assert!(!timing_safe_equal(b"abc", b"abd"));
+        assert!(!timing_safe_equal(b"abc", b"ab"));
+    }
+
+    #[test]
+    fn test_timing_safe_equal_hex() {
+        assert!(timing_safe_equal_hex(&[0xab, 0x01], "ab01"));
+        assert!(timing_safe_equal_hex(&[0xab, 0x01], "AB01"));
+        assert!(!timing_safe_equal_hex(&[0xab, 0x01], "ab02"));
+        assert!(!timing_safe_equal_hex(&[0xab, 0x01], "ab0"));
+        assert!(!timing_safe_equal_hex(&[0xab, 0x01], "ab0100"));
+        assert!(!timing_safe_equal_hex(&[0xab, 0x01], "zz01"));
+    }
+}